@@ -1,5 +1,5 @@
 import {useMemo} from 'react';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 import type {SpringValue} from '@react-spring/core';
 
 import {getRoundedRectPath} from '../../utilities/getRoundedRectPath';
@@ -14,7 +14,7 @@ export interface Props {
   value: number | null;
   width: number;
   x: number;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   borderRadius?: number;
   height?: Height;
 }
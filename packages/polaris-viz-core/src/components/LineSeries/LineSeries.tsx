@@ -1,6 +1,7 @@
 import {Fragment, useMemo} from 'react';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric, ScaleLinear} from 'd3-scale';
 import {area as areaShape, line} from 'd3-shape';
+import {useSpring} from '@react-spring/core';
 
 import {usePrevious} from '../../hooks';
 import type {LineChartDataSeriesWithDefaults} from '../../types';
@@ -9,19 +10,20 @@ import type {DataPoint, GradientStop} from '../../';
 import {
   usePolarisVizContext,
   useTheme,
-  curveStepRounded,
+  getLineCurve,
   uniqueId,
   getColorVisionEventAttrs,
   getColorVisionStylesForActiveIndex,
   useChartContext,
   getGradientFromColor,
+  getAverageColor,
 } from '../../';
 import {
   COLOR_VISION_SINGLE_ITEM,
   SHAPE_ANIMATION_HEIGHT_BUFFER,
 } from '../../constants';
 
-import {Area, AnimatedLine, AnimatedArea} from './components';
+import {Area, AnimatedLine, AnimatedArea, ConfidenceBand} from './components';
 
 const ANIMATION_DELAY = 200;
 const SPARK_STROKE_WIDTH = 1.5;
@@ -31,7 +33,7 @@ export interface LineSeriesProps {
   index: number;
   svgDimensions: {width: number; height: number};
   xScale: ScaleLinear<number, number>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   activeLineIndex?: number;
   hiddenIndexes?: number[];
   theme: string;
@@ -77,10 +79,20 @@ export function LineSeries({
     .y1(({value}) => yScale(value ?? 0))
     .defined(({value}) => value != null);
 
-  if (selectedTheme.line.hasSpline) {
-    lineGenerator.curve(curveStepRounded);
-    areaGenerator.curve(curveStepRounded);
-  }
+  const bandGenerator = areaShape<DataPoint>()
+    .x((_: DataPoint, index: number) => xScale(index))
+    .y0(({lower}) => yScale(lower ?? 0))
+    .y1(({upper}) => yScale(upper ?? 0))
+    .defined(({lower, upper}) => lower != null && upper != null);
+
+  const curve = getLineCurve({
+    curve: data.styleOverride?.line?.curve,
+    hasSpline: selectedTheme.line.hasSpline,
+  });
+
+  lineGenerator.curve(curve);
+  areaGenerator.curve(curve);
+  bandGenerator.curve(curve);
 
   const lineShape = lineGenerator(data.data);
   const [lastLinePoint] = data.data
@@ -97,9 +109,17 @@ export function LineSeries({
 
   const areaPath = areaGenerator(data.data);
 
+  const hasBand = data.data.some(
+    ({lower, upper}) => lower != null && upper != null,
+  );
+  const bandPath = hasBand ? bandGenerator(data.data) : null;
+
   const id = useMemo(() => uniqueId('line-series'), []);
   const immediate = !shouldAnimate;
 
+  const isHidden = hiddenIndexes.includes(index);
+  const {opacity} = useSpring({opacity: isHidden ? 0 : 1, immediate});
+
   const lineGradientColor = getGradientFromColor(color);
 
   const isSolidLine = data.isComparison !== true;
@@ -137,6 +157,14 @@ export function LineSeries({
 
   const zeroLineY = yScale(0);
 
+  const bandGradient = getGradientFromColor(color);
+  const bandColor = data.isComparison
+    ? selectedTheme.seriesColors.comparison
+    : getAverageColor(
+        bandGradient[0].color,
+        bandGradient[bandGradient.length - 1].color,
+      );
+
   /* Renders visual points for isolated data points in a comparison dataset.
   The dash stroke is too small to render these points effectively. */
   const renderIsolatedPoints = (
@@ -168,8 +196,8 @@ export function LineSeries({
   return (
     <Fragment>
       <AnimatedGroup
-        opacity={1}
-        style={{display: hiddenIndexes.includes(index) ? 'none' : undefined}}
+        opacity={opacity}
+        style={{pointerEvents: isHidden ? 'none' : undefined}}
       >
         <Defs>
           <LinearGradientWithStops
@@ -218,6 +246,8 @@ export function LineSeries({
           </Mask>
         </Defs>
 
+        <ConfidenceBand bandPath={bandPath} color={bandColor} />
+
         {showArea &&
           (dataIsValidForAnimation ? (
             <AnimatedArea
@@ -0,0 +1,33 @@
+import type {SpringValue} from '@react-spring/core';
+
+import {usePolarisVizContext} from '../../../../hooks';
+import {changeColorOpacity} from '../../../../utilities';
+
+export const CONFIDENCE_BAND_OPACITY = 0.2;
+
+export interface ConfidenceBandProps {
+  bandPath: SpringValue<string | null> | string | null;
+  color: string;
+}
+
+export function ConfidenceBand({bandPath, color}: ConfidenceBandProps) {
+  const {
+    components: {Path},
+    animated,
+  } = usePolarisVizContext();
+
+  const AnimatedPath = animated(Path);
+
+  if (bandPath == null) {
+    return null;
+  }
+
+  return (
+    <AnimatedPath
+      d={bandPath}
+      fill={changeColorOpacity(color, CONFIDENCE_BAND_OPACITY)}
+      strokeWidth="0"
+      style={{pointerEvents: 'none'}}
+    />
+  );
+}
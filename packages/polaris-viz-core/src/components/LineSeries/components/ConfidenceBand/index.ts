@@ -0,0 +1 @@
+export {ConfidenceBand} from './ConfidenceBand';
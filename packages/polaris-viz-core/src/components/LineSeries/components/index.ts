@@ -1,3 +1,4 @@
 export {Area} from './Area';
 export {AnimatedLine} from './AnimatedLine';
 export {AnimatedArea} from './AnimatedArea';
+export {ConfidenceBand} from './ConfidenceBand';
@@ -7,7 +7,7 @@ import '@shopify/react-testing/matchers';
 
 import type {LineSeriesProps} from '../LineSeries';
 import {LineSeries} from '../LineSeries';
-import {Area} from '../components';
+import {Area, ConfidenceBand} from '../components';
 import {
   DEFAULT_THEME_NAME,
   SHAPE_ANIMATION_HEIGHT_BUFFER,
@@ -137,6 +137,42 @@ describe('<LineSeries />', () => {
     });
   });
 
+  describe('lower/upper', () => {
+    it('does not render a band path without bounds', () => {
+      const lineSeries = mountWithProvider(
+        <svg>
+          <LineSeries {...defaultProps} />
+        </svg>,
+      );
+
+      expect(lineSeries).toContainReactComponent(ConfidenceBand, {
+        bandPath: null,
+      });
+    });
+
+    it('passes a path between the bounds to <ConfidenceBand />', () => {
+      const lineSeries = mountWithProvider(
+        <svg>
+          <LineSeries
+            {...defaultProps}
+            data={{
+              color: 'red',
+              data: [
+                {key: 0, value: 50, lower: 40, upper: 60},
+                {key: 1, value: 50, lower: 30, upper: 70},
+              ],
+            }}
+          />
+        </svg>,
+      );
+
+      const bandPath = lineSeries.find(ConfidenceBand)?.props.bandPath;
+
+      expect(bandPath).toStrictEqual(expect.stringMatching(/^M0,60.*Z$/));
+      expect(bandPath).toContain('L1,70');
+    });
+  });
+
   describe('theme', () => {
     describe('theme.seriesColors.comparison', () => {
       it('gets passed to <Rect> if data series isComparison', () => {
@@ -202,4 +238,66 @@ describe('<LineSeries />', () => {
       });
     });
   });
+
+  describe('styleOverride.line.curve', () => {
+    it('overrides theme.line.hasSpline', () => {
+      const lineSeries = mountWithProvider(
+        <svg>
+          <LineSeries
+            {...defaultProps}
+            data={{...mockData, styleOverride: {line: {curve: 'linear'}}}}
+          />
+        </svg>,
+      );
+
+      expect(lineSeries).toContainReactComponent('path', {
+        d: 'M0,100L1,50',
+      });
+    });
+
+    it('renders a step after line', () => {
+      const lineSeries = mountWithProvider(
+        <svg>
+          <LineSeries
+            {...defaultProps}
+            data={{...mockData, styleOverride: {line: {curve: 'stepAfter'}}}}
+          />
+        </svg>,
+      );
+
+      expect(lineSeries).toContainReactComponent('path', {
+        d: 'M0,100L1,100L1,50',
+      });
+    });
+
+    it('renders a step before line', () => {
+      const lineSeries = mountWithProvider(
+        <svg>
+          <LineSeries
+            {...defaultProps}
+            data={{...mockData, styleOverride: {line: {curve: 'stepBefore'}}}}
+          />
+        </svg>,
+      );
+
+      expect(lineSeries).toContainReactComponent('path', {
+        d: 'M0,100L0,50L1,50',
+      });
+    });
+
+    it('applies the curve to the area', () => {
+      const lineSeries = mountWithProvider(
+        <svg>
+          <LineSeries
+            {...defaultProps}
+            data={{...mockData, styleOverride: {line: {curve: 'stepAfter'}}}}
+          />
+        </svg>,
+      );
+
+      expect(
+        JSON.stringify(lineSeries.find(Area)?.props.areaPath),
+      ).toStrictEqual('"M0,100L1,100L1,50L1,100L1,100L0,100Z"');
+    });
+  });
 });
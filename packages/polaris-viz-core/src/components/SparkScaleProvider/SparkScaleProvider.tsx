@@ -0,0 +1,29 @@
+import type {ReactNode} from 'react';
+import {useMemo} from 'react';
+
+import type {DataSeries} from '../../types';
+import {SparkScaleContext} from '../../contexts';
+import {getSparkYDomain} from '../../utilities';
+
+export interface SparkScaleProviderProps {
+  children: ReactNode;
+  /**
+   * The data of every spark chart that shares the scale,
+   * including those that aren't rendered.
+   */
+  data: DataSeries[][];
+}
+
+export function SparkScaleProvider({children, data}: SparkScaleProviderProps) {
+  const value = useMemo(() => {
+    const yDomain = getSparkYDomain(data);
+
+    return yDomain == null ? null : {yDomain};
+  }, [data]);
+
+  return (
+    <SparkScaleContext.Provider value={value}>
+      {children}
+    </SparkScaleContext.Provider>
+  );
+}
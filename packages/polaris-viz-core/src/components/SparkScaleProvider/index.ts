@@ -0,0 +1,2 @@
+export {SparkScaleProvider} from './SparkScaleProvider';
+export type {SparkScaleProviderProps} from './SparkScaleProvider';
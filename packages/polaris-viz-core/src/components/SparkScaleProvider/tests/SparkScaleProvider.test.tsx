@@ -0,0 +1,36 @@
+import {mount} from '@shopify/react-testing';
+import '@shopify/react-testing/matchers';
+
+import {SparkScaleContext} from '../../../contexts';
+import {SparkScaleProvider} from '../SparkScaleProvider';
+
+describe('<SparkScaleProvider />', () => {
+  it('provides the y-domain of all charts', () => {
+    const provider = mount(
+      <SparkScaleProvider
+        data={[
+          [{data: [{key: 1, value: 10}]}],
+          [{data: [{key: 1, value: 70}]}],
+        ]}
+      >
+        <div />
+      </SparkScaleProvider>,
+    );
+
+    expect(provider).toContainReactComponent(SparkScaleContext.Provider, {
+      value: {yDomain: [10, 70]},
+    });
+  });
+
+  it('provides null without values', () => {
+    const provider = mount(
+      <SparkScaleProvider data={[]}>
+        <div />
+      </SparkScaleProvider>,
+    );
+
+    expect(provider).toContainReactComponent(SparkScaleContext.Provider, {
+      value: null,
+    });
+  });
+});
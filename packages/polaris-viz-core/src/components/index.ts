@@ -4,3 +4,5 @@ export {LineSeries} from './LineSeries';
 export {Bar} from './Bar';
 export type {PolarisVizProviderProps} from './PolarisVizProvider';
 export {SparkBarSeries} from './SparkBarSeries';
+export {SparkScaleProvider} from './SparkScaleProvider';
+export type {SparkScaleProviderProps} from './SparkScaleProvider';
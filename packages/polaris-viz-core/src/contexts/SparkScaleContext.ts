@@ -0,0 +1,10 @@
+import {createContext} from 'react';
+
+export interface SparkScaleContextValues {
+  yDomain: [number, number];
+}
+
+// Provided around spark charts that should be drawn against the
+// same y-domain, like the cells of one column in a table.
+export const SparkScaleContext =
+  createContext<SparkScaleContextValues | null>(null);
@@ -1,3 +1,5 @@
 export {PolarisVizContext} from './PolarisVizContext';
 export {ChartContext} from './ChartContext';
 export type {ChartContextValues} from './ChartContext';
+export {SparkScaleContext} from './SparkScaleContext';
+export type {SparkScaleContextValues} from './SparkScaleContext';
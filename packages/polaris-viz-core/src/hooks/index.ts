@@ -11,3 +11,4 @@ export {usePrevious} from './usePrevious';
 export {useChartPositions} from './useChartPositions';
 export {useSpringConfig} from './useSpringConfig';
 export {useFilteredSparkLineData} from './useFilteredSparkLineData';
+export {useSparkTableScales, getSparkTableSeries} from './useSparkTableScales';
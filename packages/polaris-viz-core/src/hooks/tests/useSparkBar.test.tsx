@@ -1,7 +1,11 @@
 import {mount} from '@shopify/react-testing';
 
+import type {SparkScaleContextValues} from '../../contexts';
+import {SparkScaleContext} from '../../contexts';
 import {useSparkBar} from '../useSparkBar';
 
+const SPARK_SCALE: SparkScaleContextValues = {yDomain: [-50, 100]};
+
 describe('useSparkBar', () => {
   describe('dataWithIndex', () => {
     it.each`
@@ -88,4 +92,34 @@ describe('useSparkBar', () => {
       },
     );
   });
+
+  describe('yScale', () => {
+    it('uses the y-domain of a parent <SparkScaleProvider />', () => {
+      const TestComponent = () => {
+        const {yScale} = useSparkBar({
+          data: [
+            {
+              data: [
+                {key: '1', value: 10},
+                {key: '2', value: 20},
+              ],
+            },
+          ],
+          height: 108,
+          width: 100,
+          seriesColor: 'red',
+        });
+
+        return <div>{yScale.domain().join(',')}</div>;
+      };
+
+      const mockComponent = mount(
+        <SparkScaleContext.Provider value={SPARK_SCALE}>
+          <TestComponent />
+        </SparkScaleContext.Provider>,
+      );
+
+      expect(mockComponent.text()).toBe('-50,100');
+    });
+  });
 });
@@ -1,5 +1,7 @@
 import {mount} from '@shopify/react-testing';
 
+import type {SparkScaleContextValues} from '../../contexts';
+import {SparkScaleContext} from '../../contexts';
 import {randomNumber} from '../../test-utilities';
 import {useSparkLine} from '../useSparkLine';
 
@@ -31,6 +33,8 @@ const generateSampleDataWithMinMax = ({minValue, maxValue, length}) => {
   return {data};
 };
 
+const SPARK_SCALE: SparkScaleContextValues = {yDomain: [0, 100]};
+
 describe('useSparkLine', () => {
   describe('minXDomain', () => {
     it.each`
@@ -131,5 +135,31 @@ describe('useSparkLine', () => {
         expect(mockComponent.text()).toBe(expected);
       },
     );
+
+    it('uses the y-domain of a parent <SparkScaleProvider />', () => {
+      const TestComponent = () => {
+        const {yScale} = useSparkLine({
+          data: [
+            {
+              data: [
+                {key: 'key 1', value: 10},
+                {key: 'key 2', value: 20},
+              ],
+            },
+          ],
+          height: 102,
+        });
+
+        return <div>{yScale(50)}</div>;
+      };
+
+      const mockComponent = mount(
+        <SparkScaleContext.Provider value={SPARK_SCALE}>
+          <TestComponent />
+        </SparkScaleContext.Provider>,
+      );
+
+      expect(mockComponent.text()).toBe('51');
+    });
   });
 });
@@ -0,0 +1,47 @@
+import {mount} from '@shopify/react-testing';
+
+import type {SparkTableColumn, SparkTableRow} from '../../types';
+import {useSparkTableScales} from '../useSparkTableScales';
+
+const COLUMNS: SparkTableColumn[] = [
+  {key: 'name', header: 'Name'},
+  {key: 'sales', header: 'Sales', type: 'line'},
+  {key: 'orders', header: 'Orders', type: 'bar', scale: 'independent'},
+];
+
+const ROWS: SparkTableRow[] = [
+  {
+    id: '1',
+    cells: {
+      name: 'Socks',
+      sales: [{data: [{key: 'Jan', value: 4}]}],
+      orders: [{data: [{key: 'Jan', value: 1}]}],
+    },
+  },
+  {
+    id: '2',
+    cells: {
+      name: 'Hats',
+      sales: [{data: [{key: 'Jan', value: 40}]}],
+      orders: [{data: [{key: 'Jan', value: 3}]}],
+    },
+  },
+];
+
+describe('useSparkTableScales', () => {
+  it('returns a y-domain shared by all rows of each spark column', () => {
+    const TestComponent = () => {
+      const scales = useSparkTableScales(COLUMNS, ROWS);
+
+      return <div>{JSON.stringify(scales)}</div>;
+    };
+
+    const mockComponent = mount(<TestComponent />);
+
+    expect(JSON.parse(mockComponent.text())).toStrictEqual({
+      name: null,
+      sales: {yDomain: [4, 40]},
+      orders: null,
+    });
+  });
+});
@@ -411,4 +411,131 @@ describe('useYScale()', () => {
       expect(domainSpy).toHaveBeenCalledWith([0, maxYOverride]);
     });
   });
+
+  describe('custom domains', () => {
+    let domainSpy = jest.fn();
+    let clampSpy = jest.fn();
+
+    beforeEach(() => {
+      (scaleLinear as jest.Mock).mockImplementation(() => {
+        let currentDomain = [0, 0];
+        const scale = (value: any) => value;
+        scale.ticks = (numTicks: number) => Array.from(Array(numTicks));
+        scale.range = (range: any) => (range ? scale : range);
+        domainSpy = jest.fn((domain: any) => {
+          if (domain) {
+            currentDomain = domain;
+            return scale;
+          }
+
+          return currentDomain;
+        });
+        clampSpy = jest.fn(() => scale);
+        scale.domain = domainSpy;
+        scale.nice = () => scale;
+        scale.copy = () => scale;
+        scale.clamp = clampSpy;
+        return scale;
+      });
+    });
+
+    it('creates a y scale with the domain minimum set to minYOverride', () => {
+      function TestComponent() {
+        useYScale({...MOCK_PROPS, min: 40, max: 100, minYOverride: 20});
+
+        return null;
+      }
+
+      mount(<TestComponent />);
+
+      expect(domainSpy).toHaveBeenLastCalledWith([20, 100]);
+      expect(clampSpy).toHaveBeenCalledWith(true);
+    });
+
+    it('creates a y scale with the provided domain', () => {
+      function TestComponent() {
+        useYScale({...MOCK_PROPS, min: 0, max: 100, domain: [30, 60]});
+
+        return null;
+      }
+
+      mount(<TestComponent />);
+
+      expect(domainSpy).toHaveBeenLastCalledWith([30, 60]);
+      expect(clampSpy).toHaveBeenCalledWith(true);
+    });
+
+    it('creates a y scale fitted to the data when includeZero is false', () => {
+      function TestComponent() {
+        useYScale({...MOCK_PROPS, min: 40, max: 100, includeZero: false});
+
+        return null;
+      }
+
+      mount(<TestComponent />);
+
+      expect(domainSpy).toHaveBeenCalledWith([40, 100]);
+      expect(clampSpy).toHaveBeenCalledWith(true);
+    });
+
+    it('includes 0 in the domain by default', () => {
+      function TestComponent() {
+        useYScale({...MOCK_PROPS, min: 40, max: 100});
+
+        return null;
+      }
+
+      mount(<TestComponent />);
+
+      expect(domainSpy).toHaveBeenCalledWith([0, 100]);
+      expect(clampSpy).not.toHaveBeenCalled();
+    });
+
+    it('ignores maxYOverride below minYOverride when the data is not empty', () => {
+      function TestComponent() {
+        useYScale({
+          ...MOCK_PROPS,
+          min: 40,
+          max: 100,
+          minYOverride: 20,
+          maxYOverride: 10,
+        });
+
+        return null;
+      }
+
+      expect(() => mount(<TestComponent />)).not.toThrow();
+      expect(domainSpy).toHaveBeenLastCalledWith([20, 100]);
+    });
+
+    it('throws when minYOverride is not below maxYOverride for empty data', () => {
+      function TestComponent() {
+        useYScale({
+          ...MOCK_PROPS,
+          min: 0,
+          max: 0,
+          minYOverride: 20,
+          maxYOverride: 10,
+        });
+
+        return null;
+      }
+
+      expect(() => mount(<TestComponent />)).toThrow(
+        'minYOverride must be lower than maxYOverride.',
+      );
+    });
+
+    it('throws when the domain is not ascending', () => {
+      function TestComponent() {
+        useYScale({...MOCK_PROPS, domain: [60, 30]});
+
+        return null;
+      }
+
+      expect(() => mount(<TestComponent />)).toThrow(
+        'domain must be an ascending [min, max] pair.',
+      );
+    });
+  });
 });
@@ -1,20 +1,21 @@
 import {scaleBand, scaleLinear} from 'd3-scale';
-import {useCallback, useMemo} from 'react';
+import {useCallback, useContext, useMemo} from 'react';
 
 import {getGradientFromColor} from '../utilities';
-import type {Color, DataPoint, DataSeries, TargetLine} from '../types';
+import {SparkScaleContext} from '../contexts';
+import type {Color, DataSeries, TargetLine} from '../types';
 
 const STROKE_WIDTH = 1.5;
 const BAR_PADDING = 0.3;
 const MARGIN = 8;
 const BAR_MIN_HEIGHT_RATIO = 0.5;
 
-function calculateRange(data: DataPoint[], height: number) {
+function calculateRange(values: number[], height: number) {
   let hasNegatives;
   let hasPositives;
-  for (const {value} of data) {
-    if (value != null && value < 0) hasNegatives = true;
-    else if (value != null && value > 0) hasPositives = true;
+  for (const value of values) {
+    if (value < 0) hasNegatives = true;
+    else if (value > 0) hasPositives = true;
 
     if (hasNegatives && hasPositives) break;
   }
@@ -62,14 +63,20 @@ export function useSparkBar({
   const offsetLeft = Math.abs(rawOffsetLeft);
   const offsetRight = Math.abs(rawOffsetRight);
 
+  const sparkScale = useContext(SparkScaleContext);
+
   const filteredData = removeNullValues(data[0]);
   const [defaultData] = data;
 
+  // A shared domain is widened to fit the target line and 0
+  // the same way the chart's own values are.
+  const domainValues = sparkScale?.yDomain ?? filteredData;
+
   const yScale = scaleLinear()
-    .range(calculateRange(defaultData.data, height))
+    .range(calculateRange(domainValues, height))
     .domain([
-      Math.min(...filteredData, targetValue, 0),
-      Math.max(...filteredData, targetValue, 0),
+      Math.min(...domainValues, targetValue, 0),
+      Math.max(...domainValues, targetValue, 0),
     ]);
 
   const targetLineYPosition = yScale(targetValue);
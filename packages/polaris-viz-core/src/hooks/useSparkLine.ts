@@ -1,6 +1,8 @@
+import {useContext} from 'react';
 import {scaleLinear} from 'd3-scale';
 
 import type {DataSeries} from '../types';
+import {SparkScaleContext} from '../contexts';
 
 export function useSparkLine({
   data,
@@ -20,8 +22,12 @@ export function useSparkLine({
     data.map(({data}) => data.map(({value}) => value)),
   );
 
-  const minYValues = Math.min(...yValues);
-  const maxYValues = Math.max(...yValues);
+  const sparkScale = useContext(SparkScaleContext);
+
+  const [minYValues, maxYValues] = sparkScale?.yDomain ?? [
+    Math.min(...yValues),
+    Math.max(...yValues),
+  ];
 
   const rangeStart = height - svgMargin;
   let rangeEnd = svgMargin;
@@ -0,0 +1,40 @@
+import {useMemo} from 'react';
+
+import type {SparkScaleContextValues} from '../contexts';
+import type {
+  DataSeries,
+  SparkTableCellValue,
+  SparkTableColumn,
+  SparkTableRow,
+} from '../types';
+import {getSparkYDomain} from '../utilities';
+
+export function getSparkTableSeries(
+  value: SparkTableCellValue | undefined,
+): DataSeries[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Scales are worked out from every row, not just the mounted
+// ones, so they don't change while scrolling.
+export function useSparkTableScales(
+  columns: SparkTableColumn[],
+  rows: SparkTableRow[],
+) {
+  return useMemo(() => {
+    return columns.reduce<{[key: string]: SparkScaleContextValues | null}>(
+      (scales, {key, scale = 'shared', type = 'text'}) => {
+        if (type === 'text' || scale === 'independent') {
+          return {...scales, [key]: null};
+        }
+
+        const yDomain = getSparkYDomain(
+          rows.map(({cells}) => getSparkTableSeries(cells[key])),
+        );
+
+        return {...scales, [key]: yDomain == null ? null : {yDomain}};
+      },
+      {},
+    );
+  }, [columns, rows]);
+}
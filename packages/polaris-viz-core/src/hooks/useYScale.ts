@@ -1,10 +1,15 @@
 import {useMemo} from 'react';
 import {scaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 import {maxIndex} from 'd3-array';
-import type {LabelFormatter} from 'types';
+import type {LabelFormatter, YAxisScale} from 'types';
 
 import {DEFAULT_MAX_Y} from '../constants';
-import {estimateStringWidth, shouldRoundScaleUp} from '../utilities';
+import {
+  estimateStringWidth,
+  getLogarithmicYScale,
+  shouldRoundScaleUp,
+} from '../utilities';
 
 import {useChartContext} from './useChartContext';
 
@@ -20,6 +25,10 @@ export interface Props {
   verticalOverflow?: boolean;
   fixedWidth?: number | false;
   maxYOverride?: number | null;
+  minYOverride?: number | null;
+  domain?: [number, number] | null;
+  includeZero?: boolean;
+  scale?: YAxisScale;
 }
 
 export function useYScale({
@@ -32,6 +41,10 @@ export function useYScale({
   verticalOverflow = true,
   fixedWidth,
   maxYOverride,
+  minYOverride,
+  domain,
+  includeZero = true,
+  scale = 'linear',
 }: Props) {
   const {characterWidths} = useChartContext();
 
@@ -39,6 +52,25 @@ export function useYScale({
     throw new Error('maxYOverride must be a non-negative number.');
   }
 
+  // maxYOverride is only applied to empty data, so it can only
+  // conflict with minYOverride then.
+  if (
+    min === 0 &&
+    max === 0 &&
+    minYOverride != null &&
+    maxYOverride != null &&
+    minYOverride >= maxYOverride
+  ) {
+    throw new Error('minYOverride must be lower than maxYOverride.');
+  }
+
+  if (domain != null && domain[0] >= domain[1]) {
+    throw new Error('domain must be an ascending [min, max] pair.');
+  }
+
+  const fixedMin = domain?.[0] ?? minYOverride ?? null;
+  const fixedMax = domain?.[1] ?? null;
+
   const [minY, maxY] = useMemo(() => {
     const isDataEmpty = min === 0 && max === 0;
     const minY = min;
@@ -56,34 +88,75 @@ export function useYScale({
     return [minY, maxY];
   }, [min, max, integersOnly, maxYOverride]);
 
-  const {yScale, ticks, yAxisLabelWidth} = useMemo(() => {
+  const {yScale, ticks, minorTicks, yAxisLabelWidth} = useMemo(() => {
     const maxTicks = Math.max(
       1,
       Math.ceil(drawableHeight / MINIMAL_LABEL_SPACE),
     );
 
-    const yScale = scaleLinear()
-      .range([drawableHeight, 0])
-      .domain([Math.min(0, minY), Math.max(0, maxY)]);
-
-    // if verticalOverflow is false, always round up
-    // if verticalOverflow is true, only round up if both shouldRoundUp and shouldRoundScaleUp is true
-    if (
-      !verticalOverflow ||
-      (shouldRoundUp && shouldRoundScaleUp({yScale, maxValue: maxY, maxTicks}))
-    ) {
-      yScale.nice(maxTicks);
+    let yScale: ScaleContinuousNumeric<number, number>;
+    let tickValues: number[];
+    let minorTickValues: number[] = [];
+
+    if (scale === 'linear') {
+      let lower = fixedMin ?? (includeZero ? Math.min(0, minY) : minY);
+      let upper = fixedMax ?? (includeZero ? Math.max(0, maxY) : maxY);
+
+      if (lower >= upper) {
+        lower = Math.min(0, minY);
+        upper = Math.max(0, maxY);
+      }
+
+      yScale = scaleLinear().range([drawableHeight, 0]).domain([lower, upper]);
+
+      // if verticalOverflow is false, always round up
+      // if verticalOverflow is true, only round up if both shouldRoundUp and shouldRoundScaleUp is true
+      if (
+        !verticalOverflow ||
+        (shouldRoundUp &&
+          shouldRoundScaleUp({yScale, maxValue: maxY, maxTicks}))
+      ) {
+        yScale.nice(maxTicks);
+      } else {
+        const roundedDownMin = yScale.copy().nice(maxTicks).ticks(maxTicks)[0];
+
+        yScale.domain([Math.min(roundedDownMin, lower), upper]);
+      }
+
+      if (fixedMin != null || fixedMax != null) {
+        const [niceMin, niceMax] = yScale.domain();
+
+        yScale.domain([fixedMin ?? niceMin, fixedMax ?? niceMax]);
+      }
+
+      // When 0 is outside of the domain, bars start from the
+      // bottom of the chart instead of below it.
+      if (!includeZero || fixedMin != null || fixedMax != null) {
+        yScale.clamp(true);
+      }
+
+      tickValues = integersOnly
+        ? yScale.ticks(maxTicks).filter((tick) => Number.isInteger(tick))
+        : yScale.ticks(maxTicks);
     } else {
-      const roundedDownMin = yScale.copy().nice(maxTicks).ticks(maxTicks)[0];
-
-      yScale.domain([Math.min(roundedDownMin, minY), Math.max(0, maxY)]);
+      ({yScale, tickValues, minorTickValues} = getLogarithmicYScale({
+        drawableHeight,
+        integersOnly,
+        max: fixedMax ?? maxY,
+        maxTicks,
+        min: fixedMin ?? minY,
+        minimalLabelSpace: MINIMAL_LABEL_SPACE,
+        scale,
+      }));
     }
 
-    const filteredTicks = integersOnly
-      ? yScale.ticks(maxTicks).filter((tick) => Number.isInteger(tick))
-      : yScale.ticks(maxTicks);
+    const ticks = tickValues.map((value) => ({
+      value,
+      formattedValue: formatYAxisLabel(value),
+      yOffset: yScale(value),
+    }));
 
-    const ticks = filteredTicks.map((value) => ({
+    const minorTicks = minorTickValues.map((value) => ({
       value,
       formattedValue: formatYAxisLabel(value),
       yOffset: yScale(value),
@@ -101,8 +174,12 @@ export function useYScale({
 
     const yAxisLabelWidth = estimateStringWidth(text, characterWidths);
 
-    return {yScale, ticks, yAxisLabelWidth};
+    return {yScale, ticks, minorTicks, yAxisLabelWidth};
   }, [
+    scale,
+    fixedMin,
+    fixedMax,
+    includeZero,
     verticalOverflow,
     shouldRoundUp,
     characterWidths,
@@ -116,6 +193,7 @@ export function useYScale({
   return {
     yScale,
     ticks,
+    minorTicks,
     yAxisLabelWidth: getLabelWidth(yAxisLabelWidth, fixedWidth),
   };
 }
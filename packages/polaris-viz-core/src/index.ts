@@ -97,6 +97,9 @@ export {
   isDataGroupArray,
   getGradientFromColor,
   OpacityScale,
+  getLogarithmicYScale,
+  getLineCurve,
+  getSparkYDomain,
 } from './utilities';
 export {
   useSparkBar,
@@ -112,6 +115,8 @@ export {
   useChartPositions,
   useSpringConfig,
   useFilteredSparkLineData,
+  useSparkTableScales,
+  getSparkTableSeries,
 } from './hooks';
 export {
   Bar,
@@ -119,10 +124,15 @@ export {
   LinearGradientWithStops,
   PolarisVizProvider,
   SparkBarSeries,
+  SparkScaleProvider,
 } from './components';
-export {ChartContext} from './contexts';
-export type {PolarisVizProviderProps} from './components';
-export {DataType, ChartState, InternalChartType} from './types';
+export {ChartContext, SparkScaleContext} from './contexts';
+export type {ChartContextValues, SparkScaleContextValues} from './contexts';
+export type {
+  PolarisVizProviderProps,
+  SparkScaleProviderProps,
+} from './components';
+export {DataType, ChartState, Hue, InternalChartType} from './types';
 
 export type {
   ActiveTooltip,
@@ -132,6 +142,7 @@ export type {
   DataSeries,
   Dimensions,
   GradientStop,
+  LineCurve,
   LineStyle,
   PartialTheme,
   SvgComponents,
@@ -140,7 +151,10 @@ export type {
   LegendTheme,
   Direction,
   XAxisOptions,
+  XAxisType,
+  YAxisId,
   YAxisOptions,
+  YAxisScale,
   LabelFormatter,
   Shape,
   CharacterWidths,
@@ -151,6 +165,10 @@ export type {
   StackedValues,
   DataGroup,
   TargetLine,
+  SparkTableCellValue,
+  SparkTableColumn,
+  SparkTableColumnType,
+  SparkTableRow,
   ErrorBoundaryResponse,
   Position,
 } from './types';
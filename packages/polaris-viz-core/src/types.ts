@@ -6,6 +6,15 @@ export type LabelFormatter = (value: string | number | null) => string;
 export interface DataPoint {
   key: number | string;
   value: number | null;
+  /**
+   * Lower bound of the uncertainty around `value`. When both bounds
+   * are set, line series shade the range between them.
+   */
+  lower?: number | null;
+  /**
+   * Upper bound of the uncertainty around `value`.
+   */
+  upper?: number | null;
 }
 
 export interface DataSeries {
@@ -19,13 +28,36 @@ export interface DataSeries {
    * Value that gets used to fill in missing data points. Defaults to `null`.
    */
   fillValue?: DataPoint['value'];
+  /**
+   * The y-axis the series is plotted against on charts that
+   * support a second axis. Defaults to `left`.
+   */
+  yAxisId?: YAxisId;
 }
 
+export type YAxisId = 'left' | 'right';
+
+/**
+ * How a line is drawn between its points. `monotoneX` is a smooth
+ * curve that never overshoots the values on either side of it.
+ */
+export type LineCurve =
+  | 'linear'
+  | 'monotoneX'
+  | 'stepAfter'
+  | 'stepBefore'
+  | 'rounded';
+
 interface StyleOverride {
   line?: {
     hasArea?: boolean;
     width?: number;
     strokeDasharray?: string;
+    /**
+     * Defaults to `rounded` when the theme's `line.hasSpline`
+     * is true and `linear` otherwise.
+     */
+    curve?: LineCurve;
   };
   tooltip?: {
     shape?: Shape;
@@ -68,16 +100,43 @@ export interface Position {
 export type BoundingRect = Position & Dimensions;
 export type Color = string | GradientStop[];
 
+export type XAxisType = 'linear' | 'time';
+
 export interface XAxisOptions {
   labelFormatter?: LabelFormatter;
   hide?: boolean;
   allowLineWrap?: boolean;
+  /**
+   * When set to `time`, `DataPoint.key` values are parsed as dates
+   * and points are spaced by the time between them.
+   */
+  type?: XAxisType;
 }
+export type YAxisScale = 'linear' | 'log' | 'symlog';
+
 export interface YAxisOptions {
   labelFormatter?: LabelFormatter;
   integersOnly?: boolean;
   fixedWidth?: number | false;
   maxYOverride?: number | null;
+  /**
+   * The lowest value on the y-axis, even when the data goes lower.
+   */
+  minYOverride?: number | null;
+  /**
+   * A fixed `[min, max]` y-axis. Values outside of it are drawn
+   * at the edges of the chart.
+   */
+  domain?: [number, number] | null;
+  /**
+   * When `false`, the y-axis fits the data instead of always starting at 0.
+   */
+  includeZero?: boolean;
+  /**
+   * `log` can only represent positive values, so data containing
+   * zero or negative values is drawn with `symlog` instead.
+   */
+  scale?: YAxisScale;
 }
 
 // === Theme types === //
@@ -214,7 +273,11 @@ export enum DataType {
   Bar = 'Bar',
 }
 
-export type ChartType = 'default' | 'stacked';
+/**
+ * `stackedPercent` stacks series like `stacked`, but scales
+ * every stack to 100% of its total.
+ */
+export type ChartType = 'default' | 'stacked' | 'stackedPercent';
 
 export type GradientUnits = 'userSpaceOnUse' | 'objectBoundingBox';
 
@@ -333,6 +396,34 @@ export interface TargetLine {
   offsetLeft?: number;
 }
 
+export type SparkTableColumnType = 'text' | 'line' | 'bar';
+
+export interface SparkTableColumn {
+  /**
+   * The key of the column's value in each row's `cells`.
+   */
+  key: string;
+  header: string;
+  /**
+   * `line` and `bar` columns render the row's `DataSeries[]` as a
+   * `<SparkLineChart />` or `<SparkBarChart />`. Defaults to `text`.
+   */
+  type?: SparkTableColumnType;
+  /**
+   * `shared` draws every spark chart in the column against the same
+   * y-domain so they can be compared. Defaults to `shared`.
+   */
+  scale?: 'shared' | 'independent';
+  targetLine?: TargetLine;
+}
+
+export type SparkTableCellValue = string | number | DataSeries[];
+
+export interface SparkTableRow {
+  id: string;
+  cells: {[key: string]: SparkTableCellValue};
+}
+
 export type ErrorBoundaryResponse = (
   error: Error,
   errorInfo: ErrorInfo,
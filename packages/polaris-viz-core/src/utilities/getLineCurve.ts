@@ -0,0 +1,33 @@
+import type {CurveFactory} from 'd3-shape';
+import {
+  curveLinear,
+  curveMonotoneX,
+  curveStepAfter,
+  curveStepBefore,
+} from 'd3-shape';
+
+import type {LineCurve} from '../types';
+
+import {curveStepRounded} from './curveStepRounded';
+
+const CURVES: {[key in LineCurve]: CurveFactory} = {
+  linear: curveLinear,
+  monotoneX: curveMonotoneX,
+  stepAfter: curveStepAfter,
+  stepBefore: curveStepBefore,
+  rounded: curveStepRounded,
+};
+
+export function getLineCurve({
+  curve,
+  hasSpline,
+}: {
+  curve?: LineCurve;
+  hasSpline: boolean;
+}): CurveFactory {
+  if (curve != null) {
+    return CURVES[curve];
+  }
+
+  return hasSpline ? curveStepRounded : curveLinear;
+}
@@ -0,0 +1,143 @@
+import type {ScaleContinuousNumeric} from 'd3-scale';
+import {scaleLog, scaleSymlog} from 'd3-scale';
+
+import type {YAxisScale} from '../types';
+
+const MINOR_TICK_MULTIPLIERS = [2, 3, 4, 5, 6, 7, 8, 9];
+
+interface Props {
+  drawableHeight: number;
+  integersOnly: boolean;
+  max: number;
+  maxTicks: number;
+  min: number;
+  minimalLabelSpace: number;
+  scale: Exclude<YAxisScale, 'linear'>;
+}
+
+export function getLogarithmicYScale({
+  drawableHeight,
+  integersOnly,
+  max,
+  maxTicks,
+  min,
+  minimalLabelSpace,
+  scale,
+}: Props) {
+  const isLog = scale === 'log' && min > 0;
+
+  const {domain, tickValues, minorTickValues} = isLog
+    ? getLogValues({drawableHeight, max, maxTicks, min, minimalLabelSpace})
+    : getSymlogValues({max, maxTicks, min});
+
+  const yScale: ScaleContinuousNumeric<number, number> = isLog
+    ? scaleLog().range([drawableHeight, 0]).domain(domain).clamp(true)
+    : scaleSymlog().range([drawableHeight, 0]).domain(domain).clamp(true);
+
+  return {
+    yScale,
+    tickValues: integersOnly
+      ? tickValues.filter((value) => Number.isInteger(value))
+      : tickValues,
+    minorTickValues,
+  };
+}
+
+function getLogValues({
+  drawableHeight,
+  max,
+  maxTicks,
+  min,
+  minimalLabelSpace,
+}: {
+  drawableHeight: number;
+  max: number;
+  maxTicks: number;
+  min: number;
+  minimalLabelSpace: number;
+}) {
+  const start = Math.floor(Math.log10(min));
+  const end = Math.max(start + 1, Math.ceil(Math.log10(max)));
+  const exponents = getRange(start, end);
+
+  const domain = [10 ** start, 10 ** end];
+
+  const decadeHeight = drawableHeight / (exponents.length - 1);
+
+  const minorTickValues =
+    decadeHeight < minimalLabelSpace
+      ? []
+      : exponents.flatMap((exponent) =>
+          MINOR_TICK_MULTIPLIERS.map(
+            (multiplier) => multiplier * 10 ** exponent,
+          ).filter((value) => value < domain[1]),
+        );
+
+  return {
+    domain,
+    tickValues: reduceTicks(exponents, maxTicks).map(
+      (exponent) => 10 ** exponent,
+    ),
+    minorTickValues,
+  };
+}
+
+// Symlog behaves linearly between -1 and 1, so ticks
+// start at 10^0 on each side of zero.
+function getSymlogValues({
+  max,
+  maxTicks,
+  min,
+}: {
+  max: number;
+  maxTicks: number;
+  min: number;
+}) {
+  const positiveExponents =
+    max > 0 ? getRange(0, Math.max(0, Math.ceil(Math.log10(max)))) : [];
+  const negativeExponents =
+    min < 0 ? getRange(0, Math.max(0, Math.ceil(Math.log10(-min)))) : [];
+
+  const top =
+    positiveExponents.length > 0 ? 10 ** positiveExponents.slice(-1)[0] : 0;
+  const bottom =
+    negativeExponents.length > 0 ? -(10 ** negativeExponents.slice(-1)[0]) : 0;
+
+  const tickCount = Math.max(
+    1,
+    positiveExponents.length + negativeExponents.length,
+  );
+  const maxPositiveTicks = Math.max(
+    1,
+    Math.floor((maxTicks * positiveExponents.length) / tickCount),
+  );
+  const maxNegativeTicks = Math.max(1, maxTicks - maxPositiveTicks);
+
+  const tickValues = [
+    ...reduceTicks(negativeExponents, maxNegativeTicks)
+      .map((exponent) => -(10 ** exponent))
+      .reverse(),
+    0,
+    ...reduceTicks(positiveExponents, maxPositiveTicks).map(
+      (exponent) => 10 ** exponent,
+    ),
+  ];
+
+  return {
+    domain: [bottom, top === bottom ? 1 : top],
+    tickValues,
+    minorTickValues: [],
+  };
+}
+
+function getRange(start: number, end: number) {
+  return Array.from({length: end - start + 1}, (_, index) => start + index);
+}
+
+function reduceTicks(exponents: number[], maxTicks: number) {
+  const step = Math.ceil(exponents.length / maxTicks);
+
+  return exponents.filter(
+    (_, index) => index % step === 0 || index === exponents.length - 1,
+  );
+}
@@ -0,0 +1,21 @@
+import type {DataSeries} from '../types';
+
+export function getSparkYDomain(data: DataSeries[][]): [number, number] | null {
+  let min = Infinity;
+  let max = -Infinity;
+
+  for (const series of data) {
+    for (const {data: dataPoints} of series) {
+      for (const {value} of dataPoints) {
+        if (value == null) {
+          continue;
+        }
+
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+      }
+    }
+  }
+
+  return min > max ? null : [min, max];
+}
@@ -26,3 +26,6 @@ export {ColorScale} from './ColorScale/ColorScale';
 export {OpacityScale} from './OpacityScale/OpacityScale';
 export {isDataGroupArray} from './isDataGroup';
 export {getGradientFromColor} from './getGradientFromColor';
+export {getLogarithmicYScale} from './getLogarithmicYScale';
+export {getLineCurve} from './getLineCurve';
+export {getSparkYDomain} from './getSparkYDomain';
@@ -1,4 +1,4 @@
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 
 /**
  *
@@ -9,7 +9,7 @@ export function shouldRoundScaleUp({
   maxTicks,
   maxValue,
 }: {
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   maxTicks: number;
   maxValue: number;
 }) {
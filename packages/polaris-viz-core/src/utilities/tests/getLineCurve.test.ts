@@ -0,0 +1,49 @@
+import {
+  curveLinear,
+  curveMonotoneX,
+  curveStepAfter,
+  curveStepBefore,
+  line,
+} from 'd3-shape';
+
+import {curveStepRounded} from '../curveStepRounded';
+import {getLineCurve} from '../getLineCurve';
+
+describe('getLineCurve()', () => {
+  it('returns the curve for the series', () => {
+    expect(getLineCurve({curve: 'linear', hasSpline: true})).toBe(curveLinear);
+    expect(getLineCurve({curve: 'monotoneX', hasSpline: true})).toBe(
+      curveMonotoneX,
+    );
+    expect(getLineCurve({curve: 'stepAfter', hasSpline: false})).toBe(
+      curveStepAfter,
+    );
+    expect(getLineCurve({curve: 'stepBefore', hasSpline: false})).toBe(
+      curveStepBefore,
+    );
+    expect(getLineCurve({curve: 'rounded', hasSpline: false})).toBe(
+      curveStepRounded,
+    );
+  });
+
+  it('falls back to the theme when no curve is set', () => {
+    expect(getLineCurve({hasSpline: true})).toBe(curveStepRounded);
+    expect(getLineCurve({hasSpline: false})).toBe(curveLinear);
+  });
+
+  it('keeps monotoneX curves within the values of their points', () => {
+    const path = line<number>()
+      .x((_, index) => index * 10)
+      .y((value) => value)
+      .curve(getLineCurve({curve: 'monotoneX', hasSpline: true}))([
+      0, 100, 0, 0, 100,
+    ]);
+
+    const values = (path ?? '')
+      .match(/-?\d+(\.\d+)?(e-?\d+)?/g)!
+      .filter((_, index) => index % 2 === 1)
+      .map(Number);
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,114 @@
+import {getLogarithmicYScale} from '../getLogarithmicYScale';
+
+const MOCK_PROPS = {
+  drawableHeight: 300,
+  integersOnly: false,
+  maxTicks: 10,
+  minimalLabelSpace: 80,
+};
+
+describe('getLogarithmicYScale()', () => {
+  describe('log', () => {
+    it('creates ticks at powers of ten around the data', () => {
+      const {tickValues, yScale} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        min: 0.05,
+        max: 2500000,
+        scale: 'log',
+      });
+
+      expect(tickValues).toStrictEqual([
+        0.01, 0.1, 1, 10, 100, 1000, 10000, 100000, 1000000, 10000000,
+      ]);
+      expect(yScale.domain()).toStrictEqual([0.01, 10000000]);
+    });
+
+    it('spaces each power of ten evenly', () => {
+      const {yScale} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        min: 1,
+        max: 1000,
+        scale: 'log',
+      });
+
+      expect(yScale(1)).toBeCloseTo(300);
+      expect(yScale(10)).toBeCloseTo(200);
+      expect(yScale(100)).toBeCloseTo(100);
+      expect(yScale(1000)).toBeCloseTo(0);
+    });
+
+    it('skips powers of ten when there are more than maxTicks', () => {
+      const {tickValues} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        maxTicks: 3,
+        min: 1,
+        max: 100000,
+        scale: 'log',
+      });
+
+      expect(tickValues).toStrictEqual([1, 100, 10000, 100000]);
+    });
+
+    it('returns minor ticks when there is room between powers of ten', () => {
+      const {minorTickValues} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        min: 1,
+        max: 10,
+        scale: 'log',
+      });
+
+      expect(minorTickValues).toStrictEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it('removes non-integer ticks when integersOnly is true', () => {
+      const {tickValues} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        integersOnly: true,
+        min: 0.5,
+        max: 50,
+        scale: 'log',
+      });
+
+      expect(tickValues).toStrictEqual([1, 10, 100]);
+    });
+
+    it('falls back to symlog when the data contains zero', () => {
+      const {tickValues, yScale} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        min: 0,
+        max: 100,
+        scale: 'log',
+      });
+
+      expect(tickValues).toStrictEqual([0, 1, 10, 100]);
+      expect(yScale(0)).toStrictEqual(300);
+    });
+  });
+
+  describe('symlog', () => {
+    it('includes zero and negative powers of ten', () => {
+      const {tickValues, yScale} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        min: -50,
+        max: 5000,
+        scale: 'symlog',
+      });
+
+      expect(tickValues).toStrictEqual([
+        -100, -10, -1, 0, 1, 10, 100, 1000, 10000,
+      ]);
+      expect(yScale.domain()).toStrictEqual([-100, 10000]);
+    });
+
+    it('creates a domain when all values are zero', () => {
+      const {yScale} = getLogarithmicYScale({
+        ...MOCK_PROPS,
+        min: 0,
+        max: 0,
+        scale: 'symlog',
+      });
+
+      expect(yScale.domain()).toStrictEqual([0, 1]);
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import {getSparkYDomain} from '../getSparkYDomain';
+
+describe('getSparkYDomain()', () => {
+  it('returns the minimum and maximum values of all charts', () => {
+    expect(
+      getSparkYDomain([
+        [
+          {
+            data: [
+              {key: 1, value: 10},
+              {key: 2, value: 40},
+            ],
+          },
+        ],
+        [
+          {
+            data: [
+              {key: 1, value: -5},
+              {key: 2, value: null},
+            ],
+          },
+          {data: [{key: 1, value: 25}]},
+        ],
+      ]),
+    ).toStrictEqual([-5, 40]);
+  });
+
+  it('returns null without values', () => {
+    expect(getSparkYDomain([[{data: [{key: 1, value: null}]}], []])).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import {useCallback} from 'react';
+import {FlatList, Text, View} from 'react-native';
+import type {ListRenderItemInfo} from 'react-native';
+import {
+  DEFAULT_THEME_NAME,
+  FONT_FAMILY,
+  SparkScaleContext,
+  getSparkTableSeries,
+  useSparkTableScales,
+  useTheme,
+} from '@shopify/polaris-viz-core';
+import type {
+  SparkTableCellValue,
+  SparkTableColumn,
+  SparkTableRow,
+} from '@shopify/polaris-viz-core';
+
+import {SparkBarChart} from '../SparkBarChart';
+import {SparkLineChart} from '../SparkLineChart';
+
+const DEFAULT_ROW_HEIGHT = 48;
+const DEFAULT_SPARK_WIDTH = 120;
+const CELL_PADDING = 4;
+const ROW_BORDER_WIDTH = 1;
+const FONT_SIZE = 11;
+
+export interface SparkTableProps {
+  columns: SparkTableColumn[];
+  rows: SparkTableRow[];
+  /**
+   * The height of each row. Rows must share a height so the
+   * list can work out which of them are visible.
+   */
+  rowHeight?: number;
+  sparkWidth?: number;
+  theme?: string;
+}
+
+export function SparkTable({
+  columns,
+  rows,
+  rowHeight = DEFAULT_ROW_HEIGHT,
+  sparkWidth = DEFAULT_SPARK_WIDTH,
+  theme = DEFAULT_THEME_NAME,
+}: SparkTableProps) {
+  const selectedTheme = useTheme(theme);
+  const columnScales = useSparkTableScales(columns, rows);
+
+  // The row separator sits inside the row's fixed height.
+  const sparkHeight = rowHeight - CELL_PADDING * 2 - ROW_BORDER_WIDTH;
+
+  const textStyle = {
+    color: selectedTheme.legend.labelColor,
+    fontFamily: FONT_FAMILY,
+    fontSize: FONT_SIZE,
+  };
+
+  // Rows are offset by the header, which shares their height.
+  const getItemLayout = useCallback(
+    (_, index: number) => ({
+      length: rowHeight,
+      offset: rowHeight * index + rowHeight,
+      index,
+    }),
+    [rowHeight],
+  );
+
+  // `FlatList` only mounts the rows near the visible window.
+  return (
+    <FlatList
+      data={rows}
+      getItemLayout={getItemLayout}
+      keyExtractor={({id}) => id}
+      ListHeaderComponent={
+        <View
+          accessibilityRole="header"
+          style={{
+            flexDirection: 'row',
+            height: rowHeight,
+            backgroundColor: selectedTheme.chartContainer.backgroundColor,
+          }}
+        >
+          {columns.map(({key, header, type = 'text'}) => (
+            <View key={key} style={getCellStyle(type)}>
+              <Text style={{...textStyle, fontWeight: '600'}}>{header}</Text>
+            </View>
+          ))}
+        </View>
+      }
+      renderItem={renderRow}
+      stickyHeaderIndices={[0]}
+      style={{backgroundColor: selectedTheme.chartContainer.backgroundColor}}
+    />
+  );
+
+  function renderRow({item: {cells}}: ListRenderItemInfo<SparkTableRow>) {
+    return (
+      <View
+        style={{
+          flexDirection: 'row',
+          height: rowHeight,
+          borderTopWidth: ROW_BORDER_WIDTH,
+          borderTopColor: selectedTheme.grid.color,
+        }}
+      >
+        {columns.map((column) => (
+          <View key={column.key} style={getCellStyle(column.type)}>
+            {renderCell(column, cells[column.key])}
+          </View>
+        ))}
+      </View>
+    );
+  }
+
+  function renderCell(
+    {key, targetLine, type = 'text'}: SparkTableColumn,
+    value: SparkTableCellValue | undefined,
+  ) {
+    if (type === 'text') {
+      return value == null || Array.isArray(value) ? null : (
+        <Text numberOfLines={1} style={textStyle}>
+          {value}
+        </Text>
+      );
+    }
+
+    const data = getSparkTableSeries(value);
+
+    if (data.length === 0) {
+      return null;
+    }
+
+    return (
+      <SparkScaleContext.Provider value={columnScales[key]}>
+        <View style={{height: sparkHeight, width: sparkWidth}}>
+          {type === 'line' ? (
+            <SparkLineChart data={data} theme={theme} />
+          ) : (
+            <SparkBarChart data={data} targetLine={targetLine} theme={theme} />
+          )}
+        </View>
+      </SparkScaleContext.Provider>
+    );
+  }
+
+  function getCellStyle(type: SparkTableColumn['type'] = 'text') {
+    return {
+      justifyContent: 'center' as const,
+      paddingHorizontal: CELL_PADDING * 2,
+      paddingVertical: CELL_PADDING,
+      ...(type === 'text' ? {flex: 1} : {width: sparkWidth + CELL_PADDING * 4}),
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import type {Story, Meta} from '@storybook/react';
+import type {SparkTableRow} from '@shopify/polaris-viz-core';
+
+import {SparkTable} from '../SparkTable';
+import type {SparkTableProps} from '../SparkTable';
+
+const THEME_CONTROL_ARGS = {
+  description: 'The theme that the chart will inherit its styles from',
+  control: {type: 'select', options: ['Dark', 'Light']},
+};
+
+const WEEKS = Array.from({length: 12}, (_, index) => `Week ${index + 1}`);
+
+const ROWS: SparkTableRow[] = Array.from({length: 200}, (_, row) => {
+  const sales = WEEKS.map((_, week) =>
+    Math.round(((row * 37 + week * 53) % 400) + row / 2),
+  );
+
+  return {
+    id: `product-${row}`,
+    cells: {
+      product: `Product ${row + 1}`,
+      sales: [{data: WEEKS.map((key, week) => ({key, value: sales[week]}))}],
+      orders: [
+        {
+          data: WEEKS.map((key, week) => ({
+            key,
+            value: Math.round(sales[week] / 20),
+          })),
+        },
+      ],
+    },
+  };
+});
+
+export default {
+  title: 'polaris-viz-native/Charts/SparkTable',
+  component: SparkTable,
+  parameters: {
+    controls: {sort: 'requiredFirst', expanded: true},
+    docs: {
+      description: {
+        component:
+          'Used to show a trend for every row of a report. Rows are rendered in a `FlatList`, so only the rows near the screen are mounted.',
+      },
+    },
+    native: true,
+  },
+  argTypes: {
+    columns: {
+      description:
+        "Each column has a `key`, a `header` and a `type` of `text`, `line` or `bar`. Spark columns share a y-domain unless their `scale` is `'independent'`.",
+    },
+    rows: {
+      description:
+        'Each row has an `id` and its `cells`, keyed by column. Spark cells take a `DataSeries[]`.',
+    },
+    rowHeight: {
+      description: 'The height of each row.',
+    },
+    sparkWidth: {
+      description: 'The width of each spark chart.',
+    },
+    theme: THEME_CONTROL_ARGS,
+  },
+} as Meta;
+
+const Template: Story<SparkTableProps> = (args: SparkTableProps) => {
+  return (
+    <div style={{height: '400px'}}>
+      <SparkTable {...args} />
+    </div>
+  );
+};
+
+export const Default: Story<SparkTableProps> = Template.bind({});
+Default.args = {
+  columns: [
+    {key: 'product', header: 'Product'},
+    {key: 'sales', header: 'Sales', type: 'line'},
+    {key: 'orders', header: 'Orders', type: 'bar'},
+  ],
+  rows: ROWS,
+};
@@ -0,0 +1,80 @@
+import {AccessibilityInfo, FlatList, View} from 'react-native';
+import type {SparkTableRow} from '@shopify/polaris-viz-core';
+
+import {SparkBarChart, SparkLineChart} from '../..';
+import {mountWithProvider} from '../../../test-utilities';
+import {SparkTable} from '../SparkTable';
+
+jest
+  .spyOn(AccessibilityInfo, 'isReduceMotionEnabled')
+  .mockImplementation(() => Promise.resolve(true));
+
+const ROWS: SparkTableRow[] = [
+  {
+    id: 'socks',
+    cells: {
+      name: 'Socks',
+      sales: [{data: [{key: 'Jan', value: 4}]}],
+      orders: [{data: [{key: 'Jan', value: 1}]}],
+    },
+  },
+  {
+    id: 'hats',
+    cells: {
+      name: 'Hats',
+      sales: [{data: [{key: 'Jan', value: 40}]}],
+      orders: [{data: [{key: 'Jan', value: 3}]}],
+    },
+  },
+];
+
+const COLUMNS = [
+  {key: 'name', header: 'Product'},
+  {key: 'sales', header: 'Sales', type: 'line' as const},
+  {key: 'orders', header: 'Orders', type: 'bar' as const},
+];
+
+describe('<SparkTable />', () => {
+  it('renders a spark chart for each spark cell', () => {
+    const wrapper = mountWithProvider(
+      <SparkTable columns={COLUMNS} rows={ROWS} />,
+    );
+
+    expect(wrapper).toContainReactComponentTimes(SparkLineChart, 2);
+    expect(wrapper).toContainReactComponentTimes(SparkBarChart, 2);
+  });
+
+  it('renders the column headers and text cells', () => {
+    const wrapper = mountWithProvider(
+      <SparkTable columns={COLUMNS} rows={ROWS} />,
+    );
+
+    expect(wrapper).toContainReactText('Product');
+    expect(wrapper).toContainReactText('Socks');
+    expect(wrapper).toContainReactText('Hats');
+  });
+
+  it('fits the spark charts inside the row separator', () => {
+    const wrapper = mountWithProvider(
+      <SparkTable columns={COLUMNS} rows={ROWS} rowHeight={40} />,
+    );
+
+    expect(wrapper).toContainReactComponentTimes(View, 4, {
+      style: {height: 31, width: 120},
+    });
+  });
+
+  it('offsets the row layouts by the header row', () => {
+    const wrapper = mountWithProvider(
+      <SparkTable columns={COLUMNS} rows={ROWS} rowHeight={40} />,
+    );
+
+    const getItemLayout = wrapper.find(FlatList)!.prop('getItemLayout')!;
+
+    expect(getItemLayout(ROWS, 1)).toStrictEqual({
+      length: 40,
+      offset: 80,
+      index: 1,
+    });
+  });
+});
@@ -1,4 +1,6 @@
 export {SparkLineChart} from './SparkLineChart';
 export {SparkBarChart} from './SparkBarChart';
+export {SparkTable} from './SparkTable';
+export type {SparkTableProps} from './SparkTable';
 export {ChartContainer} from './ChartContainer';
 export {PolarisVizProvider} from './PolarisVizProvider';
@@ -1,4 +1,10 @@
-export {SparkLineChart, PolarisVizProvider, SparkBarChart} from './components';
+export {
+  SparkLineChart,
+  PolarisVizProvider,
+  SparkBarChart,
+  SparkTable,
+} from './components';
+export type {SparkTableProps} from './components';
 
 export {
   createGradient,
@@ -16,4 +22,13 @@ export {
   paddingStringToObject,
   removeFalsyValues,
   useUniqueId,
+  SparkScaleProvider,
+} from '@shopify/polaris-viz-core';
+
+export type {
+  SparkScaleProviderProps,
+  SparkTableCellValue,
+  SparkTableColumn,
+  SparkTableColumnType,
+  SparkTableRow,
 } from '@shopify/polaris-viz-core';
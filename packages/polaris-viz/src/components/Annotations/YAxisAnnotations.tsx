@@ -1,5 +1,5 @@
 import {Fragment, useMemo, useState} from 'react';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 import {
   isValueWithinDomain,
   Y_AXIS_CHART_SPACING,
@@ -23,7 +23,7 @@ export interface YAxisAnnotationsProps {
   drawableHeight: number;
   drawableWidth: number;
   ticks: YAxisTick[];
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   axis?: OptionalDualAxisYAxis;
 }
 
@@ -5,7 +5,7 @@ import {
   LINE_HEIGHT,
   useChartContext,
 } from '@shopify/polaris-viz-core';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 
 import {
   ANNOTATION_Y_AXIS_LABEL_HEIGHT,
@@ -21,7 +21,7 @@ export interface Props {
   axis: OptionalDualAxisYAxis;
   drawableWidth: number;
   ticks: YAxisTick[];
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
 }
 
 export function useYAxisAnnotationPositions({
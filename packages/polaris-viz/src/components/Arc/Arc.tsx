@@ -19,7 +19,7 @@ import {ARC_PAD_ANGLE} from '../../constants';
 
 import styles from './Arc.scss';
 
-const ANIMATION_SIZE_BUFFER = 30;
+export const ANIMATION_SIZE_BUFFER = 30;
 export interface ArcProps {
   radius: number;
   height: number;
@@ -1 +1 @@
-export {Arc} from './Arc';
+export {Arc, ANIMATION_SIZE_BUFFER} from './Arc';
@@ -1,4 +1,4 @@
-import {Fragment, useRef} from 'react';
+import {Fragment, useMemo, useRef} from 'react';
 import {
   uniqueId,
   ChartState,
@@ -20,8 +20,12 @@ import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRender
 import {ChartContainer} from '../../components/ChartContainer';
 import type {
   Annotation,
+  DataPointClickHandler,
+  ReferenceBand,
+  ReferenceLine,
   RenderLegendContent,
   TooltipOptions,
+  Trendline,
 } from '../../types';
 import {SkipLink} from '../SkipLink';
 import {
@@ -31,8 +35,10 @@ import {
 } from '../../utilities';
 import {HorizontalBarChart} from '../HorizontalBarChart';
 import {VerticalBarChart} from '../VerticalBarChart';
+import {resolveReferenceLines} from '../ReferenceLines';
 import {ChartSkeleton} from '../../components/ChartSkeleton';
 import {fillMissingDataPoints} from '../../utilities/fillMissingDataPoints';
+import {useHiddenSeries} from '../../hooks';
 
 export type BarChartProps = {
   errorText?: string;
@@ -40,20 +46,41 @@ export type BarChartProps = {
   annotations?: Annotation[];
   direction?: Direction;
   emptyStateText?: string;
+  /**
+   * Indexes of the series hidden by toggling their legend items.
+   * Leave undefined to let the chart track them itself.
+   */
+  hiddenSeries?: number[];
+  onHiddenSeriesChange?: (hiddenSeries: number[]) => void;
   renderLegendContent?: RenderLegendContent;
   seriesNameFormatter?: LabelFormatter;
   showLegend?: boolean;
   maxSeries?: number;
+  onBarClick?: DataPointClickHandler;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ReferenceLine[];
   skipLinkText?: string;
   theme?: string;
+  /**
+   * Only rendered when `direction` is `vertical`.
+   */
+  trendlines?: Trendline[];
   type?: ChartType;
   xAxisOptions?: Partial<XAxisOptions>;
+  /**
+   * When `direction` is `horizontal`, `domain`, `minYOverride`
+   * and `includeZero` apply to the horizontal value axis.
+   */
   yAxisOptions?: Partial<YAxisOptions>;
   renderHiddenLegendLabel?: (count: number) => string;
   renderBucketLegendLabel?: () => string;
   scrollContainer?: Element | null;
 } & ChartProps;
 
+// Shared defaults keep the references stable between renders.
+const NO_REFERENCE_BANDS: ReferenceBand[] = [];
+const NO_REFERENCE_LINES: ReferenceLine[] = [];
+
 export function BarChart(props: BarChartProps) {
   const {defaultTheme} = usePolarisVizContext();
 
@@ -64,14 +91,20 @@ export function BarChart(props: BarChartProps) {
     errorText,
     direction = 'vertical',
     emptyStateText,
+    hiddenSeries: controlledHiddenSeries,
     id,
     isAnimated,
+    onHiddenSeriesChange,
     tooltipOptions,
     renderLegendContent,
     showLegend = true,
     maxSeries,
+    onBarClick,
+    referenceBands = NO_REFERENCE_BANDS,
+    referenceLines = NO_REFERENCE_LINES,
     skipLinkText,
     theme = defaultTheme,
+    trendlines,
     type = 'default',
     xAxisOptions,
     yAxisOptions,
@@ -85,21 +118,28 @@ export function BarChart(props: BarChartProps) {
     ...props,
   };
 
-  const filledData = fillMissingDataPoints(
-    dataSeries,
-    isValidDate(dataSeries[0]?.data[0]?.key),
-  );
+  const data = useMemo(() => {
+    const filledData = fillMissingDataPoints(
+      dataSeries,
+      isValidDate(dataSeries[0]?.data[0]?.key),
+    );
 
-  const data = maxSeries
-    ? bucketDataSeries({
-        dataSeries: filledData,
-        maxSeries,
-        renderBucketLegendLabel,
-      })
-    : filledData;
+    return maxSeries
+      ? bucketDataSeries({
+          dataSeries: filledData,
+          maxSeries,
+          renderBucketLegendLabel,
+        })
+      : filledData;
+  }, [dataSeries, maxSeries, renderBucketLegendLabel]);
 
   const skipLinkAnchorId = useRef(uniqueId('BarChart'));
 
+  const {hiddenSeries, toggleSeries} = useHiddenSeries({
+    hiddenSeries: controlledHiddenSeries,
+    onHiddenSeriesChange,
+  });
+
   const emptyState = data.length === 0;
   const hideSkipLink =
     skipLinkText == null || skipLinkText.length === 0 || emptyState;
@@ -108,6 +148,10 @@ export function BarChart(props: BarChartProps) {
   const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
 
   const annotationsLookupTable = normalizeData(annotations, 'startKey');
+  const resolvedReferenceLines = useMemo(
+    () => resolveReferenceLines(referenceLines, data),
+    [data, referenceLines],
+  );
 
   const renderTooltip = getTooltipContentRenderer({
     tooltipOptions,
@@ -121,10 +165,16 @@ export function BarChart(props: BarChartProps) {
         annotationsLookupTable={annotationsLookupTable}
         data={data}
         emptyStateText={emptyStateText}
+        hiddenSeries={hiddenSeries}
+        onBarClick={onBarClick}
+        onToggleSeries={toggleSeries}
+        referenceBands={referenceBands}
+        referenceLines={resolvedReferenceLines}
         renderLegendContent={renderLegendContent}
         renderTooltipContent={renderTooltip}
         seriesNameFormatter={seriesNameFormatter}
         showLegend={showLegend}
+        trendlines={trendlines}
         type={type}
         xAxisOptions={xAxisOptionsWithDefaults}
         yAxisOptions={yAxisOptionsWithDefaults}
@@ -134,6 +184,11 @@ export function BarChart(props: BarChartProps) {
       <HorizontalBarChart
         annotationsLookupTable={annotationsLookupTable}
         data={data}
+        hiddenSeries={hiddenSeries}
+        onBarClick={onBarClick}
+        onToggleSeries={toggleSeries}
+        referenceBands={referenceBands}
+        referenceLines={resolvedReferenceLines}
         renderHiddenLegendLabel={renderHiddenLegendLabel}
         renderLegendContent={renderLegendContent}
         renderTooltipContent={renderTooltip}
@@ -0,0 +1,26 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {BarChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template} from './data';
+
+export const ClickEvents: Story<BarChartProps> = Template.bind({});
+
+ClickEvents.args = {
+  data: DEFAULT_DATA,
+  onBarClick: ({seriesIndex, dataIndex, key, value, series}) => {
+    console.log({seriesIndex, dataIndex, key, value, name: series.name});
+  },
+};
+
+export const HorizontalClickEvents: Story<BarChartProps> = Template.bind({});
+
+HorizontalClickEvents.args = {
+  data: DEFAULT_DATA,
+  direction: 'horizontal',
+  onBarClick: ({seriesIndex, dataIndex, key, value, series}) => {
+    console.log({seriesIndex, dataIndex, key, value, name: series.name});
+  },
+};
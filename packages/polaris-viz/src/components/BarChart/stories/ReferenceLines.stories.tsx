@@ -0,0 +1,25 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {BarChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template} from './data';
+
+export const ReferenceLines: Story<BarChartProps> = Template.bind({});
+
+ReferenceLines.args = {
+  data: DEFAULT_DATA,
+  referenceBands: [{from: -5, to: 5, label: 'Break-even'}],
+  referenceLines: [
+    {value: 50, label: 'Target', color: '#D4380D'},
+    {value: 'average', label: 'Average'},
+  ],
+};
+
+export const HorizontalReferenceLines: Story<BarChartProps> = Template.bind({});
+
+HorizontalReferenceLines.args = {
+  ...ReferenceLines.args,
+  direction: 'horizontal',
+};
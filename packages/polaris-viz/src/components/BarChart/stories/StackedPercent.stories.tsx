@@ -0,0 +1,14 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {BarChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template} from './data';
+
+export const StackedPercent: Story<BarChartProps> = Template.bind({});
+
+StackedPercent.args = {
+  data: DEFAULT_DATA,
+  type: 'stackedPercent',
+};
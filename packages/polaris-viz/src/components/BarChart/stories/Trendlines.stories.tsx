@@ -0,0 +1,17 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {BarChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template} from './data';
+
+export const Trendlines: Story<BarChartProps> = Template.bind({});
+
+Trendlines.args = {
+  data: [DEFAULT_DATA[0]],
+  trendlines: [
+    {seriesIndex: 0, type: 'linear'},
+    {seriesIndex: 0, type: 'movingAverage', period: 3},
+  ],
+};
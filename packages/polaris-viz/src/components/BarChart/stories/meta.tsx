@@ -2,7 +2,11 @@ import type {Meta} from '@storybook/react';
 
 import {BarChart} from '../../../components';
 import {
+  HIDDEN_SERIES_ARGS,
   ANNOTATIONS_ARGS,
+  REFERENCE_BANDS_ARGS,
+  REFERENCE_LINES_ARGS,
+  TRENDLINES_ARGS,
   CHART_STATE_CONTROL_ARGS,
   CONTROLS_ARGS,
   DATA_SERIES_ARGS,
@@ -40,7 +44,11 @@ export const META: Meta = {
   decorators: [(Story) => <div style={{height: '500px'}}>{Story()}</div>],
   argTypes: {
     annotations: ANNOTATIONS_ARGS,
+    referenceBands: REFERENCE_BANDS_ARGS,
+    referenceLines: REFERENCE_LINES_ARGS,
+    trendlines: TRENDLINES_ARGS,
     data: DATA_SERIES_ARGS,
+    hiddenSeries: HIDDEN_SERIES_ARGS,
     emptyStateText: EMPTY_STATE_TEXT_ARGS,
     isAnimated: IS_ANIMATED_ARGS,
     renderLegendContent: RENDER_LEGEND_CONTENT_ARGS,
@@ -63,7 +71,10 @@ export const META: Meta = {
     direction: DIRECTION_CONTROL_ARGS,
     theme: THEME_CONTROL_ARGS,
     state: CHART_STATE_CONTROL_ARGS,
-    type: TYPE_CONTROL_ARGS,
+    type: {
+      ...TYPE_CONTROL_ARGS,
+      options: [...TYPE_CONTROL_ARGS.options, 'stackedPercent'],
+    },
     showLegend: LEGEND_CONTROL_ARGS,
     maxSeries: MAX_SERIES_ARGS,
   },
@@ -5,6 +5,7 @@ import type {BarChartProps} from '../BarChart';
 import {BarChart} from '../BarChart';
 import {VerticalBarChart} from '../../VerticalBarChart';
 import {HorizontalBarChart} from '../../HorizontalBarChart';
+import {TooltipWrapper} from '../../TooltipWrapper';
 
 describe('<BarChart />', () => {
   const mockProps: BarChartProps = {
@@ -90,6 +91,87 @@ describe('<BarChart />', () => {
     });
   });
 
+  describe('referenceLines', () => {
+    it('passes computed reference lines to both directions', () => {
+      const referenceLines = [{value: 'average' as const, label: 'Average'}];
+
+      const vertical = mount(
+        <BarChart {...mockProps} referenceLines={referenceLines} />,
+      );
+      const horizontal = mount(
+        <BarChart
+          {...mockProps}
+          direction="horizontal"
+          referenceLines={referenceLines}
+        />,
+      );
+
+      expect(vertical).toContainReactComponent(VerticalBarChart, {
+        referenceLines: [{value: 20, label: 'Average'}],
+      });
+      expect(horizontal).toContainReactComponent(HorizontalBarChart, {
+        referenceLines: [{value: 20, label: 'Average'}],
+      });
+    });
+  });
+
+  describe('hiddenSeries', () => {
+    it('hides series when their legend item is toggled', () => {
+      const onHiddenSeriesChange = jest.fn();
+      const chart = mount(
+        <BarChart {...mockProps} onHiddenSeriesChange={onHiddenSeriesChange} />,
+      );
+
+      chart.act(() => {
+        chart.find(VerticalBarChart)!.props.onToggleSeries!(0);
+      });
+
+      expect(onHiddenSeriesChange).toHaveBeenCalledWith([0]);
+      expect(chart).toContainReactComponent(VerticalBarChart, {
+        hiddenSeries: [0],
+      });
+    });
+
+    it('marks the tooltip rows of hidden series as hidden', () => {
+      const renderTooltipContent = jest.fn(() => null);
+      const chart = mount(
+        <BarChart
+          {...mockProps}
+          data={[
+            ...mockProps.data,
+            {
+              data: [
+                {key: 'Something', value: 5},
+                {key: 'Another', value: 15},
+                {key: 'Thing', value: 25},
+              ],
+              color: 'red',
+              name: 'LABEL2',
+            },
+          ]}
+          hiddenSeries={[0]}
+          tooltipOptions={{renderTooltipContent}}
+        />,
+      );
+
+      chart.find(TooltipWrapper)!.props.getMarkup(1);
+
+      expect(renderTooltipContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [
+            {
+              shape: 'Bar',
+              data: [
+                {key: 'LABEL1', value: null, color: 'black', isHidden: true},
+                {key: 'LABEL2', value: 15, color: 'red', isHidden: false},
+              ],
+            },
+          ],
+        }),
+      );
+    });
+  });
+
   describe('skipLinkText', () => {
     it('renders a <SkipLink />', () => {
       const chart = mount(<BarChart {...mockProps} />);
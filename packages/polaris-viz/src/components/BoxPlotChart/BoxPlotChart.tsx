@@ -0,0 +1,138 @@
+import {
+  ChartState,
+  DEFAULT_CHART_PROPS,
+  usePolarisVizContext,
+} from '@shopify/polaris-viz-core';
+import type {
+  ChartProps,
+  Direction,
+  LabelFormatter,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../ChartContainer';
+import {ChartSkeleton} from '../ChartSkeleton';
+import {
+  getXAxisOptionsWithDefaults,
+  getYAxisOptionsWithDefaults,
+} from '../../utilities';
+import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRenderer';
+import {useTheme, useThemeSeriesColors} from '../../hooks';
+import type {
+  RenderHiddenLegendLabel,
+  RenderLegendContent,
+  TooltipOptions,
+} from '../../types';
+
+import {Chart} from './Chart';
+import type {BoxPlotDataSeries, BoxPlotTooltipLabels} from './types';
+import {getDataSeriesFromBoxPlotData} from './utilities';
+
+export type BoxPlotChartProps = {
+  direction?: Direction;
+  emptyStateText?: string;
+  renderHiddenLegendLabel?: RenderHiddenLegendLabel;
+  renderLegendContent?: RenderLegendContent;
+  seriesNameFormatter?: LabelFormatter;
+  /**
+   * Defaults to `true` when comparing more than one series.
+   */
+  showLegend?: boolean;
+  theme?: string;
+  /**
+   * Names of the five-number summary rows shown in the tooltip.
+   */
+  tooltipLabels?: BoxPlotTooltipLabels;
+  tooltipOptions?: TooltipOptions;
+  xAxisOptions?: Partial<XAxisOptions>;
+  yAxisOptions?: Partial<YAxisOptions>;
+} & ChartProps<BoxPlotDataSeries[]>;
+
+const DEFAULT_TOOLTIP_LABELS: Required<BoxPlotTooltipLabels> = {
+  min: 'Min',
+  q1: 'Q1',
+  median: 'Median',
+  q3: 'Q3',
+  max: 'Max',
+};
+
+export function BoxPlotChart(props: BoxPlotChartProps) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    data,
+    direction = 'vertical',
+    emptyStateText,
+    errorText,
+    id,
+    isAnimated,
+    onError,
+    renderHiddenLegendLabel,
+    renderLegendContent,
+    seriesNameFormatter = (value) => `${value}`,
+    showLegend = data.length > 1,
+    state,
+    theme = defaultTheme,
+    tooltipLabels,
+    tooltipOptions,
+    xAxisOptions,
+    yAxisOptions,
+  } = {
+    ...DEFAULT_CHART_PROPS,
+    ...props,
+  };
+
+  const dataSeries = getDataSeriesFromBoxPlotData(data);
+
+  const selectedTheme = useTheme(theme);
+  const seriesColors = useThemeSeriesColors(dataSeries, selectedTheme);
+
+  const seriesWithDefaults = data.map((series, index) => ({
+    color: seriesColors[index],
+    ...series,
+  }));
+
+  const xAxisOptionsWithDefaults = getXAxisOptionsWithDefaults(xAxisOptions);
+  const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
+
+  const renderTooltip = getTooltipContentRenderer({
+    tooltipOptions: {
+      valueFormatter:
+        direction === 'vertical'
+          ? yAxisOptionsWithDefaults.labelFormatter
+          : xAxisOptionsWithDefaults.labelFormatter,
+      ...tooltipOptions,
+    },
+    theme,
+    data: dataSeries,
+  });
+
+  return (
+    <ChartContainer
+      data={dataSeries}
+      id={id}
+      isAnimated={isAnimated}
+      onError={onError}
+      theme={theme}
+    >
+      {state !== ChartState.Success ? (
+        <ChartSkeleton state={state} errorText={errorText} theme={theme} />
+      ) : (
+        <Chart
+          data={seriesWithDefaults}
+          direction={direction}
+          emptyStateText={emptyStateText}
+          renderHiddenLegendLabel={renderHiddenLegendLabel}
+          renderLegendContent={renderLegendContent}
+          renderTooltipContent={renderTooltip}
+          seriesNameFormatter={seriesNameFormatter}
+          showLegend={showLegend}
+          tooltipLabels={{...DEFAULT_TOOLTIP_LABELS, ...tooltipLabels}}
+          xAxisOptions={xAxisOptionsWithDefaults}
+          yAxisOptions={yAxisOptionsWithDefaults}
+        />
+      )}
+    </ChartContainer>
+  );
+}
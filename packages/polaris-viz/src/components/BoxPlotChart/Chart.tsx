@@ -0,0 +1,540 @@
+import type {ReactNode} from 'react';
+import {useMemo, useState} from 'react';
+import {scaleBand} from 'd3-scale';
+import type {
+  BoundingRect,
+  Direction,
+  LabelFormatter,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+import {
+  COLOR_VISION_SINGLE_ITEM,
+  DataType,
+  LINE_HEIGHT,
+  estimateStringWidth,
+  getAverageColor,
+  getColorVisionStylesForActiveIndex,
+  getGradientFromColor,
+  useChartContext,
+  useChartPositions,
+  useYScale,
+} from '@shopify/polaris-viz-core';
+
+import {ChartElements} from '../ChartElements';
+import {XAxis} from '../XAxis';
+import {YAxis} from '../YAxis';
+import {HorizontalGridLines} from '../HorizontalGridLines';
+import {HorizontalBarChartXAxisLabels} from '../HorizontalBarChartXAxisLabels';
+import {LegendContainer, useLegend} from '../LegendContainer';
+import {useXScale} from '../VerticalBarChart';
+import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
+import {
+  TooltipHorizontalOffset,
+  TooltipVerticalOffset,
+  TooltipWrapper,
+  TOOLTIP_POSITION_DEFAULT_RETURN,
+} from '../TooltipWrapper';
+import {
+  useColorVisionEvents,
+  useHorizontalXScale,
+  useReducedLabelIndexes,
+  useTheme,
+  useWatchColorVisionEvents,
+} from '../../hooks';
+import {eventPointNative} from '../../utilities';
+import {ChartMargin} from '../../constants';
+import type {
+  RenderHiddenLegendLabel,
+  RenderLegendContent,
+  RenderTooltipContentData,
+} from '../../types';
+
+import {Box} from './components';
+import {
+  BOX_ANIMATION_DELAY,
+  MAX_Y_AXIS_LABEL_WIDTH,
+  SERIES_PADDING,
+} from './constants';
+import type {
+  BoxPlotDataSeries,
+  BoxPlotSummary,
+  BoxPlotTooltipLabels,
+} from './types';
+import {
+  getBoxPlotExtent,
+  getBoxPlotSummary,
+  getDataSeriesFromBoxPlotData,
+} from './utilities';
+
+export interface ChartProps {
+  data: BoxPlotDataSeries[];
+  direction: Direction;
+  renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
+  seriesNameFormatter: LabelFormatter;
+  showLegend: boolean;
+  tooltipLabels: Required<BoxPlotTooltipLabels>;
+  xAxisOptions: Required<XAxisOptions>;
+  yAxisOptions: Required<YAxisOptions>;
+  dimensions?: BoundingRect;
+  emptyStateText?: string;
+  renderHiddenLegendLabel?: RenderHiddenLegendLabel;
+  renderLegendContent?: RenderLegendContent;
+}
+
+export function Chart({
+  data,
+  dimensions,
+  direction,
+  emptyStateText,
+  renderHiddenLegendLabel,
+  renderLegendContent,
+  renderTooltipContent,
+  seriesNameFormatter,
+  showLegend,
+  tooltipLabels,
+  xAxisOptions,
+  yAxisOptions,
+}: ChartProps) {
+  useColorVisionEvents({enabled: data.length > 1, dimensions});
+
+  const selectedTheme = useTheme();
+  const {characterWidths, theme} = useChartContext();
+
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+  const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
+  const [activeSeriesIndex, setActiveSeriesIndex] = useState(-1);
+
+  useWatchColorVisionEvents({
+    type: COLOR_VISION_SINGLE_ITEM,
+    onIndexChange: ({detail}) => setActiveSeriesIndex(detail.index),
+  });
+
+  const dataSeries = useMemo(() => getDataSeriesFromBoxPlotData(data), [data]);
+
+  const {legend, setLegendDimensions, height, width} = useLegend({
+    data: [{shape: 'Bar', series: dataSeries}],
+    dimensions,
+    showLegend,
+    seriesNameFormatter,
+  });
+
+  const isVertical = direction === 'vertical';
+  const keys = useMemo(() => data[0]?.data.map(({key}) => key) ?? [], [data]);
+  const emptyState = keys.length === 0;
+
+  // Axis options describe the physical axes, so the keys
+  // move to the y axis when the chart is horizontal.
+  const keyAxisOptions = isVertical ? xAxisOptions : yAxisOptions;
+  const valueAxisOptions = isVertical ? yAxisOptions : xAxisOptions;
+
+  const summaries = useMemo(
+    () => data.map((series) => series.data.map(getBoxPlotSummary)),
+    [data],
+  );
+
+  const {min, max} = getBoxPlotExtent(summaries.flat());
+
+  const labels = useMemo(
+    () => keys.map((key) => keyAxisOptions.labelFormatter(key)),
+    [keys, keyAxisOptions],
+  );
+
+  const seriesColors = data.map(({color}) => {
+    const gradient = getGradientFromColor(
+      color ?? selectedTheme.seriesColors.single,
+    );
+
+    return getAverageColor(
+      gradient[0].color,
+      gradient[gradient.length - 1].color,
+    );
+  });
+
+  const yScaleOptions = {
+    formatYAxisLabel: valueAxisOptions.labelFormatter,
+    integersOnly: yAxisOptions.integersOnly,
+    maxYOverride: yAxisOptions.maxYOverride,
+    minYOverride: yAxisOptions.minYOverride,
+    includeZero: yAxisOptions.includeZero,
+    max,
+    min,
+  };
+
+  const {ticks: initialTicks} = useYScale({
+    ...yScaleOptions,
+    drawableHeight: height,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  const valueLabelWidth = Math.max(
+    0,
+    ...initialTicks.map(({formattedValue}) =>
+      estimateStringWidth(formattedValue, characterWidths),
+    ),
+  );
+
+  const keyLabelWidth = Math.min(
+    Math.max(
+      0,
+      ...labels.map((label) => estimateStringWidth(label, characterWidths)),
+    ),
+    MAX_Y_AXIS_LABEL_WIDTH,
+  );
+
+  const {
+    chartXPosition,
+    chartYPosition,
+    drawableHeight,
+    drawableWidth,
+    xAxisBounds,
+    yAxisBounds,
+  } = useChartPositions({
+    annotationsHeight: 0,
+    height,
+    width,
+    xAxisHeight,
+    yAxisWidth: isVertical ? valueLabelWidth : keyLabelWidth,
+  });
+
+  const {ticks, yScale} = useYScale({
+    ...yScaleOptions,
+    drawableHeight,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  const {
+    xScale,
+    ticks: xTicks,
+    ticksFormatted: xTicksFormatted,
+    drawableWidth: valueAxisWidth,
+    chartXPosition: valueAxisOffset,
+  } = useHorizontalXScale({
+    allNumbers: [min, max],
+    isStacked: false,
+    labelFormatter: valueAxisOptions.labelFormatter,
+    longestLabel: {positive: valueLabelWidth / 2, negative: 0},
+    maxWidth: drawableWidth,
+    stackedMax: 0,
+    stackedMin: 0,
+  });
+
+  const valueScale = isVertical
+    ? yScale
+    : (value: number) => valueAxisOffset + xScale(value);
+
+  const {xScale: keyScale} = useXScale({
+    data: keys.map(() => []),
+    drawableWidth: isVertical ? drawableWidth : drawableHeight,
+    labels,
+  });
+
+  const seriesScale = scaleBand()
+    .range([0, keyScale.bandwidth()])
+    .paddingInner(data.length > 1 ? SERIES_PADDING : 0)
+    .domain(data.map((_, index) => `${index}`));
+
+  const reducedLabelIndexes = useReducedLabelIndexes({
+    dataLength: keys.length,
+  });
+
+  const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
+
+  const keyTicks = labels.map((formattedValue, index) => ({
+    value: index,
+    formattedValue,
+    yOffset: (keyScale(`${index}`) ?? 0) + keyScale.bandwidth() / 2,
+  }));
+
+  const valueAxisX = chartXPosition + valueAxisOffset;
+  const xTickLabelWidth = valueAxisWidth / Math.max(xTicks.length, 1);
+
+  const getTooltipMarkup = (index: number) => {
+    if (keys[index] == null) {
+      return null;
+    }
+
+    return renderTooltipContent({
+      data: data.map((series, seriesIndex) => {
+        const summary = summaries[seriesIndex][index];
+        const color = data.length > 1 ? seriesColors[seriesIndex] : undefined;
+
+        return {
+          shape: 'Bar',
+          name: seriesNameFormatter(series.name ?? ''),
+          data:
+            summary == null
+              ? []
+              : [
+                  {key: tooltipLabels.max, value: summary.max, color},
+                  {key: tooltipLabels.q3, value: summary.q3, color},
+                  {key: tooltipLabels.median, value: summary.median, color},
+                  {key: tooltipLabels.q1, value: summary.q1, color},
+                  {key: tooltipLabels.min, value: summary.min, color},
+                ],
+        };
+      }),
+      activeIndex: index,
+      dataSeries,
+      theme,
+      title: labels[index],
+    });
+  };
+
+  return (
+    <ChartElements.Div height={height} width={width}>
+      <ChartElements.Svg
+        emptyState={emptyState}
+        emptyStateText={emptyStateText}
+        height={height}
+        setRef={setSvgRef}
+        width={width}
+      >
+        {isVertical ? (
+          <g>
+            {selectedTheme.grid.showHorizontalLines ? (
+              <HorizontalGridLines
+                ticks={ticks}
+                transform={{
+                  x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
+                  y: chartYPosition,
+                }}
+                width={
+                  selectedTheme.grid.horizontalOverflow ? width : drawableWidth
+                }
+              />
+            ) : null}
+
+            <YAxis
+              ticks={ticks}
+              textAlign="right"
+              width={valueLabelWidth}
+              x={yAxisBounds.x}
+              y={yAxisBounds.y}
+            />
+
+            {hideXAxis ? null : (
+              <XAxis
+                allowLineWrap={xAxisOptions.allowLineWrap}
+                labels={labels}
+                labelWidth={keyScale.bandwidth()}
+                onHeightChange={setXAxisHeight}
+                reducedLabelIndexes={reducedLabelIndexes}
+                x={xAxisBounds.x}
+                xScale={keyScale}
+                y={xAxisBounds.y}
+              />
+            )}
+          </g>
+        ) : (
+          <g>
+            <YAxis
+              ticks={keyTicks}
+              textAlign="right"
+              width={keyLabelWidth}
+              x={yAxisBounds.x}
+              y={yAxisBounds.y}
+            />
+
+            {hideXAxis ? null : (
+              <g aria-hidden="true">
+                <g transform={`translate(${valueAxisX},${chartYPosition})`}>
+                  {xTicks.map((tick) => (
+                    <line
+                      key={tick}
+                      stroke={selectedTheme.grid.color}
+                      x1={xScale(tick)}
+                      x2={xScale(tick)}
+                      y2={drawableHeight}
+                    />
+                  ))}
+                </g>
+                <HorizontalBarChartXAxisLabels
+                  allowLineWrap={xAxisOptions.allowLineWrap}
+                  chartX={valueAxisX - xTickLabelWidth / 2}
+                  chartY={xAxisBounds.y}
+                  labels={xTicksFormatted}
+                  labelWidth={xTickLabelWidth}
+                  onHeightChange={setXAxisHeight}
+                  ticks={xTicks}
+                  xScale={xScale}
+                />
+              </g>
+            )}
+          </g>
+        )}
+
+        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          {keys.map((key, index) => (
+            <g
+              key={`${key}-${index}`}
+              aria-hidden="false"
+              aria-label={getAriaLabel(index)}
+              data-index={index}
+              data-type={DataType.BarGroup}
+              role="listitem"
+              tabIndex={0}
+            >
+              {data.map((series, seriesIndex) => {
+                const summary = summaries[seriesIndex][index];
+
+                if (summary == null) {
+                  return null;
+                }
+
+                return (
+                  <g
+                    key={`${series.name}-${seriesIndex}`}
+                    style={getColorVisionStylesForActiveIndex({
+                      activeIndex: activeSeriesIndex,
+                      index: seriesIndex,
+                    })}
+                  >
+                    <Box
+                      animationDelay={index * BOX_ANIMATION_DELAY}
+                      color={seriesColors[seriesIndex]}
+                      direction={direction}
+                      summary={getPixelSummary(summary)}
+                      width={seriesScale.bandwidth()}
+                      x={
+                        (keyScale(`${index}`) ?? 0) +
+                        (seriesScale(`${seriesIndex}`) ?? 0)
+                      }
+                    />
+                  </g>
+                );
+              })}
+            </g>
+          ))}
+        </g>
+      </ChartElements.Svg>
+
+      {emptyState ? null : (
+        <TooltipWrapper
+          bandwidth={keyScale.bandwidth()}
+          chartBounds={{
+            width,
+            height,
+            x: chartXPosition,
+            y: chartYPosition,
+          }}
+          chartDimensions={dimensions}
+          focusElementDataType={DataType.BarGroup}
+          getMarkup={getTooltipMarkup}
+          getPosition={getTooltipPosition}
+          margin={{...ChartMargin, Top: chartYPosition}}
+          parentRef={svgRef}
+          usePortal
+        />
+      )}
+
+      {showLegend && (
+        <LegendContainer
+          colorVisionType={COLOR_VISION_SINGLE_ITEM}
+          data={legend}
+          dimensions={dimensions}
+          enableHideOverflow
+          onDimensionChange={setLegendDimensions}
+          renderHiddenLegendLabel={renderHiddenLegendLabel}
+          renderLegendContent={renderLegendContent}
+        />
+      )}
+    </ChartElements.Div>
+  );
+
+  function getPixelSummary(
+    summary: Required<BoxPlotSummary>,
+  ): Required<BoxPlotSummary> {
+    return {
+      min: valueScale(summary.min),
+      q1: valueScale(summary.q1),
+      median: valueScale(summary.median),
+      q3: valueScale(summary.q3),
+      max: valueScale(summary.max),
+      outliers: summary.outliers.map((value) => valueScale(value)),
+    };
+  }
+
+  function getAriaLabel(index: number) {
+    const formatter = valueAxisOptions.labelFormatter;
+
+    const descriptions = data.flatMap((series, seriesIndex) => {
+      const summary = summaries[seriesIndex][index];
+
+      if (summary == null) {
+        return [];
+      }
+
+      const name =
+        data.length > 1 ? `${seriesNameFormatter(series.name ?? '')} ` : '';
+      const values = (['min', 'q1', 'median', 'q3', 'max'] as const)
+        .map(
+          (measure) =>
+            `${tooltipLabels[measure]} ${formatter(summary[measure])}`,
+        )
+        .join(', ');
+
+      return [`${name}${values}`];
+    });
+
+    return `${labels[index]}: ${descriptions.join('; ')}`;
+  }
+
+  function formatPositionForTooltip(index: number): TooltipPosition {
+    const keyPosition = (keyScale(`${index}`) ?? 0) + keyScale.bandwidth() / 2;
+    const extent = getBoxPlotExtent(
+      summaries.map((seriesSummaries) => seriesSummaries[index]),
+    );
+
+    if (isVertical) {
+      return {
+        x: chartXPosition + keyPosition + (dimensions?.x ?? 0),
+        y: chartYPosition + yScale(extent.max) + (dimensions?.y ?? 0),
+        position: {
+          horizontal: TooltipHorizontalOffset.Center,
+          vertical: TooltipVerticalOffset.Above,
+        },
+        activeIndex: index,
+      };
+    }
+
+    return {
+      x: chartXPosition + valueScale(extent.max) + (dimensions?.x ?? 0),
+      y: chartYPosition + keyPosition + (dimensions?.y ?? 0),
+      position: {
+        horizontal: TooltipHorizontalOffset.Right,
+        vertical: TooltipVerticalOffset.Center,
+      },
+      activeIndex: index,
+    };
+  }
+
+  function getTooltipPosition({
+    event,
+    index,
+    eventType,
+  }: TooltipPositionParams): TooltipPosition {
+    if (eventType === 'mouse' && event) {
+      const point = eventPointNative(event);
+
+      if (point == null) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      const position = isVertical
+        ? point.svgX - chartXPosition
+        : point.svgY - chartYPosition;
+      const keyIndex = Math.floor(position / keyScale.step());
+
+      if (keyIndex < 0 || keyIndex >= keys.length) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      return formatPositionForTooltip(keyIndex);
+    } else if (index != null) {
+      return formatPositionForTooltip(index);
+    }
+
+    return TOOLTIP_POSITION_DEFAULT_RETURN;
+  }
+}
@@ -0,0 +1,111 @@
+import {animated, useSpring} from '@react-spring/web';
+import type {Direction} from '@shopify/polaris-viz-core';
+import {changeColorOpacity} from '@shopify/polaris-viz-core';
+
+import {useBarSpringConfig} from '../../../../hooks/useBarSpringConfig';
+import {
+  BOX_FILL_OPACITY,
+  MEDIAN_STROKE_WIDTH,
+  OUTLIER_FILL_OPACITY,
+  OUTLIER_RADIUS,
+  WHISKER_CAP_RATIO,
+} from '../../constants';
+import type {BoxPlotSummary} from '../../types';
+
+export interface BoxProps {
+  color: string;
+  direction: Direction;
+  /**
+   * The summary in pixels along the value axis.
+   */
+  summary: Required<BoxPlotSummary>;
+  width: number;
+  x: number;
+  animationDelay?: number;
+}
+
+export function Box({
+  animationDelay = 0,
+  color,
+  direction,
+  summary,
+  width,
+  x,
+}: BoxProps) {
+  const isVertical = direction === 'vertical';
+  const {min, q1, median, q3, max, outliers} = summary;
+
+  const springConfig = useBarSpringConfig({animationDelay});
+
+  // Boxes grow out from their median along the value axis.
+  const {scale} = useSpring({
+    from: {scale: 0},
+    to: {scale: 1},
+    ...springConfig,
+  });
+
+  const center = x + width / 2;
+  const capOffset = (width * WHISKER_CAP_RATIO) / 2;
+
+  // Positions are described as vertical boxes and swapped
+  // onto the x axis when the chart is horizontal.
+  function getLine(
+    fromPosition: number,
+    fromValue: number,
+    toPosition: number,
+    toValue: number,
+  ) {
+    return isVertical
+      ? {x1: fromPosition, y1: fromValue, x2: toPosition, y2: toValue}
+      : {x1: fromValue, y1: fromPosition, x2: toValue, y2: toPosition};
+  }
+
+  const boxStart = Math.min(q1, q3);
+  const boxLength = Math.abs(q3 - q1);
+
+  const transform = scale.to((value) =>
+    isVertical
+      ? `translate(0px, ${median}px) scale(1, ${value}) translate(0px, ${-median}px)`
+      : `translate(${median}px, 0px) scale(${value}, 1) translate(${-median}px, 0px)`,
+  );
+
+  return (
+    <g aria-hidden="true">
+      <animated.g style={{transform}}>
+        <line {...getLine(center, min, center, q1)} stroke={color} />
+        <line {...getLine(center, q3, center, max)} stroke={color} />
+        <line
+          {...getLine(center - capOffset, min, center + capOffset, min)}
+          stroke={color}
+        />
+        <line
+          {...getLine(center - capOffset, max, center + capOffset, max)}
+          stroke={color}
+        />
+        <rect
+          fill={changeColorOpacity(color, BOX_FILL_OPACITY)}
+          stroke={color}
+          x={isVertical ? x : boxStart}
+          y={isVertical ? boxStart : x}
+          width={isVertical ? width : boxLength}
+          height={isVertical ? boxLength : width}
+        />
+        <line
+          {...getLine(x, median, x + width, median)}
+          stroke={color}
+          strokeWidth={MEDIAN_STROKE_WIDTH}
+        />
+      </animated.g>
+      {outliers.map((value, index) => (
+        <circle
+          key={index}
+          cx={isVertical ? center : value}
+          cy={isVertical ? value : center}
+          fill={changeColorOpacity(color, OUTLIER_FILL_OPACITY)}
+          r={OUTLIER_RADIUS}
+          stroke={color}
+        />
+      ))}
+    </g>
+  );
+}
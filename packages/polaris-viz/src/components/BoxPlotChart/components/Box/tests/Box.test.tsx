@@ -0,0 +1,88 @@
+import {mount} from '@shopify/react-testing';
+
+import type {BoxProps} from '../Box';
+import {Box} from '../Box';
+
+const MOCK_PROPS: BoxProps = {
+  color: 'red',
+  direction: 'vertical',
+  summary: {min: 100, q1: 80, median: 60, q3: 40, max: 20, outliers: [5]},
+  width: 20,
+  x: 10,
+};
+
+describe('<Box />', () => {
+  it('renders the box between the quartiles', () => {
+    const box = mount(
+      <svg>
+        <Box {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    expect(box).toContainReactComponent('rect', {
+      x: 10,
+      y: 40,
+      width: 20,
+      height: 40,
+    });
+  });
+
+  it('renders the median across the box', () => {
+    const box = mount(
+      <svg>
+        <Box {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    expect(box).toContainReactComponent('line', {
+      x1: 10,
+      x2: 30,
+      y1: 60,
+      y2: 60,
+      strokeWidth: 2,
+    });
+  });
+
+  it('renders whiskers and outliers', () => {
+    const box = mount(
+      <svg>
+        <Box {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    expect(box).toContainReactComponent('line', {
+      x1: 20,
+      y1: 100,
+      x2: 20,
+      y2: 80,
+    });
+    expect(box).toContainReactComponentTimes('circle', 1);
+    expect(box).toContainReactComponent('circle', {cx: 20, cy: 5});
+  });
+
+  it('swaps the axes when horizontal', () => {
+    const box = mount(
+      <svg>
+        <Box
+          {...MOCK_PROPS}
+          direction="horizontal"
+          summary={{
+            min: 20,
+            q1: 40,
+            median: 60,
+            q3: 80,
+            max: 100,
+            outliers: [],
+          }}
+        />
+      </svg>,
+    );
+
+    expect(box).toContainReactComponent('rect', {
+      x: 40,
+      y: 10,
+      width: 40,
+      height: 20,
+    });
+  });
+});
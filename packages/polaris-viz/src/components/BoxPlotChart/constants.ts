@@ -0,0 +1,9 @@
+export const BOX_FILL_OPACITY = 0.25;
+export const MEDIAN_STROKE_WIDTH = 2;
+export const WHISKER_CAP_RATIO = 0.5;
+export const OUTLIER_RADIUS = 3;
+export const OUTLIER_FILL_OPACITY = 0.4;
+export const IQR_MULTIPLIER = 1.5;
+export const MAX_Y_AXIS_LABEL_WIDTH = 160;
+export const SERIES_PADDING = 0.1;
+export const BOX_ANIMATION_DELAY = 50;
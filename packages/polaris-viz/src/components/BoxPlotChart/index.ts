@@ -0,0 +1,9 @@
+export {BoxPlotChart} from './BoxPlotChart';
+export type {BoxPlotChartProps} from './BoxPlotChart';
+export {getBoxPlotSummary} from './utilities';
+export type {
+  BoxPlotDataPoint,
+  BoxPlotDataSeries,
+  BoxPlotSummary,
+  BoxPlotTooltipLabels,
+} from './types';
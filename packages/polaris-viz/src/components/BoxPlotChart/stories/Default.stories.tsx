@@ -0,0 +1,29 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {BoxPlotChartProps} from '../../../components';
+
+import {COMPARISON_DATA, DEFAULT_DATA, Template, formatCurrency} from './data';
+
+export const Default: Story<BoxPlotChartProps> = Template.bind({});
+
+Default.args = {
+  data: DEFAULT_DATA,
+  yAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const Horizontal: Story<BoxPlotChartProps> = Template.bind({});
+
+Horizontal.args = {
+  data: DEFAULT_DATA,
+  direction: 'horizontal',
+  xAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const Comparison: Story<BoxPlotChartProps> = Template.bind({});
+
+Comparison.args = {
+  data: COMPARISON_DATA,
+  yAxisOptions: {labelFormatter: formatCurrency},
+};
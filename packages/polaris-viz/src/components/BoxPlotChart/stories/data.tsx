@@ -0,0 +1,68 @@
+import type {Story} from '@storybook/react';
+
+import type {BoxPlotChartProps} from '../BoxPlotChart';
+import {BoxPlotChart} from '../BoxPlotChart';
+import type {BoxPlotDataSeries} from '../types';
+
+function getOrderValues(count: number, base: number, spread: number) {
+  return Array.from({length: count}, (_, index) => {
+    const wave = Math.sin(index * 1.7) + Math.cos(index * 0.9);
+
+    return Math.round(base + wave * spread);
+  });
+}
+
+export const DEFAULT_DATA: BoxPlotDataSeries[] = [
+  {
+    name: 'Order value',
+    data: [
+      {key: 'Online store', values: [...getOrderValues(40, 85, 20), 240, 260]},
+      {key: 'Point of sale', values: getOrderValues(40, 60, 15)},
+      {key: 'Wholesale', values: [...getOrderValues(30, 180, 45), 12]},
+      {key: 'Marketplace', values: getOrderValues(30, 70, 25)},
+    ],
+  },
+];
+
+export const COMPARISON_DATA: BoxPlotDataSeries[] = [
+  {
+    name: 'This year',
+    data: [
+      {key: 'Q1', values: getOrderValues(30, 80, 20)},
+      {key: 'Q2', values: getOrderValues(30, 95, 25)},
+      {key: 'Q3', values: getOrderValues(30, 90, 15)},
+      {key: 'Q4', values: [...getOrderValues(30, 120, 30), 310]},
+    ],
+  },
+  {
+    name: 'Last year',
+    data: [
+      {key: 'Q1', summary: {min: 30, q1: 55, median: 68, q3: 82, max: 110}},
+      {key: 'Q2', summary: {min: 35, q1: 60, median: 75, q3: 90, max: 120}},
+      {key: 'Q3', summary: {min: 40, q1: 62, median: 78, q3: 92, max: 118}},
+      {
+        key: 'Q4',
+        summary: {
+          min: 45,
+          q1: 80,
+          median: 98,
+          q3: 120,
+          max: 165,
+          outliers: [240],
+        },
+      },
+    ],
+  },
+];
+
+export function formatCurrency(value: number | string | null) {
+  return `$${Number(value).toLocaleString()}`;
+}
+
+export const Template: Story<BoxPlotChartProps> = (args: BoxPlotChartProps) => {
+  return (
+    <div style={{height: 400}}>
+      <BoxPlotChart {...args} />
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import type {Meta} from '@storybook/react';
+
+import {
+  CHART_STATE_CONTROL_ARGS,
+  CONTROLS_ARGS,
+  DIRECTION_CONTROL_ARGS,
+  EMPTY_STATE_TEXT_ARGS,
+  SHOW_LEGEND_ARGS,
+  THEME_CONTROL_ARGS,
+  X_AXIS_OPTIONS_ARGS,
+  Y_AXIS_OPTIONS_ARGS,
+} from '../../../storybook/constants';
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {BoxPlotChart} from '../BoxPlotChart';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/BoxPlotChart',
+  component: BoxPlotChart,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to compare distributions across categories, like order values by sales channel.',
+      },
+    },
+  },
+  argTypes: {
+    data: {
+      description:
+        'Each data point accepts either raw `values` or a precomputed `summary` of min, quartiles, max and outliers.',
+    },
+    tooltipLabels: {
+      description: 'Names of the five-number summary tooltip rows.',
+    },
+    direction: DIRECTION_CONTROL_ARGS,
+    emptyStateText: EMPTY_STATE_TEXT_ARGS,
+    showLegend: SHOW_LEGEND_ARGS,
+    xAxisOptions: X_AXIS_OPTIONS_ARGS,
+    yAxisOptions: Y_AXIS_OPTIONS_ARGS,
+    theme: THEME_CONTROL_ARGS,
+    state: CHART_STATE_CONTROL_ARGS,
+  },
+};
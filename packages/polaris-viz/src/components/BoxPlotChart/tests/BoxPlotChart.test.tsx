@@ -0,0 +1,62 @@
+import {mount} from '@shopify/react-testing';
+import {ChartState} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../ChartContainer';
+import {ChartSkeleton} from '../../ChartSkeleton';
+import type {BoxPlotChartProps} from '../BoxPlotChart';
+import {BoxPlotChart} from '../BoxPlotChart';
+import {Chart} from '../Chart';
+
+const MOCK_PROPS: BoxPlotChartProps = {
+  data: [
+    {
+      name: 'Order value',
+      data: [{key: 'Online', values: [10, 20, 30]}],
+    },
+  ],
+};
+
+describe('<BoxPlotChart />', () => {
+  it('renders <ChartContainer /> with the medians as data', () => {
+    const chart = mount(<BoxPlotChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(ChartContainer, {
+      data: [{name: 'Order value', data: [{key: 'Online', value: 20}]}],
+    });
+  });
+
+  it('renders <Chart /> with defaults', () => {
+    const chart = mount(<BoxPlotChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(Chart, {
+      direction: 'vertical',
+      showLegend: false,
+      tooltipLabels: {
+        min: 'Min',
+        q1: 'Q1',
+        median: 'Median',
+        q3: 'Q3',
+        max: 'Max',
+      },
+    });
+  });
+
+  it('shows the legend when comparing series', () => {
+    const chart = mount(
+      <BoxPlotChart
+        data={[...MOCK_PROPS.data, {name: 'Last year', data: []}]}
+      />,
+    );
+
+    expect(chart).toContainReactComponent(Chart, {showLegend: true});
+  });
+
+  it('renders <ChartSkeleton /> while loading', () => {
+    const chart = mount(
+      <BoxPlotChart {...MOCK_PROPS} state={ChartState.Loading} />,
+    );
+
+    expect(chart).toContainReactComponent(ChartSkeleton);
+    expect(chart).not.toContainReactComponent(Chart);
+  });
+});
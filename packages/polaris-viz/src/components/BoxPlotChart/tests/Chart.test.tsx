@@ -0,0 +1,166 @@
+import {mount} from '@shopify/react-testing';
+import {DEFAULT_THEME_NAME} from '@shopify/polaris-viz-core';
+
+import type {ChartProps} from '../Chart';
+import {Chart} from '../Chart';
+import {Box} from '../components';
+import {XAxis} from '../../XAxis';
+import {YAxis} from '../../YAxis';
+import {HorizontalBarChartXAxisLabels} from '../../HorizontalBarChartXAxisLabels';
+import {LegendContainer} from '../../LegendContainer';
+import {TooltipWrapper} from '../../TooltipWrapper';
+
+const MOCK_PROPS: ChartProps = {
+  data: [
+    {
+      name: 'Order value',
+      color: 'red',
+      data: [
+        {key: 'Online', values: [10, 20, 30, 40, 50]},
+        {
+          key: 'Retail',
+          summary: {min: 5, q1: 15, median: 25, q3: 35, max: 45},
+        },
+      ],
+    },
+  ],
+  dimensions: {height: 300, width: 600, x: 0, y: 0},
+  direction: 'vertical',
+  renderTooltipContent: jest.fn(() => null),
+  seriesNameFormatter: (value) => `${value}`,
+  showLegend: false,
+  tooltipLabels: {
+    min: 'Min',
+    q1: 'Q1',
+    median: 'Median',
+    q3: 'Q3',
+    max: 'Max',
+  },
+  xAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    hide: false,
+    allowLineWrap: false,
+  },
+  yAxisOptions: {
+    labelFormatter: (value) => `$${value}`,
+    integersOnly: false,
+    fixedWidth: false,
+    maxYOverride: null,
+    minYOverride: null,
+  },
+};
+
+describe('<Chart />', () => {
+  it('renders a <Box /> for each key', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponentTimes(Box, 2);
+  });
+
+  it('renders a <Box /> for each series within a key', () => {
+    const chart = mount(
+      <Chart
+        {...MOCK_PROPS}
+        data={[
+          ...MOCK_PROPS.data,
+          {
+            name: 'Last year',
+            color: 'blue',
+            data: [
+              {key: 'Online', values: [12, 18]},
+              {key: 'Retail', values: []},
+            ],
+          },
+        ]}
+      />,
+    );
+
+    const boxes = chart.findAll(Box);
+
+    expect(boxes).toHaveLength(3);
+    expect(boxes[0].props.width).toBeLessThan(
+      mount(<Chart {...MOCK_PROPS} />).find(Box)!.props.width,
+    );
+  });
+
+  it('passes the summary in pixels with the value axis inverted', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const {summary} = chart.find(Box)!.props;
+
+    expect(summary.min).toBeGreaterThan(summary.q1);
+    expect(summary.q1).toBeGreaterThan(summary.median);
+    expect(summary.median).toBeGreaterThan(summary.q3);
+    expect(summary.q3).toBeGreaterThan(summary.max);
+  });
+
+  it('labels keys with their five-number summary', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent('g', {
+      'aria-label': 'Retail: Min $5, Q1 $15, Median $25, Q3 $35, Max $45',
+    });
+  });
+
+  it('renders a <LegendContainer /> when showLegend is true', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} showLegend />);
+
+    expect(chart).toContainReactComponent(LegendContainer);
+  });
+
+  describe('direction', () => {
+    it('renders keys on the <XAxis /> when vertical', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).toContainReactComponent(XAxis, {
+        labels: ['Online', 'Retail'],
+      });
+    });
+
+    it('renders keys on the <YAxis /> when horizontal', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} direction="horizontal" />);
+
+      expect(chart).not.toContainReactComponent(XAxis);
+      expect(chart).toContainReactComponent(HorizontalBarChartXAxisLabels);
+      expect(chart.find(YAxis)!.props.ticks[0]).toMatchObject({
+        formattedValue: '$Online',
+      });
+
+      const {summary} = chart.find(Box)!.props;
+
+      expect(summary.max).toBeGreaterThan(summary.min);
+    });
+  });
+
+  describe('tooltip', () => {
+    it('lists the five-number summary', () => {
+      const renderTooltipContent = jest.fn(() => null);
+      const chart = mount(
+        <Chart {...MOCK_PROPS} renderTooltipContent={renderTooltipContent} />,
+      );
+
+      chart.find(TooltipWrapper)!.props.getMarkup(0);
+
+      expect(renderTooltipContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [
+            {
+              shape: 'Bar',
+              name: 'Order value',
+              data: [
+                {key: 'Max', value: 50, color: undefined},
+                {key: 'Q3', value: 40, color: undefined},
+                {key: 'Median', value: 30, color: undefined},
+                {key: 'Q1', value: 20, color: undefined},
+                {key: 'Min', value: 10, color: undefined},
+              ],
+            },
+          ],
+          activeIndex: 0,
+          theme: DEFAULT_THEME_NAME,
+          title: 'Online',
+        }),
+      );
+    });
+  });
+});
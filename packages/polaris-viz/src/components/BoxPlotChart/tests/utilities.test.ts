@@ -0,0 +1,84 @@
+import {
+  getBoxPlotExtent,
+  getBoxPlotSummary,
+  getDataSeriesFromBoxPlotData,
+} from '../utilities';
+
+describe('getBoxPlotSummary()', () => {
+  it('summarises raw values', () => {
+    expect(
+      getBoxPlotSummary({key: 'A', values: [5, 1, 3, 2, 4]}),
+    ).toStrictEqual({min: 1, q1: 2, median: 3, q3: 4, max: 5, outliers: []});
+  });
+
+  it('separates values beyond 1.5 × the interquartile range as outliers', () => {
+    const summary = getBoxPlotSummary({
+      key: 'A',
+      values: [-40, 10, 11, 12, 13, 14, 80],
+    });
+
+    expect(summary).toMatchObject({min: 10, max: 14, outliers: [-40, 80]});
+  });
+
+  it('returns precomputed summaries', () => {
+    expect(
+      getBoxPlotSummary({
+        key: 'A',
+        values: [1, 2, 3],
+        summary: {min: 0, q1: 10, median: 20, q3: 30, max: 40},
+      }),
+    ).toStrictEqual({
+      min: 0,
+      q1: 10,
+      median: 20,
+      q3: 30,
+      max: 40,
+      outliers: [],
+    });
+  });
+
+  it('returns null without values', () => {
+    expect(getBoxPlotSummary({key: 'A', values: []})).toBeNull();
+    expect(getBoxPlotSummary({key: 'A'})).toBeNull();
+  });
+});
+
+describe('getBoxPlotExtent()', () => {
+  it('includes whiskers and outliers', () => {
+    expect(
+      getBoxPlotExtent([
+        {min: 5, q1: 6, median: 7, q3: 8, max: 9, outliers: [40]},
+        null,
+        {min: -2, q1: 0, median: 1, q3: 2, max: 3, outliers: []},
+      ]),
+    ).toStrictEqual({min: -2, max: 40});
+  });
+
+  it('returns zero without summaries', () => {
+    expect(getBoxPlotExtent([null])).toStrictEqual({min: 0, max: 0});
+  });
+});
+
+describe('getDataSeriesFromBoxPlotData()', () => {
+  it('uses the median as the value', () => {
+    expect(
+      getDataSeriesFromBoxPlotData([
+        {
+          name: 'Orders',
+          data: [
+            {key: 'Mon', values: [1, 2, 3]},
+            {key: 'Tue', values: []},
+          ],
+        },
+      ]),
+    ).toStrictEqual([
+      {
+        name: 'Orders',
+        data: [
+          {key: 'Mon', value: 2},
+          {key: 'Tue', value: null},
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+export interface BoxPlotSummary {
+  min: number;
+  q1: number;
+  median: number;
+  q3: number;
+  max: number;
+  outliers?: number[];
+}
+
+export interface BoxPlotDataPoint {
+  key: string | number;
+  /**
+   * Raw observations, summarised with whiskers at the furthest
+   * values within 1.5 × the interquartile range.
+   */
+  values?: number[];
+  /**
+   * Precomputed summary, used instead of `values`.
+   */
+  summary?: BoxPlotSummary;
+}
+
+export interface BoxPlotDataSeries extends Omit<DataSeries, 'data'> {
+  data: BoxPlotDataPoint[];
+}
+
+export interface BoxPlotTooltipLabels {
+  min?: string;
+  q1?: string;
+  median?: string;
+  q3?: string;
+  max?: string;
+}
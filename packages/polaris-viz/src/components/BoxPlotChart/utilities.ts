@@ -0,0 +1,69 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import {ascending, quantileSorted} from 'd3-array';
+
+import {IQR_MULTIPLIER} from './constants';
+import type {
+  BoxPlotDataPoint,
+  BoxPlotDataSeries,
+  BoxPlotSummary,
+} from './types';
+
+export function getBoxPlotSummary({
+  summary,
+  values,
+}: BoxPlotDataPoint): Required<BoxPlotSummary> | null {
+  if (summary != null) {
+    return {outliers: [], ...summary};
+  }
+
+  if (values == null || values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort(ascending);
+  const q1 = quantileSorted(sorted, 0.25)!;
+  const median = quantileSorted(sorted, 0.5)!;
+  const q3 = quantileSorted(sorted, 0.75)!;
+  const fence = (q3 - q1) * IQR_MULTIPLIER;
+
+  const inliers = sorted.filter(
+    (value) => value >= q1 - fence && value <= q3 + fence,
+  );
+
+  return {
+    min: inliers[0],
+    q1,
+    median,
+    q3,
+    max: inliers[inliers.length - 1],
+    outliers: sorted.filter((value) => !inliers.includes(value)),
+  };
+}
+
+export function getBoxPlotExtent(
+  summaries: (Required<BoxPlotSummary> | null)[],
+) {
+  const values = summaries.flatMap((summary) =>
+    summary == null ? [] : [summary.min, summary.max, ...summary.outliers],
+  );
+
+  if (values.length === 0) {
+    return {min: 0, max: 0};
+  }
+
+  return {min: Math.min(...values), max: Math.max(...values)};
+}
+
+// Legends and containers expect `DataSeries`, so each
+// box is passed along with its median as the value.
+export function getDataSeriesFromBoxPlotData(
+  data: BoxPlotDataSeries[],
+): DataSeries[] {
+  return data.map((series) => ({
+    ...series,
+    data: series.data.map((dataPoint) => ({
+      key: dataPoint.key,
+      value: getBoxPlotSummary(dataPoint)?.median ?? null,
+    })),
+  }));
+}
@@ -1,5 +1,5 @@
 import type {ReactElement} from 'react';
-import {useState, useMemo} from 'react';
+import {useContext, useEffect, useState, useMemo} from 'react';
 import type {
   DataGroup,
   DataSeries,
@@ -12,13 +12,18 @@ import {
   isLargeDataSet,
 } from '@shopify/polaris-viz-core';
 
+import {EXTERNAL_EVENTS_SET_EXPORTING} from '../../constants';
 import {getChartId} from '../../utilities/getChartId';
 import characterWidths from '../../data/character-widths.json';
 import characterWidthOffsets from '../../data/character-width-offsets.json';
 import {useTheme, usePrefersReducedMotion} from '../../hooks';
+import {getEventName} from '../../hooks/ColorVisionA11y';
+import type {ExportingEventReturn} from '../../types';
 import type {SkeletonType} from '../ChartSkeleton';
 
 import styles from './ChartContainer.scss';
+import {StaticChartContext} from './StaticChartContext';
+import {SharedChartContext} from './SharedChartContext';
 import {ChartDimensions} from './components/';
 
 interface Props {
@@ -37,8 +42,25 @@ interface Props {
 export const ChartContainer = (props: Props) => {
   const id = props.id ?? uniqueId('chart');
 
+  const staticChart = useContext(StaticChartContext);
+  const sharedChart = useContext(SharedChartContext);
   const {prefersReducedMotion} = usePrefersReducedMotion();
   const [isPrinting, setIsPrinting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const eventName = getEventName(id, EXTERNAL_EVENTS_SET_EXPORTING);
+
+    function handleExportingChange({detail}: ExportingEventReturn) {
+      setIsExporting(detail.isExporting);
+    }
+
+    window.addEventListener(eventName, handleExportingChange);
+
+    return () => {
+      window.removeEventListener(eventName, handleExportingChange);
+    };
+  }, [id]);
 
   const dataTooBigToAnimate = useMemo(() => {
     return isLargeDataSet(props.data, props.type);
@@ -46,8 +68,12 @@ export const ChartContainer = (props: Props) => {
 
   const value = useMemo(() => {
     const shouldAnimate =
-      props.isAnimated && !prefersReducedMotion && !dataTooBigToAnimate;
-    const printFriendlyTheme = isPrinting ? 'Print' : props.theme;
+      (sharedChart?.shouldAnimate ?? props.isAnimated) &&
+      !prefersReducedMotion &&
+      !dataTooBigToAnimate &&
+      staticChart == null;
+    const printFriendlyTheme =
+      isPrinting || isExporting ? 'Print' : sharedChart?.theme ?? props.theme;
 
     return {
       shouldAnimate,
@@ -60,12 +86,15 @@ export const ChartContainer = (props: Props) => {
     };
   }, [
     id,
+    isExporting,
     isPrinting,
     prefersReducedMotion,
     props.isAnimated,
     props.theme,
     dataTooBigToAnimate,
     props.scrollContainer,
+    sharedChart,
+    staticChart,
   ]);
 
   const {chartContainer, grid} = useTheme(value.theme);
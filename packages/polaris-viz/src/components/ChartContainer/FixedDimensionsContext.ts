@@ -0,0 +1,7 @@
+import {createContext} from 'react';
+import type {Dimensions} from '@shopify/polaris-viz-core';
+
+// Provided by components that size their charts themselves, such as
+// `<SparkTable />`, so the charts skip measuring their container.
+// Unlike `StaticChartContext`, charts keep animating.
+export const FixedDimensionsContext = createContext<Dimensions | null>(null);
@@ -0,0 +1,8 @@
+import {createContext} from 'react';
+import type {ChartContextValues} from '@shopify/polaris-viz-core';
+
+// Provided by components that lay out several charts, such as
+// `<SmallMultiples />`, so every chart uses the same theme and
+// animation settings.
+export const SharedChartContext =
+  createContext<ChartContextValues | null>(null);
@@ -0,0 +1,11 @@
+import {createContext} from 'react';
+import type {Dimensions} from '@shopify/polaris-viz-core';
+
+export interface StaticChartContextValues {
+  dimensions: Dimensions;
+}
+
+// Provided when rendering outside of a browser, where charts
+// can't measure their container and animations never run.
+export const StaticChartContext =
+  createContext<StaticChartContextValues | null>(null);
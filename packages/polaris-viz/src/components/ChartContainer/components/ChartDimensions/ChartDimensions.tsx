@@ -1,5 +1,5 @@
 import type {Dispatch, ReactElement, SetStateAction} from 'react';
-import {cloneElement, useCallback, useLayoutEffect, useState} from 'react';
+import {cloneElement, useCallback, useContext, useMemo, useState} from 'react';
 import type {
   DataGroup,
   DataSeries,
@@ -16,7 +16,13 @@ import {useDebouncedCallback} from 'use-debounce';
 import type {SkeletonType} from 'components/ChartSkeleton';
 
 import {ChartErrorBoundary} from '../../../ChartErrorBoundary';
-import {usePrintResizing, useResizeObserver} from '../../../../hooks';
+import {
+  useIsomorphicLayoutEffect,
+  usePrintResizing,
+  useResizeObserver,
+} from '../../../../hooks';
+import {FixedDimensionsContext} from '../../FixedDimensionsContext';
+import {StaticChartContext} from '../../StaticChartContext';
 
 import styles from './ChartDimensions.scss';
 
@@ -42,9 +48,21 @@ export function ChartDimensions({
   const {chartContainer} = useTheme();
   const {onError: onErrorProvider} = usePolarisVizContext();
 
-  const [chartDimensions, setChartDimensions] =
+  const staticChart = useContext(StaticChartContext);
+  const fixedDimensions =
+    useContext(FixedDimensionsContext) ?? staticChart?.dimensions ?? null;
+
+  const [measuredDimensions, setChartDimensions] =
     useState<BoundingRect | null>(null);
 
+  const chartDimensions = useMemo(
+    () =>
+      fixedDimensions == null
+        ? measuredDimensions
+        : {...fixedDimensions, x: 0, y: 0},
+    [fixedDimensions, measuredDimensions],
+  );
+
   const {ref, setRef, entry} = useResizeObserver();
 
   const previousEntry = usePrevious(entry);
@@ -77,7 +95,11 @@ export function ChartDimensions({
     updateDimensions();
   }, 100);
 
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
+    if (fixedDimensions != null) {
+      return;
+    }
+
     updateDimensions();
 
     if (chartDimensions === null) {
@@ -110,12 +132,15 @@ export function ChartDimensions({
     chartContainer.minHeight,
     sparkChart,
     chartContainer.sparkChartMinHeight,
+    fixedDimensions,
   ]);
 
   return (
     <div
       className={styles.ChartDimensions}
-      ref={setRef}
+      // Charts with fixed dimensions never need to measure
+      // their container, so the observer is skipped.
+      ref={fixedDimensions == null ? setRef : undefined}
       style={{
         minHeight: sparkChart
           ? chartContainer.sparkChartMinHeight
@@ -1 +1,5 @@
 export {ChartContainer} from './ChartContainer';
+export {StaticChartContext} from './StaticChartContext';
+export {SharedChartContext} from './SharedChartContext';
+export {FixedDimensionsContext} from './FixedDimensionsContext';
+export type {StaticChartContextValues} from './StaticChartContext';
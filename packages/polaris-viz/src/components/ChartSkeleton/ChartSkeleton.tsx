@@ -7,6 +7,8 @@ import {
   GridSkeleton,
   DonutSkeleton,
   FunnelSkeleton,
+  GaugeSkeleton,
+  HeatmapSkeleton,
   Shimmer,
   SimpleBarSkeleton,
   SimpleNormalizedSkeleton,
@@ -18,6 +20,8 @@ export type SkeletonType =
   | 'Default'
   | 'Donut'
   | 'Funnel'
+  | 'Gauge'
+  | 'Heatmap'
   | 'SimpleBar'
   | 'Spark'
   | 'SimpleNormalized';
@@ -41,6 +45,14 @@ export interface FunnelSkeletonProps extends ChartSkeletonProps {
   type: 'Funnel';
 }
 
+export interface GaugeSkeletonProps extends ChartSkeletonProps {
+  type: 'Gauge';
+}
+
+export interface HeatmapSkeletonProps extends ChartSkeletonProps {
+  type: 'Heatmap';
+}
+
 export interface SimpleBarSkeletonProps extends ChartSkeletonProps {
   type: 'SimpleBar';
 }
@@ -59,6 +71,8 @@ type Props =
   | DefaultSkeletonProps
   | DonutSkeletonProps
   | FunnelSkeletonProps
+  | GaugeSkeletonProps
+  | HeatmapSkeletonProps
   | SimpleBarSkeletonProps
   | SimpleNormalizedSkeletonProps
   | SparkSkeletonProps;
@@ -102,6 +116,28 @@ export function ChartSkeleton(props: Props) {
             errorText={errorText}
           />
         );
+      case 'Gauge':
+        return (
+          <GaugeSkeleton
+            dimensions={{
+              width,
+              height,
+            }}
+            state={state}
+            errorText={errorText}
+          />
+        );
+      case 'Heatmap':
+        return (
+          <HeatmapSkeleton
+            dimensions={{
+              width,
+              height,
+            }}
+            state={state}
+            errorText={errorText}
+          />
+        );
       case 'SimpleBar':
         return (
           <SimpleBarSkeleton
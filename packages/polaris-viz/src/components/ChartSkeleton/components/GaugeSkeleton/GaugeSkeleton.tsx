@@ -0,0 +1,51 @@
+import type {Dimensions} from '@shopify/polaris-viz-core';
+import {ChartState, useTheme} from '@shopify/polaris-viz-core';
+
+import {ANIMATION_SIZE_BUFFER, Arc} from '../../../Arc';
+import {ErrorText} from '../ErrorText';
+
+const HALF_CIRCLE = Math.PI / 2;
+const PADDING = 8;
+
+interface Props {
+  dimensions: Dimensions;
+  state: ChartState;
+  errorText: string;
+}
+
+export function GaugeSkeleton({dimensions, state, errorText}: Props) {
+  const {width, height} = dimensions;
+
+  const selectedTheme = useTheme();
+
+  const radius = Math.max(Math.min(width / 2, height) - PADDING, 0);
+  const diameter = radius * 2;
+  const offset = radius - ANIMATION_SIZE_BUFFER;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`}>
+      {state === ChartState.Loading && (
+        <g
+          transform={`translate(${width / 2 - offset},${
+            (height + radius) / 2 - offset
+          })`}
+        >
+          <Arc
+            isAnimated={false}
+            width={diameter}
+            height={diameter}
+            radius={radius}
+            startAngle={-HALF_CIRCLE}
+            endAngle={HALF_CIRCLE}
+            color={selectedTheme.grid.color}
+            cornerRadius={selectedTheme.arc.cornerRadius}
+            thickness={selectedTheme.arc.thickness}
+          />
+        </g>
+      )}
+      {state === ChartState.Error && (
+        <ErrorText errorText={errorText} width={width} height={height} />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,53 @@
+import type {Dimensions} from '@shopify/polaris-viz-core';
+import {
+  useTheme,
+  changeColorOpacity,
+  ChartState,
+} from '@shopify/polaris-viz-core';
+
+import {ErrorText} from '../ErrorText';
+
+interface Props {
+  dimensions: Dimensions;
+  state: ChartState;
+  errorText: string;
+}
+
+const ROWS = 5;
+const COLUMNS = 12;
+const GAP = 2;
+
+export function HeatmapSkeleton({dimensions, state, errorText}: Props) {
+  const {width, height} = dimensions;
+
+  const {
+    grid: {color: gridColor},
+  } = useTheme();
+
+  const cellWidth = width / COLUMNS;
+  const cellHeight = height / ROWS;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`}>
+      {state === ChartState.Loading &&
+        Array.from({length: ROWS * COLUMNS}, (_, index) => {
+          const row = Math.floor(index / COLUMNS);
+          const column = index % COLUMNS;
+
+          return (
+            <rect
+              key={index}
+              fill={changeColorOpacity(gridColor, (row + column) % 2 ? 0.6 : 1)}
+              x={column * cellWidth}
+              y={row * cellHeight}
+              width={Math.max(cellWidth - GAP, 0)}
+              height={Math.max(cellHeight - GAP, 0)}
+            />
+          );
+        })}
+      {state === ChartState.Error && (
+        <ErrorText errorText={errorText} width={width} height={height} />
+      )}
+    </svg>
+  );
+}
@@ -2,6 +2,8 @@ export {Shimmer} from './Shimmer';
 export {GridSkeleton} from './GridSkeleton';
 export {DonutSkeleton} from './DonutSkeleton';
 export {FunnelSkeleton} from './FunnelSkeleton';
+export {GaugeSkeleton} from './GaugeSkeleton';
+export {HeatmapSkeleton} from './HeatmapSkeleton';
 export {ErrorText} from './ErrorText';
 export {SimpleBarSkeleton} from './SimpleBarSkeleton';
 export {SimpleNormalizedSkeleton} from './SimpleNormalizedSkeleton';
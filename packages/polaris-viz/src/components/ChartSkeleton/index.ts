@@ -2,6 +2,8 @@ export {ChartSkeleton} from './ChartSkeleton';
 export type {
   DonutSkeletonProps,
   FunnelSkeletonProps,
+  GaugeSkeletonProps,
+  HeatmapSkeletonProps,
   SimpleBarSkeletonProps,
   SparkSkeletonProps,
   SimpleNormalizedSkeletonProps,
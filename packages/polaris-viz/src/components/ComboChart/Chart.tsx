@@ -23,6 +23,7 @@ import {
   YAxisAnnotations,
 } from '../Annotations';
 import {sortBarChartData} from '../../utilities/sortBarChartData';
+import {getYAxisOptionsWithDefaults} from '../../utilities';
 import {getVerticalBarChartTooltipPosition} from '../../utilities/getVerticalBarChartTooltipPosition';
 import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
 import {
@@ -33,6 +34,7 @@ import {
 } from '../TooltipWrapper';
 import type {
   AnnotationLookupTable,
+  ComboReferenceBand,
   RenderLegendContent,
   RenderTooltipContentData,
 } from '../../types';
@@ -43,6 +45,7 @@ import {HorizontalGridLines} from '../HorizontalGridLines';
 import {YAxis} from '../YAxis';
 import {LegendContainer, useLegend} from '../LegendContainer';
 import {ANNOTATIONS_LABELS_OFFSET} from '../../constants';
+import {ReferenceBands, ReferenceLines} from '../ReferenceLines';
 
 import {useDualAxisTicks} from './hooks/useDualAxisTicks';
 import {useDualAxisTicksWidth} from './hooks/useDualAxisTickWidths';
@@ -52,6 +55,8 @@ import {ComboBarChart, ComboLineChart, AxisLabel} from './components';
 import {useSplitDataForCharts} from './hooks/useSplitDataForCharts';
 import {useComboChartTooltipContent} from './hooks/useComboChartTooltipContent';
 import {useComboChartPositions} from './hooks/useComboChartPositions';
+import {getReferencesForDataGroup} from './utilities/getReferencesForDataGroup';
+import type {ComboResolvedReferenceLine} from './types';
 
 export interface ChartProps {
   annotationsLookupTable: AnnotationLookupTable;
@@ -62,6 +67,10 @@ export interface ChartProps {
   theme: string;
   xAxisOptions: Required<XAxisOptions>;
   dimensions?: Dimensions;
+  hiddenSeries?: number[];
+  onToggleSeries?: (index: number) => void;
+  referenceBands?: ComboReferenceBand[];
+  referenceLines?: ComboResolvedReferenceLine[];
   renderLegendContent?: RenderLegendContent;
 }
 
@@ -69,6 +78,10 @@ export function Chart({
   annotationsLookupTable,
   data,
   dimensions,
+  hiddenSeries,
+  onToggleSeries,
+  referenceBands = [],
+  referenceLines = [],
   renderTooltipContent,
   showLegend,
   theme,
@@ -111,15 +124,19 @@ export function Chart({
     doBothChartsContainMixedValues,
     doesOneChartContainAllNegativeValues,
     primaryTicks,
+    primaryMinorTicks,
     primaryAxis,
     secondaryTicks,
     secondaryAxis,
     shouldPlaceZeroInMiddleOfChart,
     ticksBetweenZeroAndMax,
+    unalignedSecondaryYScale,
     yScale,
   } = useDualAxisTicks({
     data,
     drawableHeight,
+    referenceBands,
+    referenceLines,
   });
 
   const {leftTickWidth, rightTickWidth} = useDualAxisTicksWidth(
@@ -137,6 +154,7 @@ export function Chart({
       yScale,
       shouldPlaceZeroInMiddleOfChart,
       ticksBetweenZeroAndMax,
+      unalignedSecondaryYScale,
     });
 
   const {chartXPosition, drawableWidth, leftAxis, rightAxis} =
@@ -176,10 +194,18 @@ export function Chart({
   const getTooltipMarkup = useComboChartTooltipContent({
     renderTooltipContent,
     data,
+    hiddenIndexes: hiddenSeries,
     seriesColors: colors,
     seriesNameFormatter,
   });
 
+  const referenceAxes = data.map(({shape, yAxisOptions}, index) => ({
+    bands: getReferencesForDataGroup(referenceBands, index),
+    labelFormatter: getYAxisOptionsWithDefaults(yAxisOptions).labelFormatter,
+    lines: getReferencesForDataGroup(referenceLines, index),
+    yScale: shape === 'Bar' ? barYScale : lineYScale,
+  }));
+
   const {hasXAxisAnnotations, hasYAxisAnnotations} = checkAvailableAnnotations(
     annotationsLookupTable,
   );
@@ -190,6 +216,7 @@ export function Chart({
         {selectedTheme.grid.showHorizontalLines ? (
           <HorizontalGridLines
             ticks={primaryTicks}
+            minorTicks={primaryMinorTicks}
             transform={{
               x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
               y: chartYPosition,
@@ -231,6 +258,17 @@ export function Chart({
           y={yAxisBounds.y}
         />
 
+        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          {referenceAxes.map(({bands, yScale}, index) => (
+            <ReferenceBands
+              key={index}
+              bands={bands}
+              scale={yScale}
+              size={drawableWidth}
+            />
+          ))}
+        </g>
+
         <g transform={`translate(${chartXPosition},${chartYPosition})`}>
           <ComboBarChart
             indexOffset={barChartIndexOffset}
@@ -261,6 +299,18 @@ export function Chart({
           />
         </g>
 
+        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          {referenceAxes.map(({labelFormatter, lines, yScale}, index) => (
+            <ReferenceLines
+              key={index}
+              labelFormatter={labelFormatter}
+              lines={lines}
+              scale={yScale}
+              size={drawableWidth}
+            />
+          ))}
+        </g>
+
         {hasXAxisAnnotations && (
           <g transform={`translate(${chartXPosition},0)`} tabIndex={-1}>
             <Annotations
@@ -336,7 +386,9 @@ export function Chart({
         <LegendContainer
           colorVisionType={COLOR_VISION_SINGLE_ITEM}
           data={legend}
+          hiddenSeries={hiddenSeries}
           onDimensionChange={setLegendDimensions}
+          onToggleSeries={onToggleSeries}
           renderLegendContent={renderLegendContent}
         />
       )}
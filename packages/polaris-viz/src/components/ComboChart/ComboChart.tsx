@@ -10,23 +10,46 @@ import type {
   LabelFormatter,
 } from '@shopify/polaris-viz-core';
 import type {ReactNode} from 'react';
+import {useMemo} from 'react';
 
 import {flattenDataGroupToDataSeries} from '../../utilities/flattenDataGroupToDataSeries';
 import {TooltipContent} from '../TooltipContent';
-import {getXAxisOptionsWithDefaults, normalizeData} from '../../utilities';
+import {
+  getDataWithHiddenSeries,
+  getXAxisOptionsWithDefaults,
+  normalizeData,
+} from '../../utilities';
+import {useHiddenSeries} from '../../hooks';
 import {ChartContainer} from '../ChartContainer';
+import {resolveReferenceLines} from '../ReferenceLines';
 import type {
   ComboAnnotation,
+  ComboReferenceBand,
+  ComboReferenceLine,
   RenderLegendContent,
   RenderTooltipContentData,
 } from '../../types';
 
 import {Chart} from './Chart';
 import {formatDataForTooltip} from './utilities/formatDataForTooltip';
+import {getReferencesForDataGroup} from './utilities/getReferencesForDataGroup';
 
 export type ComboChartProps = {
   data: DataGroup[];
   annotations?: ComboAnnotation[];
+  /**
+   * Indexes of the series hidden by toggling their legend items,
+   * counted across all data groups.
+   * Leave undefined to let the chart track them itself.
+   */
+  hiddenSeries?: number[];
+  onHiddenSeriesChange?: (hiddenSeries: number[]) => void;
+  referenceBands?: ComboReferenceBand[];
+  /**
+   * Lines on the `y1` axis are drawn against the first data
+   * group and lines on the `y2` axis against the second.
+   */
+  referenceLines?: ComboReferenceLine[];
   renderTooltipContent?(data: RenderTooltipContentData): ReactNode;
   seriesNameFormatter?: LabelFormatter;
   showLegend?: boolean;
@@ -34,15 +57,23 @@ export type ComboChartProps = {
   renderLegendContent?: RenderLegendContent;
 } & ChartProps<DataGroup[]>;
 
+// Shared defaults keep the references stable between renders.
+const NO_REFERENCE_BANDS: ComboReferenceBand[] = [];
+const NO_REFERENCE_LINES: ComboReferenceLine[] = [];
+
 export function ComboChart(props: ComboChartProps) {
   const {defaultTheme} = usePolarisVizContext();
 
   const {
     data,
     annotations = [],
+    hiddenSeries: controlledHiddenSeries,
     onError,
+    onHiddenSeriesChange,
     id,
     isAnimated,
+    referenceBands = NO_REFERENCE_BANDS,
+    referenceLines = NO_REFERENCE_LINES,
     renderTooltipContent,
     seriesNameFormatter = (value) => `${value}`,
     showLegend = true,
@@ -54,10 +85,43 @@ export function ComboChart(props: ComboChartProps) {
     ...props,
   };
 
+  const {hiddenSeries, toggleSeries} = useHiddenSeries({
+    hiddenSeries: controlledHiddenSeries,
+    onHiddenSeriesChange,
+  });
+
   const xAxisOptionsWithDefaults = getXAxisOptionsWithDefaults(xAxisOptions);
 
   const annotationsLookupTable = normalizeData(annotations, 'startKey');
 
+  const resolvedReferenceLines = useMemo(
+    () =>
+      data.flatMap(({series}, index) =>
+        resolveReferenceLines(
+          getReferencesForDataGroup(referenceLines, index),
+          series,
+        ),
+      ),
+    [data, referenceLines],
+  );
+
+  const visibleData =
+    hiddenSeries.length === 0
+      ? data
+      : data.map((group, groupIndex) => {
+          const seriesOffset = data
+            .slice(0, groupIndex)
+            .reduce((total, {series}) => total + series.length, 0);
+
+          return {
+            ...group,
+            series: getDataWithHiddenSeries(
+              group.series,
+              hiddenSeries.map((index) => index - seriesOffset),
+            ),
+          };
+        });
+
   function renderTooltip(tooltipData: RenderTooltipContentData) {
     if (renderTooltipContent != null) {
       return renderTooltipContent({
@@ -85,7 +149,11 @@ export function ComboChart(props: ComboChartProps) {
     >
       <Chart
         annotationsLookupTable={annotationsLookupTable}
-        data={data}
+        data={visibleData}
+        hiddenSeries={hiddenSeries}
+        onToggleSeries={toggleSeries}
+        referenceBands={referenceBands}
+        referenceLines={resolvedReferenceLines}
         renderTooltipContent={renderTooltip}
         seriesNameFormatter={seriesNameFormatter}
         showLegend={showLegend}
@@ -1,4 +1,4 @@
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 import {useMemo} from 'react';
 import {uniqueId} from '@shopify/polaris-viz-core';
 import type {Color, DataGroup} from '@shopify/polaris-viz-core';
@@ -13,7 +13,7 @@ interface ComboBarChartProps {
   drawableWidth: number;
   indexOffset: number;
   labels: string[];
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
 }
 
 export function ComboBarChart({
@@ -49,7 +49,7 @@ export function ComboLineChart({
             activeLineIndex={activeLineIndex}
             data={singleSeries}
             index={index + indexOffset}
-            key={`${name}-${index}`}
+            key={`${singleSeries.name}-${index}`}
             svgDimensions={{height: drawableHeight, width: drawableWidth}}
             theme={theme}
             xScale={xScale}
@@ -0,0 +1,3 @@
+export {useDualAxisScale} from './useDualAxisScale';
+export {useDualAxisTicks} from './useDualAxisTicks';
+export {useDualAxisTicksWidth} from './useDualAxisTickWidths';
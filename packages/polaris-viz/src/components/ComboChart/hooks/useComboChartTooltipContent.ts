@@ -20,10 +20,15 @@ export interface Props {
   seriesColors: Color[];
   renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
   seriesNameFormatter: LabelFormatter;
+  /**
+   * Indexes of the hidden series, counted across all data groups.
+   */
+  hiddenIndexes?: number[];
 }
 
 export function useComboChartTooltipContent({
   data,
+  hiddenIndexes = [],
   renderTooltipContent,
   seriesColors,
   seriesNameFormatter,
@@ -62,6 +67,7 @@ export function useComboChartTooltipContent({
             value: yAxisOptionsWithDefaults.labelFormatter(value),
             color: color ?? seriesColors[index],
             isComparison,
+            isHidden: hiddenIndexes.includes(index),
           });
 
           index++;
@@ -78,6 +84,13 @@ export function useComboChartTooltipContent({
         theme,
       });
     },
-    [data, seriesColors, renderTooltipContent, theme, seriesNameFormatter],
+    [
+      data,
+      hiddenIndexes,
+      seriesColors,
+      renderTooltipContent,
+      theme,
+      seriesNameFormatter,
+    ],
   );
 }
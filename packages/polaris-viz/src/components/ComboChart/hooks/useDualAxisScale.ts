@@ -1,8 +1,9 @@
-import {getClosestDivisibleNumber, useYScale} from '@shopify/polaris-viz-core';
-import type {ScaleLinear} from 'd3-scale';
+import {useYScale} from '@shopify/polaris-viz-core';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 
 import type {Axis} from '../types';
 import {getSecondaryDataForMixedData} from '../utilities/getSecondaryDataForMixedData';
+import {getAlignedAxisMax} from '../utilities/getAlignedAxisMax';
 
 interface Props {
   doBothChartsContainMixedValues: boolean;
@@ -12,7 +13,8 @@ interface Props {
   secondaryAxis: Axis;
   shouldPlaceZeroInMiddleOfChart: boolean;
   ticksBetweenZeroAndMax: number;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
+  unalignedSecondaryYScale?: ScaleContinuousNumeric<number, number> | null;
 }
 
 export function useDualAxisScale({
@@ -24,6 +26,7 @@ export function useDualAxisScale({
   shouldPlaceZeroInMiddleOfChart,
   ticksBetweenZeroAndMax,
   yScale,
+  unalignedSecondaryYScale,
 }: Props) {
   const {secondaryDrawableHeight, secondaryMax, secondaryMin} =
     getSecondaryDataForMixedData({
@@ -35,11 +38,11 @@ export function useDualAxisScale({
       yScale,
     });
 
-  const {yScale: secondaryYScale} = useYScale({
+  const {yScale: alignedSecondaryYScale} = useYScale({
     drawableHeight: secondaryDrawableHeight,
     formatYAxisLabel: secondaryAxis.yAxisOptions.labelFormatter,
     integersOnly: secondaryAxis.yAxisOptions.integersOnly,
-    max: getClosestDivisibleNumber(secondaryMax, ticksBetweenZeroAndMax),
+    max: getAlignedAxisMax(secondaryMax, ticksBetweenZeroAndMax),
     min: secondaryMin,
     // For non-source of truth, the ticks are exactly
     // what they should be, so we don't want to apply .nice()
@@ -47,6 +50,8 @@ export function useDualAxisScale({
     shouldRoundUp: false,
   });
 
+  const secondaryYScale = unalignedSecondaryYScale ?? alignedSecondaryYScale;
+
   const barYScale = primaryAxis.shape === 'Bar' ? yScale : secondaryYScale;
   const lineYScale = primaryAxis.shape === 'Bar' ? secondaryYScale : yScale;
 
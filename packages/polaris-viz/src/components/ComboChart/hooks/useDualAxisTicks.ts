@@ -1,14 +1,13 @@
-import {
-  getClosestDivisibleNumber,
-  roundToDecimals,
-  useYScale,
-} from '@shopify/polaris-viz-core';
+import {roundToDecimals, useYScale} from '@shopify/polaris-viz-core';
 import type {DataGroup} from '@shopify/polaris-viz-core';
 
+import type {Axis, ComboResolvedReferenceLine} from '../types';
+import type {ComboReferenceBand} from '../../../types';
 import {getZeroIndex} from '../utilities/getZeroIndex';
 import {getTicksBetweenZeroAndMax} from '../utilities/getTicksBetweenZeroAndMax';
 import {getSourceTicksIndex} from '../utilities/getSourceTicksIndex';
 import {getInitialYScaleValues} from '../utilities/getInitialYScaleValues';
+import {getAlignedAxisMax} from '../utilities/getAlignedAxisMax';
 
 import {useGetDualAxis} from './useGetDualAxis';
 import {useMixedDataValues} from './useMixedDataValues';
@@ -16,10 +15,17 @@ import {useMixedDataValues} from './useMixedDataValues';
 interface Props {
   data: DataGroup[];
   drawableHeight: number;
+  referenceBands?: ComboReferenceBand[];
+  referenceLines?: ComboResolvedReferenceLine[];
 }
 
-export function useDualAxisTicks({data, drawableHeight}: Props) {
-  const axes = useGetDualAxis({data});
+export function useDualAxisTicks({
+  data,
+  drawableHeight,
+  referenceBands,
+  referenceLines,
+}: Props) {
+  const axes = useGetDualAxis({data, referenceBands, referenceLines});
 
   const {
     areAllValuesNegative,
@@ -37,16 +43,43 @@ export function useDualAxisTicks({data, drawableHeight}: Props) {
   const primaryAxis = axes[sourceOfTruthIndex === 0 ? 0 : 1];
   const secondaryAxis = axes[sourceOfTruthIndex === 0 ? 1 : 0];
 
+  // Ticks on log scales aren't evenly spaced in value and custom domains
+  // don't share a 0 baseline, so we can't line them up with the other
+  // axis and each axis gets its own scale.
+  const shouldAlignAxes =
+    canAlignAxis(primaryAxis) && canAlignAxis(secondaryAxis);
+
   const initialYScaleValues = getInitialYScaleValues({
     drawableHeight,
     primaryAxis,
-    shouldPlaceZeroInMiddleOfChart,
+    shouldPlaceZeroInMiddleOfChart:
+      shouldAlignAxes && shouldPlaceZeroInMiddleOfChart,
   });
 
-  const {ticks, yScale} = useYScale({
+  const {ticks, minorTicks, yScale} = useYScale({
     ...initialYScaleValues,
     formatYAxisLabel: primaryAxis.yAxisOptions.labelFormatter,
     integersOnly: primaryAxis.yAxisOptions.integersOnly,
+    scale: primaryAxis.yAxisOptions.scale,
+    minYOverride: primaryAxis.yAxisOptions.minYOverride,
+    domain: primaryAxis.yAxisOptions.domain,
+    includeZero: primaryAxis.yAxisOptions.includeZero,
+  });
+
+  const {
+    ticks: unalignedSecondaryTicks,
+    minorTicks: unalignedSecondaryMinorTicks,
+    yScale: unalignedSecondaryYScale,
+  } = useYScale({
+    drawableHeight,
+    formatYAxisLabel: secondaryAxis.yAxisOptions.labelFormatter,
+    integersOnly: secondaryAxis.yAxisOptions.integersOnly,
+    max: secondaryAxis.max,
+    min: secondaryAxis.min,
+    scale: secondaryAxis.yAxisOptions.scale,
+    minYOverride: secondaryAxis.yAxisOptions.minYOverride,
+    domain: secondaryAxis.yAxisOptions.domain,
+    includeZero: secondaryAxis.yAxisOptions.includeZero,
   });
 
   const ticksLength = ticks.length - 1;
@@ -72,14 +105,14 @@ export function useDualAxisTicks({data, drawableHeight}: Props) {
 
   // Make the ticks a nice round number between
   // 0 and max.
-  secondaryMaxforTicks = getClosestDivisibleNumber(
+  secondaryMaxforTicks = getAlignedAxisMax(
     secondaryMaxforTicks,
     ticksBetweenZeroAndMax,
   );
 
   const tickHeight = Math.abs(secondaryMaxforTicks / ticksBetweenZeroAndMax);
 
-  const intialSecondaryTicks = ticks.map((tick, index) => {
+  const alignedSecondaryTicks = ticks.map((tick, index) => {
     const alteredIndex = index - zeroIndex;
     const formattedValue = roundToDecimals(tickHeight * alteredIndex, 2);
 
@@ -92,20 +125,40 @@ export function useDualAxisTicks({data, drawableHeight}: Props) {
     };
   });
 
-  const primaryTicks = sourceOfTruthIndex === 0 ? ticks : intialSecondaryTicks;
+  const initialSecondaryTicks = shouldAlignAxes
+    ? alignedSecondaryTicks
+    : unalignedSecondaryTicks;
+  const initialSecondaryMinorTicks = shouldAlignAxes
+    ? []
+    : unalignedSecondaryMinorTicks;
+
+  const primaryTicks = sourceOfTruthIndex === 0 ? ticks : initialSecondaryTicks;
   const secondaryTicks =
-    sourceOfTruthIndex === 0 ? intialSecondaryTicks : ticks;
+    sourceOfTruthIndex === 0 ? initialSecondaryTicks : ticks;
+  const primaryMinorTicks =
+    sourceOfTruthIndex === 0 ? minorTicks : initialSecondaryMinorTicks;
 
   return {
     areAllValuesNegative,
     doesOneChartContainAllNegativeValues,
     doBothChartsContainMixedValues,
     primaryTicks,
+    primaryMinorTicks,
     primaryAxis,
     secondaryTicks,
     secondaryAxis,
     yScale,
+    unalignedSecondaryYScale: shouldAlignAxes ? null : unalignedSecondaryYScale,
     shouldPlaceZeroInMiddleOfChart,
     ticksBetweenZeroAndMax,
   };
 }
+
+function canAlignAxis({yAxisOptions}: Axis) {
+  return (
+    yAxisOptions.scale === 'linear' &&
+    yAxisOptions.includeZero &&
+    yAxisOptions.minYOverride == null &&
+    yAxisOptions.domain == null
+  );
+}
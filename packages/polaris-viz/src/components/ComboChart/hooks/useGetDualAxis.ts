@@ -2,14 +2,27 @@ import {useMemo} from 'react';
 import type {DataGroup} from '@shopify/polaris-viz-core';
 
 import {yAxisMinMax} from '../../LineChart/utilities';
+import {getReferenceMinMax} from '../../ReferenceLines';
+import type {ComboReferenceBand} from '../../../types';
 import {
   getStackedMinMax,
   getYAxisOptionsWithDefaults,
 } from '../../../utilities';
-import type {Axis} from '../types';
+import type {Axis, ComboResolvedReferenceLine} from '../types';
 import {AxisValueRange} from '../types';
+import {getReferencesForDataGroup} from '../utilities/getReferencesForDataGroup';
 
-export function useGetDualAxis({data}: {data: DataGroup[]}): Axis[] {
+interface Props {
+  data: DataGroup[];
+  referenceBands?: ComboReferenceBand[];
+  referenceLines?: ComboResolvedReferenceLine[];
+}
+
+export function useGetDualAxis({
+  data,
+  referenceBands = [],
+  referenceLines = [],
+}: Props): Axis[] {
   return useMemo(() => {
     return data.map((series, index) => {
       let min;
@@ -38,6 +51,14 @@ export function useGetDualAxis({data}: {data: DataGroup[]}): Axis[] {
         }
       }
 
+      // References are kept in view by widening the range of their axis.
+      ({min, max} = getReferenceMinMax({
+        min,
+        max,
+        referenceBands: getReferencesForDataGroup(referenceBands, index),
+        referenceLines: getReferencesForDataGroup(referenceLines, index),
+      }));
+
       return {
         valuesRange: getValuesRange(min, max),
         min,
@@ -48,7 +69,7 @@ export function useGetDualAxis({data}: {data: DataGroup[]}): Axis[] {
         name: series.name,
       };
     });
-  }, [data]);
+  }, [data, referenceBands, referenceLines]);
 }
 
 function getValuesRange(min, max) {
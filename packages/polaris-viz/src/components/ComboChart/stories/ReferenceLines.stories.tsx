@@ -0,0 +1,15 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {ComboChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template} from './data';
+
+export const ReferenceLines: Story<ComboChartProps> = Template.bind({});
+
+ReferenceLines.args = {
+  data: DEFAULT_DATA,
+  referenceBands: [{from: 0, to: 10, label: 'Sales goal', axis: 'y1'}],
+  referenceLines: [{value: 'average', label: 'Average sessions', axis: 'y2'}],
+};
@@ -1,6 +1,7 @@
 import type {Meta} from '@storybook/react';
 
 import {
+  HIDDEN_SERIES_ARGS,
   CONTROLS_ARGS,
   DATA_SERIES_ARGS,
   IS_ANIMATED_ARGS,
@@ -25,6 +26,7 @@ export const META: Meta = {
   },
   argTypes: {
     data: DATA_SERIES_ARGS,
+    hiddenSeries: HIDDEN_SERIES_ARGS,
     isAnimated: IS_ANIMATED_ARGS,
     renderLegendContent: RENDER_LEGEND_CONTENT_ARGS,
     type: TYPE_CONTROL_ARGS,
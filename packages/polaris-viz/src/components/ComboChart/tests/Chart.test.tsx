@@ -8,6 +8,7 @@ import {LegendContainer} from '../../LegendContainer';
 import {Annotations, YAxisAnnotations} from '../../Annotations';
 import {AxisLabel} from '../components';
 import {YAxis} from '../../YAxis';
+import {ReferenceLines} from '../../ReferenceLines';
 
 jest.mock('../../../hooks/useEstimateStringWidth', () => ({
   useEstimateStringWidth: () => 100,
@@ -182,6 +183,30 @@ describe('<Chart />', () => {
     });
   });
 
+  describe('referenceLines', () => {
+    it('renders reference lines against the axis of their data group', () => {
+      const chart = mount(
+        <Chart
+          {...PROPS}
+          referenceLines={[
+            {value: 5, label: 'Sales target'},
+            {value: 2000, label: 'Sessions target', axis: 'y2'},
+          ]}
+        />,
+      );
+
+      const [bars, lines] = chart.findAll(ReferenceLines);
+
+      expect(bars.props.lines).toStrictEqual([
+        {value: 5, label: 'Sales target'},
+      ]);
+      expect(lines.props.lines).toStrictEqual([
+        {value: 2000, label: 'Sessions target', axis: 'y2'},
+      ]);
+      expect(lines.props.scale.domain()[1]).toBeGreaterThanOrEqual(2000);
+    });
+  });
+
   describe('<AxisLabel />', () => {
     it('renders <AxisLabel /> for each axis', () => {
       const component = mount(<Chart {...PROPS} />);
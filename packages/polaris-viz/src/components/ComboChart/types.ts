@@ -1,5 +1,8 @@
 import type {Shape, YAxisOptions} from '@shopify/polaris-viz-core';
 
+import type {ComboReferenceLine} from '../../types';
+import type {ResolvedReferenceLine} from '../ReferenceLines';
+
 export enum AxisValueRange {
   'AllNegative',
   'SomeNegative',
@@ -15,3 +18,6 @@ export interface Axis {
   yAxisOptions: Required<YAxisOptions>;
   name?: string;
 }
+
+export type ComboResolvedReferenceLine = ResolvedReferenceLine &
+  Pick<ComboReferenceLine, 'axis'>;
@@ -0,0 +1,26 @@
+import {getClosestDivisibleNumber} from '@shopify/polaris-viz-core';
+
+const NICE_STEP_MULTIPLIERS = [1, 2, 2.5, 5, 10];
+
+// Rounds the max of an aligned axis so every tick lands on a round
+// number. Ranges smaller than the number of ticks would round down
+// to 0, so they're stepped by the closest nice fraction instead.
+export function getAlignedAxisMax(max: number, ticksBetweenZeroAndMax: number) {
+  const closestDivisibleNumber = getClosestDivisibleNumber(
+    max,
+    ticksBetweenZeroAndMax,
+  );
+
+  if (closestDivisibleNumber !== 0 || max === 0) {
+    return closestDivisibleNumber;
+  }
+
+  const step = Math.abs(max) / ticksBetweenZeroAndMax;
+  const magnitude = 10 ** Math.floor(Math.log10(step));
+  const niceStep =
+    NICE_STEP_MULTIPLIERS.map((multiplier) => multiplier * magnitude).find(
+      (niceStep) => niceStep >= step,
+    ) ?? step;
+
+  return Math.sign(max) * niceStep * ticksBetweenZeroAndMax;
+}
@@ -0,0 +1,9 @@
+// References without an axis belong to the first data group.
+export function getReferencesForDataGroup<T extends {axis?: 'y1' | 'y2'}>(
+  references: T[],
+  dataGroupIndex: number,
+) {
+  const axis = dataGroupIndex === 0 ? 'y1' : 'y2';
+
+  return references.filter((reference) => (reference.axis ?? 'y1') === axis);
+}
@@ -1,4 +1,4 @@
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 
 import type {Axis} from '../types';
 import {AxisValueRange} from '../types';
@@ -9,7 +9,7 @@ interface Props {
   doBothChartsContainMixedValues: boolean;
   drawableHeight: number;
   secondaryAxis: Axis;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
 }
 
 export function getSecondaryDataForMixedData({
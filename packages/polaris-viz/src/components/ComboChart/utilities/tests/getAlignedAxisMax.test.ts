@@ -0,0 +1,21 @@
+import {getAlignedAxisMax} from '../getAlignedAxisMax';
+
+describe('getAlignedAxisMax()', () => {
+  it('returns the closest number divisible by the ticks', () => {
+    expect(getAlignedAxisMax(1300, 4)).toStrictEqual(1300);
+    expect(getAlignedAxisMax(1302, 4)).toStrictEqual(1304);
+  });
+
+  it('steps small ranges by a nice fraction', () => {
+    expect(getAlignedAxisMax(0.5, 4)).toStrictEqual(0.8);
+    expect(getAlignedAxisMax(0.9, 4)).toStrictEqual(1);
+  });
+
+  it('keeps the sign of negative ranges', () => {
+    expect(getAlignedAxisMax(-0.5, 4)).toStrictEqual(-0.8);
+  });
+
+  it('returns 0 when max is 0', () => {
+    expect(getAlignedAxisMax(0, 4)).toStrictEqual(0);
+  });
+});
@@ -1,3 +1,4 @@
+import type {KeyboardEvent} from 'react';
 import {Fragment, useState} from 'react';
 import {pie} from 'd3-shape';
 import {
@@ -8,22 +9,26 @@ import {
   ChartState,
   useChartContext,
   THIN_ARC_CORNER_THICKNESS,
+  DataType,
 } from '@shopify/polaris-viz-core';
 import type {
   DataPoint,
-  DataSeries,
   Dimensions,
   LabelFormatter,
   Direction,
 } from '@shopify/polaris-viz-core';
 
 import {getAnimationDelayForItems} from '../../utilities/getAnimationDelayForItems';
-import {getContainerAlignmentForLegend} from '../../utilities';
+import {
+  getContainerAlignmentForLegend,
+  getDataWithHiddenSeries,
+} from '../../utilities';
 import type {ComparisonMetricProps} from '../ComparisonMetric';
 import {LegendContainer, useLegend} from '../../components/LegendContainer';
 import {
   getSeriesColors,
   useColorVisionEvents,
+  useDataPointClickEvents,
   useWatchColorVisionEvents,
 } from '../../hooks';
 import {Arc} from '../Arc';
@@ -38,13 +43,22 @@ import {ChartSkeleton} from '../../components/ChartSkeleton';
 
 import styles from './DonutChart.scss';
 import {InnerValue, LegendValues} from './components';
+import type {DonutChartDataSeries, DonutSliceClickHandler} from './types';
+import {
+  getDonutSlices,
+  getHierarchyDepth,
+  getNestedArcs,
+  getSeriesAtPath,
+  getSeriesTotal,
+} from './utilities';
 
 const FULL_CIRCLE = Math.PI * 2;
 const RADIUS_PADDING = 20;
 const SMALL_CHART_HEIGHT_THRESHOLD = 150;
+const RING_GAP = 2;
 
 export interface ChartProps {
-  data: DataSeries[];
+  data: DonutChartDataSeries[];
   labelFormatter: LabelFormatter;
   legendPosition: LegendPosition;
   seriesNameFormatter: LabelFormatter;
@@ -56,11 +70,15 @@ export interface ChartProps {
   comparisonMetric?: ComparisonMetricProps;
   dimensions?: Dimensions;
   errorText?: string;
+  hiddenSeries?: number[];
   legendFullWidth?: boolean;
+  onSliceClick?: DonutSliceClickHandler;
+  onToggleSeries?: (index: number) => void;
   renderInnerValueContent?: RenderInnerValueContent;
   renderLegendContent?: RenderLegendContent;
   renderHiddenLegendLabel?: RenderHiddenLegendLabel;
   total?: number;
+  zoomOutAccessibilityLabel?: string;
 }
 
 export function Chart({
@@ -75,20 +93,34 @@ export function Chart({
   comparisonMetric,
   dimensions = {height: 0, width: 0},
   errorText,
+  hiddenSeries = [],
   legendFullWidth = false,
+  onSliceClick,
+  onToggleSeries,
   renderInnerValueContent,
   renderLegendContent,
   renderHiddenLegendLabel,
   seriesNameFormatter,
   total,
+  zoomOutAccessibilityLabel,
 }: ChartProps) {
   const {shouldAnimate} = useChartContext();
   const chartId = useUniqueId('Donut');
   const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+  const [zoomPath, setZoomPath] = useState<number[]>([]);
   const selectedTheme = useTheme();
 
+  const focusedSeries = getSeriesAtPath(data, zoomPath);
+  const levelData = focusedSeries?.children ?? data;
+  const isZoomed = focusedSeries?.children != null;
+
+  // Hidden indexes refer to the top level series, so they
+  // only apply while the chart isn't zoomed into a slice.
+  const levelHiddenSeries = isZoomed ? [] : hiddenSeries;
+
   const seriesCount = clamp({
-    amount: data.length,
+    amount: levelData.length,
     min: 1,
     max: Infinity,
   });
@@ -105,7 +137,7 @@ export function Chart({
 
   const {height, width, legend, setLegendDimensions, isLegendMounted} =
     useLegend({
-      data: [{series: data, shape: 'Bar'}],
+      data: [{series: levelData, shape: 'Bar'}],
       dimensions,
       showLegend,
       direction: legendDirection,
@@ -123,6 +155,25 @@ export function Chart({
     dimensions: {...dimensions, x: 0, y: 0},
   });
 
+  const slices = getDonutSlices(levelData);
+
+  useDataPointClickEvents({
+    data: slices.map(({series}) => series),
+    onClick:
+      onSliceClick == null
+        ? undefined
+        : (event) => {
+            const {path} = slices[event.seriesIndex];
+
+            onSliceClick({
+              ...event,
+              seriesIndex: path[path.length - 1],
+              path: [...zoomPath, ...path],
+            });
+          },
+    parentElement: svgRef,
+  });
+
   useWatchColorVisionEvents({
     type: COLOR_VISION_SINGLE_ITEM,
     onIndexChange: ({detail}) => {
@@ -143,10 +194,10 @@ export function Chart({
       ? Math.min(dynamicThickness, maxThickness)
       : THIN_ARC_CORNER_THICKNESS;
 
-  const points: DataPoint[] = data.reduce(
-    (prev: DataPoint[], {data}) => prev.concat(data),
-    [],
-  );
+  const points: DataPoint[] = getDataWithHiddenSeries(
+    levelData,
+    levelHiddenSeries,
+  ).reduce((prev: DataPoint[], {data}) => prev.concat(data), []);
 
   const createPie = pie<DataPoint>()
     .value(({value}) => value!)
@@ -160,6 +211,71 @@ export function Chart({
 
   const activeValue = points[activeIndex]?.value;
 
+  const ringCount = Math.max(getHierarchyDepth(levelData), 1);
+  // Deep hierarchies make their rings thinner so they
+  // all fit inside the radius.
+  const ringThickness = clamp({
+    amount: radius / ringCount - RING_GAP,
+    min: 0,
+    max: thickness,
+  });
+  const getRingRadius = (depth: number) =>
+    radius - (ringCount - 1 - depth) * (ringThickness + RING_GAP);
+  const innerRadius = getRingRadius(0) - ringThickness;
+
+  const nestedArcs = emptyState
+    ? []
+    : pieChartData.flatMap(({startAngle, endAngle}, index) =>
+        getNestedArcs({
+          color: levelData[index]?.color ?? seriesColor[index],
+          endAngle,
+          path: [index],
+          series: levelData[index],
+          startAngle,
+        }),
+      );
+
+  const zoomTo = (path: number[]) => {
+    setActiveIndex(-1);
+    setZoomPath((current) => [...current, ...path]);
+  };
+
+  const zoomOut = () => {
+    setActiveIndex(-1);
+    setZoomPath((current) => current.slice(0, -1));
+  };
+
+  const getZoomProps = (series: DonutChartDataSeries, path: number[]) => {
+    if (series.children == null || series.children.length === 0) {
+      return {};
+    }
+
+    return {
+      role: 'button',
+      tabIndex: 0,
+      onClick: () => zoomTo(path),
+      onKeyDown: (event: KeyboardEvent<SVGGElement>) =>
+        handleKeyDown(event, () => zoomTo(path)),
+    };
+  };
+
+  // Slices with children zoom in when clicked, so only
+  // the slices without them call onSliceClick.
+  const getSliceClickProps = (series: DonutChartDataSeries) => {
+    if (
+      onSliceClick == null ||
+      (series.children != null && series.children.length > 0)
+    ) {
+      return {};
+    }
+
+    return {
+      'data-type': DataType.Bar,
+      'data-index': slices.findIndex((slice) => slice.series === series),
+      tabIndex: 0,
+    };
+  };
+
   const minX = -40;
   const minY = -40;
   const viewBoxDimensions = {
@@ -181,7 +297,7 @@ export function Chart({
   }: ColorVisionInteractionMethods) => {
     return (
       <LegendValues
-        data={data}
+        data={levelData}
         activeIndex={activeIndex}
         dimensions={{...dimensions, x: 0, y: 0}}
         legendFullWidth={legendFullWidth}
@@ -209,6 +325,7 @@ export function Chart({
               viewBox={`${minX} ${minY} ${viewBoxDimensions.width} ${viewBoxDimensions.height}`}
               height={diameter}
               width={diameter}
+              ref={setSvgRef}
             >
               {isLegendMounted && (
                 <g className={styles.DonutChart}>
@@ -227,39 +344,105 @@ export function Chart({
                       />
                     </g>
                   ) : (
-                    pieChartData.map(
-                      ({data: pieData, startAngle, endAngle}, index) => {
-                        const color = data[index]?.color ?? seriesColor[index];
-                        const name = data[index].name;
-                        const accessibilityLabel = `${name}: ${pieData.key} - ${pieData.value}`;
-
-                        return (
-                          <g
-                            key={`${chartId}-arc-${index}`}
-                            className={styles.DonutChart}
-                            aria-label={accessibilityLabel}
-                            role="img"
-                          >
-                            <Arc
-                              isAnimated={shouldAnimate}
-                              animationDelay={getAnimationDelayForItems(
-                                pieChartData.length,
-                              )}
-                              index={index}
-                              activeIndex={activeIndex}
-                              width={diameter}
-                              height={diameter}
-                              radius={radius}
-                              startAngle={startAngle}
-                              endAngle={endAngle}
-                              color={color}
-                              cornerRadius={selectedTheme.arc.cornerRadius}
-                              thickness={thickness}
-                            />
-                          </g>
-                        );
-                      },
-                    )
+                    <Fragment>
+                      {pieChartData.map(
+                        ({data: pieData, startAngle, endAngle}, index) => {
+                          const color =
+                            levelData[index]?.color ?? seriesColor[index];
+                          const name = levelData[index].name;
+                          const accessibilityLabel = `${name}: ${pieData.key} - ${pieData.value}`;
+
+                          return (
+                            <g
+                              key={`${chartId}-arc-${zoomPath.join(
+                                '-',
+                              )}-${index}`}
+                              className={styles.DonutChart}
+                              aria-label={accessibilityLabel}
+                              role="img"
+                              {...getSliceClickProps(levelData[index])}
+                              {...getZoomProps(levelData[index], [index])}
+                            >
+                              <Arc
+                                isAnimated={shouldAnimate}
+                                animationDelay={getAnimationDelayForItems(
+                                  pieChartData.length,
+                                )}
+                                index={index}
+                                activeIndex={activeIndex}
+                                width={diameter}
+                                height={diameter}
+                                radius={getRingRadius(0)}
+                                startAngle={startAngle}
+                                endAngle={endAngle}
+                                color={color}
+                                cornerRadius={selectedTheme.arc.cornerRadius}
+                                thickness={ringThickness}
+                              />
+                            </g>
+                          );
+                        },
+                      )}
+                      {nestedArcs.map(
+                        ({
+                          color,
+                          depth,
+                          endAngle,
+                          path,
+                          rootIndex,
+                          series,
+                          startAngle,
+                        }) => {
+                          const accessibilityLabel = `${
+                            series.name
+                          }: ${labelFormatter(getSeriesTotal(series))}`;
+
+                          return (
+                            <g
+                              key={`${chartId}-arc-${zoomPath.join(
+                                '-',
+                              )}-${path.join('-')}`}
+                              className={styles.DonutChart}
+                              aria-label={accessibilityLabel}
+                              role="img"
+                              {...getSliceClickProps(series)}
+                              {...getZoomProps(series, path)}
+                            >
+                              <Arc
+                                isAnimated={shouldAnimate}
+                                animationDelay={getAnimationDelayForItems(
+                                  pieChartData.length,
+                                )}
+                                index={rootIndex}
+                                activeIndex={activeIndex}
+                                width={diameter}
+                                height={diameter}
+                                radius={getRingRadius(depth)}
+                                startAngle={startAngle}
+                                endAngle={endAngle}
+                                color={color}
+                                cornerRadius={selectedTheme.arc.cornerRadius}
+                                thickness={ringThickness}
+                              />
+                            </g>
+                          );
+                        },
+                      )}
+                    </Fragment>
+                  )}
+                  {isZoomed && (
+                    <circle
+                      aria-label={zoomOutAccessibilityLabel}
+                      className={styles.DonutChart}
+                      cx={minX + viewBoxDimensions.width / 2}
+                      cy={minY + viewBoxDimensions.height / 2}
+                      fill="transparent"
+                      onClick={zoomOut}
+                      onKeyDown={(event) => handleKeyDown(event, zoomOut)}
+                      r={Math.max(innerRadius, 0)}
+                      role="button"
+                      tabIndex={0}
+                    />
                   )}
                 </g>
               )}
@@ -269,6 +452,11 @@ export function Chart({
               activeIndex={activeIndex}
               isAnimated={shouldAnimate}
               totalValue={totalValue}
+              focusedSeriesName={
+                isZoomed && focusedSeries?.name != null
+                  ? seriesNameFormatter(focusedSeries.name)
+                  : undefined
+              }
               comparisonMetric={comparisonMetric}
               labelFormatter={labelFormatter}
               renderInnerValueContent={renderInnerValueContent}
@@ -297,6 +485,8 @@ export function Chart({
           maxWidth={maxLegendWidth}
           enableHideOverflow={!isCornerPosition}
           dimensions={{...dimensions, x: 0, y: 0}}
+          hiddenSeries={levelHiddenSeries}
+          onToggleSeries={isZoomed ? undefined : onToggleSeries}
           renderLegendContent={
             shouldRenderLegendContentWithValues
               ? renderLegendContentWithValues
@@ -306,4 +496,14 @@ export function Chart({
       )}
     </div>
   );
+
+  function handleKeyDown(
+    event: KeyboardEvent<SVGElement>,
+    onSelect: () => void,
+  ) {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      onSelect();
+    }
+  }
 }
@@ -4,6 +4,7 @@ import {
   usePolarisVizContext,
 } from '@shopify/polaris-viz-core';
 
+import {useHiddenSeries} from '../../hooks';
 import {ChartContainer} from '../ChartContainer';
 import type {ComparisonMetricProps} from '../ComparisonMetric';
 import type {
@@ -15,22 +16,35 @@ import type {
 import {bucketDataSeries} from '../../utilities/bucketDataSeries';
 
 import {Chart} from './Chart';
-import type {DonutChartDataSeries} from './types';
+import type {DonutChartDataSeries, DonutSliceClickHandler} from './types';
 
 export type DonutChartProps = {
   data: DonutChartDataSeries[];
   comparisonMetric?: ComparisonMetricProps;
+  /**
+   * Indexes of the top level series hidden by toggling their legend items.
+   * Leave undefined to let the chart track them itself.
+   */
+  hiddenSeries?: number[];
+  onHiddenSeriesChange?: (hiddenSeries: number[]) => void;
   showLegend?: boolean;
   maxSeries?: number;
   showLegendValues?: boolean;
   labelFormatter?: LabelFormatter;
   legendFullWidth?: boolean;
   legendPosition?: LegendPosition;
+  /**
+   * Called when a slice without `children` is clicked,
+   * including slices in the outer rings.
+   * Slices with `children` zoom in instead.
+   */
+  onSliceClick?: DonutSliceClickHandler;
   renderInnerValueContent?: RenderInnerValueContent;
   renderLegendContent?: RenderLegendContent;
   renderHiddenLegendLabel?: RenderHiddenLegendLabel;
   renderBucketLegendLabel?: () => string;
   seriesNameFormatter?: LabelFormatter;
+  zoomOutAccessibilityLabel?: string;
 } & ChartProps;
 
 export function DonutChart(props: DonutChartProps) {
@@ -40,6 +54,8 @@ export function DonutChart(props: DonutChartProps) {
     data: dataSeries,
     theme = defaultTheme,
     comparisonMetric,
+    hiddenSeries: controlledHiddenSeries,
+    onHiddenSeriesChange,
     showLegend = true,
     maxSeries,
     showLegendValues = false,
@@ -47,6 +63,7 @@ export function DonutChart(props: DonutChartProps) {
     legendFullWidth,
     legendPosition = 'left',
     onError,
+    onSliceClick,
     id,
     isAnimated,
     state,
@@ -56,11 +73,17 @@ export function DonutChart(props: DonutChartProps) {
     renderHiddenLegendLabel,
     renderBucketLegendLabel,
     seriesNameFormatter = (value) => `${value}`,
+    zoomOutAccessibilityLabel = 'Zoom out',
   } = {
     ...DEFAULT_CHART_PROPS,
     ...props,
   };
 
+  const {hiddenSeries, toggleSeries} = useHiddenSeries({
+    hiddenSeries: controlledHiddenSeries,
+    onHiddenSeriesChange,
+  });
+
   const data = maxSeries
     ? bucketDataSeries({dataSeries, maxSeries, renderBucketLegendLabel})
     : dataSeries;
@@ -80,15 +103,19 @@ export function DonutChart(props: DonutChartProps) {
         data={data}
         labelFormatter={labelFormatter}
         comparisonMetric={comparisonMetric}
+        hiddenSeries={hiddenSeries}
+        onToggleSeries={toggleSeries}
         showLegend={showLegend}
         showLegendValues={showLegendValues}
         legendFullWidth={legendFullWidth}
         legendPosition={legendPosition}
+        onSliceClick={onSliceClick}
         renderInnerValueContent={renderInnerValueContent}
         renderLegendContent={renderLegendContent}
         renderHiddenLegendLabel={renderHiddenLegendLabel}
         seriesNameFormatter={seriesNameFormatter}
         theme={theme}
+        zoomOutAccessibilityLabel={zoomOutAccessibilityLabel}
       />
     </ChartContainer>
   );
@@ -18,6 +18,7 @@ export interface InnerValueProps {
   totalValue: number;
   comparisonMetric?: ComparisonMetricProps;
   diameter: number;
+  focusedSeriesName?: string;
   dimensions: Dimensions;
   labelFormatter: LabelFormatter;
   renderInnerValueContent?: RenderInnerValueContent;
@@ -33,6 +34,7 @@ export function InnerValue({
   totalValue,
   diameter,
   dimensions,
+  focusedSeriesName,
 }: InnerValueProps) {
   const selectedTheme = useTheme();
 
@@ -68,8 +70,17 @@ export function InnerValue({
     animatedTotalValue,
     totalValue,
     dimensions,
+    focusedSeriesName,
   }) ?? (
     <Fragment>
+      {focusedSeriesName != null && (
+        <p
+          className={styles.ContentLabel}
+          style={{color: selectedTheme.legend.labelColor}}
+        >
+          {focusedSeriesName}
+        </p>
+      )}
       <animated.p
         className={classNames(styles.ContentValue)}
         style={{color: selectedTheme.xAxis.labelColor, fontSize}}
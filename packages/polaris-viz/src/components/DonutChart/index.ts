@@ -1,4 +1,6 @@
 export {Chart} from './Chart';
 export type {ChartProps} from './Chart';
 export type {DonutChartProps} from './DonutChart';
+export type {DonutSliceClickEvent, DonutSliceClickHandler} from './types';
 export {DonutChart} from './DonutChart';
+export {InnerValue} from './components';
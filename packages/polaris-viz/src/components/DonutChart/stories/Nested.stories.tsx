@@ -0,0 +1,36 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {DonutChartProps} from '../DonutChart';
+
+import {DEFAULT_PROPS, Template} from './data';
+
+export const Nested: Story<DonutChartProps> = Template.bind({});
+
+Nested.args = {
+  ...DEFAULT_PROPS,
+  data: [
+    {
+      name: 'Online store',
+      data: [{key: 'april - march', value: 50000}],
+      children: [
+        {name: 'Shirts', data: [{key: 'april - march', value: 28000}]},
+        {name: 'Hats', data: [{key: 'april - march', value: 14000}]},
+        {name: 'Socks', data: [{key: 'april - march', value: 8000}]},
+      ],
+    },
+    {
+      name: 'Point of sale',
+      data: [{key: 'april - march', value: 25000}],
+      children: [
+        {name: 'Shirts', data: [{key: 'april - march', value: 15000}]},
+        {name: 'Hats', data: [{key: 'april - march', value: 10000}]},
+      ],
+    },
+    {
+      name: 'Wholesale',
+      data: [{key: 'april - march', value: 10000}],
+    },
+  ],
+};
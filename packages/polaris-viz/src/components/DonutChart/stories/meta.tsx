@@ -1,6 +1,7 @@
 import type {Meta} from '@storybook/react';
 
 import {
+  HIDDEN_SERIES_ARGS,
   CHART_STATE_CONTROL_ARGS,
   CONTROLS_ARGS,
   DATA_SERIES_ARGS,
@@ -32,6 +33,7 @@ export const META: Meta<DonutChartProps> = {
   },
   argTypes: {
     data: DATA_SERIES_ARGS,
+    hiddenSeries: HIDDEN_SERIES_ARGS,
     legendFullWidth: LEGEND_FULL_WIDTH_ARGS,
     legendPosition: LEGEND_POSITION_ARGS,
     showLegend: SHOW_LEGEND_ARGS,
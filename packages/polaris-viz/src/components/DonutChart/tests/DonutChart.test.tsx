@@ -1,9 +1,14 @@
 import {mount} from '@shopify/react-testing';
-import {ChartState, THIN_ARC_CORNER_THICKNESS} from '@shopify/polaris-viz-core';
+import {
+  ChartState,
+  DataType,
+  THIN_ARC_CORNER_THICKNESS,
+} from '@shopify/polaris-viz-core';
 
 import {Chart as DonutChart} from '../Chart';
 import type {ChartProps} from '../Chart';
-import {Arc, InnerValue} from '../components';
+import {InnerValue} from '../components';
+import {Arc} from '../../Arc';
 import {ComparisonMetric} from '../../ComparisonMetric';
 import {LegendContainer} from '../../LegendContainer';
 
@@ -190,5 +195,173 @@ describe('<DonutChart />', () => {
         });
       });
     });
+
+    describe('nested series', () => {
+      const nestedData: ChartProps['data'] = [
+        {
+          name: 'Online store',
+          data: [{key: 'Sales', value: 60}],
+          children: [
+            {name: 'Shirts', data: [{key: 'Sales', value: 40}]},
+            {name: 'Hats', data: [{key: 'Sales', value: 20}]},
+          ],
+        },
+        {name: 'Retail', data: [{key: 'Sales', value: 40}]},
+      ];
+
+      const nestedProps: ChartProps = {
+        ...mockProps,
+        comparisonMetric: undefined,
+        data: nestedData,
+        showLegend: false,
+        zoomOutAccessibilityLabel: 'Zoom out',
+      };
+
+      it('renders children as an outer ring', () => {
+        const chart = mount(<DonutChart {...nestedProps} />);
+
+        const arcs = chart.findAll(Arc);
+        const [onlineStore, retail, shirts, hats] = arcs;
+
+        expect(arcs).toHaveLength(4);
+        expect(onlineStore.prop('radius')).toBeLessThan(shirts.prop('radius'));
+        expect(shirts).toHaveReactProps({
+          index: 0,
+          startAngle: onlineStore.prop('startAngle'),
+        });
+        expect(hats.prop('endAngle')).toBeCloseTo(onlineStore.prop('endAngle'));
+        expect(retail.prop('radius')).toBe(onlineStore.prop('radius'));
+      });
+
+      it('zooms into a series with children when clicked', () => {
+        const chart = mount(<DonutChart {...nestedProps} />);
+
+        chart
+          .find('g', {'aria-label': 'Online store: Sales - 60'})!
+          .trigger('onClick');
+
+        expect(chart).toContainReactComponentTimes(Arc, 2);
+        expect(chart).toContainReactComponent('g', {
+          'aria-label': 'Shirts: Sales - 40',
+        });
+        expect(chart).toContainReactComponent(InnerValue, {
+          focusedSeriesName: 'Online store',
+          totalValue: 60,
+        });
+      });
+
+      it('zooms out when the center is clicked', () => {
+        const chart = mount(<DonutChart {...nestedProps} />);
+
+        chart
+          .find('g', {'aria-label': 'Online store: Sales - 60'})!
+          .trigger('onClick');
+        chart.find('circle', {'aria-label': 'Zoom out'})!.trigger('onClick');
+
+        expect(chart).toContainReactComponentTimes(Arc, 4);
+        expect(chart).toContainReactComponent(InnerValue, {
+          focusedSeriesName: undefined,
+          totalValue: 100,
+        });
+      });
+
+      it('only makes series without children clickable', () => {
+        const chart = mount(
+          <DonutChart {...nestedProps} onSliceClick={jest.fn()} />,
+        );
+
+        expect(chart).toContainReactComponent('g', {
+          'aria-label': 'Retail: Sales - 40',
+          'data-type': DataType.Bar,
+          'data-index': 1,
+          tabIndex: 0,
+        } as any);
+        expect(
+          chart.find('g', {'aria-label': 'Online store: Sales - 60'}),
+        ).not.toHaveReactProps({'data-type': DataType.Bar} as any);
+      });
+
+      it('makes series in the outer ring clickable', () => {
+        const chart = mount(
+          <DonutChart {...nestedProps} onSliceClick={jest.fn()} />,
+        );
+
+        expect(chart).toContainReactComponent('g', {
+          'aria-label': 'Hats: 20',
+          'data-type': DataType.Bar,
+          'data-index': 3,
+          tabIndex: 0,
+        } as any);
+      });
+
+      it('calls onSliceClick with the path of an outer ring series', () => {
+        const onSliceClick = jest.fn();
+        const chart = mount(
+          <DonutChart {...nestedProps} onSliceClick={onSliceClick} />,
+        );
+
+        chart
+          .find('g', {'aria-label': 'Hats: 20'})!
+          .domNode!.dispatchEvent(new MouseEvent('click', {bubbles: true}));
+
+        expect(onSliceClick).toHaveBeenCalledWith(
+          expect.objectContaining({
+            path: [0, 1],
+            seriesIndex: 1,
+            series: nestedData[0].children![1],
+            value: 20,
+          }),
+        );
+      });
+
+      it('keeps rings of deep hierarchies inside the radius', () => {
+        const deepData: ChartProps['data'] = [
+          {
+            name: 'Level 1',
+            data: [{key: 'Sales', value: 1}],
+            children: [
+              {
+                name: 'Level 2',
+                data: [{key: 'Sales', value: 1}],
+                children: [
+                  {
+                    name: 'Level 3',
+                    data: [{key: 'Sales', value: 1}],
+                    children: [
+                      {name: 'Level 4', data: [{key: 'Sales', value: 1}]},
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ];
+
+        const chart = mount(
+          <DonutChart
+            {...nestedProps}
+            data={deepData}
+            dimensions={{width: 60, height: 60}}
+          />,
+        );
+
+        chart.findAll(Arc).forEach((arc) => {
+          expect(arc.prop('radius') - arc.prop('thickness')).toBeGreaterThan(0);
+        });
+      });
+
+      it('does not make series without children zoomable', () => {
+        const chart = mount(<DonutChart {...nestedProps} />);
+
+        expect(chart).toContainReactComponent('g', {
+          'aria-label': 'Retail: Sales - 40',
+          role: 'img',
+        });
+        expect(chart).toContainReactComponent('g', {
+          'aria-label': 'Online store: Sales - 60',
+          role: 'button',
+        });
+      });
+    });
   });
 });
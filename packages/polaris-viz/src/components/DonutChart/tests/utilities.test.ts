@@ -0,0 +1,160 @@
+import {
+  getChildColor,
+  getDonutSlices,
+  getHierarchyDepth,
+  getNestedArcs,
+  getSeriesAtPath,
+  getSeriesTotal,
+} from '../utilities';
+import type {DonutChartDataSeries} from '../types';
+
+const DATA: DonutChartDataSeries[] = [
+  {
+    name: 'Online store',
+    data: [{key: 'Sales', value: 60}],
+    children: [
+      {name: 'Shirts', data: [{key: 'Sales', value: 40}]},
+      {
+        name: 'Hats',
+        data: [{key: 'Sales', value: 20}],
+        children: [{name: 'Caps', data: [{key: 'Sales', value: 20}]}],
+      },
+    ],
+  },
+  {name: 'Retail', data: [{key: 'Sales', value: 40}]},
+];
+
+describe('getSeriesTotal()', () => {
+  it('sums the series values', () => {
+    expect(
+      getSeriesTotal({
+        data: [
+          {key: 'a', value: 5},
+          {key: 'b', value: null},
+          {key: 'c', value: 10},
+        ],
+      }),
+    ).toBe(15);
+  });
+});
+
+describe('getHierarchyDepth()', () => {
+  it('returns 1 for flat data', () => {
+    expect(getHierarchyDepth([DATA[1]])).toBe(1);
+  });
+
+  it('returns the deepest level of children', () => {
+    expect(getHierarchyDepth(DATA)).toBe(3);
+  });
+
+  it('returns 0 for empty data', () => {
+    expect(getHierarchyDepth([])).toBe(0);
+  });
+});
+
+describe('getSeriesAtPath()', () => {
+  it('returns the series at the given path', () => {
+    expect(getSeriesAtPath(DATA, [0, 1])?.name).toBe('Hats');
+  });
+
+  it('returns undefined for an empty path', () => {
+    expect(getSeriesAtPath(DATA, [])).toBeUndefined();
+  });
+
+  it('returns undefined when the path no longer exists', () => {
+    expect(getSeriesAtPath(DATA, [1, 0])).toBeUndefined();
+  });
+});
+
+describe('getDonutSlices()', () => {
+  it('lists the top level series before the outer rings', () => {
+    expect(
+      getDonutSlices(DATA).map(({path, series}) => [series.name, path]),
+    ).toStrictEqual([
+      ['Online store', [0]],
+      ['Retail', [1]],
+      ['Shirts', [0, 0]],
+      ['Hats', [0, 1]],
+      ['Caps', [0, 1, 0]],
+    ]);
+  });
+});
+
+describe('getChildColor()', () => {
+  it('fades the parent color', () => {
+    expect(getChildColor('rgb(255, 0, 0)', 0, 1)).toBe('rgba(255, 0, 0, 0.7)');
+  });
+
+  it('uses the last stop of gradient colors', () => {
+    expect(
+      getChildColor(
+        [
+          {color: 'rgb(0, 0, 0)', offset: 0},
+          {color: 'rgb(0, 0, 255)', offset: 100},
+        ],
+        0,
+        1,
+      ),
+    ).toBe('rgba(0, 0, 255, 0.7)');
+  });
+});
+
+describe('getNestedArcs()', () => {
+  it('splits the parent angle between its children', () => {
+    const arcs = getNestedArcs({
+      color: 'red',
+      endAngle: Math.PI,
+      path: [0],
+      series: DATA[0],
+      startAngle: 0,
+    });
+
+    expect(
+      arcs.map(({depth, path, rootIndex, series, startAngle, endAngle}) => ({
+        depth,
+        path,
+        rootIndex,
+        name: series.name,
+        startAngle,
+        endAngle,
+      })),
+    ).toStrictEqual([
+      {
+        depth: 1,
+        path: [0, 0],
+        rootIndex: 0,
+        name: 'Shirts',
+        startAngle: 0,
+        endAngle: (Math.PI * 2) / 3,
+      },
+      {
+        depth: 1,
+        path: [0, 1],
+        rootIndex: 0,
+        name: 'Hats',
+        startAngle: (Math.PI * 2) / 3,
+        endAngle: Math.PI,
+      },
+      {
+        depth: 2,
+        path: [0, 1, 0],
+        rootIndex: 0,
+        name: 'Caps',
+        startAngle: (Math.PI * 2) / 3,
+        endAngle: Math.PI,
+      },
+    ]);
+  });
+
+  it('returns an empty array for series without children', () => {
+    expect(
+      getNestedArcs({
+        color: 'red',
+        endAngle: Math.PI,
+        path: [1],
+        series: DATA[1],
+        startAngle: 0,
+      }),
+    ).toStrictEqual([]);
+  });
+});
@@ -1,6 +1,7 @@
 import type {DataSeries} from '@shopify/polaris-viz-core/src/types';
 
 import type {TrendIndicatorProps} from '../TrendIndicator';
+import type {DataPointClickEvent} from '../../types';
 
 export type MetaDataTrendIndicator = Omit<TrendIndicatorProps, 'theme'>;
 
@@ -10,4 +11,20 @@ export interface MetaData {
 
 export interface DonutChartDataSeries extends DataSeries {
   metadata?: MetaData;
+  /**
+   * Rendered as an outer ring aligned to this series' arc.
+   * Clicking the arc zooms into these series.
+   */
+  children?: DonutChartDataSeries[];
 }
+
+export interface DonutSliceClickEvent
+  extends DataPointClickEvent<DonutChartDataSeries> {
+  /**
+   * Indexes from the top level series down to the clicked slice,
+   * so slices in the outer rings can be told apart.
+   */
+  path: number[];
+}
+
+export type DonutSliceClickHandler = (event: DonutSliceClickEvent) => void;
@@ -0,0 +1,150 @@
+import {pie} from 'd3-shape';
+import {changeColorOpacity, isGradientType} from '@shopify/polaris-viz-core';
+import type {Color, DataSeries} from '@shopify/polaris-viz-core';
+
+import type {DonutChartDataSeries} from './types';
+
+const CHILD_OPACITY_RANGE = 0.6;
+
+export interface NestedArc {
+  color: Color;
+  depth: number;
+  endAngle: number;
+  path: number[];
+  rootIndex: number;
+  series: DonutChartDataSeries;
+  startAngle: number;
+}
+
+export interface DonutSlice {
+  path: number[];
+  series: DonutChartDataSeries;
+}
+
+export function getSeriesTotal({data}: DataSeries) {
+  return data.reduce((total, {value}) => total + (value ?? 0), 0);
+}
+
+export function getHierarchyDepth(data: DonutChartDataSeries[]): number {
+  return data.reduce(
+    (depth, {children}) =>
+      Math.max(
+        depth,
+        children != null && children.length > 0
+          ? getHierarchyDepth(children) + 1
+          : 1,
+      ),
+    0,
+  );
+}
+
+export function getSeriesAtPath(
+  data: DonutChartDataSeries[],
+  path: number[],
+): DonutChartDataSeries | undefined {
+  let level = data;
+  let series: DonutChartDataSeries | undefined;
+
+  for (const index of path) {
+    series = level[index];
+
+    if (series == null) {
+      return undefined;
+    }
+
+    level = series.children ?? [];
+  }
+
+  return series;
+}
+
+// Top level series come first so their indexes match `data`,
+// followed by the series of the outer rings.
+export function getDonutSlices(data: DonutChartDataSeries[]): DonutSlice[] {
+  return [
+    ...data.map((series, index) => ({path: [index], series})),
+    ...data.flatMap((series, index) => getChildSlices(series, [index])),
+  ];
+}
+
+function getChildSlices(
+  {children = []}: DonutChartDataSeries,
+  path: number[],
+): DonutSlice[] {
+  return children.flatMap((child, index) => {
+    const childPath = [...path, index];
+
+    return [
+      {path: childPath, series: child},
+      ...getChildSlices(child, childPath),
+    ];
+  });
+}
+
+export function getChildColor(
+  parentColor: Color,
+  index: number,
+  count: number,
+) {
+  const baseColor = isGradientType(parentColor)
+    ? parentColor[parentColor.length - 1].color
+    : parentColor;
+
+  return changeColorOpacity(
+    baseColor,
+    1 - (CHILD_OPACITY_RANGE * (index + 1)) / (count + 1),
+  );
+}
+
+interface NestedArcOptions {
+  color: Color;
+  endAngle: number;
+  path: number[];
+  series: DonutChartDataSeries;
+  startAngle: number;
+  depth?: number;
+}
+
+export function getNestedArcs({
+  color,
+  depth = 1,
+  endAngle,
+  path,
+  series,
+  startAngle,
+}: NestedArcOptions): NestedArc[] {
+  const children = series.children ?? [];
+
+  const createPie = pie<DonutChartDataSeries>()
+    .value(getSeriesTotal)
+    .sort(null)
+    .startAngle(startAngle)
+    .endAngle(endAngle);
+
+  return createPie(children).flatMap((arc, index) => {
+    const child = children[index];
+    const childColor =
+      child.color ?? getChildColor(color, index, children.length);
+    const childPath = [...path, index];
+
+    return [
+      {
+        color: childColor,
+        depth,
+        endAngle: arc.endAngle,
+        path: childPath,
+        rootIndex: path[0],
+        series: child,
+        startAngle: arc.startAngle,
+      },
+      ...getNestedArcs({
+        color: childColor,
+        depth: depth + 1,
+        endAngle: arc.endAngle,
+        path: childPath,
+        series: child,
+        startAngle: arc.startAngle,
+      }),
+    ];
+  });
+}
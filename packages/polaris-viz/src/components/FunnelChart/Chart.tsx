@@ -1,16 +1,22 @@
+import type {ReactNode} from 'react';
 import {Fragment, useMemo, useState, useCallback} from 'react';
 import {scaleBand, scaleLinear} from 'd3-scale';
 import type {
+  BoundingRect,
   DataSeries,
-  Dimensions,
+  Direction,
+  LabelFormatter,
   XAxisOptions,
   YAxisOptions,
 } from '@shopify/polaris-viz-core';
 import {
+  COLOR_VISION_SINGLE_ITEM,
+  DataType,
   uniqueId,
   LinearGradientWithStops,
-  useTheme,
+  estimateStringWidth,
   getAverageColor,
+  getColorVisionStylesForActiveIndex,
   changeColorOpacity,
   useChartContext,
   LINE_HEIGHT,
@@ -18,70 +24,154 @@ import {
 } from '@shopify/polaris-viz-core';
 
 import {ChartElements} from '../ChartElements';
-import {useReducedLabelIndexes} from '../../hooks';
+import {YAxis} from '../YAxis';
+import {LegendContainer, useLegend} from '../LegendContainer';
+import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
+import {
+  TooltipHorizontalOffset,
+  TooltipVerticalOffset,
+  TooltipWrapper,
+  TOOLTIP_POSITION_DEFAULT_RETURN,
+} from '../TooltipWrapper';
+import {
+  useColorVisionEvents,
+  useDataPointClickEvents,
+  useReducedLabelIndexes,
+  useTheme,
+  useWatchColorVisionEvents,
+} from '../../hooks';
+import {eventPointNative} from '../../utilities';
+import type {
+  DataPointClickHandler,
+  RenderTooltipContentData,
+} from '../../types';
 import {
   BAR_CONTAINER_TEXT_HEIGHT,
+  ChartMargin,
   MASK_HIGHLIGHT_COLOR,
   MIN_BAR_HEIGHT,
 } from '../../constants';
 
 import {FunnelChartXAxisLabels, FunnelSegment} from './components/';
-import type {LabelHelpers} from './FunnelChart';
-
-const X_LABEL_OFFSET = 16;
-const NEGATIVE_LABEL_OFFSET = -4;
+import type {FunnelConversionLabels, LabelHelpers} from './FunnelChart';
+import {
+  HORIZONTAL_LABEL_WIDTH,
+  MAX_Y_AXIS_LABEL_WIDTH,
+  NEGATIVE_LABEL_OFFSET,
+  SERIES_PADDING,
+  X_LABEL_OFFSET,
+  Y_AXIS_SPACING,
+} from './constants';
+import {getFunnelConversions} from './utilities';
 
 export interface ChartProps {
+  conversionLabels: Required<FunnelConversionLabels>;
   data: DataSeries[];
+  direction: Direction;
+  renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
+  seriesNameFormatter: LabelFormatter;
+  showLegend: boolean;
   xAxisOptions: Required<XAxisOptions>;
   yAxisOptions: Required<YAxisOptions>;
-  dimensions?: Dimensions;
+  dimensions?: BoundingRect;
   labelHelpers?: LabelHelpers[];
+  onBarClick?: DataPointClickHandler;
 }
 
 export function Chart({
+  conversionLabels,
   data,
   dimensions,
+  direction,
+  renderTooltipContent,
+  seriesNameFormatter,
+  showLegend,
   xAxisOptions,
   yAxisOptions,
   labelHelpers,
+  onBarClick,
 }: ChartProps) {
-  const {theme} = useChartContext();
+  useColorVisionEvents({enabled: data.length > 1, dimensions});
+
+  const {characterWidths, theme} = useChartContext();
   const selectedTheme = useTheme();
 
   const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
+  const [activeSeriesIndex, setActiveSeriesIndex] = useState(-1);
   const dataSeries = data[0].data;
-  const colorOverride = data[0].color;
-  const [maskRef, setMaskRef] = useState<SVGMaskElement | null>(null);
+  const [maskRefs, setMaskRefs] = useState<(SVGMaskElement | null)[]>([]);
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
 
-  const xValues = dataSeries.map(({key}) => key) as string[];
-  const yValues = dataSeries.map(({value}) => value) as [number, number];
+  useDataPointClickEvents({data, onClick: onBarClick, parentElement: svgRef});
 
-  const {width, height} = dimensions || {width: 0, height: 0};
+  useWatchColorVisionEvents({
+    type: COLOR_VISION_SINGLE_ITEM,
+    onIndexChange: ({detail}) => setActiveSeriesIndex(detail.index),
+  });
+
+  const {legend, setLegendDimensions, height, width} = useLegend({
+    data: [{shape: 'Bar', series: data}],
+    dimensions,
+    showLegend,
+    seriesNameFormatter,
+  });
+
+  const isVertical = direction === 'vertical';
+  const isComparison = data.length > 1;
 
   const labels = useMemo(
     () => dataSeries.map(({key}) => xAxisOptions.labelFormatter(key)),
     [dataSeries, xAxisOptions],
   );
 
-  const xScale = scaleBand()
-    .domain(xValues)
-    .range([0, width])
-    .paddingInner(0.5);
+  const conversions = useMemo(
+    () => data.map((series) => getFunnelConversions(series.data)),
+    [data],
+  );
+
+  const maxValue = Math.max(
+    0,
+    ...data.flatMap((series) => series.data.map(({value}) => value ?? 0)),
+  );
+
+  const yAxisLabelWidth = isVertical
+    ? 0
+    : Math.min(
+        Math.max(
+          0,
+          ...labels.map((label) => estimateStringWidth(label, characterWidths)),
+        ),
+        MAX_Y_AXIS_LABEL_WIDTH,
+      );
 
-  const labelXScale = scaleBand()
-    .range([0, width])
+  const chartXPosition = isVertical ? 0 : yAxisLabelWidth + Y_AXIS_SPACING;
+  const chartYPosition = 0;
+  const drawableWidth = Math.max(width - chartXPosition, 0);
+  const drawableHeight = isVertical
+    ? height - xAxisHeight - X_LABEL_OFFSET
+    : height;
+
+  const stepScale = scaleBand()
+    .range([0, isVertical ? drawableWidth : drawableHeight])
     .paddingInner(0.5)
     .paddingOuter(0)
     .domain(labels.map((_, index) => index.toString()));
 
-  const drawableHeight = height - xAxisHeight - X_LABEL_OFFSET;
+  const seriesScale = scaleBand()
+    .range([0, stepScale.bandwidth()])
+    .paddingInner(isComparison ? SERIES_PADDING : 0)
+    .domain(data.map((_, index) => index.toString()));
 
   const yScale = scaleLinear()
-    .range([0, drawableHeight - BAR_CONTAINER_TEXT_HEIGHT])
-    .domain([0, Math.max(...yValues)]);
+    .range([
+      0,
+      isVertical
+        ? drawableHeight - BAR_CONTAINER_TEXT_HEIGHT
+        : drawableWidth - HORIZONTAL_LABEL_WIDTH,
+    ])
+    .domain([0, maxValue]);
 
-  const barWidth = xScale.bandwidth();
+  const barWidth = seriesScale.bandwidth();
 
   const getBarHeight = useCallback(
     (rawValue: number) => {
@@ -97,130 +187,404 @@ export function Chart({
     dataLength: data[0] ? data[0].data.length : 0,
   });
 
-  const color = colorOverride || selectedTheme.seriesColors.single;
-  const barsGradient = getGradientFromColor(color);
+  const seriesGradients = data.map(({color}) => {
+    const barsGradient = getGradientFromColor(
+      color || selectedTheme.seriesColors.single,
+    );
 
-  const averageColor = getAverageColor(
-    barsGradient[0].color,
-    barsGradient.length > 1 ? barsGradient[1].color : barsGradient[0].color,
-  );
+    return {
+      barsGradient,
+      averageColor: getAverageColor(
+        barsGradient[0].color,
+        barsGradient.length > 1 ? barsGradient[1].color : barsGradient[0].color,
+      ),
+    };
+  });
 
   const connectorGradientId = useMemo(() => uniqueId('connector-gradient'), []);
 
   const connectorGradient = [
     {
-      color: changeColorOpacity(averageColor, 0.2),
+      color: changeColorOpacity(seriesGradients[0].averageColor, 0.2),
       offset: 0,
     },
     {
-      color: changeColorOpacity(averageColor, 0),
+      color: changeColorOpacity(seriesGradients[0].averageColor, 0),
       offset: 100,
     },
   ];
 
   const gradientId = useMemo(() => uniqueId('gradient'), []);
   const maskId = useMemo(() => uniqueId('mask'), []);
-  const handlePercentLabelFormatter = (percentCalculation) => {
-    const percentRounded = Math.round(percentCalculation);
-    if (percentCalculation) {
-      return `${yAxisOptions.labelFormatter(percentRounded)}%`;
-    } else {
+
+  const maskRefCallbacks = useMemo(
+    () =>
+      Array.from(
+        {length: data.length},
+        (_, seriesIndex) => (element: SVGMaskElement | null) => {
+          setMaskRefs((previous) => {
+            if (previous[seriesIndex] === element) {
+              return previous;
+            }
+
+            const next = [...previous];
+            next[seriesIndex] = element;
+
+            return next;
+          });
+        },
+      ),
+    [data.length],
+  );
+
+  const handlePercentLabelFormatter = (percentCalculation: number | null) => {
+    if (percentCalculation == null) {
       return '';
     }
+
+    return `${yAxisOptions.labelFormatter(Math.round(percentCalculation))}%`;
+  };
+
+  const yAxisTicks = labels.map((formattedValue, index) => ({
+    value: index,
+    formattedValue,
+    yOffset: (stepScale(`${index}`) ?? 0) + stepScale.bandwidth() / 2,
+  }));
+
+  const getTooltipMarkup = (index: number) => {
+    if (dataSeries[index] == null) {
+      return null;
+    }
+
+    return renderTooltipContent({
+      data: data.map((series, seriesIndex) => {
+        const {value, stepConversion, overallConversion, dropOff} =
+          conversions[seriesIndex][index];
+
+        return {
+          shape: 'Bar',
+          name: seriesNameFormatter(series.name ?? ''),
+          data: [
+            {
+              key: seriesNameFormatter(series.name ?? ''),
+              value: value == null ? null : yAxisOptions.labelFormatter(value),
+              color: series.color ?? undefined,
+            },
+            ...(index === 0
+              ? []
+              : [
+                  {
+                    key: conversionLabels.step,
+                    value: handlePercentLabelFormatter(stepConversion),
+                  },
+                  {
+                    key: conversionLabels.overall,
+                    value: handlePercentLabelFormatter(overallConversion),
+                  },
+                  {
+                    key: conversionLabels.dropOff,
+                    value: handlePercentLabelFormatter(dropOff),
+                  },
+                ]),
+          ],
+        };
+      }),
+      activeIndex: index,
+      dataSeries: data,
+      theme,
+      title: labels[index],
+    });
   };
 
   return (
-    <ChartElements.Svg height={height} width={width}>
-      <LinearGradientWithStops
-        gradient={connectorGradient}
-        id={connectorGradientId}
-        x1="0%"
-        x2="0%"
-        y1="100%"
-        y2="0%"
-      />
+    <ChartElements.Div height={height} width={width}>
+      <ChartElements.Svg height={height} setRef={setSvgRef} width={width}>
+        <LinearGradientWithStops
+          gradient={connectorGradient}
+          id={connectorGradientId}
+          x1="0%"
+          x2={isVertical ? '0%' : '100%'}
+          y1={isVertical ? '100%' : '0%'}
+          y2="0%"
+        />
 
-      <LinearGradientWithStops gradient={barsGradient} id={`${gradientId}`} />
-
-      <mask ref={setMaskRef} id={`${maskId}-${theme}-grad`} />
-      {dataSeries.map((dataPoint, index: number) => {
-        const nextPoint = dataSeries[index + 1];
-        const xPosition = xScale(dataPoint.key as string);
-        const x = xPosition == null ? 0 : xPosition;
-        const nextBarHeight = getBarHeight(nextPoint?.value || 0);
-        const yAxisValue = dataPoint.value;
-        const percentCalculation =
-          nextPoint?.value && yAxisValue
-            ? (nextPoint.value / yAxisValue) * 100
-            : 0;
-
-        const barHeight = getBarHeight(dataPoint.value || 0);
-        const percentLabel = handlePercentLabelFormatter(percentCalculation);
-        const formattedYValue = yAxisOptions.labelFormatter(yAxisValue);
-
-        const labelHelper = labelHelpers?.find(
-          (helper) => helper.key === dataPoint.key,
-        );
-
-        return (
-          <Fragment key={dataPoint.key}>
-            {maskRef && (
-              <g key={dataPoint.key} role="listitem">
-                <FunnelSegment
-                  percentLabel={percentLabel}
-                  labelHelper={labelHelper && labelHelper.value}
-                  formattedYValue={formattedYValue}
-                  isLast={index === dataSeries.length - 1}
-                  connector={{
-                    height: drawableHeight,
-                    startX: x + barWidth,
-                    startY: drawableHeight - barHeight,
-                    nextX: xScale(nextPoint?.key as string),
-                    nextY: drawableHeight - nextBarHeight,
-                    nextPoint,
-                    fill: `url(#${connectorGradientId})`,
-                  }}
-                  ariaLabel={`${xAxisOptions.labelFormatter(
-                    dataPoint.key,
-                  )}: ${yAxisOptions.labelFormatter(dataPoint.value)}`}
-                  barWidth={barWidth}
-                  barHeight={barHeight}
-                  color={MASK_HIGHLIGHT_COLOR}
-                  x={x}
-                  portalTo={maskRef}
-                  index={index}
-                  drawableHeight={drawableHeight}
-                />
-              </g>
-            )}
+        {seriesGradients.map(({barsGradient}, seriesIndex) => (
+          <Fragment key={seriesIndex}>
+            <LinearGradientWithStops
+              gradient={barsGradient}
+              id={`${gradientId}-${seriesIndex}`}
+              x2={isVertical ? '0%' : '100%'}
+              y1={isVertical ? '100%' : '0%'}
+            />
+            <mask
+              ref={maskRefCallbacks[seriesIndex]}
+              id={`${maskId}-${seriesIndex}-${theme}-grad`}
+            />
           </Fragment>
-        );
-      })}
-
-      <g aria-hidden="true">
-        <FunnelChartXAxisLabels
-          allowLineWrap={xAxisOptions.allowLineWrap}
-          chartX={barWidth / NEGATIVE_LABEL_OFFSET}
-          chartY={drawableHeight + X_LABEL_OFFSET}
-          labels={labels}
-          labelWidth={barWidth + barWidth / 2}
-          onHeightChange={setXAxisHeight}
-          reducedLabelIndexes={reducedLabelIndexes}
-          xScale={labelXScale}
-        />
-      </g>
-
-      <rect
-        mask={`url(#${maskId}-${theme}-grad)`}
-        x={0}
-        y={0}
-        width={width}
-        height={drawableHeight}
-        fill={`url(#${gradientId})`}
-        style={{
-          pointerEvents: 'none',
+        ))}
+
+        {isVertical ? null : (
+          <YAxis
+            ticks={yAxisTicks}
+            textAlign="right"
+            width={yAxisLabelWidth}
+            x={0}
+            y={chartYPosition}
+          />
+        )}
+
+        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          {dataSeries.map((dataPoint, index: number) => {
+            const stepX = stepScale(index.toString()) ?? 0;
+            const nextX = stepScale((index + 1).toString()) ?? 0;
+            const isLast = index === dataSeries.length - 1;
+            const stepAriaLabel = `${labels[index]}: ${data
+              .map(({data}) => yAxisOptions.labelFormatter(data[index]?.value))
+              .join(', ')}`;
+
+            const labelHelper = labelHelpers?.find(
+              (helper) => helper.key === dataPoint.key,
+            );
+
+            return (
+              <g
+                key={`${dataPoint.key}-${index}`}
+                aria-hidden="false"
+                aria-label={stepAriaLabel}
+                data-index={index}
+                data-type={DataType.BarGroup}
+                role="listitem"
+                tabIndex={0}
+              >
+                {data.map((series, seriesIndex) => {
+                  const maskRef = maskRefs[seriesIndex];
+
+                  if (maskRef == null) {
+                    return null;
+                  }
+
+                  const value = series.data[index]?.value ?? 0;
+                  const nextValue = series.data[index + 1]?.value ?? 0;
+                  const previousValue = series.data[index - 1]?.value ?? 0;
+                  const x = stepX + (seriesScale(seriesIndex.toString()) ?? 0);
+                  const barHeight = getBarHeight(value);
+                  const nextBarHeight = getBarHeight(nextValue);
+                  const previousBarHeight = getBarHeight(previousValue);
+                  const {averageColor} = seriesGradients[seriesIndex];
+                  const ariaLabel = `${
+                    isComparison
+                      ? `${seriesNameFormatter(series.name ?? '')} `
+                      : ''
+                  }${labels[index]}: ${yAxisOptions.labelFormatter(value)}`;
+
+                  return (
+                    <g
+                      key={`${series.name}-${seriesIndex}`}
+                      style={getColorVisionStylesForActiveIndex({
+                        activeIndex: activeSeriesIndex,
+                        index: seriesIndex,
+                      })}
+                    >
+                      <FunnelSegment
+                        percentLabel={handlePercentLabelFormatter(
+                          conversions[seriesIndex][index + 1]?.stepConversion ??
+                            null,
+                        )}
+                        labelHelper={labelHelper && labelHelper.value}
+                        formattedYValue={yAxisOptions.labelFormatter(value)}
+                        isLast={isLast}
+                        connector={
+                          isComparison
+                            ? undefined
+                            : getConnector({
+                                barHeight,
+                                nextBarHeight,
+                                nextX,
+                                x,
+                              })
+                        }
+                        direction={direction}
+                        dropOff={
+                          index > 0 && previousBarHeight > barHeight
+                            ? {length: previousBarHeight, color: averageColor}
+                            : undefined
+                        }
+                        ariaLabel={ariaLabel}
+                        barWidth={barWidth}
+                        barHeight={barHeight}
+                        color={MASK_HIGHLIGHT_COLOR}
+                        x={x}
+                        portalTo={maskRef}
+                        index={index}
+                        isClickable={onBarClick != null}
+                        seriesIndex={seriesIndex}
+                        drawableHeight={drawableHeight}
+                        valueLabelSize={isComparison ? 'small' : 'large'}
+                      />
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </g>
+
+        {isVertical && (
+          <g aria-hidden="true">
+            <FunnelChartXAxisLabels
+              allowLineWrap={xAxisOptions.allowLineWrap}
+              chartX={stepScale.bandwidth() / NEGATIVE_LABEL_OFFSET}
+              chartY={drawableHeight + X_LABEL_OFFSET}
+              labels={labels}
+              labelWidth={stepScale.bandwidth() * 1.5}
+              onHeightChange={setXAxisHeight}
+              reducedLabelIndexes={reducedLabelIndexes}
+              xScale={stepScale}
+            />
+          </g>
+        )}
+
+        {data.map((series, seriesIndex) => (
+          <rect
+            key={`${series.name}-${seriesIndex}`}
+            mask={`url(#${maskId}-${seriesIndex}-${theme}-grad)`}
+            x={chartXPosition}
+            y={chartYPosition}
+            width={drawableWidth}
+            height={drawableHeight}
+            fill={`url(#${gradientId}-${seriesIndex})`}
+            style={{
+              pointerEvents: 'none',
+              ...getColorVisionStylesForActiveIndex({
+                activeIndex: activeSeriesIndex,
+                index: seriesIndex,
+              }),
+            }}
+          />
+        ))}
+      </ChartElements.Svg>
+
+      <TooltipWrapper
+        bandwidth={stepScale.bandwidth()}
+        chartBounds={{
+          width,
+          height,
+          x: chartXPosition,
+          y: chartYPosition,
         }}
+        chartDimensions={dimensions}
+        focusElementDataType={DataType.BarGroup}
+        getMarkup={getTooltipMarkup}
+        getPosition={getTooltipPosition}
+        margin={{...ChartMargin, Top: chartYPosition}}
+        parentRef={svgRef}
+        usePortal
       />
-    </ChartElements.Svg>
+
+      {showLegend && (
+        <LegendContainer
+          colorVisionType={COLOR_VISION_SINGLE_ITEM}
+          data={legend}
+          dimensions={dimensions}
+          enableHideOverflow
+          onDimensionChange={setLegendDimensions}
+        />
+      )}
+    </ChartElements.Div>
   );
+
+  function getConnector({
+    barHeight,
+    nextBarHeight,
+    nextX,
+    x,
+  }: {
+    barHeight: number;
+    nextBarHeight: number;
+    nextX: number;
+    x: number;
+  }) {
+    const fill = `url(#${connectorGradientId})`;
+
+    if (isVertical) {
+      return {
+        height: drawableHeight,
+        startX: x + barWidth,
+        startY: drawableHeight - barHeight,
+        nextX,
+        nextY: drawableHeight - nextBarHeight,
+        fill,
+      };
+    }
+
+    return {
+      height: drawableWidth,
+      startX: barHeight,
+      startY: x + barWidth,
+      nextX: nextBarHeight,
+      nextY: nextX,
+      fill,
+    };
+  }
+
+  function formatPositionForTooltip(index: number): TooltipPosition {
+    const stepPosition = stepScale(index.toString()) ?? 0;
+    const longestBar = Math.max(
+      0,
+      ...data.map((series) => getBarHeight(series.data[index]?.value ?? 0)),
+    );
+
+    return {
+      x:
+        chartXPosition +
+        (isVertical
+          ? stepPosition + stepScale.bandwidth() / 2
+          : longestBar + HORIZONTAL_LABEL_WIDTH) +
+        (dimensions?.x ?? 0),
+      y:
+        chartYPosition +
+        (isVertical
+          ? drawableHeight - longestBar
+          : stepPosition + stepScale.bandwidth() / 2) +
+        (dimensions?.y ?? 0),
+      position: {
+        horizontal: isVertical
+          ? TooltipHorizontalOffset.Center
+          : TooltipHorizontalOffset.Right,
+        vertical: isVertical
+          ? TooltipVerticalOffset.Above
+          : TooltipVerticalOffset.Center,
+      },
+      activeIndex: index,
+    };
+  }
+
+  function getTooltipPosition({
+    event,
+    index,
+    eventType,
+  }: TooltipPositionParams): TooltipPosition {
+    if (eventType === 'mouse' && event) {
+      const point = eventPointNative(event);
+
+      if (point == null) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      const position = isVertical
+        ? point.svgX - chartXPosition
+        : point.svgY - chartYPosition;
+      const stepIndex = Math.floor(position / stepScale.step());
+
+      if (stepIndex < 0 || stepIndex >= dataSeries.length) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      return formatPositionForTooltip(stepIndex);
+    } else if (index != null) {
+      return formatPositionForTooltip(index);
+    }
+
+    return TOOLTIP_POSITION_DEFAULT_RETURN;
+  }
 }
@@ -1,5 +1,7 @@
 import type {ReactNode} from 'react';
 import type {
+  Direction,
+  LabelFormatter,
   XAxisOptions,
   YAxisOptions,
   ChartProps,
@@ -17,7 +19,9 @@ import {
   getYAxisOptionsWithDefaults,
   getXAxisOptionsWithDefaults,
 } from '../../utilities';
+import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRenderer';
 import {ChartSkeleton} from '../';
+import type {DataPointClickHandler, TooltipOptions} from '../../types';
 
 import {Chart} from './Chart';
 
@@ -26,17 +30,43 @@ export interface LabelHelpers {
   value: ReactNode | null;
 }
 
+export interface FunnelConversionLabels {
+  step?: string;
+  overall?: string;
+  dropOff?: string;
+}
+
 export type FunnelChartProps = {
   xAxisOptions?: Omit<XAxisOptions, 'hide'>;
   yAxisOptions?: Omit<XAxisOptions, 'integersOnly'>;
+  /**
+   * Names of the conversion metrics shown in the tooltip.
+   */
+  conversionLabels?: FunnelConversionLabels;
+  direction?: Direction;
   labelHelpers?: LabelHelpers[];
+  onBarClick?: DataPointClickHandler;
+  seriesNameFormatter?: LabelFormatter;
+  /**
+   * Defaults to `true` when comparing more than one series.
+   */
+  showLegend?: boolean;
+  tooltipOptions?: TooltipOptions;
 } & ChartProps;
 
+const DEFAULT_CONVERSION_LABELS: Required<FunnelConversionLabels> = {
+  step: 'Step conversion',
+  overall: 'Overall conversion',
+  dropOff: 'Drop-off',
+};
+
 export function FunnelChart(props: FunnelChartProps) {
   const {defaultTheme} = usePolarisVizContext();
 
   const {
+    conversionLabels,
     data,
+    direction = 'vertical',
     theme = defaultTheme,
     xAxisOptions,
     yAxisOptions,
@@ -45,7 +75,11 @@ export function FunnelChart(props: FunnelChartProps) {
     state,
     errorText,
     labelHelpers,
+    onBarClick,
     onError,
+    seriesNameFormatter = (value) => `${value}`,
+    showLegend = data.length > 1,
+    tooltipOptions,
   } = {
     ...DEFAULT_CHART_PROPS,
     ...props,
@@ -64,6 +98,12 @@ export function FunnelChart(props: FunnelChartProps) {
   const yAxisOptionsForChart: Required<YAxisOptions> =
     getYAxisOptionsWithDefaults(yAxisOptions);
 
+  const renderTooltip = getTooltipContentRenderer({
+    tooltipOptions,
+    theme,
+    data,
+  });
+
   return (
     <ChartContainer
       data={data}
@@ -81,8 +121,14 @@ export function FunnelChart(props: FunnelChartProps) {
         />
       ) : (
         <Chart
+          conversionLabels={{...DEFAULT_CONVERSION_LABELS, ...conversionLabels}}
           data={seriesWithDefaults}
+          direction={direction}
           labelHelpers={labelHelpers}
+          onBarClick={onBarClick}
+          renderTooltipContent={renderTooltip}
+          seriesNameFormatter={seriesNameFormatter}
+          showLegend={showLegend}
           xAxisOptions={xAxisOptionsForChart}
           yAxisOptions={yAxisOptionsForChart}
         />
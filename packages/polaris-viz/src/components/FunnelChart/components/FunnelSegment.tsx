@@ -1,18 +1,68 @@
+import type {ReactNode} from 'react';
 import {Fragment, useRef} from 'react';
 import {createPortal} from 'react-dom';
 import {useSpring, animated, to} from '@react-spring/web';
 import {
   getRoundedRectPath,
   changeColorOpacity,
+  DataType,
   useTheme,
 } from '@shopify/polaris-viz-core';
+import type {Direction} from '@shopify/polaris-viz-core';
 
 import {useBarSpringConfig} from '../../../hooks/useBarSpringConfig';
+import {
+  DROP_OFF_DASHARRAY,
+  DROP_OFF_FILL_OPACITY,
+  DROP_OFF_STROKE_OPACITY,
+  HORIZONTAL_LABEL_OFFSET,
+  HORIZONTAL_LABEL_WIDTH,
+} from '../constants';
 
 import {Label} from './Label';
 
 const Y_AXIS_LABEL_VERTICAL_OFFSET = 32;
 const PERCENT_LABEL_VERTICAL_OFFSET = 24;
+const LABEL_HEIGHT = 20;
+
+export interface FunnelSegmentConnector {
+  height: number;
+  startX: number;
+  startY: number;
+  nextX: number;
+  nextY: number;
+  fill: string;
+}
+
+export interface FunnelSegmentDropOff {
+  /**
+   * Length of the previous step's bar, the region between
+   * it and this bar's end is the drop-off.
+   */
+  length: number;
+  color: string;
+}
+
+export interface FunnelSegmentProps {
+  ariaLabel: string;
+  barHeight: number;
+  barWidth: number;
+  color: string;
+  drawableHeight: number;
+  formattedYValue: string;
+  isLast: boolean;
+  portalTo: SVGMaskElement;
+  x: number;
+  connector?: FunnelSegmentConnector;
+  direction?: Direction;
+  dropOff?: FunnelSegmentDropOff;
+  index?: number;
+  isClickable?: boolean;
+  labelHelper?: ReactNode;
+  percentLabel?: string;
+  seriesIndex?: number;
+  valueLabelSize?: 'small' | 'large';
+}
 
 export function FunnelSegment({
   barWidth,
@@ -21,18 +71,25 @@ export function FunnelSegment({
   x,
   ariaLabel,
   index = 0,
+  isClickable = false,
   color,
   connector,
+  direction = 'vertical',
+  dropOff,
   isLast,
   portalTo,
-  percentLabel,
+  percentLabel = '',
   formattedYValue,
   labelHelper,
-}) {
+  seriesIndex = 0,
+  valueLabelSize = 'large',
+}: FunnelSegmentProps) {
   const selectedTheme = useTheme();
   const mounted = useRef(false);
 
   const borderRadius = selectedTheme.bar.borderRadius;
+  const isVertical = direction === 'vertical';
+  const baseline = isVertical ? drawableHeight : 0;
 
   const {
     xAxis: {labelColor: axisLabelColor},
@@ -44,17 +101,105 @@ export function FunnelSegment({
   const {animatedHeight, animatedStartY, animatedNextY} = useSpring({
     from: {
       animatedHeight: mounted.current ? barHeight : 0,
-      animatedStartY: drawableHeight,
-      animatedNextY: drawableHeight,
+      animatedStartY: baseline,
+      animatedNextY: baseline,
     },
     to: {
       animatedHeight: barHeight,
-      animatedStartY: connector.startY,
-      animatedNextY: connector.nextY,
+      animatedStartY: getConnectorEnd('start'),
+      animatedNextY: getConnectorEnd('next'),
     },
     ...springConfig,
   });
 
+  if (!isVertical) {
+    return (
+      <Fragment>
+        {createPortal(
+          <animated.path
+            aria-label={ariaLabel}
+            fill={color}
+            d={animatedHeight.to((value: number) =>
+              getRoundedRectPath({
+                height: barWidth,
+                width: value,
+                borderRadius: `0 ${borderRadius} ${borderRadius} 0`,
+              }),
+            )}
+            style={{transform: `translate(0px, ${x}px)`}}
+          />,
+          portalTo,
+        )}
+        {dropOff != null && (
+          <animated.rect
+            fill={changeColorOpacity(dropOff.color, DROP_OFF_FILL_OPACITY)}
+            height={barWidth}
+            stroke={changeColorOpacity(dropOff.color, DROP_OFF_STROKE_OPACITY)}
+            strokeDasharray={DROP_OFF_DASHARRAY}
+            width={animatedHeight.to((value: number) =>
+              Math.max(dropOff.length - value, 0),
+            )}
+            x={animatedHeight}
+            y={x}
+          />
+        )}
+        <rect
+          aria-label={ariaLabel}
+          fill="transparent"
+          height={barWidth}
+          role="img"
+          width={barHeight}
+          x={0}
+          y={x}
+          data-type={DataType.Bar}
+          data-index={seriesIndex}
+          tabIndex={isClickable ? 0 : undefined}
+        />
+        {connector != null && !isLast && (
+          <animated.path
+            d={to(
+              [animatedStartY, animatedNextY],
+              (start, next) =>
+                `M0 ${connector.startY} H ${start}
+                 L ${next} ${connector.nextY} H 0 Z`,
+            )}
+            fill={connector.fill}
+          />
+        )}
+
+        <Label
+          transform={animatedHeight.to(
+            (value: number) =>
+              `translate(${value + HORIZONTAL_LABEL_OFFSET}px, ${
+                x + (barWidth - LABEL_HEIGHT) / 2 - HORIZONTAL_LABEL_OFFSET
+              }px)`,
+          )}
+          label={formattedYValue}
+          labelWidth={HORIZONTAL_LABEL_WIDTH}
+          size={valueLabelSize}
+          color={axisLabelColor}
+        />
+        {connector != null && (
+          <Label
+            backgroundColor={backgroundColor}
+            label={percentLabel}
+            labelWidth={HORIZONTAL_LABEL_WIDTH}
+            labelHelper={labelHelper}
+            transform={animatedNextY.to(
+              (value: number) =>
+                `translate(${value + HORIZONTAL_LABEL_OFFSET}px, ${
+                  (connector.startY + connector.nextY - LABEL_HEIGHT) / 2 -
+                  HORIZONTAL_LABEL_OFFSET
+                }px)`,
+            )}
+            size="small"
+            color={changeColorOpacity(axisLabelColor, 0.7)}
+          />
+        )}
+      </Fragment>
+    );
+  }
+
   return (
     <Fragment>
       {createPortal(
@@ -78,7 +223,33 @@ export function FunnelSegment({
         />,
         portalTo,
       )}
-      {!isLast && (
+      {dropOff != null && (
+        <animated.rect
+          fill={changeColorOpacity(dropOff.color, DROP_OFF_FILL_OPACITY)}
+          height={animatedHeight.to((value: number) =>
+            Math.max(dropOff.length - value, 0),
+          )}
+          stroke={changeColorOpacity(dropOff.color, DROP_OFF_STROKE_OPACITY)}
+          strokeDasharray={DROP_OFF_DASHARRAY}
+          width={barWidth}
+          x={x}
+          y={drawableHeight - dropOff.length}
+        />
+      )}
+      {/* The bar itself is drawn inside a mask, so it can't receive clicks. */}
+      <rect
+        aria-label={ariaLabel}
+        fill="transparent"
+        height={barHeight}
+        role="img"
+        width={barWidth}
+        x={x}
+        y={drawableHeight - barHeight}
+        data-type={DataType.Bar}
+        data-index={seriesIndex}
+        tabIndex={isClickable ? 0 : undefined}
+      />
+      {connector != null && !isLast && (
         <animated.path
           d={to(
             [animatedStartY, animatedNextY, animatedHeight],
@@ -92,29 +263,45 @@ export function FunnelSegment({
       )}
 
       <Label
-        transform={animatedStartY.to(
+        transform={animatedHeight.to(
           (value: number) =>
-            `translate(${x}px, ${value - Y_AXIS_LABEL_VERTICAL_OFFSET}px)`,
+            `translate(${x}px, ${
+              drawableHeight - value - Y_AXIS_LABEL_VERTICAL_OFFSET
+            }px)`,
         )}
         label={formattedYValue}
         labelWidth={barWidth}
-        size="large"
+        size={valueLabelSize}
         color={axisLabelColor}
       />
-      <Label
-        backgroundColor={backgroundColor}
-        label={percentLabel}
-        labelWidth={barWidth}
-        labelHelper={labelHelper}
-        transform={animatedNextY.to(
-          (value: number) =>
-            `translate(${Number(x) + Number(barWidth)}px, ${
-              value - PERCENT_LABEL_VERTICAL_OFFSET
-            }px)`,
-        )}
-        size="small"
-        color={changeColorOpacity(axisLabelColor, 0.7)}
-      />
+      {connector != null && (
+        <Label
+          backgroundColor={backgroundColor}
+          label={percentLabel}
+          labelWidth={barWidth}
+          labelHelper={labelHelper}
+          transform={animatedNextY.to(
+            (value: number) =>
+              `translate(${Number(x) + Number(barWidth)}px, ${
+                value - PERCENT_LABEL_VERTICAL_OFFSET
+              }px)`,
+          )}
+          size="small"
+          color={changeColorOpacity(axisLabelColor, 0.7)}
+        />
+      )}
     </Fragment>
   );
+
+  function getConnectorEnd(point: 'start' | 'next') {
+    if (connector == null) {
+      return isVertical ? drawableHeight - barHeight : barHeight;
+    }
+
+    if (point === 'start') {
+      return isVertical ? connector.startY : connector.startX;
+    }
+
+    return isVertical ? connector.nextY : connector.nextX;
+  }
 }
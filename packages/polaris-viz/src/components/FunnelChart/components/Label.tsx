@@ -1,6 +1,6 @@
 import type {ReactNode} from 'react';
 import {animated} from '@react-spring/web';
-import type {SpringValue} from '@react-spring/web';
+import type {Interpolation, SpringValue} from '@react-spring/web';
 
 import {HORIZONTAL_BAR_LABEL_HEIGHT} from '../../../constants';
 
@@ -26,7 +26,7 @@ export interface LabelProps {
   size: Size;
   color?: string;
   backgroundColor?: string;
-  transform: SpringValue;
+  transform: SpringValue | Interpolation<number, string>;
 }
 
 export function Label({
@@ -0,0 +1,10 @@
+export const X_LABEL_OFFSET = 16;
+export const NEGATIVE_LABEL_OFFSET = -4;
+export const SERIES_PADDING = 0.1;
+export const HORIZONTAL_LABEL_WIDTH = 80;
+export const HORIZONTAL_LABEL_OFFSET = 4;
+export const MAX_Y_AXIS_LABEL_WIDTH = 160;
+export const Y_AXIS_SPACING = 8;
+export const DROP_OFF_DASHARRAY = '4 4';
+export const DROP_OFF_FILL_OPACITY = 0.08;
+export const DROP_OFF_STROKE_OPACITY = 0.4;
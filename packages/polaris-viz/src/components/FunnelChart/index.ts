@@ -1,2 +1,4 @@
 export {FunnelChart} from './FunnelChart';
-export type {FunnelChartProps} from './FunnelChart';
+export type {FunnelChartProps, FunnelConversionLabels} from './FunnelChart';
+export {getFunnelConversions} from './utilities';
+export type {FunnelConversion} from './utilities';
@@ -0,0 +1,20 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {FunnelChartProps} from '../../../components';
+
+import {COMPARISON_DATA, Template} from './data';
+
+export const Comparison: Story<FunnelChartProps> = Template.bind({});
+
+Comparison.args = {
+  data: COMPARISON_DATA,
+};
+
+export const HorizontalComparison: Story<FunnelChartProps> = Template.bind({});
+
+HorizontalComparison.args = {
+  data: COMPARISON_DATA,
+  direction: 'horizontal',
+};
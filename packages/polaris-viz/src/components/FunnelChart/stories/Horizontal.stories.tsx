@@ -0,0 +1,14 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {FunnelChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template} from './data';
+
+export const Horizontal: Story<FunnelChartProps> = Template.bind({});
+
+Horizontal.args = {
+  data: DEFAULT_DATA,
+  direction: 'horizontal',
+};
@@ -28,6 +28,34 @@ export const DEFAULT_DATA: DataSeries[] = [
   },
 ];
 
+export const COMPARISON_DATA: DataSeries[] = [
+  {
+    ...DEFAULT_DATA[0],
+    name: 'This period',
+  },
+  {
+    data: [
+      {
+        value: 110,
+        key: 'Opens',
+      },
+      {
+        value: 52,
+        key: 'Visitors',
+      },
+      {
+        value: 20,
+        key: 'Added to carts',
+      },
+      {
+        value: 6,
+        key: 'Orders',
+      },
+    ],
+    name: 'Previous period',
+  },
+];
+
 export const Template: Story<FunnelChartProps> = (args: FunnelChartProps) => {
   return (
     <div style={{height: 400}}>
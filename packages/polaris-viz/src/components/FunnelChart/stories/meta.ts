@@ -3,6 +3,7 @@ import type {Meta} from '@storybook/react';
 import {
   CHART_STATE_CONTROL_ARGS,
   CONTROLS_ARGS,
+  DIRECTION_CONTROL_ARGS,
   THEME_CONTROL_ARGS,
   X_AXIS_OPTIONS_ARGS,
   Y_AXIS_OPTIONS_ARGS,
@@ -23,6 +24,7 @@ export const META: Meta = {
     },
   },
   argTypes: {
+    direction: DIRECTION_CONTROL_ARGS,
     xAxisOptions: X_AXIS_OPTIONS_ARGS,
     yAxisOptions: Y_AXIS_OPTIONS_ARGS,
     theme: THEME_CONTROL_ARGS,
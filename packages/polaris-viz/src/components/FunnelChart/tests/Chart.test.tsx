@@ -0,0 +1,176 @@
+import {mount} from '@shopify/react-testing';
+import {DataType} from '@shopify/polaris-viz-core';
+
+import type {ChartProps} from '../Chart';
+import {Chart} from '../Chart';
+import {FunnelChartXAxisLabels, FunnelSegment} from '../components';
+import {LegendContainer} from '../../LegendContainer';
+import {TooltipWrapper} from '../../TooltipWrapper';
+import {YAxis} from '../../YAxis';
+
+const MOCK_PROPS: ChartProps = {
+  conversionLabels: {
+    step: 'Step conversion',
+    overall: 'Overall conversion',
+    dropOff: 'Drop-off',
+  },
+  data: [
+    {
+      name: 'This period',
+      color: 'red',
+      data: [
+        {key: 'Opens', value: 200},
+        {key: 'Visitors', value: 100},
+        {key: 'Orders', value: 25},
+      ],
+    },
+  ],
+  dimensions: {height: 300, width: 600, x: 0, y: 0},
+  direction: 'vertical',
+  renderTooltipContent: jest.fn(() => null),
+  seriesNameFormatter: (value) => `${value}`,
+  showLegend: false,
+  xAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    hide: false,
+    allowLineWrap: false,
+  },
+  yAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    integersOnly: false,
+    fixedWidth: false,
+    maxYOverride: null,
+    minYOverride: null,
+    domain: null,
+    includeZero: true,
+    scale: 'linear',
+  },
+};
+
+const COMPARISON_DATA: ChartProps['data'] = [
+  ...MOCK_PROPS.data,
+  {
+    name: 'Previous period',
+    color: 'blue',
+    data: [
+      {key: 'Opens', value: 150},
+      {key: 'Visitors', value: 90},
+      {key: 'Orders', value: 30},
+    ],
+  },
+];
+
+describe('<Chart />', () => {
+  it('renders a <FunnelSegment /> for each step', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart.findAll(FunnelSegment)).toHaveLength(3);
+  });
+
+  it('passes the step conversion to the next step as the percent label', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const [opens, visitors, orders] = chart.findAll(FunnelSegment);
+
+    expect(opens).toHaveReactProps({percentLabel: '50%'});
+    expect(visitors).toHaveReactProps({percentLabel: '25%'});
+    expect(orders).toHaveReactProps({percentLabel: ''});
+  });
+
+  it('passes a drop-off region to steps smaller than the previous step', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const [opens, visitors] = chart.findAll(FunnelSegment);
+
+    expect(opens.prop('dropOff')).toBeUndefined();
+    expect(visitors.prop('dropOff')).toStrictEqual({
+      length: opens.prop('barHeight'),
+      color: expect.any(String),
+    });
+  });
+
+  it('renders focusable step groups for the tooltip', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(TooltipWrapper, {
+      focusElementDataType: DataType.BarGroup,
+    });
+    expect(chart).toContainReactComponent('g', {
+      'data-type': DataType.BarGroup,
+      'data-index': 1,
+      'aria-label': 'Visitors: 100',
+    });
+  });
+
+  it('renders conversion metrics in the tooltip', () => {
+    const renderTooltipContent = jest.fn(() => null);
+    const chart = mount(
+      <Chart {...MOCK_PROPS} renderTooltipContent={renderTooltipContent} />,
+    );
+
+    chart.find(TooltipWrapper)!.prop('getMarkup')(2);
+
+    expect(renderTooltipContent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'Orders',
+        data: [
+          expect.objectContaining({
+            data: [
+              {key: 'This period', value: '25', color: 'red'},
+              {key: 'Step conversion', value: '25%'},
+              {key: 'Overall conversion', value: '13%'},
+              {key: 'Drop-off', value: '75%'},
+            ],
+          }),
+        ],
+      }),
+    );
+  });
+
+  describe('direction', () => {
+    it('renders step labels below the bars when vertical', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).toContainReactComponent(FunnelChartXAxisLabels);
+      expect(chart).not.toContainReactComponent(YAxis);
+    });
+
+    it('renders step labels beside the bars when horizontal', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} direction="horizontal" />);
+
+      expect(chart).toContainReactComponent(YAxis);
+      expect(chart).not.toContainReactComponent(FunnelChartXAxisLabels);
+      expect(chart.find(FunnelSegment)).toHaveReactProps({
+        direction: 'horizontal',
+      });
+    });
+  });
+
+  describe('comparison', () => {
+    it('renders a <FunnelSegment /> for each series in each step', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} data={COMPARISON_DATA} />);
+
+      const segments = chart.findAll(FunnelSegment);
+
+      expect(segments).toHaveLength(6);
+      expect(segments[1]).toHaveReactProps({seriesIndex: 1, index: 0});
+      expect(segments[1].prop('x')).toBeGreaterThan(segments[0].prop('x'));
+    });
+
+    it('does not render connectors between steps', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} data={COMPARISON_DATA} />);
+
+      expect(chart).not.toContainReactComponent(FunnelSegment, {
+        connector: expect.any(Object),
+      });
+    });
+
+    it('renders a <LegendContainer /> when showLegend is true', () => {
+      const chart = mount(
+        <Chart {...MOCK_PROPS} data={COMPARISON_DATA} showLegend />,
+      );
+
+      expect(chart).toContainReactComponent(LegendContainer);
+    });
+  });
+});
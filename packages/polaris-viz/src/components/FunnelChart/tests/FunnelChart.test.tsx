@@ -0,0 +1,63 @@
+import {mount} from '@shopify/react-testing';
+import {ChartState} from '@shopify/polaris-viz-core';
+
+import {ChartSkeleton} from '../../ChartSkeleton';
+import type {FunnelChartProps} from '../FunnelChart';
+import {FunnelChart} from '../FunnelChart';
+import {Chart} from '../Chart';
+
+const MOCK_PROPS: FunnelChartProps = {
+  data: [
+    {
+      name: 'This period',
+      data: [
+        {key: 'Opens', value: 200},
+        {key: 'Orders', value: 25},
+      ],
+    },
+  ],
+};
+
+describe('<FunnelChart />', () => {
+  it('renders a vertical <Chart /> by default', () => {
+    const chart = mount(<FunnelChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(Chart, {
+      direction: 'vertical',
+      showLegend: false,
+    });
+  });
+
+  it('shows the legend when comparing series', () => {
+    const chart = mount(
+      <FunnelChart
+        data={[...MOCK_PROPS.data, {...MOCK_PROPS.data[0], name: 'Before'}]}
+      />,
+    );
+
+    expect(chart).toContainReactComponent(Chart, {showLegend: true});
+  });
+
+  it('fills in conversionLabels defaults', () => {
+    const chart = mount(
+      <FunnelChart {...MOCK_PROPS} conversionLabels={{dropOff: 'Lost'}} />,
+    );
+
+    expect(chart).toContainReactComponent(Chart, {
+      conversionLabels: {
+        step: 'Step conversion',
+        overall: 'Overall conversion',
+        dropOff: 'Lost',
+      },
+    });
+  });
+
+  it('renders <ChartSkeleton /> while loading', () => {
+    const chart = mount(
+      <FunnelChart {...MOCK_PROPS} state={ChartState.Loading} />,
+    );
+
+    expect(chart).toContainReactComponent(ChartSkeleton);
+    expect(chart).not.toContainReactComponent(Chart);
+  });
+});
@@ -0,0 +1,70 @@
+import {getFunnelConversions} from '../utilities';
+
+describe('getFunnelConversions()', () => {
+  it('calculates step and overall conversion for each step', () => {
+    const conversions = getFunnelConversions([
+      {key: 'Opens', value: 200},
+      {key: 'Visitors', value: 100},
+      {key: 'Orders', value: 25},
+    ]);
+
+    expect(conversions).toStrictEqual([
+      {
+        key: 'Opens',
+        value: 200,
+        stepConversion: null,
+        overallConversion: 100,
+        dropOff: null,
+        dropOffValue: null,
+      },
+      {
+        key: 'Visitors',
+        value: 100,
+        stepConversion: 50,
+        overallConversion: 50,
+        dropOff: 50,
+        dropOffValue: 100,
+      },
+      {
+        key: 'Orders',
+        value: 25,
+        stepConversion: 25,
+        overallConversion: 12.5,
+        dropOff: 75,
+        dropOffValue: 75,
+      },
+    ]);
+  });
+
+  it('returns null percentages when the previous step is zero', () => {
+    const [, , orders] = getFunnelConversions([
+      {key: 'Opens', value: 10},
+      {key: 'Visitors', value: 0},
+      {key: 'Orders', value: 0},
+    ]);
+
+    expect(orders).toMatchObject({
+      stepConversion: null,
+      overallConversion: 0,
+      dropOff: null,
+      dropOffValue: 0,
+    });
+  });
+
+  it('returns null percentages for missing values', () => {
+    const [, visitors] = getFunnelConversions([
+      {key: 'Opens', value: 10},
+      {key: 'Visitors', value: null},
+    ]);
+
+    expect(visitors).toMatchObject({
+      stepConversion: null,
+      overallConversion: null,
+      dropOffValue: null,
+    });
+  });
+
+  it('returns an empty array for empty data', () => {
+    expect(getFunnelConversions([])).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+import type {DataPoint} from '@shopify/polaris-viz-core';
+
+export interface FunnelConversion {
+  key: DataPoint['key'];
+  value: number | null;
+  /**
+   * Percentage of the previous step that reached this step.
+   * `null` for the first step or when the previous step has no value.
+   */
+  stepConversion: number | null;
+  /**
+   * Percentage of the first step that reached this step.
+   */
+  overallConversion: number | null;
+  /**
+   * Percentage of the previous step that did not reach this step.
+   */
+  dropOff: number | null;
+  dropOffValue: number | null;
+}
+
+function getPercentage(value: number | null, total: number | null) {
+  if (value == null || total == null || total === 0) {
+    return null;
+  }
+
+  return (value / total) * 100;
+}
+
+export function getFunnelConversions(data: DataPoint[]): FunnelConversion[] {
+  const firstValue = data[0]?.value ?? null;
+
+  return data.map(({key, value}, index) => {
+    const previousValue = index === 0 ? null : data[index - 1].value;
+    const stepConversion = getPercentage(value, previousValue);
+
+    return {
+      key,
+      value,
+      stepConversion,
+      overallConversion: getPercentage(value, firstValue),
+      dropOff: stepConversion == null ? null : 100 - stepConversion,
+      dropOffValue:
+        previousValue == null || value == null ? null : previousValue - value,
+    };
+  });
+}
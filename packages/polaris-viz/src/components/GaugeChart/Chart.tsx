@@ -0,0 +1,241 @@
+import {useSpring, animated} from '@react-spring/web';
+import {
+  ARC_LOAD_ANIMATION_CONFIG,
+  FONT_FAMILY,
+  LINE_HEIGHT,
+  useChartContext,
+} from '@shopify/polaris-viz-core';
+import type {
+  BoundingRect,
+  DataSeries,
+  LabelFormatter,
+} from '@shopify/polaris-viz-core';
+
+import {ANIMATION_SIZE_BUFFER, Arc} from '../Arc';
+import type {ComparisonMetricProps} from '../ComparisonMetric';
+import {InnerValue} from '../DonutChart';
+import {useTheme} from '../../hooks';
+import {FONT_SIZE} from '../../constants';
+import type {RenderInnerValueContent} from '../../types';
+
+import {
+  GAUGE_PADDING,
+  HALF_CIRCLE,
+  NEEDLE_CENTER_RADIUS,
+  TARGET_MARKER_OVERHANG,
+  TARGET_STROKE_WIDTH,
+  THRESHOLD_BAND_GAP,
+  THRESHOLD_BAND_THICKNESS,
+} from './constants';
+import type {GaugeTargetIndicator, GaugeThreshold} from './types';
+import {getGaugeAngle, getThresholdArcs} from './utilities';
+import styles from './GaugeChart.scss';
+
+export interface ChartProps {
+  data: DataSeries[];
+  labelFormatter: LabelFormatter;
+  max: number;
+  min: number;
+  targetIndicator: GaugeTargetIndicator;
+  thresholds: GaugeThreshold[];
+  comparisonMetric?: ComparisonMetricProps;
+  dimensions?: BoundingRect;
+  renderInnerValueContent?: RenderInnerValueContent;
+  target?: number;
+}
+
+export function Chart({
+  comparisonMetric,
+  data,
+  dimensions,
+  labelFormatter,
+  max,
+  min,
+  renderInnerValueContent,
+  target,
+  targetIndicator,
+  thresholds,
+}: ChartProps) {
+  const {shouldAnimate} = useChartContext();
+  const selectedTheme = useTheme();
+
+  const {width, height} = dimensions ?? {width: 0, height: 0};
+
+  const [series] = data;
+  const value = series?.data[0]?.value ?? 0;
+  const color = series?.color ?? selectedTheme.seriesColors.single;
+  const labelColor = selectedTheme.xAxis.labelColor;
+
+  const outerRadius = Math.max(
+    Math.min(width / 2, height - LINE_HEIGHT) - GAUGE_PADDING,
+    0,
+  );
+  const hasThresholds = thresholds.length > 0;
+  const radius = hasThresholds
+    ? outerRadius - THRESHOLD_BAND_THICKNESS - THRESHOLD_BAND_GAP
+    : outerRadius;
+  const thickness = Math.min(radius / 4, selectedTheme.arc.thickness);
+  const innerRadius = radius - thickness;
+  const diameter = outerRadius * 2;
+
+  const centerX = width / 2;
+  const centerY = (height - LINE_HEIGHT + outerRadius) / 2;
+  const arcOffset = outerRadius - ANIMATION_SIZE_BUFFER;
+
+  const thresholdArcs = getThresholdArcs(thresholds, min, max);
+  const valueAngle = getGaugeAngle(value, min, max);
+  const targetAngle = target == null ? null : getGaugeAngle(target, min, max);
+
+  const {animatedTargetAngle} = useSpring({
+    from: {animatedTargetAngle: -HALF_CIRCLE},
+    to: {animatedTargetAngle: targetAngle ?? -HALF_CIRCLE},
+    config: ARC_LOAD_ANIMATION_CONFIG,
+    immediate: !shouldAnimate,
+  });
+
+  const formattedValue = labelFormatter(value);
+  const labelRadius = radius - thickness / 2;
+
+  const arcProps = {
+    cornerRadius: selectedTheme.arc.cornerRadius,
+    height: diameter,
+    isAnimated: shouldAnimate,
+    width: diameter,
+  };
+
+  return (
+    <div className={styles.Gauge} style={{width, height}}>
+      <svg
+        aria-label={series?.name}
+        aria-valuemax={max}
+        aria-valuemin={min}
+        aria-valuenow={value}
+        aria-valuetext={formattedValue}
+        height={height}
+        role="meter"
+        viewBox={`0 0 ${width} ${height}`}
+        width={width}
+      >
+        <g
+          aria-hidden="true"
+          transform={`translate(${centerX - arcOffset},${centerY - arcOffset})`}
+        >
+          {thresholdArcs.map(({color, startAngle, endAngle}, index) => (
+            <Arc
+              key={`threshold-${index}`}
+              {...arcProps}
+              color={color}
+              endAngle={endAngle}
+              radius={outerRadius}
+              startAngle={startAngle}
+              thickness={THRESHOLD_BAND_THICKNESS}
+            />
+          ))}
+          <Arc
+            {...arcProps}
+            color={selectedTheme.grid.color}
+            endAngle={HALF_CIRCLE}
+            radius={radius}
+            startAngle={-HALF_CIRCLE}
+            thickness={thickness}
+          />
+          <Arc
+            {...arcProps}
+            color={color}
+            endAngle={valueAngle}
+            radius={radius}
+            startAngle={-HALF_CIRCLE}
+            thickness={thickness}
+          />
+        </g>
+
+        {targetAngle != null && (
+          <animated.g
+            aria-hidden="true"
+            transform={animatedTargetAngle.to(
+              (angle) =>
+                `rotate(${(angle * 180) / Math.PI} ${centerX} ${centerY})`,
+            )}
+          >
+            {targetIndicator === 'needle' ? (
+              <g>
+                <line
+                  stroke={labelColor}
+                  strokeLinecap="round"
+                  strokeWidth={TARGET_STROKE_WIDTH}
+                  x1={centerX}
+                  x2={centerX}
+                  y1={centerY}
+                  y2={centerY - radius}
+                />
+                <circle
+                  cx={centerX}
+                  cy={centerY}
+                  fill={labelColor}
+                  r={NEEDLE_CENTER_RADIUS}
+                />
+              </g>
+            ) : (
+              <line
+                stroke={labelColor}
+                strokeLinecap="round"
+                strokeWidth={TARGET_STROKE_WIDTH}
+                x1={centerX}
+                x2={centerX}
+                y1={centerY - innerRadius + TARGET_MARKER_OVERHANG}
+                y2={centerY - radius - TARGET_MARKER_OVERHANG}
+              />
+            )}
+          </animated.g>
+        )}
+
+        <g aria-hidden="true">
+          <text
+            dominantBaseline="hanging"
+            fill={labelColor}
+            fontFamily={FONT_FAMILY}
+            fontSize={FONT_SIZE}
+            textAnchor="middle"
+            x={centerX - labelRadius}
+            y={centerY + GAUGE_PADDING}
+          >
+            {labelFormatter(min)}
+          </text>
+          <text
+            dominantBaseline="hanging"
+            fill={labelColor}
+            fontFamily={FONT_FAMILY}
+            fontSize={FONT_SIZE}
+            textAnchor="middle"
+            x={centerX + labelRadius}
+            y={centerY + GAUGE_PADDING}
+          >
+            {labelFormatter(max)}
+          </text>
+        </g>
+      </svg>
+
+      <div
+        className={styles.InnerValue}
+        style={{
+          left: centerX - innerRadius,
+          top: centerY - innerRadius,
+          width: innerRadius * 2,
+          height: innerRadius,
+        }}
+      >
+        <InnerValue
+          activeIndex={-1}
+          activeValue={null}
+          comparisonMetric={comparisonMetric}
+          diameter={diameter}
+          dimensions={{width, height}}
+          isAnimated={shouldAnimate}
+          labelFormatter={labelFormatter}
+          renderInnerValueContent={renderInnerValueContent}
+          totalValue={value}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  ChartState,
+  DEFAULT_CHART_PROPS,
+  usePolarisVizContext,
+} from '@shopify/polaris-viz-core';
+import type {ChartProps, LabelFormatter} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../components/ChartContainer';
+import {ChartSkeleton} from '../../components/ChartSkeleton';
+import type {ComparisonMetricProps} from '../ComparisonMetric';
+import type {RenderInnerValueContent} from '../../types';
+
+import {Chart} from './Chart';
+import type {GaugeTargetIndicator, GaugeThreshold} from './types';
+import {getGaugeMax} from './utilities';
+
+export type GaugeChartProps = {
+  comparisonMetric?: ComparisonMetricProps;
+  labelFormatter?: LabelFormatter;
+  /**
+   * Defaults to the largest of the value, target and thresholds.
+   */
+  max?: number;
+  min?: number;
+  renderInnerValueContent?: RenderInnerValueContent;
+  target?: number;
+  targetIndicator?: GaugeTargetIndicator;
+  theme?: string;
+  thresholds?: GaugeThreshold[];
+} & ChartProps;
+
+export function GaugeChart(props: GaugeChartProps) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    comparisonMetric,
+    data,
+    errorText,
+    id,
+    isAnimated,
+    labelFormatter = (value) => `${value}`,
+    max,
+    min = 0,
+    onError,
+    renderInnerValueContent,
+    state,
+    target,
+    targetIndicator = 'marker',
+    theme = defaultTheme,
+    thresholds = [],
+  } = {
+    ...DEFAULT_CHART_PROPS,
+    ...props,
+  };
+
+  // The gauge shows the first value of the first series.
+  const value = data[0]?.data[0]?.value ?? 0;
+
+  return (
+    <ChartContainer
+      skeletonType="Gauge"
+      data={data}
+      id={id}
+      isAnimated={isAnimated}
+      onError={onError}
+      theme={theme}
+    >
+      {state !== ChartState.Success ? (
+        <ChartSkeleton
+          type="Gauge"
+          state={state}
+          errorText={errorText}
+          theme={theme}
+        />
+      ) : (
+        <Chart
+          comparisonMetric={comparisonMetric}
+          data={data}
+          labelFormatter={labelFormatter}
+          max={getGaugeMax({max, target, thresholds, value})}
+          min={min}
+          renderInnerValueContent={renderInnerValueContent}
+          target={target}
+          targetIndicator={targetIndicator}
+          thresholds={thresholds}
+        />
+      )}
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,7 @@
+export const HALF_CIRCLE = Math.PI / 2;
+export const GAUGE_PADDING = 8;
+export const THRESHOLD_BAND_THICKNESS = 4;
+export const THRESHOLD_BAND_GAP = 4;
+export const TARGET_MARKER_OVERHANG = 4;
+export const TARGET_STROKE_WIDTH = 2;
+export const NEEDLE_CENTER_RADIUS = 4;
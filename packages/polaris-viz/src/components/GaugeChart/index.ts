@@ -0,0 +1,3 @@
+export {GaugeChart} from './GaugeChart';
+export type {GaugeChartProps} from './GaugeChart';
+export type {GaugeTargetIndicator, GaugeThreshold} from './types';
@@ -0,0 +1,49 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {GaugeChartProps} from '../../../components';
+
+import {DEFAULT_DATA, THRESHOLDS, Template, formatCurrency} from './data';
+
+export const Default: Story<GaugeChartProps> = Template.bind({});
+
+Default.args = {
+  data: DEFAULT_DATA,
+  labelFormatter: formatCurrency,
+  target: 100_000,
+};
+
+export const Thresholds: Story<GaugeChartProps> = Template.bind({});
+
+Thresholds.args = {
+  data: DEFAULT_DATA,
+  labelFormatter: formatCurrency,
+  target: 100_000,
+  thresholds: THRESHOLDS,
+};
+
+export const Needle: Story<GaugeChartProps> = Template.bind({});
+
+Needle.args = {
+  data: DEFAULT_DATA,
+  labelFormatter: formatCurrency,
+  target: 100_000,
+  targetIndicator: 'needle',
+  thresholds: THRESHOLDS,
+};
+
+export const CustomInnerValueContent: Story<GaugeChartProps> = Template.bind(
+  {},
+);
+
+CustomInnerValueContent.args = {
+  data: DEFAULT_DATA,
+  max: 100_000,
+  target: 100_000,
+  renderInnerValueContent: ({totalValue}) => (
+    <p style={{fontSize: 28, fontWeight: 600, margin: 0}}>
+      {`${Math.round((totalValue / 100_000) * 100)}%`}
+    </p>
+  ),
+};
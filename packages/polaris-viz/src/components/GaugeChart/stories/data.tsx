@@ -0,0 +1,30 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import type {Story} from '@storybook/react';
+
+import type {GaugeChartProps} from '../GaugeChart';
+import {GaugeChart} from '../GaugeChart';
+
+export const DEFAULT_DATA: DataSeries[] = [
+  {
+    name: 'Monthly sales',
+    data: [{key: 'Sales', value: 72_400}],
+  },
+];
+
+export const THRESHOLDS = [
+  {value: 40_000, color: '#E51C00'},
+  {value: 80_000, color: '#FFC453'},
+  {value: 120_000, color: '#29845A'},
+];
+
+export function formatCurrency(value: number | string | null) {
+  return `$${Number(value).toLocaleString()}`;
+}
+
+export const Template: Story<GaugeChartProps> = (args: GaugeChartProps) => {
+  return (
+    <div style={{height: 300, width: 500}}>
+      <GaugeChart {...args} />
+    </div>
+  );
+};
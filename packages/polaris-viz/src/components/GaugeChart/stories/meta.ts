@@ -0,0 +1,60 @@
+import type {Meta} from '@storybook/react';
+
+import {
+  CHART_STATE_CONTROL_ARGS,
+  CONTROLS_ARGS,
+  THEME_CONTROL_ARGS,
+} from '../../../storybook/constants';
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {GaugeChart} from '../GaugeChart';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/GaugeChart',
+  component: GaugeChart,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to show progress toward a goal, like sales against a monthly target.',
+      },
+    },
+  },
+  argTypes: {
+    data: {
+      description:
+        'The first data point of the first series is the value shown by the gauge.',
+    },
+    min: {
+      description: 'The value at the start of the gauge.',
+      control: {type: 'number'},
+    },
+    max: {
+      description:
+        'The value at the end of the gauge. Defaults to the largest of the value, `target` and `thresholds`.',
+      control: {type: 'number'},
+    },
+    target: {
+      description: 'The goal marked on the gauge.',
+      control: {type: 'number'},
+    },
+    targetIndicator: {
+      description: 'How the `target` is drawn.',
+      options: ['marker', 'needle'],
+      control: {type: 'select'},
+    },
+    thresholds: {
+      description:
+        'Coloured bands drawn around the gauge. Each band ends at its `value` and starts at the previous threshold.',
+    },
+    labelFormatter: {
+      description: 'Formats the inner value and the min and max labels.',
+    },
+    renderInnerValueContent: {
+      description: 'Renders custom content in the center of the gauge.',
+    },
+    theme: THEME_CONTROL_ARGS,
+    state: CHART_STATE_CONTROL_ARGS,
+  },
+};
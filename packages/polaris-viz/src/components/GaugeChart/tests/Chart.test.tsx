@@ -0,0 +1,117 @@
+import {mount} from '@shopify/react-testing';
+
+import type {ChartProps} from '../Chart';
+import {Chart} from '../Chart';
+import {Arc} from '../../Arc';
+import {InnerValue} from '../../DonutChart';
+
+const MOCK_PROPS: ChartProps = {
+  data: [
+    {
+      name: 'Sales goal',
+      color: 'red',
+      data: [{key: 'Sales', value: 75}],
+    },
+  ],
+  dimensions: {height: 300, width: 600, x: 0, y: 0},
+  labelFormatter: (value) => `$${value}`,
+  max: 100,
+  min: 0,
+  target: 90,
+  targetIndicator: 'marker',
+  thresholds: [],
+};
+
+describe('<Chart />', () => {
+  it('renders a track and a value <Arc /> over a half circle', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const [track, value] = chart.findAll(Arc);
+
+    expect(track).toHaveReactProps({
+      startAngle: -Math.PI / 2,
+      endAngle: Math.PI / 2,
+    });
+    expect(value).toHaveReactProps({
+      color: 'red',
+      startAngle: -Math.PI / 2,
+      endAngle: Math.PI / 4,
+    });
+  });
+
+  it('renders an <Arc /> for each threshold band', () => {
+    const chart = mount(
+      <Chart
+        {...MOCK_PROPS}
+        thresholds={[
+          {value: 50, color: 'orange'},
+          {value: 100, color: 'green'},
+        ]}
+      />,
+    );
+
+    expect(chart).toContainReactComponentTimes(Arc, 4);
+    expect(chart).toContainReactComponent(Arc, {
+      color: 'orange',
+      startAngle: -Math.PI / 2,
+      endAngle: 0,
+    });
+  });
+
+  it('renders the value as a meter', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent('svg', {
+      role: 'meter',
+      'aria-label': 'Sales goal',
+      'aria-valuenow': 75,
+      'aria-valuemin': 0,
+      'aria-valuemax': 100,
+      'aria-valuetext': '$75',
+    });
+  });
+
+  it('renders the value through <InnerValue />', () => {
+    const renderInnerValueContent = jest.fn(() => null);
+    const chart = mount(
+      <Chart
+        {...MOCK_PROPS}
+        renderInnerValueContent={renderInnerValueContent}
+      />,
+    );
+
+    expect(chart).toContainReactComponent(InnerValue, {totalValue: 75});
+    expect(renderInnerValueContent).toHaveBeenCalledWith(
+      expect.objectContaining({totalValue: 75}),
+    );
+  });
+
+  it('renders the min and max labels', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactText('$0');
+    expect(chart).toContainReactText('$100');
+  });
+
+  describe('target', () => {
+    it('renders a marker across the track', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).toContainReactComponentTimes('line', 1);
+      expect(chart).not.toContainReactComponent('circle');
+    });
+
+    it('renders a needle from the center', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} targetIndicator="needle" />);
+
+      expect(chart).toContainReactComponentTimes('line', 1);
+      expect(chart).toContainReactComponent('circle');
+    });
+
+    it('does not render without a target', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} target={undefined} />);
+
+      expect(chart).not.toContainReactComponent('line');
+    });
+  });
+});
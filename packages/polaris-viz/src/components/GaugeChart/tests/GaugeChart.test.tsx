@@ -0,0 +1,52 @@
+import {mount} from '@shopify/react-testing';
+import {ChartState} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../ChartContainer';
+import {ChartSkeleton} from '../../ChartSkeleton';
+import type {GaugeChartProps} from '../GaugeChart';
+import {GaugeChart} from '../GaugeChart';
+import {Chart} from '../Chart';
+
+const MOCK_PROPS: GaugeChartProps = {
+  data: [
+    {
+      name: 'Sales goal',
+      data: [{key: 'Sales', value: 75}],
+    },
+  ],
+  target: 90,
+};
+
+describe('<GaugeChart />', () => {
+  it('renders <ChartContainer />', () => {
+    const chart = mount(<GaugeChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(ChartContainer);
+  });
+
+  it('renders <Chart />', () => {
+    const chart = mount(<GaugeChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(Chart, {min: 0, max: 90});
+  });
+
+  it('defaults the max to the largest of the value, target and thresholds', () => {
+    const chart = mount(
+      <GaugeChart
+        {...MOCK_PROPS}
+        thresholds={[{value: 120, color: 'green'}]}
+      />,
+    );
+
+    expect(chart).toContainReactComponent(Chart, {max: 120});
+  });
+
+  it('renders a Gauge <ChartSkeleton /> while loading', () => {
+    const chart = mount(
+      <GaugeChart {...MOCK_PROPS} state={ChartState.Loading} />,
+    );
+
+    expect(chart).toContainReactComponent(ChartSkeleton, {type: 'Gauge'});
+    expect(chart).not.toContainReactComponent(Chart);
+  });
+});
@@ -0,0 +1,54 @@
+import {getGaugeAngle, getGaugeMax, getThresholdArcs} from '../utilities';
+
+describe('getGaugeAngle()', () => {
+  it('maps the range onto a half circle', () => {
+    expect(getGaugeAngle(0, 0, 100)).toBe(-Math.PI / 2);
+    expect(getGaugeAngle(50, 0, 100)).toBe(0);
+    expect(getGaugeAngle(100, 0, 100)).toBe(Math.PI / 2);
+  });
+
+  it('clamps values outside of the range', () => {
+    expect(getGaugeAngle(-10, 0, 100)).toBe(-Math.PI / 2);
+    expect(getGaugeAngle(200, 0, 100)).toBe(Math.PI / 2);
+  });
+
+  it('returns the start angle when min and max are equal', () => {
+    expect(getGaugeAngle(10, 10, 10)).toBe(-Math.PI / 2);
+  });
+});
+
+describe('getGaugeMax()', () => {
+  it('returns the provided max', () => {
+    expect(getGaugeMax({max: 10, value: 50, target: 80, thresholds: []})).toBe(
+      10,
+    );
+  });
+
+  it('returns the largest of the value, target and thresholds', () => {
+    expect(
+      getGaugeMax({
+        value: 50,
+        target: 80,
+        thresholds: [{value: 120, color: 'red'}],
+      }),
+    ).toBe(120);
+  });
+});
+
+describe('getThresholdArcs()', () => {
+  it('returns sorted bands starting at the previous threshold', () => {
+    expect(
+      getThresholdArcs(
+        [
+          {value: 100, color: 'green'},
+          {value: 50, color: 'red'},
+        ],
+        0,
+        100,
+      ),
+    ).toStrictEqual([
+      {color: 'red', startAngle: -Math.PI / 2, endAngle: 0},
+      {color: 'green', startAngle: 0, endAngle: Math.PI / 2},
+    ]);
+  });
+});
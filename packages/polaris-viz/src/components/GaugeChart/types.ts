@@ -0,0 +1,12 @@
+import type {Color} from '@shopify/polaris-viz-core';
+
+export interface GaugeThreshold {
+  /**
+   * Upper bound of the band, which starts at the previous
+   * threshold or the gauge minimum.
+   */
+  value: number;
+  color: Color;
+}
+
+export type GaugeTargetIndicator = 'marker' | 'needle';
@@ -0,0 +1,59 @@
+import {clamp} from '@shopify/polaris-viz-core';
+import type {Color} from '@shopify/polaris-viz-core';
+
+import {HALF_CIRCLE} from './constants';
+import type {GaugeThreshold} from './types';
+
+export interface ThresholdArc {
+  color: Color;
+  endAngle: number;
+  startAngle: number;
+}
+
+export function getGaugeAngle(value: number, min: number, max: number) {
+  const progress = max === min ? 0 : (value - min) / (max - min);
+
+  return -HALF_CIRCLE + Math.PI * clamp({amount: progress, min: 0, max: 1});
+}
+
+export function getGaugeMax({
+  max,
+  target,
+  thresholds,
+  value,
+}: {
+  value: number;
+  max?: number;
+  target?: number;
+  thresholds: GaugeThreshold[];
+}) {
+  if (max != null) {
+    return max;
+  }
+
+  return Math.max(
+    value,
+    target ?? 0,
+    ...thresholds.map((threshold) => threshold.value),
+  );
+}
+
+export function getThresholdArcs(
+  thresholds: GaugeThreshold[],
+  min: number,
+  max: number,
+): ThresholdArc[] {
+  const sorted = [...thresholds].sort(
+    (first, second) => first.value - second.value,
+  );
+
+  return sorted.map(({value, color}, index) => ({
+    color,
+    startAngle: getGaugeAngle(
+      index === 0 ? min : sorted[index - 1].value,
+      min,
+      max,
+    ),
+    endAngle: getGaugeAngle(value, min, max),
+  }));
+}
@@ -0,0 +1,395 @@
+import type {ReactNode, KeyboardEvent} from 'react';
+import {useMemo, useState} from 'react';
+import {scaleBand} from 'd3-scale';
+import {
+  ColorScale,
+  DataType,
+  FONT_FAMILY,
+  LINE_HEIGHT,
+  estimateStringWidth,
+  useChartContext,
+} from '@shopify/polaris-viz-core';
+import type {
+  BoundingRect,
+  DataSeries,
+  Hue,
+  LabelFormatter,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+import {ChartElements} from '../ChartElements';
+import {XAxis} from '../XAxis';
+import {YAxis} from '../YAxis';
+import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
+import {
+  TooltipHorizontalOffset,
+  TooltipVerticalOffset,
+  TooltipWrapper,
+  TOOLTIP_POSITION_DEFAULT_RETURN,
+} from '../TooltipWrapper';
+import {eventPointNative} from '../../utilities';
+import {useTheme} from '../../hooks';
+import {ChartMargin, FONT_SIZE} from '../../constants';
+import type {RenderTooltipContentData} from '../../types';
+
+import {GradientLegend} from './components';
+import {
+  CELL_GAP,
+  CELL_LABEL_PADDING,
+  GRADIENT_LEGEND_BAR_HEIGHT,
+  GRADIENT_LEGEND_MAX_WIDTH,
+  GRADIENT_LEGEND_SPACING,
+  GRADIENT_LEGEND_STOPS,
+  Y_AXIS_SPACING,
+} from './constants';
+import {
+  getColumnKeys,
+  getNextCellIndex,
+  getRowValues,
+  getValueDomain,
+} from './utilities';
+
+export interface ChartProps {
+  data: DataSeries[];
+  hue: Hue;
+  renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
+  showLegend: boolean;
+  showValues: boolean;
+  valueFormatter: LabelFormatter;
+  xAxisOptions: Required<XAxisOptions>;
+  yAxisOptions: Required<YAxisOptions>;
+  dimensions?: BoundingRect;
+  emptyStateText?: string;
+}
+
+export function Chart({
+  data,
+  dimensions,
+  emptyStateText,
+  hue,
+  renderTooltipContent,
+  showLegend,
+  showValues,
+  valueFormatter,
+  xAxisOptions,
+  yAxisOptions,
+}: ChartProps) {
+  const selectedTheme = useTheme();
+  const {characterWidths, theme} = useChartContext();
+
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+  const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
+  const [focusedIndex, setFocusedIndex] = useState(0);
+
+  const {width, height} = dimensions ?? {width: 0, height: 0};
+
+  const columnKeys = useMemo(() => getColumnKeys(data), [data]);
+  const rowValues = useMemo(() => getRowValues(data), [data]);
+  const columnCount = columnKeys.length;
+  const rowCount = data.length;
+  const emptyState = rowCount === 0 || columnCount === 0;
+
+  const {min, max} = useMemo(() => getValueDomain(data), [data]);
+  const colorScale = useMemo(
+    () => ColorScale({hue, min, max}),
+    [hue, min, max],
+  );
+
+  const columnLabels = useMemo(
+    () => columnKeys.map((key) => xAxisOptions.labelFormatter(key)),
+    [columnKeys, xAxisOptions],
+  );
+
+  const rowLabels = useMemo(
+    () => data.map(({name}) => yAxisOptions.labelFormatter(name ?? '')),
+    [data, yAxisOptions],
+  );
+
+  const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
+
+  const yAxisLabelWidth = Math.max(
+    0,
+    ...rowLabels.map((label) => estimateStringWidth(label, characterWidths)),
+  );
+  const yAxisWidth = yAxisLabelWidth + Y_AXIS_SPACING;
+
+  const legendHeight = showLegend
+    ? GRADIENT_LEGEND_SPACING + GRADIENT_LEGEND_BAR_HEIGHT + LINE_HEIGHT
+    : 0;
+
+  const chartXPosition = yAxisWidth;
+  const chartYPosition = 0;
+  const drawableWidth = Math.max(width - yAxisWidth, 0);
+  const drawableHeight = Math.max(
+    height - (hideXAxis ? 0 : xAxisHeight) - legendHeight,
+    0,
+  );
+
+  const xScale = scaleBand()
+    .domain(columnKeys.map((_, index) => `${index}`))
+    .range([0, drawableWidth]);
+
+  const yScale = scaleBand()
+    .domain(data.map((_, index) => `${index}`))
+    .range([0, drawableHeight]);
+
+  const cellWidth = Math.max(xScale.bandwidth() - CELL_GAP, 0);
+  const cellHeight = Math.max(yScale.bandwidth() - CELL_GAP, 0);
+
+  const yAxisTicks = rowLabels.map((formattedValue, index) => ({
+    value: index,
+    formattedValue,
+    yOffset: (yScale(`${index}`) ?? 0) + yScale.bandwidth() / 2,
+  }));
+
+  const legendColors = useMemo(() => {
+    const step = (max - min) / (GRADIENT_LEGEND_STOPS - 1);
+    const colors = Array.from(
+      {length: GRADIENT_LEGEND_STOPS},
+      (_, index) => colorScale(min + step * index).backgroundColor,
+    );
+
+    return colors.filter(
+      (color, index) => index === 0 || color !== colors[index - 1],
+    );
+  }, [colorScale, min, max]);
+
+  const legendWidth = Math.min(drawableWidth, GRADIENT_LEGEND_MAX_WIDTH);
+
+  const getTooltipMarkup = (index: number) => {
+    const cell = getCell(index);
+
+    if (cell == null) {
+      return null;
+    }
+
+    const {row, column, value} = cell;
+
+    return renderTooltipContent({
+      data: [
+        {
+          shape: 'Bar',
+          data: [
+            {
+              key: rowLabels[row],
+              value,
+              color:
+                value == null ? undefined : colorScale(value).backgroundColor,
+            },
+          ],
+        },
+      ],
+      activeIndex: index,
+      dataSeries: data,
+      theme,
+      title: columnLabels[column],
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<SVGGElement>) => {
+    const nextIndex = getNextCellIndex(event.key, {
+      index: focusedIndex,
+      columnCount,
+      rowCount,
+    });
+
+    if (nextIndex == null || svgRef == null) {
+      return;
+    }
+
+    event.preventDefault();
+
+    const element = svgRef.querySelector<SVGElement>(
+      `[data-type="${DataType.Point}"][data-index="${nextIndex}"]`,
+    );
+
+    element?.focus();
+  };
+
+  return (
+    <ChartElements.Div height={height} width={width}>
+      <ChartElements.Svg
+        emptyState={emptyState}
+        emptyStateText={emptyStateText}
+        height={height}
+        role="grid"
+        setRef={setSvgRef}
+        width={width}
+      >
+        {hideXAxis ? null : (
+          <XAxis
+            allowLineWrap={xAxisOptions.allowLineWrap}
+            labels={columnLabels}
+            labelWidth={xScale.bandwidth()}
+            onHeightChange={setXAxisHeight}
+            x={chartXPosition}
+            xScale={xScale}
+            y={chartYPosition + drawableHeight}
+          />
+        )}
+
+        <YAxis
+          ticks={yAxisTicks}
+          textAlign="right"
+          width={yAxisLabelWidth}
+          x={0}
+          y={chartYPosition}
+        />
+
+        <g
+          transform={`translate(${chartXPosition},${chartYPosition})`}
+          onKeyDown={handleKeyDown}
+        >
+          {data.map((_, row) => (
+            <g key={row} role="row" aria-label={rowLabels[row]}>
+              {columnKeys.map((key, column) => {
+                const index = row * columnCount + column;
+                const value = rowValues[row].get(key) ?? null;
+                const x = xScale(`${column}`) ?? 0;
+                const y = yScale(`${row}`) ?? 0;
+                const {backgroundColor, textColor} =
+                  value == null
+                    ? {
+                        backgroundColor: selectedTheme.grid.color,
+                        textColor: selectedTheme.xAxis.labelColor,
+                      }
+                    : colorScale(value);
+                const formattedValue =
+                  value == null ? '' : valueFormatter(value);
+                const showLabel =
+                  showValues &&
+                  formattedValue !== '' &&
+                  estimateStringWidth(formattedValue, characterWidths) +
+                    CELL_LABEL_PADDING * 2 <=
+                    cellWidth &&
+                  LINE_HEIGHT <= cellHeight;
+                const ariaLabel = `${rowLabels[row]}, ${columnLabels[column]}: ${formattedValue}`;
+
+                return (
+                  <g
+                    key={`${key}-${column}`}
+                    role="gridcell"
+                    aria-label={ariaLabel}
+                    aria-hidden="false"
+                    data-type={DataType.Point}
+                    data-index={index}
+                    tabIndex={index === focusedIndex ? 0 : -1}
+                    onFocus={() => setFocusedIndex(index)}
+                  >
+                    <rect
+                      x={x}
+                      y={y}
+                      width={cellWidth}
+                      height={cellHeight}
+                      fill={backgroundColor}
+                    />
+                    {showLabel && (
+                      <text
+                        aria-hidden="true"
+                        dominantBaseline="middle"
+                        fill={textColor}
+                        fontFamily={FONT_FAMILY}
+                        fontSize={FONT_SIZE}
+                        pointerEvents="none"
+                        textAnchor="middle"
+                        x={x + cellWidth / 2}
+                        y={y + cellHeight / 2}
+                      >
+                        {formattedValue}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          ))}
+        </g>
+
+        {showLegend && !emptyState && (
+          <GradientLegend
+            colors={legendColors}
+            maxLabel={valueFormatter(max)}
+            minLabel={valueFormatter(min)}
+            width={legendWidth}
+            x={chartXPosition}
+            y={height - legendHeight + GRADIENT_LEGEND_SPACING}
+          />
+        )}
+      </ChartElements.Svg>
+
+      {!emptyState && (
+        <TooltipWrapper
+          bandwidth={xScale.bandwidth()}
+          chartBounds={{
+            width,
+            height,
+            x: chartXPosition,
+            y: chartYPosition,
+          }}
+          chartDimensions={dimensions}
+          focusElementDataType={DataType.Point}
+          getMarkup={getTooltipMarkup}
+          getPosition={getTooltipPosition}
+          margin={{...ChartMargin, Top: chartYPosition}}
+          parentRef={svgRef}
+          usePortal
+        />
+      )}
+    </ChartElements.Div>
+  );
+
+  function getCell(index: number) {
+    const row = Math.floor(index / columnCount);
+    const column = index % columnCount;
+    const values = rowValues[row];
+
+    if (values == null || column >= columnCount) {
+      return null;
+    }
+
+    return {row, column, value: values.get(columnKeys[column]) ?? null};
+  }
+
+  function formatPositionForTooltip(index: number): TooltipPosition {
+    const row = Math.floor(index / columnCount);
+    const column = index % columnCount;
+
+    return {
+      x: chartXPosition + (xScale(`${column}`) ?? 0) + (dimensions?.x ?? 0),
+      y: chartYPosition + (yScale(`${row}`) ?? 0) + (dimensions?.y ?? 0),
+      position: {
+        horizontal: TooltipHorizontalOffset.Center,
+        vertical: TooltipVerticalOffset.Above,
+      },
+      activeIndex: index,
+    };
+  }
+
+  function getTooltipPosition({
+    event,
+    index,
+    eventType,
+  }: TooltipPositionParams): TooltipPosition {
+    if (eventType === 'mouse' && event) {
+      const point = eventPointNative(event);
+
+      if (point == null) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      const column = Math.floor((point.svgX - chartXPosition) / xScale.step());
+      const row = Math.floor((point.svgY - chartYPosition) / yScale.step());
+
+      if (column < 0 || column >= columnCount || row < 0 || row >= rowCount) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      return formatPositionForTooltip(row * columnCount + column);
+    } else if (index != null) {
+      return formatPositionForTooltip(index);
+    }
+
+    return TOOLTIP_POSITION_DEFAULT_RETURN;
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  ChartState,
+  DEFAULT_CHART_PROPS,
+  Hue,
+  usePolarisVizContext,
+} from '@shopify/polaris-viz-core';
+import type {
+  ChartProps,
+  LabelFormatter,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../components/ChartContainer';
+import {ChartSkeleton} from '../../components/ChartSkeleton';
+import {
+  getXAxisOptionsWithDefaults,
+  getYAxisOptionsWithDefaults,
+} from '../../utilities';
+import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRenderer';
+import type {TooltipOptions} from '../../types';
+
+import {Chart} from './Chart';
+
+export type HeatmapChartProps = {
+  emptyStateText?: string;
+  /**
+   * The hue used to colour the cells, from lightest for the lowest
+   * value to darkest for the highest.
+   */
+  hue?: Hue;
+  showLegend?: boolean;
+  /**
+   * Draws the formatted value inside each cell that is large enough
+   * to fit it.
+   */
+  showValues?: boolean;
+  theme?: string;
+  tooltipOptions?: TooltipOptions;
+  valueFormatter?: LabelFormatter;
+  xAxisOptions?: Partial<XAxisOptions>;
+  yAxisOptions?: Partial<YAxisOptions>;
+} & ChartProps;
+
+export function HeatmapChart(props: HeatmapChartProps) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    data,
+    emptyStateText,
+    errorText,
+    hue = Hue.Blue,
+    id,
+    isAnimated,
+    onError,
+    showLegend = true,
+    showValues = true,
+    state,
+    theme = defaultTheme,
+    tooltipOptions,
+    valueFormatter = (value) => `${value}`,
+    xAxisOptions,
+    yAxisOptions,
+  } = {
+    ...DEFAULT_CHART_PROPS,
+    ...props,
+  };
+
+  const xAxisOptionsWithDefaults = getXAxisOptionsWithDefaults(xAxisOptions);
+  const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
+
+  const renderTooltip = getTooltipContentRenderer({
+    tooltipOptions: {valueFormatter, ...tooltipOptions},
+    theme,
+    data,
+  });
+
+  return (
+    <ChartContainer
+      data={data}
+      id={id}
+      isAnimated={isAnimated}
+      onError={onError}
+      theme={theme}
+    >
+      {state !== ChartState.Success ? (
+        <ChartSkeleton
+          type="Heatmap"
+          state={state}
+          errorText={errorText}
+          theme={theme}
+        />
+      ) : (
+        <Chart
+          data={data}
+          emptyStateText={emptyStateText}
+          hue={hue}
+          renderTooltipContent={renderTooltip}
+          showLegend={showLegend}
+          showValues={showValues}
+          valueFormatter={valueFormatter}
+          xAxisOptions={xAxisOptionsWithDefaults}
+          yAxisOptions={yAxisOptionsWithDefaults}
+        />
+      )}
+    </ChartContainer>
+  );
+}
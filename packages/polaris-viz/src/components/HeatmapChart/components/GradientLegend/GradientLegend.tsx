@@ -0,0 +1,62 @@
+import {FONT_FAMILY, LINE_HEIGHT, useUniqueId} from '@shopify/polaris-viz-core';
+
+import {useTheme} from '../../../../hooks';
+import {FONT_SIZE} from '../../../../constants';
+import {GRADIENT_LEGEND_BAR_HEIGHT} from '../../constants';
+
+export interface GradientLegendProps {
+  colors: string[];
+  maxLabel: string;
+  minLabel: string;
+  width: number;
+  x: number;
+  y: number;
+}
+
+export function GradientLegend({
+  colors,
+  maxLabel,
+  minLabel,
+  width,
+  x,
+  y,
+}: GradientLegendProps) {
+  const selectedTheme = useTheme();
+  const id = useUniqueId('HeatmapGradientLegend');
+
+  const labelProps = {
+    dominantBaseline: 'hanging' as const,
+    fill: selectedTheme.legend.labelColor,
+    fontFamily: FONT_FAMILY,
+    fontSize: FONT_SIZE,
+    y: GRADIENT_LEGEND_BAR_HEIGHT + LINE_HEIGHT / 4,
+  };
+
+  return (
+    <g transform={`translate(${x},${y})`} aria-hidden="true">
+      <defs>
+        <linearGradient id={id} x1="0%" x2="100%" y1="0%" y2="0%">
+          {colors.map((color, index) => (
+            <stop
+              key={`${color}-${index}`}
+              offset={`${(index / Math.max(colors.length - 1, 1)) * 100}%`}
+              stopColor={color}
+            />
+          ))}
+        </linearGradient>
+      </defs>
+      <rect
+        fill={`url(#${id})`}
+        height={GRADIENT_LEGEND_BAR_HEIGHT}
+        rx={GRADIENT_LEGEND_BAR_HEIGHT / 4}
+        width={width}
+      />
+      <text {...labelProps} textAnchor="start" x={0}>
+        {minLabel}
+      </text>
+      <text {...labelProps} textAnchor="end" x={width}>
+        {maxLabel}
+      </text>
+    </g>
+  );
+}
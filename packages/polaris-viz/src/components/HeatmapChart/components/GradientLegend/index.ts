@@ -0,0 +1,2 @@
+export {GradientLegend} from './GradientLegend';
+export type {GradientLegendProps} from './GradientLegend';
@@ -0,0 +1 @@
+export {GradientLegend} from './GradientLegend';
@@ -0,0 +1,7 @@
+export const CELL_GAP = 2;
+export const CELL_LABEL_PADDING = 4;
+export const GRADIENT_LEGEND_BAR_HEIGHT = 8;
+export const GRADIENT_LEGEND_MAX_WIDTH = 240;
+export const GRADIENT_LEGEND_SPACING = 16;
+export const GRADIENT_LEGEND_STOPS = 20;
+export const Y_AXIS_SPACING = 8;
@@ -0,0 +1,2 @@
+export {HeatmapChart} from './HeatmapChart';
+export type {HeatmapChartProps} from './HeatmapChart';
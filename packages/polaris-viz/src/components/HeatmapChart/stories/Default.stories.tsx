@@ -0,0 +1,32 @@
+import type {Story} from '@storybook/react';
+import {Hue} from '@shopify/polaris-viz-core';
+
+export {META as default} from './meta';
+
+import type {HeatmapChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template, formatHour} from './data';
+
+export const Default: Story<HeatmapChartProps> = Template.bind({});
+
+Default.args = {
+  data: DEFAULT_DATA,
+  xAxisOptions: {
+    labelFormatter: formatHour,
+  },
+  valueFormatter: (value) => `${value}`,
+};
+
+export const CustomHue: Story<HeatmapChartProps> = Template.bind({});
+
+CustomHue.args = {
+  data: DEFAULT_DATA,
+  hue: Hue.Magenta,
+  showValues: false,
+  xAxisOptions: {
+    labelFormatter: formatHour,
+  },
+  tooltipOptions: {
+    valueFormatter: (value) => `${value} orders`,
+  },
+};
@@ -0,0 +1,43 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import type {Story} from '@storybook/react';
+
+import type {HeatmapChartProps} from '../HeatmapChart';
+import {HeatmapChart} from '../HeatmapChart';
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOURS = Array.from({length: 12}, (_, index) => index * 2);
+
+export const DEFAULT_DATA: DataSeries[] = DAYS.map((day, dayIndex) => ({
+  name: day,
+  data: HOURS.map((hour) => {
+    const isWeekend = dayIndex >= 5;
+    const peak = isWeekend ? 14 : 12;
+    const distance = Math.abs(hour - peak);
+
+    return {
+      key: hour,
+      value: Math.max(
+        0,
+        Math.round((isWeekend ? 90 : 70) - distance * 9 + (dayIndex % 3) * 4),
+      ),
+    };
+  }),
+}));
+
+export function formatHour(value: number | string) {
+  const hour = Number(value);
+
+  if (hour === 0) {
+    return '12am';
+  }
+
+  return hour < 12 ? `${hour}am` : `${hour === 12 ? 12 : hour - 12}pm`;
+}
+
+export const Template: Story<HeatmapChartProps> = (args: HeatmapChartProps) => {
+  return (
+    <div style={{height: 400}}>
+      <HeatmapChart {...args} />
+    </div>
+  );
+};
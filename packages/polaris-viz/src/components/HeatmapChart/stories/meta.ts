@@ -0,0 +1,54 @@
+import type {Meta} from '@storybook/react';
+import {Hue} from '@shopify/polaris-viz-core';
+
+import {
+  CHART_STATE_CONTROL_ARGS,
+  CONTROLS_ARGS,
+  EMPTY_STATE_TEXT_ARGS,
+  SHOW_LEGEND_ARGS,
+  THEME_CONTROL_ARGS,
+  X_AXIS_OPTIONS_ARGS,
+  Y_AXIS_OPTIONS_ARGS,
+} from '../../../storybook/constants';
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {HeatmapChart} from '../HeatmapChart';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/HeatmapChart',
+  component: HeatmapChart,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to show the intensity of a value across two categories, like orders by hour of the day and day of the week.',
+      },
+    },
+  },
+  argTypes: {
+    data: {
+      description:
+        'Each series is a row of the heatmap, and each data point a cell in that row.',
+    },
+    hue: {
+      description: 'The hue used to colour the cells.',
+      options: Object.keys(Hue).filter((key) => isNaN(Number(key))),
+      mapping: Hue,
+      control: {type: 'select'},
+    },
+    showValues: {
+      description: 'Whether to draw the value inside each cell.',
+      control: {type: 'boolean'},
+    },
+    valueFormatter: {
+      description: 'Formats the cell values, tooltip values and legend.',
+    },
+    emptyStateText: EMPTY_STATE_TEXT_ARGS,
+    showLegend: SHOW_LEGEND_ARGS,
+    xAxisOptions: X_AXIS_OPTIONS_ARGS,
+    yAxisOptions: Y_AXIS_OPTIONS_ARGS,
+    theme: THEME_CONTROL_ARGS,
+    state: CHART_STATE_CONTROL_ARGS,
+  },
+};
@@ -0,0 +1,197 @@
+import {mount} from '@shopify/react-testing';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import {ColorScale, DataType, Hue} from '@shopify/polaris-viz-core';
+
+import type {ChartProps} from '../Chart';
+import {Chart} from '../Chart';
+import {GradientLegend} from '../components';
+import {TooltipWrapper} from '../../TooltipWrapper';
+import {YAxis} from '../../YAxis';
+
+const DATA: DataSeries[] = [
+  {
+    name: 'Monday',
+    data: [
+      {key: '9am', value: 0},
+      {key: '10am', value: 10},
+    ],
+  },
+  {
+    name: 'Tuesday',
+    data: [
+      {key: '9am', value: 5},
+      {key: '10am', value: null},
+    ],
+  },
+];
+
+const MOCK_PROPS: ChartProps = {
+  data: DATA,
+  dimensions: {height: 300, width: 600, x: 0, y: 0},
+  hue: Hue.Teal,
+  renderTooltipContent: () => null,
+  showLegend: true,
+  showValues: true,
+  valueFormatter: (value) => `${value} orders`,
+  xAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    hide: false,
+    allowLineWrap: false,
+  },
+  yAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    integersOnly: false,
+    fixedWidth: false,
+    maxYOverride: null,
+    minYOverride: null,
+    domain: null,
+    includeZero: true,
+    scale: 'linear',
+  },
+};
+
+function getCells(chart: ReturnType<typeof mount>) {
+  return chart.findAll('g', {role: 'gridcell'});
+}
+
+describe('<Chart />', () => {
+  it('renders a cell for each row and column', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart.findAll('g', {role: 'row'})).toHaveLength(2);
+    expect(getCells(chart)).toHaveLength(4);
+  });
+
+  it('colours cells with the ColorScale for the hue', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+    const colorScale = ColorScale({hue: Hue.Teal, min: 0, max: 10});
+
+    const [, secondCell] = getCells(chart);
+
+    expect(secondCell).toContainReactComponent('rect', {
+      fill: colorScale(10).backgroundColor,
+    });
+    expect(secondCell).toContainReactComponent('text', {
+      fill: colorScale(10).textColor,
+      children: '10 orders',
+    });
+  });
+
+  it('places values in the column of their key', () => {
+    const chart = mount(
+      <Chart
+        {...MOCK_PROPS}
+        data={[DATA[0], {name: 'Tuesday', data: [{key: '10am', value: 7}]}]}
+      />,
+    );
+
+    const [, , thirdCell, fourthCell] = getCells(chart);
+
+    expect(thirdCell).not.toContainReactComponent('text');
+    expect(fourthCell).toContainReactComponent('text', {
+      children: '7 orders',
+    });
+  });
+
+  it('renders rows with the same name without key warnings', () => {
+    const consoleError = jest
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    const chart = mount(
+      <Chart {...MOCK_PROPS} data={[DATA[0], {...DATA[1], name: 'Monday'}]} />,
+    );
+
+    expect(chart.findAll('g', {role: 'row'})).toHaveLength(2);
+    expect(consoleError).not.toHaveBeenCalled();
+
+    consoleError.mockRestore();
+  });
+
+  it('does not render a value for null cells', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const lastCell = getCells(chart)[3];
+
+    expect(lastCell).not.toContainReactComponent('text');
+  });
+
+  it('does not render values when showValues is false', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} showValues={false} />);
+
+    expect(getCells(chart)[1]).not.toContainReactComponent('text');
+  });
+
+  it('labels each cell with its row, column and value', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(getCells(chart)[2]).toHaveReactProps({
+      'aria-label': 'Tuesday, 9am: 5 orders',
+      'data-type': DataType.Point,
+      'data-index': 2,
+    });
+  });
+
+  it('renders the row names on the <YAxis />', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const ticks = chart.find(YAxis)!.prop('ticks');
+
+    expect(ticks.map(({formattedValue}) => formattedValue)).toStrictEqual([
+      'Monday',
+      'Tuesday',
+    ]);
+  });
+
+  it('renders <TooltipWrapper />', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(TooltipWrapper, {
+      focusElementDataType: DataType.Point,
+    });
+  });
+
+  describe('<GradientLegend />', () => {
+    it('renders the formatted min and max values', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).toContainReactComponent(GradientLegend, {
+        minLabel: '0 orders',
+        maxLabel: '10 orders',
+      });
+    });
+
+    it('does not render when showLegend is false', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} showLegend={false} />);
+
+      expect(chart).not.toContainReactComponent(GradientLegend);
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    it('only lets the first cell be tabbed to', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(
+        getCells(chart).map((cell) => cell.prop('tabIndex')),
+      ).toStrictEqual([0, -1, -1, -1]);
+    });
+
+    it('moves focus to the next cell with the arrow keys', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      const grid = chart.findWhere(
+        (node) => node.is('g') && node.prop('onKeyDown') != null,
+      )!;
+
+      chart.act(() => {
+        grid.trigger('onKeyDown', {
+          key: 'ArrowDown',
+          preventDefault: jest.fn(),
+        });
+      });
+
+      expect(document.activeElement!.getAttribute('data-index')).toBe('2');
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import {mount} from '@shopify/react-testing';
+import {ChartState} from '@shopify/polaris-viz-core';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../ChartContainer';
+import {ChartSkeleton} from '../../ChartSkeleton';
+import type {HeatmapChartProps} from '../HeatmapChart';
+import {HeatmapChart} from '../HeatmapChart';
+import {Chart} from '../Chart';
+
+const MOCK_PROPS: HeatmapChartProps = {
+  data: [
+    {
+      name: 'Monday',
+      data: [
+        {key: '9am', value: 4},
+        {key: '10am', value: 12},
+      ],
+    },
+  ] as DataSeries[],
+};
+
+describe('<HeatmapChart />', () => {
+  it('renders <ChartContainer />', () => {
+    const chart = mount(<HeatmapChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(ChartContainer);
+  });
+
+  it('renders <Chart />', () => {
+    const chart = mount(<HeatmapChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(Chart);
+  });
+
+  it('renders a Heatmap <ChartSkeleton /> while loading', () => {
+    const chart = mount(
+      <HeatmapChart {...MOCK_PROPS} state={ChartState.Loading} />,
+    );
+
+    expect(chart).toContainReactComponent(ChartSkeleton, {type: 'Heatmap'});
+    expect(chart).not.toContainReactComponent(Chart);
+  });
+});
@@ -0,0 +1,93 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {
+  getColumnKeys,
+  getNextCellIndex,
+  getRowValues,
+  getValueDomain,
+} from '../utilities';
+
+const DATA: DataSeries[] = [
+  {
+    name: 'Monday',
+    data: [
+      {key: '9am', value: 4},
+      {key: '10am', value: 12},
+    ],
+  },
+  {
+    name: 'Tuesday',
+    data: [
+      {key: '9am', value: null},
+      {key: '10am', value: 2},
+      {key: '11am', value: 8},
+    ],
+  },
+];
+
+describe('getValueDomain()', () => {
+  it('returns the lowest and highest values, ignoring nulls', () => {
+    expect(getValueDomain(DATA)).toStrictEqual({min: 2, max: 12});
+  });
+
+  it('returns a default domain when there are no values', () => {
+    expect(getValueDomain([{name: 'Empty', data: []}])).toStrictEqual({
+      min: 0,
+      max: 1,
+    });
+  });
+
+  it('widens the domain when all values are the same', () => {
+    expect(
+      getValueDomain([{name: 'Flat', data: [{key: 'a', value: 5}]}]),
+    ).toStrictEqual({min: 5, max: 6});
+  });
+});
+
+describe('getColumnKeys()', () => {
+  it('returns the keys of the longest row', () => {
+    expect(getColumnKeys(DATA)).toStrictEqual(['9am', '10am', '11am']);
+  });
+
+  it('returns an empty array when there is no data', () => {
+    expect(getColumnKeys([])).toStrictEqual([]);
+  });
+});
+
+describe('getRowValues()', () => {
+  it('maps the keys of each row to their values', () => {
+    const [monday] = getRowValues(DATA);
+
+    expect(monday.get('9am')).toBe(4);
+    expect(monday.get('10am')).toBe(12);
+    expect(monday.get('11am')).toBeUndefined();
+  });
+});
+
+describe('getNextCellIndex()', () => {
+  const grid = {columnCount: 3, rowCount: 3};
+
+  it.each([
+    ['ArrowRight', 4, 5],
+    ['ArrowLeft', 4, 3],
+    ['ArrowDown', 4, 7],
+    ['ArrowUp', 4, 1],
+    ['Home', 4, 3],
+    ['End', 4, 5],
+  ])('moves with %s', (key, index, expected) => {
+    expect(getNextCellIndex(key, {...grid, index})).toBe(expected);
+  });
+
+  it.each([
+    ['ArrowRight', 2],
+    ['ArrowLeft', 0],
+    ['ArrowDown', 8],
+    ['ArrowUp', 0],
+  ])('stays inside the grid with %s', (key, index) => {
+    expect(getNextCellIndex(key, {...grid, index})).toBe(index);
+  });
+
+  it('returns null for other keys', () => {
+    expect(getNextCellIndex('Enter', {...grid, index: 4})).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+export function getValueDomain(data: DataSeries[]) {
+  const values = data.flatMap((series) =>
+    series.data
+      .map(({value}) => value)
+      .filter((value): value is number => value != null),
+  );
+
+  if (values.length === 0) {
+    return {min: 0, max: 1};
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  return {min, max: max === min ? min + 1 : max};
+}
+
+export function getColumnKeys(data: DataSeries[]) {
+  const longestRow = data.reduce<DataSeries | null>(
+    (longest, series) =>
+      longest == null || series.data.length > longest.data.length
+        ? series
+        : longest,
+    null,
+  );
+
+  return longestRow == null ? [] : longestRow.data.map(({key}) => key);
+}
+
+// Rows can be missing keys or list them in another order,
+// so cells look up their value by key instead of position.
+export function getRowValues(data: DataSeries[]) {
+  return data.map(
+    (series) => new Map(series.data.map(({key, value}) => [key, value])),
+  );
+}
+
+interface GridPosition {
+  index: number;
+  columnCount: number;
+  rowCount: number;
+}
+
+export function getNextCellIndex(
+  key: string,
+  {index, columnCount, rowCount}: GridPosition,
+) {
+  const row = Math.floor(index / columnCount);
+  const column = index % columnCount;
+
+  switch (key) {
+    case 'ArrowRight':
+      return row * columnCount + Math.min(column + 1, columnCount - 1);
+    case 'ArrowLeft':
+      return row * columnCount + Math.max(column - 1, 0);
+    case 'ArrowDown':
+      return Math.min(row + 1, rowCount - 1) * columnCount + column;
+    case 'ArrowUp':
+      return Math.max(row - 1, 0) * columnCount + column;
+    case 'Home':
+      return row * columnCount;
+    case 'End':
+      return row * columnCount + columnCount - 1;
+    default:
+      return null;
+  }
+}
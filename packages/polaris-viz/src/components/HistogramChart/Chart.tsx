@@ -0,0 +1,371 @@
+import type {ReactNode} from 'react';
+import {useMemo, useState} from 'react';
+import {scaleLinear} from 'd3-scale';
+import type {
+  BoundingRect,
+  DataSeries,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+import {
+  DataType,
+  LINE_HEIGHT,
+  LineSeries,
+  estimateStringWidth,
+  getAverageColor,
+  getGradientFromColor,
+  useChartContext,
+  useChartPositions,
+  useYScale,
+} from '@shopify/polaris-viz-core';
+
+import {ChartElements} from '../ChartElements';
+import {YAxis} from '../YAxis';
+import {HorizontalGridLines} from '../HorizontalGridLines';
+import {HorizontalBarChartXAxisLabels} from '../HorizontalBarChartXAxisLabels';
+import {VerticalBar} from '../VerticalBarChart';
+import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
+import {
+  TooltipHorizontalOffset,
+  TooltipVerticalOffset,
+  TooltipWrapper,
+  TOOLTIP_POSITION_DEFAULT_RETURN,
+} from '../TooltipWrapper';
+import {useTheme} from '../../hooks';
+import {eventPointNative} from '../../utilities';
+import {ChartMargin} from '../../constants';
+import type {RenderTooltipContentData} from '../../types';
+
+import {
+  BAR_ANIMATION_DELAY,
+  CUMULATIVE_LINE_DASHARRAY,
+  X_AXIS_LABEL_SPACING,
+} from './constants';
+import type {HistogramBin, HistogramTooltipLabels} from './types';
+import {getCumulativeCounts} from './utilities';
+
+export interface ChartProps {
+  bins: HistogramBin[];
+  data: DataSeries[];
+  renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
+  showCumulative: boolean;
+  tooltipLabels: Required<HistogramTooltipLabels>;
+  xAxisOptions: Required<XAxisOptions>;
+  yAxisOptions: Required<YAxisOptions>;
+  dimensions?: BoundingRect;
+  emptyStateText?: string;
+}
+
+export function Chart({
+  bins,
+  data,
+  dimensions,
+  emptyStateText,
+  renderTooltipContent,
+  showCumulative,
+  tooltipLabels,
+  xAxisOptions,
+  yAxisOptions,
+}: ChartProps) {
+  const selectedTheme = useTheme();
+  const {characterWidths, theme} = useChartContext();
+
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+  const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
+
+  const {width, height} = dimensions ?? {width: 0, height: 0};
+
+  const [series] = data;
+  const emptyState = bins.length === 0;
+
+  const edges = useMemo(
+    () => (emptyState ? [] : [bins[0].x0, ...bins.map(({x1}) => x1)]),
+    [bins, emptyState],
+  );
+
+  const cumulativeCounts = useMemo(() => getCumulativeCounts(bins), [bins]);
+  const total = cumulativeCounts[cumulativeCounts.length - 1] ?? 0;
+
+  const yScaleOptions = {
+    formatYAxisLabel: yAxisOptions.labelFormatter,
+    integersOnly: true,
+    maxYOverride: yAxisOptions.maxYOverride,
+    minYOverride: yAxisOptions.minYOverride,
+    max: Math.max(0, ...bins.map(({count}) => count)),
+    min: 0,
+  };
+
+  const {yAxisLabelWidth} = useYScale({
+    ...yScaleOptions,
+    drawableHeight: height,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  const {
+    chartXPosition,
+    chartYPosition,
+    drawableHeight,
+    drawableWidth,
+    xAxisBounds,
+    yAxisBounds,
+  } = useChartPositions({
+    annotationsHeight: 0,
+    height,
+    width,
+    xAxisHeight,
+    yAxisWidth: yAxisLabelWidth,
+  });
+
+  const {ticks, yScale} = useYScale({
+    ...yScaleOptions,
+    drawableHeight,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  const xScale = scaleLinear()
+    .range([0, drawableWidth])
+    .domain([edges[0] ?? 0, edges[edges.length - 1] ?? 1]);
+
+  const cumulativeScale = scaleLinear()
+    .range([drawableHeight, 0])
+    .domain([0, Math.max(total, 1)]);
+
+  // `LineSeries` positions points by index, so each index
+  // is mapped onto the bin edge it represents.
+  const edgeScale = scaleLinear()
+    .domain(edges.map((_, index) => index))
+    .range(edges.map((edge) => xScale(edge)));
+
+  const edgeLabels = edges.map((edge) => xAxisOptions.labelFormatter(edge));
+  const longestEdgeLabel = Math.max(
+    0,
+    ...edgeLabels.map((label) => estimateStringWidth(label, characterWidths)),
+  );
+  const narrowestBin = Math.min(
+    ...bins.map(({x0, x1}) => xScale(x1) - xScale(x0)),
+  );
+
+  // Skip edges so their labels don't overlap on narrow bins.
+  const edgeStep = Math.max(
+    1,
+    Math.ceil((longestEdgeLabel + X_AXIS_LABEL_SPACING) / narrowestBin),
+  );
+  const labelledEdges = edges.filter((_, index) => index % edgeStep === 0);
+
+  const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
+  const zeroPosition = yScale(0);
+
+  const seriesGradient = getGradientFromColor(
+    series?.color ?? selectedTheme.seriesColors.single,
+  );
+  const barColor = getAverageColor(
+    seriesGradient[0].color,
+    seriesGradient[seriesGradient.length - 1].color,
+  );
+
+  const cumulativeSeries = {
+    name: tooltipLabels.cumulative,
+    color: selectedTheme.seriesColors.comparison,
+    strokeDasharray: CUMULATIVE_LINE_DASHARRAY,
+    styleOverride: {line: {hasArea: false}},
+    data: edges.map((edge, index) => ({
+      key: edge,
+      value: index === 0 ? 0 : cumulativeCounts[index - 1],
+    })),
+  };
+
+  const getTooltipMarkup = (index: number) => {
+    const bin = bins[index];
+
+    if (bin == null) {
+      return null;
+    }
+
+    return renderTooltipContent({
+      data: [
+        {
+          shape: 'Bar',
+          name: series?.name ?? '',
+          data: [
+            {key: tooltipLabels.count, value: bin.count, color: barColor},
+            ...(showCumulative
+              ? [
+                  {
+                    key: tooltipLabels.cumulative,
+                    value: cumulativeCounts[index],
+                  },
+                ]
+              : []),
+          ],
+        },
+      ],
+      activeIndex: index,
+      dataSeries: data,
+      theme,
+      title: getBinLabel(bin),
+    });
+  };
+
+  return (
+    <ChartElements.Div height={height} width={width}>
+      <ChartElements.Svg
+        emptyState={emptyState}
+        emptyStateText={emptyStateText}
+        height={height}
+        setRef={setSvgRef}
+        width={width}
+      >
+        {selectedTheme.grid.showHorizontalLines ? (
+          <HorizontalGridLines
+            ticks={ticks}
+            transform={{
+              x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
+              y: chartYPosition,
+            }}
+            width={
+              selectedTheme.grid.horizontalOverflow ? width : drawableWidth
+            }
+          />
+        ) : null}
+
+        <YAxis
+          ticks={ticks}
+          textAlign="right"
+          width={yAxisLabelWidth}
+          x={yAxisBounds.x}
+          y={yAxisBounds.y}
+        />
+
+        {hideXAxis || emptyState ? null : (
+          <g aria-hidden="true">
+            <HorizontalBarChartXAxisLabels
+              allowLineWrap={xAxisOptions.allowLineWrap}
+              chartX={xAxisBounds.x - (narrowestBin * edgeStep) / 2}
+              chartY={xAxisBounds.y}
+              labels={labelledEdges.map((edge) =>
+                xAxisOptions.labelFormatter(edge),
+              )}
+              labelWidth={narrowestBin * edgeStep}
+              onHeightChange={setXAxisHeight}
+              ticks={labelledEdges}
+              xScale={xScale}
+            />
+          </g>
+        )}
+
+        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          {bins.map((bin, index) => {
+            const x = xScale(bin.x0);
+            const ariaLabel = `${getBinLabel(bin)}: ${tooltipLabels.count} ${
+              bin.count
+            }`;
+
+            return (
+              <g
+                key={`${bin.x0}-${index}`}
+                aria-hidden="false"
+                aria-label={ariaLabel}
+                data-index={index}
+                data-type={DataType.BarGroup}
+                role="listitem"
+                tabIndex={0}
+              >
+                <VerticalBar
+                  animationDelay={index * BAR_ANIMATION_DELAY}
+                  color={barColor}
+                  height={zeroPosition - yScale(bin.count)}
+                  index={index}
+                  rawValue={bin.count}
+                  width={xScale(bin.x1) - x}
+                  x={x}
+                  zeroPosition={zeroPosition}
+                />
+              </g>
+            );
+          })}
+
+          {showCumulative && !emptyState ? (
+            <g aria-hidden="true" pointerEvents="none">
+              <LineSeries
+                data={cumulativeSeries}
+                index={0}
+                svgDimensions={{height: drawableHeight, width: drawableWidth}}
+                theme={theme}
+                xScale={edgeScale}
+                yScale={cumulativeScale}
+              />
+            </g>
+          ) : null}
+        </g>
+      </ChartElements.Svg>
+
+      {emptyState ? null : (
+        <TooltipWrapper
+          chartBounds={{
+            width,
+            height,
+            x: chartXPosition,
+            y: chartYPosition,
+          }}
+          chartDimensions={dimensions}
+          focusElementDataType={DataType.BarGroup}
+          getMarkup={getTooltipMarkup}
+          getPosition={getTooltipPosition}
+          margin={{...ChartMargin, Top: chartYPosition}}
+          parentRef={svgRef}
+          usePortal
+        />
+      )}
+    </ChartElements.Div>
+  );
+
+  function getBinLabel({x0, x1}: HistogramBin) {
+    return `${xAxisOptions.labelFormatter(x0)} – ${xAxisOptions.labelFormatter(
+      x1,
+    )}`;
+  }
+
+  function formatPositionForTooltip(index: number): TooltipPosition {
+    const {x0, x1, count} = bins[index];
+
+    return {
+      x: chartXPosition + (xScale(x0) + xScale(x1)) / 2 + (dimensions?.x ?? 0),
+      y: chartYPosition + yScale(count) + (dimensions?.y ?? 0),
+      position: {
+        horizontal: TooltipHorizontalOffset.Center,
+        vertical: TooltipVerticalOffset.Above,
+      },
+      activeIndex: index,
+    };
+  }
+
+  function getTooltipPosition({
+    event,
+    index,
+    eventType,
+  }: TooltipPositionParams): TooltipPosition {
+    if (eventType === 'mouse' && event) {
+      const point = eventPointNative(event);
+
+      if (point == null) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      const value = xScale.invert(point.svgX - chartXPosition);
+      const binIndex = bins.findIndex(
+        ({x0, x1}, index) =>
+          value >= x0 && (value < x1 || index === bins.length - 1),
+      );
+
+      if (binIndex === -1 || value > edges[edges.length - 1]) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      return formatPositionForTooltip(binIndex);
+    } else if (index != null) {
+      return formatPositionForTooltip(index);
+    }
+
+    return TOOLTIP_POSITION_DEFAULT_RETURN;
+  }
+}
@@ -0,0 +1,134 @@
+import {useMemo} from 'react';
+import {
+  ChartState,
+  DEFAULT_CHART_PROPS,
+  InternalChartType,
+  usePolarisVizContext,
+} from '@shopify/polaris-viz-core';
+import type {
+  ChartProps,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../ChartContainer';
+import {ChartSkeleton} from '../ChartSkeleton';
+import {
+  getXAxisOptionsWithDefaults,
+  getYAxisOptionsWithDefaults,
+} from '../../utilities';
+import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRenderer';
+import {useTheme, useThemeSeriesColors} from '../../hooks';
+import type {TooltipOptions} from '../../types';
+
+import {Chart} from './Chart';
+import type {
+  HistogramBins,
+  HistogramDataSeries,
+  HistogramTooltipLabels,
+} from './types';
+import {getDataSeriesFromHistogramData, getHistogramBins} from './utilities';
+
+export type HistogramChartProps = {
+  /**
+   * How the values are binned. Defaults to Sturges' rule.
+   */
+  bins?: HistogramBins;
+  emptyStateText?: string;
+  /**
+   * Overlays a line with the running total of each bin.
+   */
+  showCumulative?: boolean;
+  theme?: string;
+  /**
+   * Names of the count and cumulative rows shown in the tooltip.
+   */
+  tooltipLabels?: HistogramTooltipLabels;
+  tooltipOptions?: TooltipOptions;
+  xAxisOptions?: Partial<XAxisOptions>;
+  yAxisOptions?: Partial<YAxisOptions>;
+} & ChartProps<HistogramDataSeries[]>;
+
+const DEFAULT_TOOLTIP_LABELS: Required<HistogramTooltipLabels> = {
+  count: 'Count',
+  cumulative: 'Cumulative',
+};
+
+export function HistogramChart(props: HistogramChartProps) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    bins: binOptions,
+    data,
+    emptyStateText,
+    errorText,
+    id,
+    isAnimated,
+    onError,
+    showCumulative = false,
+    state,
+    theme = defaultTheme,
+    tooltipLabels,
+    tooltipOptions,
+    xAxisOptions,
+    yAxisOptions,
+  } = {
+    ...DEFAULT_CHART_PROPS,
+    ...props,
+  };
+
+  const values = data[0]?.data;
+
+  const bins = useMemo(
+    () => getHistogramBins(values ?? [], binOptions),
+    [values, binOptions],
+  );
+
+  const dataSeries = getDataSeriesFromHistogramData(data, bins);
+
+  const selectedTheme = useTheme(theme);
+  const seriesColors = useThemeSeriesColors(dataSeries, selectedTheme);
+
+  const seriesWithDefaults = dataSeries.map((series, index) => ({
+    color: seriesColors[index],
+    ...series,
+  }));
+
+  const xAxisOptionsWithDefaults = getXAxisOptionsWithDefaults(xAxisOptions);
+  const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
+
+  const renderTooltip = getTooltipContentRenderer({
+    tooltipOptions: {
+      valueFormatter: yAxisOptionsWithDefaults.labelFormatter,
+      ...tooltipOptions,
+    },
+    theme,
+    data: dataSeries,
+  });
+
+  return (
+    <ChartContainer
+      data={dataSeries}
+      id={id}
+      isAnimated={isAnimated}
+      onError={onError}
+      theme={theme}
+      type={InternalChartType.Bar}
+    >
+      {state !== ChartState.Success ? (
+        <ChartSkeleton state={state} errorText={errorText} theme={theme} />
+      ) : (
+        <Chart
+          bins={bins}
+          data={seriesWithDefaults}
+          emptyStateText={emptyStateText}
+          renderTooltipContent={renderTooltip}
+          showCumulative={showCumulative}
+          tooltipLabels={{...DEFAULT_TOOLTIP_LABELS, ...tooltipLabels}}
+          xAxisOptions={xAxisOptionsWithDefaults}
+          yAxisOptions={yAxisOptionsWithDefaults}
+        />
+      )}
+    </ChartContainer>
+  );
+}
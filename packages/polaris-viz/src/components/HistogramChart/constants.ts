@@ -0,0 +1,3 @@
+export const CUMULATIVE_LINE_DASHARRAY = '4 4';
+export const BAR_ANIMATION_DELAY = 30;
+export const X_AXIS_LABEL_SPACING = 8;
@@ -0,0 +1,7 @@
+export {HistogramChart} from './HistogramChart';
+export type {HistogramChartProps} from './HistogramChart';
+export type {
+  HistogramBins,
+  HistogramDataSeries,
+  HistogramTooltipLabels,
+} from './types';
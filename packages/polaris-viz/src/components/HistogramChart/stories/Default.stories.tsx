@@ -0,0 +1,46 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {HistogramChartProps} from '../../../components';
+
+import {DEFAULT_DATA, Template, formatCurrency} from './data';
+
+export const Default: Story<HistogramChartProps> = Template.bind({});
+
+Default.args = {
+  data: DEFAULT_DATA,
+  xAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const BinCount: Story<HistogramChartProps> = Template.bind({});
+
+BinCount.args = {
+  data: DEFAULT_DATA,
+  bins: 20,
+  xAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const Thresholds: Story<HistogramChartProps> = Template.bind({});
+
+Thresholds.args = {
+  data: DEFAULT_DATA,
+  bins: [0, 50, 100, 200, 350],
+  xAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const FreedmanDiaconis: Story<HistogramChartProps> = Template.bind({});
+
+FreedmanDiaconis.args = {
+  data: DEFAULT_DATA,
+  bins: 'freedmanDiaconis',
+  xAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const Cumulative: Story<HistogramChartProps> = Template.bind({});
+
+Cumulative.args = {
+  data: DEFAULT_DATA,
+  showCumulative: true,
+  xAxisOptions: {labelFormatter: formatCurrency},
+};
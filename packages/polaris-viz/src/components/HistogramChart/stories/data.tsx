@@ -0,0 +1,34 @@
+import type {Story} from '@storybook/react';
+
+import type {HistogramChartProps} from '../HistogramChart';
+import {HistogramChart} from '../HistogramChart';
+import type {HistogramDataSeries} from '../types';
+
+// A skewed, deterministic spread of order totals so the
+// stories render the same bins every time.
+const ORDER_TOTALS = Array.from({length: 200}, (_, index) => {
+  const position = (index * 37) % 200;
+
+  return Math.round(20 + (position / 200) ** 2 * 280 + (index % 7) * 3);
+});
+
+export const DEFAULT_DATA: HistogramDataSeries[] = [
+  {
+    name: 'Order totals',
+    data: ORDER_TOTALS,
+  },
+];
+
+export function formatCurrency(value: number | string | null) {
+  return `$${Number(value).toLocaleString()}`;
+}
+
+export const Template: Story<HistogramChartProps> = (
+  args: HistogramChartProps,
+) => {
+  return (
+    <div style={{height: 400}}>
+      <HistogramChart {...args} />
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import type {Meta} from '@storybook/react';
+
+import {
+  CHART_STATE_CONTROL_ARGS,
+  CONTROLS_ARGS,
+  EMPTY_STATE_TEXT_ARGS,
+  THEME_CONTROL_ARGS,
+  X_AXIS_OPTIONS_ARGS,
+  Y_AXIS_OPTIONS_ARGS,
+} from '../../../storybook/constants';
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {HistogramChart} from '../HistogramChart';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/HistogramChart',
+  component: HistogramChart,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to show how raw numeric values are distributed, like the size of orders.',
+      },
+    },
+  },
+  argTypes: {
+    data: {
+      description:
+        'The first series is drawn. Its data is a list of raw values that are binned by the chart.',
+    },
+    bins: {
+      description:
+        "An approximate number of bins, an array of bin edges, or `'sturges'` / `'freedmanDiaconis'` to pick the number of bins from the data.",
+    },
+    showCumulative: {
+      description: 'Overlays a line with the running total of each bin.',
+      control: {type: 'boolean'},
+    },
+    tooltipLabels: {
+      description: 'Names of the count and cumulative tooltip rows.',
+    },
+    emptyStateText: EMPTY_STATE_TEXT_ARGS,
+    xAxisOptions: X_AXIS_OPTIONS_ARGS,
+    yAxisOptions: Y_AXIS_OPTIONS_ARGS,
+    theme: THEME_CONTROL_ARGS,
+    state: CHART_STATE_CONTROL_ARGS,
+  },
+};
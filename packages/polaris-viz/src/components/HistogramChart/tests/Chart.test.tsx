@@ -0,0 +1,115 @@
+import {mount} from '@shopify/react-testing';
+import {LineSeries} from '@shopify/polaris-viz-core';
+
+import type {ChartProps} from '../Chart';
+import {Chart} from '../Chart';
+import {VerticalBar} from '../../VerticalBarChart';
+import {HorizontalBarChartXAxisLabels} from '../../HorizontalBarChartXAxisLabels';
+import {TooltipWrapper} from '../../TooltipWrapper';
+
+const MOCK_PROPS: ChartProps = {
+  bins: [
+    {x0: 0, x1: 10, count: 2},
+    {x0: 10, x1: 20, count: 5},
+    {x0: 20, x1: 30, count: 3},
+  ],
+  data: [
+    {
+      name: 'Orders',
+      color: 'blue',
+      data: [
+        {key: 0, value: 2},
+        {key: 10, value: 5},
+        {key: 20, value: 3},
+      ],
+    },
+  ],
+  dimensions: {height: 300, width: 600, x: 0, y: 0},
+  renderTooltipContent: jest.fn(() => null),
+  showCumulative: false,
+  tooltipLabels: {count: 'Count', cumulative: 'Cumulative'},
+  xAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    hide: false,
+    allowLineWrap: false,
+  },
+  yAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    integersOnly: false,
+    fixedWidth: false,
+    maxYOverride: null,
+    minYOverride: null,
+  },
+};
+
+describe('<Chart />', () => {
+  it('renders a <VerticalBar /> for each bin', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponentTimes(VerticalBar, 3);
+  });
+
+  it('renders bars with no gaps between them', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const bars = chart.findAll(VerticalBar);
+
+    bars.slice(1).forEach((bar, index) => {
+      const previous = bars[index].props;
+
+      expect(bar.props.x).toBeCloseTo(previous.x + previous.width);
+    });
+  });
+
+  it('renders x-axis labels on bin edges', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(HorizontalBarChartXAxisLabels, {
+      labels: ['0', '10', '20', '30'],
+      ticks: [0, 10, 20, 30],
+    });
+  });
+
+  it('labels bins with their range', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent('g', {
+      'aria-label': '10 – 20: Count 5',
+    });
+  });
+
+  it('does not render a cumulative line by default', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).not.toContainReactComponent(LineSeries);
+  });
+
+  it('renders a cumulative <LineSeries /> from the bin edges', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} showCumulative />);
+
+    const line = chart.find(LineSeries);
+
+    expect(line?.props.data.data).toStrictEqual([
+      {key: 0, value: 0},
+      {key: 10, value: 2},
+      {key: 20, value: 7},
+      {key: 30, value: 10},
+    ]);
+    expect(line?.props.data.strokeDasharray).toBeDefined();
+  });
+
+  it('renders <TooltipWrapper />', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(TooltipWrapper);
+  });
+
+  it('renders an empty state without bins', () => {
+    const chart = mount(
+      <Chart {...MOCK_PROPS} bins={[]} emptyStateText="No orders" />,
+    );
+
+    expect(chart).not.toContainReactComponent(VerticalBar);
+    expect(chart).not.toContainReactComponent(TooltipWrapper);
+  });
+});
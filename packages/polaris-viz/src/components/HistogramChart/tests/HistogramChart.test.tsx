@@ -0,0 +1,54 @@
+import {mount} from '@shopify/react-testing';
+import {ChartState} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../ChartContainer';
+import {ChartSkeleton} from '../../ChartSkeleton';
+import type {HistogramChartProps} from '../HistogramChart';
+import {HistogramChart} from '../HistogramChart';
+import {Chart} from '../Chart';
+
+const MOCK_PROPS: HistogramChartProps = {
+  data: [
+    {
+      name: 'Orders',
+      data: [1, 2, 2, 3, 3, 3, 4, 4, 5, 9],
+    },
+  ],
+};
+
+describe('<HistogramChart />', () => {
+  it('renders <ChartContainer />', () => {
+    const chart = mount(<HistogramChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(ChartContainer);
+  });
+
+  it('renders <Chart /> with defaults', () => {
+    const chart = mount(<HistogramChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(Chart, {
+      showCumulative: false,
+      tooltipLabels: {count: 'Count', cumulative: 'Cumulative'},
+    });
+  });
+
+  it('bins the values of the series', () => {
+    const chart = mount(<HistogramChart {...MOCK_PROPS} bins={[0, 5, 10]} />);
+
+    expect(chart).toContainReactComponent(Chart, {
+      bins: [
+        {x0: 0, x1: 5, count: 8},
+        {x0: 5, x1: 10, count: 2},
+      ],
+    });
+  });
+
+  it('renders <ChartSkeleton /> while loading', () => {
+    const chart = mount(
+      <HistogramChart {...MOCK_PROPS} state={ChartState.Loading} />,
+    );
+
+    expect(chart).toContainReactComponent(ChartSkeleton);
+    expect(chart).not.toContainReactComponent(Chart);
+  });
+});
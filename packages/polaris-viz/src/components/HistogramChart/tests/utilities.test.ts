@@ -0,0 +1,82 @@
+import {
+  getCumulativeCounts,
+  getDataSeriesFromHistogramData,
+  getHistogramBins,
+} from '../utilities';
+
+const VALUES = [1, 2, 2, 3, 3, 3, 4, 4, 5, 9];
+
+describe('getHistogramBins()', () => {
+  it('returns no bins without values', () => {
+    expect(getHistogramBins([])).toStrictEqual([]);
+  });
+
+  it('counts each value once', () => {
+    const bins = getHistogramBins(VALUES);
+
+    expect(bins.reduce((total, {count}) => total + count, 0)).toBe(
+      VALUES.length,
+    );
+  });
+
+  it('returns contiguous bins', () => {
+    const bins = getHistogramBins(VALUES, 5);
+
+    bins.slice(1).forEach((bin, index) => {
+      expect(bin.x0).toBe(bins[index].x1);
+    });
+  });
+
+  it('uses explicit thresholds as bin edges', () => {
+    expect(getHistogramBins(VALUES, [0, 3, 6, 10])).toStrictEqual([
+      {x0: 0, x1: 3, count: 3},
+      {x0: 3, x1: 6, count: 6},
+      {x0: 6, x1: 10, count: 1},
+    ]);
+  });
+
+  it('extends explicit thresholds to include outlying values', () => {
+    const bins = getHistogramBins(VALUES, [2, 4]);
+
+    expect(bins[0]).toStrictEqual({x0: 1, x1: 2, count: 1});
+    expect(bins[bins.length - 1]).toMatchObject({x0: 4, x1: 9});
+  });
+
+  it('bins with the Freedman–Diaconis rule', () => {
+    const bins = getHistogramBins(VALUES, 'freedmanDiaconis');
+
+    expect(bins.length).toBeGreaterThan(1);
+    expect(bins.reduce((total, {count}) => total + count, 0)).toBe(
+      VALUES.length,
+    );
+  });
+
+  it('gives identical values a bin with width', () => {
+    expect(getHistogramBins([5, 5, 5])).toStrictEqual([
+      {x0: 5, x1: 6, count: 3},
+    ]);
+  });
+});
+
+describe('getCumulativeCounts()', () => {
+  it('returns the running total of each bin', () => {
+    expect(
+      getCumulativeCounts([
+        {x0: 0, x1: 1, count: 2},
+        {x0: 1, x1: 2, count: 0},
+        {x0: 2, x1: 3, count: 5},
+      ]),
+    ).toStrictEqual([2, 2, 7]);
+  });
+});
+
+describe('getDataSeriesFromHistogramData()', () => {
+  it('keys each bin by its lower edge', () => {
+    expect(
+      getDataSeriesFromHistogramData(
+        [{name: 'Orders', data: [1, 2]}],
+        [{x0: 0, x1: 5, count: 2}],
+      ),
+    ).toStrictEqual([{name: 'Orders', data: [{key: 0, value: 2}]}]);
+  });
+});
@@ -0,0 +1,22 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+export interface HistogramDataSeries extends Omit<DataSeries, 'data'> {
+  data: number[];
+}
+
+/**
+ * An approximate number of bins, explicit bin edges, or the
+ * rule used to pick the number of bins.
+ */
+export type HistogramBins = number | number[] | 'sturges' | 'freedmanDiaconis';
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+export interface HistogramTooltipLabels {
+  count?: string;
+  cumulative?: string;
+}
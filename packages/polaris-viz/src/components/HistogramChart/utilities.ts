@@ -0,0 +1,71 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import {
+  bin,
+  extent,
+  thresholdFreedmanDiaconis,
+  thresholdSturges,
+} from 'd3-array';
+
+import type {HistogramBin, HistogramBins, HistogramDataSeries} from './types';
+
+export function getHistogramBins(
+  values: number[],
+  bins: HistogramBins = 'sturges',
+): HistogramBin[] {
+  if (values.length === 0) {
+    return [];
+  }
+
+  const binGenerator = bin();
+
+  if (Array.isArray(bins)) {
+    // Explicit bins are edges, so the outer edges set the
+    // domain unless values fall outside of them.
+    const [minValue, maxValue] = extent(values) as [number, number];
+    const min = Math.min(minValue, ...bins);
+    const max = Math.max(maxValue, ...bins);
+
+    binGenerator
+      .domain([min, max])
+      .thresholds(
+        bins
+          .filter((edge) => edge > min && edge < max)
+          .sort((first, second) => first - second),
+      );
+  } else if (bins === 'freedmanDiaconis') {
+    binGenerator.thresholds(thresholdFreedmanDiaconis);
+  } else if (bins === 'sturges') {
+    binGenerator.thresholds(thresholdSturges);
+  } else {
+    binGenerator.thresholds(bins);
+  }
+
+  return binGenerator(values).map(({x0 = 0, x1 = 0, length}) => ({
+    x0,
+    // Identical values produce a single bin with no width.
+    x1: x1 === x0 ? x0 + 1 : x1,
+    count: length,
+  }));
+}
+
+export function getCumulativeCounts(bins: HistogramBin[]) {
+  let total = 0;
+
+  return bins.map(({count}) => {
+    total += count;
+
+    return total;
+  });
+}
+
+// Containers expect `DataSeries`, so each bin is passed
+// along with its lower edge as the key.
+export function getDataSeriesFromHistogramData(
+  data: HistogramDataSeries[],
+  bins: HistogramBin[],
+): DataSeries[] {
+  return data.slice(0, 1).map((series) => ({
+    ...series,
+    data: bins.map(({x0, count}) => ({key: x0, value: count})),
+  }));
+}
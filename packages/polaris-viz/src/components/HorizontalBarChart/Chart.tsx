@@ -23,17 +23,27 @@ import {checkAvailableAnnotations} from '../../components/Annotations';
 import {useFormattedLabels} from '../../hooks/useFormattedLabels';
 import type {
   AnnotationLookupTable,
+  DataPointClickHandler,
+  ReferenceBand,
   RenderLegendContent,
   RenderTooltipContentData,
 } from '../../types';
 import {HorizontalBarChartXAxisLabels} from '../HorizontalBarChartXAxisLabels';
 import {useLegend, LegendContainer} from '../LegendContainer';
+import {
+  getReferenceMinMax,
+  getReferenceValues,
+  ReferenceBands,
+  ReferenceLines,
+} from '../ReferenceLines';
+import type {ResolvedReferenceLine} from '../ReferenceLines';
 import type {HorizontalTransitionStyle} from '../../hooks/useHorizontalTransitions';
 import {GradientDefs, HorizontalGroup} from '../shared';
 import {
   useBarChartTooltipContent,
   useColorVisionEvents,
   useDataForHorizontalChart,
+  useDataPointClickEvents,
   useHorizontalBarSizes,
   useHorizontalSeriesColors,
   useHorizontalStackedValues,
@@ -41,8 +51,16 @@ import {
   useHorizontalXScale,
   useTheme,
 } from '../../hooks';
-import {ChartMargin, ANNOTATIONS_LABELS_OFFSET} from '../../constants';
-import {eventPointNative, formatDataIntoGroups} from '../../utilities';
+import {
+  ChartMargin,
+  ANNOTATIONS_LABELS_OFFSET,
+  HORIZONTAL_GROUP_LABEL_HEIGHT,
+} from '../../constants';
+import {
+  eventPointNative,
+  formatDataIntoGroups,
+  formatPercentage,
+} from '../../utilities';
 import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
 import {
   TOOLTIP_POSITION_DEFAULT_RETURN,
@@ -66,6 +84,11 @@ export interface ChartProps {
   xAxisOptions: Required<XAxisOptions>;
   yAxisOptions: Required<YAxisOptions>;
   dimensions?: BoundingRect;
+  hiddenSeries?: number[];
+  onBarClick?: DataPointClickHandler;
+  onToggleSeries?: (index: number) => void;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ResolvedReferenceLine[];
   renderHiddenLegendLabel?: (count: number) => string;
   renderLegendContent?: RenderLegendContent;
 }
@@ -74,6 +97,11 @@ export function Chart({
   annotationsLookupTable,
   data,
   dimensions,
+  hiddenSeries,
+  onBarClick,
+  onToggleSeries,
+  referenceBands = [],
+  referenceLines = [],
   renderHiddenLegendLabel,
   renderLegendContent,
   renderTooltipContent,
@@ -88,9 +116,12 @@ export function Chart({
   const selectedTheme = useTheme();
   const id = useMemo(() => uniqueId('HorizontalBarChart'), []);
 
-  const isStacked = type === 'stacked';
+  const isPercentStacked = type === 'stackedPercent';
+  const isStacked = type === 'stacked' || isPercentStacked;
 
   const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+
+  useDataPointClickEvents({data, onClick: onBarClick, parentElement: svgRef});
   const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
   const [annotationsHeight, setAnnotationsHeight] = useState(0);
 
@@ -134,21 +165,37 @@ export function Chart({
 
   const {stackedValues, stackedMin, stackedMax} = useHorizontalStackedValues({
     isStacked,
+    isPercentStacked,
     data,
   });
 
+  const referenceMinMax = getReferenceMinMax({
+    min: stackedMin,
+    max: stackedMax,
+    referenceBands,
+    referenceLines,
+  });
+
   const chartYPosition = (ChartMargin.Top as number) + annotationsHeight;
   const drawableHeight = height - xAxisHeight - chartYPosition;
 
   const {xScale, ticks, ticksFormatted, drawableWidth, chartXPosition} =
     useHorizontalXScale({
-      allNumbers,
-      stackedMin,
-      stackedMax,
+      allNumbers: [
+        ...allNumbers,
+        ...getReferenceValues(referenceLines, referenceBands),
+      ],
+      stackedMin: referenceMinMax.min,
+      stackedMax: referenceMinMax.max,
       isStacked,
       maxWidth: width - longestLabel.negative - longestLabel.positive,
-      labelFormatter: xAxisOptions.labelFormatter,
+      labelFormatter: isPercentStacked
+        ? formatPercentage
+        : xAxisOptions.labelFormatter,
       longestLabel,
+      domain: yAxisOptions.domain,
+      includeZero: yAxisOptions.includeZero,
+      minOverride: yAxisOptions.minYOverride,
     });
 
   const {barHeight, chartHeight, groupBarsAreaHeight, groupHeight} =
@@ -166,9 +213,11 @@ export function Chart({
 
   const getTooltipMarkup = useBarChartTooltipContent({
     data,
+    hiddenIndexes: hiddenSeries,
     seriesColors,
     renderTooltipContent,
     seriesNameFormatter,
+    showShares: isPercentStacked,
   });
 
   const {transitions} = useHorizontalTransitions({
@@ -180,6 +229,12 @@ export function Chart({
   const zeroPosition = longestLabel.negative + xScale(0);
 
   const labelWidth = drawableWidth / ticks.length;
+
+  // Reference lines and bands span the bars, below the group labels.
+  const referenceTransform = `translate(${chartXPosition}, ${
+    chartYPosition + HORIZONTAL_GROUP_LABEL_HEIGHT
+  })`;
+  const referenceSize = chartHeight - HORIZONTAL_GROUP_LABEL_HEIGHT;
   const chartBounds: BoundingRect = {
     width,
     height,
@@ -235,6 +290,15 @@ export function Chart({
           size={isStacked ? '100%' : `${width}px`}
         />
 
+        <g transform={referenceTransform}>
+          <ReferenceBands
+            bands={referenceBands}
+            direction="vertical"
+            scale={xScale}
+            size={referenceSize}
+          />
+        </g>
+
         <g transform={`translate(${0}, ${chartYPosition})`}>
           {transitions((style, item, _transition, index) => {
             const {opacity, transform} = style as HorizontalTransitionStyle;
@@ -255,6 +319,7 @@ export function Chart({
                   groupHeight={groupHeight}
                   id={id}
                   index={index}
+                  isClickable={onBarClick != null}
                   isSimple={false}
                   isStacked={isStacked}
                   name={name}
@@ -269,6 +334,16 @@ export function Chart({
           })}
         </g>
 
+        <g transform={referenceTransform}>
+          <ReferenceLines
+            direction="vertical"
+            labelFormatter={xAxisOptions.labelFormatter}
+            lines={referenceLines}
+            scale={xScale}
+            size={referenceSize}
+          />
+        </g>
+
         {hasXAxisAnnotations && (
           <g transform={`translate(${chartXPosition}, ${0})`}>
             <HorizontalBarChartXAnnotations
@@ -316,6 +391,8 @@ export function Chart({
           onDimensionChange={setLegendDimensions}
           renderLegendContent={renderLegendContent}
           renderHiddenLegendLabel={renderHiddenLegendLabel}
+          hiddenSeries={hiddenSeries}
+          onToggleSeries={onToggleSeries}
         />
       )}
     </ChartElements.Div>
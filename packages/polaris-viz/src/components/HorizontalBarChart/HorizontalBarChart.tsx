@@ -10,9 +10,13 @@ import type {
 
 import type {
   AnnotationLookupTable,
+  DataPointClickHandler,
+  ReferenceBand,
   RenderTooltipContentData,
   RenderLegendContent,
 } from '../../types';
+import type {ResolvedReferenceLine} from '../ReferenceLines';
+import {getDataWithHiddenSeries} from '../../utilities';
 
 import {Chart} from './Chart';
 
@@ -25,6 +29,11 @@ export interface HorizontalBarChartProps {
   yAxisOptions: Required<YAxisOptions>;
   annotationsLookupTable?: AnnotationLookupTable;
   dimensions?: BoundingRect;
+  hiddenSeries?: number[];
+  onBarClick?: DataPointClickHandler;
+  onToggleSeries?: (index: number) => void;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ResolvedReferenceLine[];
   renderHiddenLegendLabel?: (count: number) => string;
   renderLegendContent?: RenderLegendContent;
   type?: ChartType;
@@ -34,6 +43,11 @@ export function HorizontalBarChart({
   annotationsLookupTable = {},
   data,
   dimensions,
+  hiddenSeries = [],
+  onBarClick,
+  onToggleSeries,
+  referenceBands,
+  referenceLines,
   renderHiddenLegendLabel,
   renderLegendContent,
   renderTooltipContent,
@@ -47,7 +61,12 @@ export function HorizontalBarChart({
     <Chart
       dimensions={dimensions}
       annotationsLookupTable={annotationsLookupTable}
-      data={data}
+      data={getDataWithHiddenSeries(data, hiddenSeries)}
+      hiddenSeries={hiddenSeries}
+      onBarClick={onBarClick}
+      onToggleSeries={onToggleSeries}
+      referenceBands={referenceBands}
+      referenceLines={referenceLines}
       renderTooltipContent={renderTooltipContent}
       seriesNameFormatter={seriesNameFormatter}
       showLegend={showLegend}
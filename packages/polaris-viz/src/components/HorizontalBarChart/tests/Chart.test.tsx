@@ -181,6 +181,59 @@ describe('<Chart />', () => {
     });
   });
 
+  describe('yAxisOptions', () => {
+    it('uses domain for the value axis', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          yAxisOptions={{...MOCK_PROPS.yAxisOptions, domain: [0, 50]}}
+        />,
+      );
+
+      expect(chart.find(HorizontalBars)!.props.xScale.domain()).toStrictEqual([
+        0, 50,
+      ]);
+    });
+
+    it('uses domain for the value axis when stacked', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          type="stacked"
+          yAxisOptions={{...MOCK_PROPS.yAxisOptions, domain: [0, 50]}}
+        />,
+      );
+
+      expect(
+        chart.find(HorizontalStackedBars)!.props.xScale.domain(),
+      ).toStrictEqual([0, 50]);
+    });
+
+    it('starts the value axis at minYOverride', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          yAxisOptions={{...MOCK_PROPS.yAxisOptions, minYOverride: 1}}
+        />,
+      );
+
+      expect(chart.find(HorizontalBars)!.props.xScale.domain()[0]).toBe(1);
+    });
+
+    it('fits the value axis to the data when includeZero is false', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          yAxisOptions={{...MOCK_PROPS.yAxisOptions, includeZero: false}}
+        />,
+      );
+
+      expect(
+        chart.find(HorizontalBars)!.props.xScale.domain()[0],
+      ).toBeGreaterThan(0);
+    });
+  });
+
   describe('type', () => {
     it('renders <HorizontalStackedBars /> when stacked', () => {
       const chart = mount(<Chart {...MOCK_PROPS} type="stacked" />);
@@ -32,6 +32,29 @@ describe('<HorizontalGridLines />', () => {
     });
   });
 
+  describe('minorTicks', () => {
+    it('renders a faded line for each minor tick', () => {
+      const actual = mount(
+        <svg>
+          <HorizontalGridLines
+            {...MOCK_PROPS}
+            ticks={[{value: 10, formattedValue: '10', yOffset: 0}]}
+            minorTicks={[
+              {value: 2, formattedValue: '2', yOffset: 80},
+              {value: 3, formattedValue: '3', yOffset: 60},
+            ]}
+          />
+        </svg>,
+      );
+
+      expect(actual).toContainReactComponentTimes('line', 3);
+      expect(actual).toContainReactComponent('line', {
+        transform: `translate(10,100)`,
+        strokeOpacity: 0.4,
+      });
+    });
+  });
+
   describe('color, transform, width', () => {
     it('renders with default style attributes', () => {
       const actual = mount(
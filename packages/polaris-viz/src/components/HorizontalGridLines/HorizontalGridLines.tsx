@@ -3,21 +3,34 @@ import {useTheme} from '@shopify/polaris-viz-core';
 
 import type {YAxisTick} from '../../types';
 
+const MINOR_LINE_OPACITY = 0.4;
+
 export interface Props {
   ticks: YAxisTick[];
   transform: {x: number; y: number};
   width: number;
+  minorTicks?: YAxisTick[];
 }
 
 export const HorizontalGridLines = memo(function HorizontalGridLines({
   ticks,
   transform,
   width,
+  minorTicks = [],
 }: Props) {
   const selectedTheme = useTheme();
 
   return (
     <Fragment>
+      {minorTicks.map(({yOffset}, index) => (
+        <line
+          key={`minor-${index}`}
+          x2={width}
+          stroke={selectedTheme.grid.color}
+          strokeOpacity={MINOR_LINE_OPACITY}
+          transform={`translate(${transform.x},${transform.y + yOffset})`}
+        />
+      ))}
       {ticks.map(({yOffset}, index) => (
         <line
           key={index}
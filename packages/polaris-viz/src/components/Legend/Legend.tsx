@@ -17,6 +17,8 @@ export interface LegendProps {
   itemDimensions?: RefObject<LegendItemDimension[]>;
   backgroundColor?: string;
   indexOffset?: number;
+  hiddenSeries?: number[];
+  onToggleSeries?: (index: number) => void;
   truncate?: boolean;
   showLegendValues?: boolean;
   seriesNameFormatter?: LabelFormatter;
@@ -29,6 +31,8 @@ export function Legend({
   theme = DEFAULT_THEME_NAME,
   itemDimensions,
   indexOffset = 0,
+  hiddenSeries = [],
+  onToggleSeries,
   backgroundColor,
   truncate = false,
   showLegendValues = false,
@@ -57,6 +61,8 @@ export function Legend({
         activeIndex={activeIndex}
         colorVisionType={colorVisionType}
         index={index + indexOffset}
+        isHidden={hiddenSeries.includes(index + indexOffset)}
+        onToggle={onToggleSeries}
         theme={theme}
         backgroundColor={backgroundColor}
         onDimensionChange={onDimensionChange}
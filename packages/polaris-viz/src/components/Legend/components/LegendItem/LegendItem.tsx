@@ -7,6 +7,7 @@ import type {ReactNode} from 'react';
 import {useEffect, useRef, useState} from 'react';
 
 import {
+  HIDDEN_LEGEND_ITEM_OPACITY,
   LEGEND_ITEM_LEFT_PADDING,
   LEGEND_ITEM_RIGHT_PADDING,
   LEGEND_ITEM_GAP,
@@ -29,6 +30,11 @@ export interface LegendItemProps extends LegendData {
   index: number;
   activeIndex?: number;
   colorVisionType?: string;
+  isHidden?: boolean;
+  /**
+   * Makes the item a toggle for the visibility of its series.
+   */
+  onToggle?: (index: number) => void;
   renderSeriesIcon?: () => ReactNode;
   theme?: string;
   onDimensionChange?: (
@@ -47,7 +53,10 @@ export function LegendItem({
   colorVisionType,
   index,
   isComparison,
+  isComputed,
+  isHidden = false,
   name,
+  onToggle,
   renderSeriesIcon,
   shape,
   theme,
@@ -85,15 +94,22 @@ export function LegendItem({
 
   const background = backgroundColor ?? selectedTheme.legend.backgroundColor;
 
+  const colorVisionStyles = getColorVisionStylesForActiveIndex({
+    activeIndex,
+    index,
+  });
+
   return (
     <button
       {...colorBlindAttrs}
+      aria-pressed={onToggle == null ? undefined : !isHidden}
+      onClick={onToggle == null ? undefined : () => onToggle(index)}
       style={{
         background: background ?? 'none',
-        ...getColorVisionStylesForActiveIndex({
-          activeIndex,
-          index,
-        }),
+        ...colorVisionStyles,
+        opacity: isHidden
+          ? HIDDEN_LEGEND_ITEM_OPACITY
+          : colorVisionStyles.opacity,
         paddingLeft: background ? LEGEND_ITEM_LEFT_PADDING : 0,
         paddingRight: background
           ? LEGEND_ITEM_RIGHT_PADDING
@@ -117,7 +133,12 @@ export function LegendItem({
           style={{height: PREVIEW_ICON_SIZE, width: PREVIEW_ICON_SIZE}}
           className={style.IconContainer}
         >
-          <SeriesIcon shape={shape} color={color} isComparison={isComparison} />
+          <SeriesIcon
+            shape={shape}
+            color={color}
+            isComparison={isComparison}
+            isComputed={isComputed}
+          />
         </span>
       ) : (
         renderSeriesIcon()
@@ -2,6 +2,7 @@ import {mount} from '@shopify/react-testing';
 
 import type {LegendItemProps} from '../LegendItem';
 import {LegendItem, MINIMUM_LEGEND_ITEM_WIDTH} from '../LegendItem';
+import {HIDDEN_LEGEND_ITEM_OPACITY} from '../../../constants';
 
 const mockProps: LegendItemProps = {
   activeIndex: 2,
@@ -75,6 +76,45 @@ describe('<LegendItem />', () => {
     });
   });
 
+  describe('onToggle', () => {
+    it('calls onToggle with the index when clicked', () => {
+      const onToggle = jest.fn();
+      const item = mount(
+        <LegendItem {...mockProps} index={3} onToggle={onToggle} />,
+      );
+
+      item.find('button')!.trigger('onClick');
+
+      expect(onToggle).toHaveBeenCalledWith(3);
+    });
+
+    it('sets aria-pressed when the item can be toggled', () => {
+      const item = mount(
+        <LegendItem {...mockProps} isHidden onToggle={jest.fn()} />,
+      );
+
+      expect(item.find('button')).toHaveReactProps({'aria-pressed': false});
+    });
+
+    it('does not set aria-pressed without onToggle', () => {
+      const item = mount(<LegendItem {...mockProps} />);
+
+      expect(item.find('button')).toHaveReactProps({
+        'aria-pressed': undefined,
+      });
+    });
+
+    it('dims the item when its series is hidden', () => {
+      const item = mount(
+        <LegendItem {...mockProps} activeIndex={0} isHidden />,
+      );
+
+      expect(item.find('button')?.props?.style?.opacity).toStrictEqual(
+        HIDDEN_LEGEND_ITEM_OPACITY,
+      );
+    });
+  });
+
   describe('onDimensionChange', () => {
     it('calls onDimensionChange if passed in', () => {
       jest.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(
@@ -1,3 +1,4 @@
 export const LEGEND_ITEM_LEFT_PADDING = 8;
 export const LEGEND_ITEM_RIGHT_PADDING = 16;
 export const LEGEND_ITEM_GAP = 8;
+export const HIDDEN_LEGEND_ITEM_OPACITY = 0.4;
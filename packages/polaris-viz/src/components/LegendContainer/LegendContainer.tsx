@@ -44,6 +44,8 @@ export interface LegendContainerProps {
   enableHideOverflow?: boolean;
   renderHiddenLegendLabel?: RenderHiddenLegendLabel;
   dimensions?: BoundingRect;
+  hiddenSeries?: number[];
+  onToggleSeries?: (index: number) => void;
 }
 
 export function LegendContainer({
@@ -58,6 +60,8 @@ export function LegendContainer({
   enableHideOverflow = false,
   renderHiddenLegendLabel = (count) => `+${count} more`,
   dimensions,
+  hiddenSeries,
+  onToggleSeries,
 }: LegendContainerProps) {
   const selectedTheme = useTheme();
   const {setRef, entry} = useResizeObserver();
@@ -179,6 +183,8 @@ export function LegendContainer({
               enableHideOverflow ? legendItemDimensions : undefined
             }
             truncate={hasHiddenData}
+            hiddenSeries={hiddenSeries}
+            onToggleSeries={onToggleSeries}
           />
           {hasHiddenData && (
             <HiddenLegendTooltip
@@ -192,6 +198,8 @@ export function LegendContainer({
               lastVisibleIndex={allData.length - hiddenData.length}
               setActivatorWidth={setActivatorWidth}
               dimensions={dimensions}
+              hiddenSeries={hiddenSeries}
+              onToggleSeries={onToggleSeries}
             />
           )}
         </Fragment>
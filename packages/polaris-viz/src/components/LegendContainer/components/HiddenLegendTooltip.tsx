@@ -34,6 +34,8 @@ interface Props {
   theme?: string;
   lastVisibleIndex?: number;
   dimensions?: BoundingRect;
+  hiddenSeries?: number[];
+  onToggleSeries?: (index: number) => void;
   seriesNameFormatter?: LabelFormatter;
 }
 
@@ -49,6 +51,8 @@ export function HiddenLegendTooltip({
   lastVisibleIndex = 0,
   setActivatorWidth,
   dimensions,
+  hiddenSeries,
+  onToggleSeries,
   seriesNameFormatter,
 }: Props) {
   const selectedTheme = useTheme();
@@ -169,6 +173,8 @@ export function HiddenLegendTooltip({
             data={data}
             theme={theme}
             indexOffset={lastVisibleIndex}
+            hiddenSeries={hiddenSeries}
+            onToggleSeries={onToggleSeries}
             backgroundColor="transparent"
             seriesNameFormatter={seriesNameFormatter}
           />
@@ -67,6 +67,7 @@ export function useLegend({
               .toString(),
           }),
           ...(metadata && {trend: metadata.trend}),
+          ...(metadata?.isComputed === true && {isComputed: true}),
           color,
           shape,
           isComparison,
@@ -1,5 +1,5 @@
 import type {ReactNode} from 'react';
-import {useState, useRef, Fragment} from 'react';
+import {useMemo, useState, useRef, Fragment} from 'react';
 import {
   uniqueId,
   DataType,
@@ -11,6 +11,7 @@ import {
   useChartPositions,
   useChartContext,
   LINE_HEIGHT,
+  Y_AXIS_CHART_SPACING,
 } from '@shopify/polaris-viz-core';
 import type {
   XAxisOptions,
@@ -29,10 +30,13 @@ import {
 } from '../Annotations';
 import type {
   AnnotationLookupTable,
+  DataPointClickHandler,
   LineChartSlotProps,
+  ReferenceBand,
   RenderHiddenLegendLabel,
   RenderLegendContent,
   RenderTooltipContentData,
+  ZoomOptions,
 } from '../../types';
 import {useFormattedLabels} from '../../hooks/useFormattedLabels';
 import {XAxis} from '../XAxis';
@@ -46,11 +50,14 @@ import {
   TOOLTIP_POSITION_DEFAULT_RETURN,
 } from '../../components/TooltipWrapper';
 import {eventPointNative} from '../../utilities';
+import type {DataPointIndexes} from '../../utilities';
 import {
   useTheme,
   useColorVisionEvents,
   useWatchColorVisionEvents,
+  useDataPointClickEvents,
   useLinearLabelsAndDimensions,
+  useZoom,
 } from '../../hooks';
 import {
   ChartMargin,
@@ -62,11 +69,29 @@ import {VisuallyHiddenRows} from '../VisuallyHiddenRows';
 import {YAxis} from '../YAxis';
 import {HorizontalGridLines} from '../HorizontalGridLines';
 import {ChartElements} from '../ChartElements';
+import {
+  ZoomBrush,
+  ZoomOverview,
+  ZoomResetButton,
+  ZOOM_OVERVIEW_HEIGHT,
+  ZOOM_OVERVIEW_MARGIN,
+} from '../Zoom';
+import {useActiveIndex} from '../SyncGroup';
+import {
+  getReferenceMinMax,
+  ReferenceBands,
+  ReferenceLines,
+} from '../ReferenceLines';
+import type {ResolvedReferenceLine} from '../ReferenceLines';
 
 import {useLineChartTooltipContent} from './hooks/useLineChartTooltipContent';
 import {PointsAndCrosshair} from './components';
-import {useFormatData} from './hooks';
-import {getAlteredLineChartPosition, yAxisMinMax} from './utilities';
+import {useDualYAxis, useFormatData} from './hooks';
+import {
+  getAlteredLineChartPosition,
+  getSeriesYScale,
+  yAxisMinMax,
+} from './utilities';
 
 export interface ChartProps {
   renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
@@ -77,24 +102,41 @@ export interface ChartProps {
   hideLegendOverflow: boolean;
   xAxisOptions: Required<XAxisOptions>;
   yAxisOptions: Required<YAxisOptions>;
+  rightYAxisOptions: Required<YAxisOptions>;
+  activeIndex?: number | null;
   dimensions?: BoundingRect;
   emptyStateText?: string;
+  hiddenSeries?: number[];
+  onActiveIndexChange?: (index: number | null) => void;
+  onPointClick?: DataPointClickHandler<LineChartDataSeriesWithDefaults>;
+  onToggleSeries?: (index: number) => void;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ResolvedReferenceLine[];
   renderLegendContent?: RenderLegendContent;
   renderHiddenLegendLabel?: RenderHiddenLegendLabel;
   slots?: {
     chart?: (props: LineChartSlotProps) => JSX.Element;
   };
   theme?: string;
+  zoom?: ZoomOptions;
 }
 
 export function Chart({
+  activeIndex: controlledActiveIndex,
   annotationsLookupTable,
   emptyStateText,
-  data,
+  data: allData,
   dimensions,
+  hiddenSeries = [],
+  onActiveIndexChange,
+  onPointClick,
+  onToggleSeries,
+  referenceBands = [],
+  referenceLines = [],
   renderLegendContent,
   renderTooltipContent,
   renderHiddenLegendLabel,
+  rightYAxisOptions,
   seriesNameFormatter,
   showLegend = true,
   hideLegendOverflow = true,
@@ -102,7 +144,15 @@ export function Chart({
   theme = DEFAULT_THEME_NAME,
   xAxisOptions,
   yAxisOptions,
+  zoom: zoomOptions,
 }: ChartProps) {
+  const zoom = useZoom({
+    data: allData,
+    enabled: zoomOptions != null,
+    onZoomChange: zoomOptions?.onZoomChange,
+  });
+  const {data} = zoom;
+
   useColorVisionEvents({
     enabled: data.length > 1,
     dimensions,
@@ -111,7 +161,6 @@ export function Chart({
   const selectedTheme = useTheme(theme);
   const {isPerformanceImpacted} = useChartContext();
 
-  const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [activeLineIndex, setActiveLineIndex] = useState(-1);
   const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
   const [annotationsHeight, setAnnotationsHeight] = useState(0);
@@ -128,12 +177,21 @@ export function Chart({
     seriesNameFormatter,
   });
 
+  const showZoomOverview = zoomOptions?.type === 'overview';
+  const chartHeight = showZoomOverview
+    ? height - ZOOM_OVERVIEW_HEIGHT - ZOOM_OVERVIEW_MARGIN
+    : height;
+
   useWatchColorVisionEvents({
     type: COLOR_VISION_SINGLE_ITEM,
     onIndexChange: ({detail}) => setActiveLineIndex(detail.index),
   });
 
-  const {hiddenIndexes: hiddenLineIndexes} = useExternalHideEvents();
+  const {hiddenIndexes: externallyHiddenIndexes} = useExternalHideEvents();
+  const hiddenLineIndexes = useMemo(
+    () => [...externallyHiddenIndexes, ...hiddenSeries],
+    [externallyHiddenIndexes, hiddenSeries],
+  );
 
   const indexForLabels = useIndexForLabels(data);
 
@@ -144,31 +202,77 @@ export function Chart({
 
   const tooltipId = useRef(uniqueId('lineChart'));
   const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+  const drawableAreaRef = useRef<SVGGElement>(null);
+  // Releasing a brush drag also fires a click, which isn't a point click.
+  const didBrush = useRef(false);
 
   const emptyState =
     data.length === 0 || data.every((series) => series.data.length === 0);
 
-  const {minY, maxY} = yAxisMinMax(data);
+  const visibleData = data.filter((_, index) => !hiddenSeries.includes(index));
+  const hasRightYAxis = data.some(({yAxisId}) => yAxisId === 'right');
+
+  const {minY, maxY} = yAxisMinMax(
+    visibleData.filter(({yAxisId}) => yAxisId !== 'right'),
+  );
+  const {min, max} = getReferenceMinMax({
+    min: minY,
+    max: maxY,
+    referenceBands,
+    referenceLines,
+  });
 
   const yScaleOptions = {
     formatYAxisLabel: yAxisOptions.labelFormatter,
     integersOnly: yAxisOptions.integersOnly,
     fixedWidth: yAxisOptions.fixedWidth,
     maxYOverride: yAxisOptions.maxYOverride,
-    max: maxY,
-    min: minY,
+    minYOverride: yAxisOptions.minYOverride,
+    domain: yAxisOptions.domain,
+    includeZero: yAxisOptions.includeZero,
+    scale: yAxisOptions.scale,
+    max,
+    min,
   };
 
-  const {yAxisLabelWidth} = useYScale({
+  // Hooks can't be skipped, so the dual axis hooks get no data
+  // to work through unless a series uses the right axis.
+  const dualYAxisOptions = {
+    data: hasRightYAxis ? visibleData : [],
+    referenceBands,
+    referenceLines,
+    rightYAxisOptions,
+    yAxisOptions,
+  };
+
+  const initialSingleYAxis = useYScale({
     ...yScaleOptions,
-    drawableHeight: height,
+    drawableHeight: chartHeight,
     verticalOverflow: selectedTheme.grid.verticalOverflow,
   });
 
+  const initialDualYAxis = useDualYAxis({
+    ...dualYAxisOptions,
+    drawableHeight: chartHeight,
+  });
+
+  const {yAxisLabelWidth} = hasRightYAxis
+    ? initialDualYAxis
+    : initialSingleYAxis;
+  const rightYAxisWidth = hasRightYAxis
+    ? initialDualYAxis.rightYAxisLabelWidth + Y_AXIS_CHART_SPACING
+    : 0;
+
   const {longestSeriesLength, longestSeriesIndex} = useFormatData(data);
 
+  const {activeIndex, isControlled, setActiveIndex} = useActiveIndex({
+    activeIndex: controlledActiveIndex,
+    keys: data[longestSeriesIndex]?.data.map(({key}) => key) ?? [],
+    onActiveIndexChange,
+  });
+
   const {
-    drawableWidth,
+    drawableWidth: drawableAndRightYAxisWidth,
     drawableHeight,
     chartXPosition,
     chartYPosition,
@@ -176,28 +280,38 @@ export function Chart({
     yAxisBounds,
   } = useChartPositions({
     annotationsHeight,
-    height,
+    height: chartHeight,
     width,
     xAxisHeight,
     yAxisWidth: yAxisLabelWidth,
   });
 
-  const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
+  const drawableWidth = drawableAndRightYAxisWidth - rightYAxisWidth;
 
-  const {xAxisDetails, xScale, labels} = useLinearLabelsAndDimensions({
-    data,
-    drawableWidth,
-    hideXAxis,
-    labels: formattedLabels,
-    longestSeriesLength,
-  });
+  const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
 
-  const {ticks, yScale} = useYScale({
+  const {xAxisDetails, xScale, xAxisScale, labels} =
+    useLinearLabelsAndDimensions({
+      data,
+      drawableWidth,
+      hideXAxis,
+      labels: formattedLabels,
+      longestSeriesLength,
+      labelFormatter: xAxisOptions.labelFormatter,
+      xAxisType: xAxisOptions.type,
+    });
+
+  const singleYAxis = useYScale({
     ...yScaleOptions,
     drawableHeight,
     verticalOverflow: selectedTheme.grid.verticalOverflow,
   });
 
+  const dualYAxis = useDualYAxis({...dualYAxisOptions, drawableHeight});
+
+  const {ticks, minorTicks, yScale} = hasRightYAxis ? dualYAxis : singleYAxis;
+  const rightYScale = hasRightYAxis ? dualYAxis.rightYScale : undefined;
+
   const annotationsDrawableHeight =
     chartYPosition + drawableHeight + ANNOTATIONS_LABELS_OFFSET;
 
@@ -209,6 +323,84 @@ export function Chart({
     seriesNameFormatter,
   });
 
+  // Points are too small to reliably click on, so mouse clicks
+  // use the closest line at the hovered index instead.
+  function getClickedPoint(event: MouseEvent): DataPointIndexes | null {
+    if (didBrush.current) {
+      didBrush.current = false;
+      return null;
+    }
+
+    // Axes, legends and zoom controls outside of the lines
+    // don't resolve to a point.
+    if (!drawableAreaRef.current?.contains(event.target as Node)) {
+      return null;
+    }
+
+    const point = eventPointNative(event);
+
+    if (point == null || xScale == null || data[longestSeriesIndex] == null) {
+      return null;
+    }
+
+    const {svgX, svgY} = point;
+
+    const dataIndex = clamp({
+      amount: Math.round(xScale.invert(svgX - chartXPosition)),
+      min: 0,
+      max: data[longestSeriesIndex].data.length - 1,
+    });
+
+    let closest: DataPointIndexes | null = null;
+    let closestDistance = Infinity;
+
+    data.forEach((series, seriesIndex) => {
+      const value = series.data[dataIndex]?.value;
+      const isHidden =
+        series.metadata?.isVisuallyHidden === true ||
+        hiddenLineIndexes.includes(seriesIndex);
+
+      if (value == null || isHidden) {
+        return;
+      }
+
+      const seriesYScale = getSeriesYScale({series, yScale, rightYScale});
+      const distance = Math.abs(seriesYScale(value) + chartYPosition - svgY);
+
+      if (distance < closestDistance) {
+        closest = {seriesIndex, dataIndex};
+        closestDistance = distance;
+      }
+    });
+
+    return closest;
+  }
+
+  // Only the points of the longest line can be focused.
+  function getFocusedPoint(element: Element): DataPointIndexes | null {
+    const point = element.closest<SVGElement>(
+      `[data-type="${DataType.Point}"]`,
+    );
+
+    if (point == null) {
+      return null;
+    }
+
+    return {
+      seriesIndex: longestSeriesIndex,
+      dataIndex: Number(point.dataset.index),
+    };
+  }
+
+  useDataPointClickEvents({
+    data: allData,
+    dataIndexOffset: zoom.start,
+    getIndexesFromElement: getFocusedPoint,
+    getIndexesFromEvent: getClickedPoint,
+    onClick: onPointClick,
+    parentElement: svgRef,
+  });
+
   if (xScale == null || drawableWidth == null || yAxisLabelWidth == null) {
     return null;
   }
@@ -307,13 +499,14 @@ export function Chart({
             onHeightChange={setXAxisHeight}
             reducedLabelIndexes={xAxisDetails.reducedLabelIndexes}
             x={xAxisBounds.x - halfXAxisLabelWidth}
-            xScale={xScale}
+            xScale={xAxisScale}
             y={xAxisBounds.y}
           />
         )}
         {selectedTheme.grid.showHorizontalLines ? (
           <HorizontalGridLines
             ticks={ticks}
+            minorTicks={minorTicks}
             transform={{
               x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
               y: chartYPosition,
@@ -333,14 +526,31 @@ export function Chart({
           y={yAxisBounds.y}
         />
 
+        {hasRightYAxis ? (
+          <YAxis
+            ticks={dualYAxis.rightTicks}
+            width={initialDualYAxis.rightYAxisLabelWidth}
+            textAlign="left"
+            ariaHidden
+            x={chartXPosition + drawableWidth + Y_AXIS_CHART_SPACING}
+            y={yAxisBounds.y}
+          />
+        ) : null}
+
         {emptyState ? null : (
           <VisuallyHiddenRows
             data={data}
             formatYAxisLabel={yAxisOptions.labelFormatter}
-            xAxisLabels={labels}
+            xAxisLabels={formattedLabels}
           />
         )}
-        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+        <g
+          onPointerDown={() => {
+            didBrush.current = false;
+          }}
+          ref={drawableAreaRef}
+          transform={`translate(${chartXPosition},${chartYPosition})`}
+        >
           {slots?.chart?.({
             yScale,
             xScale,
@@ -349,6 +559,12 @@ export function Chart({
             theme,
           })}
 
+          <ReferenceBands
+            bands={referenceBands}
+            scale={yScale}
+            size={drawableWidth}
+          />
+
           {data.map((singleSeries, index) => {
             if (singleSeries.metadata?.isVisuallyHidden === true) {
               return null;
@@ -360,16 +576,27 @@ export function Chart({
                 data={singleSeries}
                 hiddenIndexes={hiddenLineIndexes}
                 index={index}
-                key={`${name}-${index}`}
+                key={`${singleSeries.name}-${index}`}
                 svgDimensions={{height: drawableHeight, width: drawableWidth}}
                 theme={theme}
                 xScale={xScale}
-                yScale={yScale}
+                yScale={getSeriesYScale({
+                  series: singleSeries,
+                  yScale,
+                  rightYScale,
+                })}
                 type="default"
               />
             );
           })}
 
+          <ReferenceLines
+            labelFormatter={yAxisOptions.labelFormatter}
+            lines={referenceLines}
+            scale={yScale}
+            size={drawableWidth}
+          />
+
           <PointsAndCrosshair
             activeIndex={activeIndex}
             data={data}
@@ -377,13 +604,59 @@ export function Chart({
             emptyState={emptyState}
             hiddenIndexes={hiddenLineIndexes}
             longestSeriesIndex={longestSeriesIndex}
+            rightYScale={rightYScale}
             theme={theme}
             tooltipId={tooltipId.current}
             xScale={xScale}
             yScale={yScale}
           />
+
+          {zoomOptions == null || emptyState ? null : (
+            <ZoomBrush
+              drawableHeight={drawableHeight}
+              drawableWidth={drawableWidth}
+              isZoomed={zoom.isZoomed}
+              onKeyDown={zoom.onKeyDown}
+              onPan={(offset) => {
+                didBrush.current = true;
+                zoom.pan(offset);
+              }}
+              onZoom={(start, end) => {
+                didBrush.current = true;
+                zoom.zoomTo(zoom.start + start, zoom.start + end);
+              }}
+              theme={theme}
+              xScale={xScale}
+            />
+          )}
         </g>
 
+        {showZoomOverview && !emptyState ? (
+          <ZoomOverview
+            data={allData}
+            dataLength={zoom.dataLength}
+            end={zoom.end}
+            height={ZOOM_OVERVIEW_HEIGHT}
+            onKeyDown={zoom.onKeyDown}
+            onZoom={zoom.zoomTo}
+            start={zoom.start}
+            theme={theme}
+            width={drawableWidth}
+            x={chartXPosition}
+            y={height - ZOOM_OVERVIEW_HEIGHT}
+          />
+        ) : null}
+
+        {zoom.isZoomed ? (
+          <ZoomResetButton
+            label={zoomOptions?.resetLabel}
+            onClick={zoom.reset}
+            theme={theme}
+            x={chartXPosition + drawableWidth}
+            y={chartYPosition}
+          />
+        ) : null}
+
         {hasXAxisAnnotations && (
           <g transform={`translate(${chartXPosition},0)`} tabIndex={-1}>
             <Annotations
@@ -426,13 +699,21 @@ export function Chart({
           id={tooltipId.current}
           margin={ChartMargin}
           onIndexChange={(index) => {
-            if (index != null && isPerformanceImpacted) {
+            // The crosshair is moved directly when nothing
+            // else needs to know about the active index.
+            const canMoveCrosshair =
+              isPerformanceImpacted &&
+              !isControlled &&
+              onActiveIndexChange == null;
+
+            if (index != null && canMoveCrosshair) {
               moveCrosshair(index);
             } else {
               setActiveIndex(index);
             }
           }}
           parentRef={svgRef}
+          activeIndex={isControlled ? activeIndex : undefined}
           usePortal
         />
       )}
@@ -446,6 +727,8 @@ export function Chart({
           renderHiddenLegendLabel={renderHiddenLegendLabel}
           dimensions={dimensions}
           enableHideOverflow={hideLegendOverflow}
+          hiddenSeries={hiddenSeries}
+          onToggleSeries={onToggleSeries}
         />
       )}
     </Fragment>
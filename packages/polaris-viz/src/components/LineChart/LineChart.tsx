@@ -1,4 +1,4 @@
-import {Fragment, useRef} from 'react';
+import {Fragment, useMemo, useRef} from 'react';
 import type {
   XAxisOptions,
   YAxisOptions,
@@ -20,53 +20,91 @@ import {ChartContainer} from '../../components/ChartContainer';
 import {ChartSkeleton} from '../../components/ChartSkeleton';
 import {useThemeSeriesColors} from '../../hooks/useThemeSeriesColors';
 import {
+  alignAnnotationsToTimeKeys,
   getXAxisOptionsWithDefaults,
+  getTrendlineSeries,
   getYAxisOptionsWithDefaults,
   normalizeData,
 } from '../../utilities';
 import {SkipLink} from '../SkipLink';
-import {useTheme} from '../../hooks';
+import {useHiddenSeries, useTheme} from '../../hooks';
 import type {
   Annotation,
+  DataPointClickHandler,
   LineChartSlotProps,
+  ReferenceBand,
+  ReferenceLine,
   RenderLegendContent,
   TooltipOptions,
+  Trendline,
+  ZoomOptions,
 } from '../../types';
+import {resolveReferenceLines} from '../ReferenceLines';
 
 import {Chart} from './Chart';
 
 export type LineChartProps = {
+  activeIndex?: number | null;
   annotations?: Annotation[];
   errorText?: string;
   emptyStateText?: string;
+  /**
+   * Indexes of the series hidden by toggling their legend items.
+   * Leave undefined to let the chart track them itself.
+   */
+  hiddenSeries?: number[];
+  onHiddenSeriesChange?: (hiddenSeries: number[]) => void;
   renderLegendContent?: RenderLegendContent;
   renderHiddenLegendLabel?: (count: number) => string;
   seriesNameFormatter?: LabelFormatter;
   showLegend?: boolean;
   hideLegendOverflow?: boolean;
+  onActiveIndexChange?: (index: number | null) => void;
+  onPointClick?: DataPointClickHandler;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ReferenceLine[];
+  /**
+   * Options for the axis drawn on the right when a series
+   * has a `yAxisId` of `right`.
+   */
+  rightYAxisOptions?: Partial<YAxisOptions>;
   skipLinkText?: string;
   tooltipOptions?: TooltipOptions;
+  trendlines?: Trendline[];
   xAxisOptions?: Partial<XAxisOptions>;
   yAxisOptions?: Partial<YAxisOptions>;
   slots?: {
     chart?: (props: LineChartSlotProps) => JSX.Element;
   };
   scrollContainer?: Element | null;
+  zoom?: ZoomOptions;
 } & ChartProps;
 
+// Shared defaults keep the references stable between renders.
+const NO_REFERENCE_BANDS: ReferenceBand[] = [];
+const NO_REFERENCE_LINES: ReferenceLine[] = [];
+
 export function LineChart(props: LineChartProps) {
   const {defaultTheme} = usePolarisVizContext();
 
   const {
+    activeIndex,
     annotations = [],
     data: dataSeries,
     emptyStateText,
     errorText,
+    hiddenSeries: controlledHiddenSeries,
     id,
     isAnimated,
+    onActiveIndexChange,
+    onHiddenSeriesChange,
     onError,
+    onPointClick,
+    referenceBands = NO_REFERENCE_BANDS,
+    referenceLines = NO_REFERENCE_LINES,
     renderLegendContent,
     renderHiddenLegendLabel,
+    rightYAxisOptions,
     seriesNameFormatter = (value) => `${value}`,
     showLegend = true,
     hideLegendOverflow = true,
@@ -74,33 +112,67 @@ export function LineChart(props: LineChartProps) {
     state,
     theme = defaultTheme,
     tooltipOptions,
+    trendlines = [],
     xAxisOptions,
     yAxisOptions,
     scrollContainer,
+    zoom,
   } = {
     ...DEFAULT_CHART_PROPS,
     ...props,
   };
 
-  const data = fillMissingDataPoints(dataSeries, true);
+  const isTimeData = xAxisOptions?.type === 'time';
+
+  const filledData = useMemo(
+    () => fillMissingDataPoints(dataSeries, true, isTimeData),
+    [dataSeries, isTimeData],
+  );
 
   const selectedTheme = useTheme(theme);
-  const seriesColors = useThemeSeriesColors(data, selectedTheme);
+  const filledColors = useThemeSeriesColors(filledData, selectedTheme);
+
+  const trendlineSeries = getTrendlineSeries({
+    colors: filledColors,
+    data: filledData,
+    trendlines,
+  });
+
+  const data = [...filledData, ...trendlineSeries];
+  const seriesColors = [
+    ...filledColors,
+    ...trendlineSeries.map(({color}) => color!),
+  ];
 
   const skipLinkAnchorId = useRef(uniqueId('lineChart'));
 
+  const {hiddenSeries, toggleSeries} = useHiddenSeries({
+    hiddenSeries: controlledHiddenSeries,
+    onHiddenSeriesChange,
+  });
+
   const xAxisOptionsWithDefaults = getXAxisOptionsWithDefaults(xAxisOptions);
   const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
+  const rightYAxisOptionsWithDefaults =
+    getYAxisOptionsWithDefaults(rightYAxisOptions);
 
   const renderTooltip = getTooltipContentRenderer({
     tooltipOptions,
     theme,
     data,
   });
-  const annotationsLookupTable = normalizeData(annotations, 'startKey');
+  const annotationsLookupTable = normalizeData(
+    isTimeData ? alignAnnotationsToTimeKeys(annotations, data) : annotations,
+    'startKey',
+  );
 
   const dataWithDefaults = getLineChartDataWithDefaults(data, seriesColors);
 
+  const resolvedReferenceLines = useMemo(
+    () => resolveReferenceLines(referenceLines, filledData),
+    [filledData, referenceLines],
+  );
+
   return (
     <Fragment>
       {skipLinkText == null ||
@@ -121,12 +193,20 @@ export function LineChart(props: LineChartProps) {
           <ChartSkeleton state={state} errorText={errorText} theme={theme} />
         ) : (
           <Chart
+            activeIndex={activeIndex}
             annotationsLookupTable={annotationsLookupTable}
             data={dataWithDefaults}
             emptyStateText={emptyStateText}
+            hiddenSeries={hiddenSeries}
+            onActiveIndexChange={onActiveIndexChange}
+            onPointClick={onPointClick}
+            onToggleSeries={toggleSeries}
+            referenceBands={referenceBands}
+            referenceLines={resolvedReferenceLines}
             renderLegendContent={renderLegendContent}
             renderTooltipContent={renderTooltip}
             renderHiddenLegendLabel={renderHiddenLegendLabel}
+            rightYAxisOptions={rightYAxisOptionsWithDefaults}
             seriesNameFormatter={seriesNameFormatter}
             showLegend={showLegend}
             hideLegendOverflow={hideLegendOverflow}
@@ -134,6 +214,7 @@ export function LineChart(props: LineChartProps) {
             xAxisOptions={xAxisOptionsWithDefaults}
             yAxisOptions={yAxisOptionsWithDefaults}
             slots={props.slots}
+            zoom={zoom}
           />
         )}
       </ChartContainer>
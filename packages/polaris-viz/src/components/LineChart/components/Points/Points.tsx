@@ -1,6 +1,6 @@
 import {Fragment, useState} from 'react';
 import type {Interpolation} from '@react-spring/web';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric, ScaleLinear} from 'd3-scale';
 import {
   LinearGradientWithStops,
   isGradientType,
@@ -16,6 +16,7 @@ import type {LineChartDataSeriesWithDefaults} from '@shopify/polaris-viz-core';
 import {useWatchColorVisionEvents} from '../../../../hooks';
 import {Point} from '../../../Point';
 import type {AnimatedCoordinate} from '../../../../types';
+import {getSeriesYScale} from '../../utilities';
 
 interface PointsProps {
   activeIndex: number | null;
@@ -35,8 +36,9 @@ interface PointsProps {
         number
       >;
   xScale: ScaleLinear<number, number>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   hiddenIndexes?: number[];
+  rightYScale?: ScaleContinuousNumeric<number, number>;
 }
 
 export function Points({
@@ -47,6 +49,7 @@ export function Points({
   gradientId,
   hiddenIndexes = [],
   longestSeriesIndex,
+  rightYScale,
   tooltipId,
   xScale,
   yScale,
@@ -76,6 +79,11 @@ export function Points({
         }
 
         const {data: singleData, name, color} = singleSeries;
+        const seriesYScale = getSeriesYScale({
+          series: singleSeries,
+          yScale,
+          rightYScale,
+        });
         const isLongestLine = index === longestSeriesIndex;
         const pointGradientId = `${gradientId}-point-${index}`;
         const animatedYPosition =
@@ -145,7 +153,7 @@ export function Points({
                     dataType={DataType.Point}
                     color={pointColor}
                     cx={xScale(dataIndex)}
-                    cy={yScale(value)}
+                    cy={seriesYScale(value)}
                     active={activeIndex === dataIndex}
                     index={dataIndex}
                     tabIndex={isLongestLine ? 0 : -1}
@@ -1,20 +1,21 @@
-import {Fragment, useMemo, useRef} from 'react';
+import {Fragment, useCallback, useMemo, useRef} from 'react';
 import type {
   DataPoint,
   LineChartDataSeriesWithDefaults,
 } from '@shopify/polaris-viz-core';
 import {
-  curveStepRounded,
+  getLineCurve,
   uniqueId,
   useChartContext,
   useTheme,
 } from '@shopify/polaris-viz-core';
 import {line} from 'd3-shape';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric, ScaleLinear} from 'd3-scale';
 
 import {CROSSHAIR_ID} from '../../../../constants';
 import {useLinearChartAnimations} from '../../../../hooks';
 import {Crosshair} from '../../../Crosshair';
+import {getSeriesYScale} from '../../utilities';
 import {Points} from '../Points';
 
 interface PointsAndCrosshairProps {
@@ -27,7 +28,8 @@ interface PointsAndCrosshairProps {
   theme: string;
   tooltipId: string;
   xScale: ScaleLinear<number, number>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
+  rightYScale?: ScaleContinuousNumeric<number, number>;
 }
 
 export function PointsAndCrosshair({
@@ -37,6 +39,7 @@ export function PointsAndCrosshair({
   emptyState,
   hiddenIndexes = [],
   longestSeriesIndex,
+  rightYScale,
   theme,
   tooltipId,
   xScale,
@@ -47,16 +50,30 @@ export function PointsAndCrosshair({
 
   const gradientId = useRef(uniqueId('lineChartGradient'));
 
-  const lineGenerator = useMemo(() => {
-    const generator = line<DataPoint>()
-      .x((_, index) => (xScale == null ? 0 : xScale(index)))
-      .y(({value}) => yScale(value ?? 0));
+  // Points follow each series along its own curve.
+  const lineGenerators = useMemo(
+    () =>
+      data.map((series) => {
+        const seriesYScale = getSeriesYScale({series, yScale, rightYScale});
 
-    if (selectedTheme.line.hasSpline) {
-      generator.curve(curveStepRounded);
-    }
-    return generator;
-  }, [selectedTheme.line.hasSpline, xScale, yScale]);
+        return line<DataPoint>()
+          .x((_, index) => (xScale == null ? 0 : xScale(index)))
+          .y(({value}) => seriesYScale(value ?? 0))
+          .curve(
+            getLineCurve({
+              curve: series.styleOverride?.line?.curve,
+              hasSpline: selectedTheme.line.hasSpline,
+            }),
+          );
+      }),
+    [data, selectedTheme.line.hasSpline, xScale, yScale, rightYScale],
+  );
+
+  const lineGenerator = useCallback(
+    (points: DataPoint[], seriesIndex: number) =>
+      lineGenerators[seriesIndex](points),
+    [lineGenerators],
+  );
 
   const {animatedCoordinates} = useLinearChartAnimations({
     data,
@@ -109,6 +126,7 @@ export function PointsAndCrosshair({
           gradientId={gradientId.current}
           hiddenIndexes={hiddenIndexes}
           longestSeriesIndex={longestSeriesIndex}
+          rightYScale={rightYScale}
           tooltipId={tooltipId}
           xScale={xScale}
           yScale={yScale}
@@ -1 +1,2 @@
 export {useFormatData} from './useFormatData';
+export {useDualYAxis} from './useDualYAxis';
@@ -29,6 +29,30 @@ describe('useLineChartTooltipContent()', () => {
     );
   });
 
+  it('marks computed series', () => {
+    const renderTooltipContentSpy = jest.fn();
+
+    mount(
+      <TestComponent
+        {...MOCK_PROPS}
+        data={[
+          ...MOCK_PROPS.data,
+          {
+            name: 'Trend',
+            data: [{key: 'One', value: 2}],
+            color: 'red',
+            metadata: {isComputed: true},
+          },
+        ]}
+        renderTooltipContent={renderTooltipContentSpy}
+      />,
+    );
+
+    const [{data}] = renderTooltipContentSpy.mock.calls[0];
+
+    expect(data[0].data[1]).toMatchObject({key: 'Trend', isComputed: true});
+  });
+
   function TestComponent(props: Props) {
     const result = useLineChartTooltipContent(props);
 
@@ -0,0 +1,102 @@
+import {useMemo} from 'react';
+import type {
+  DataGroup,
+  DataSeries,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+import type {ReferenceBand} from '../../../types';
+import type {ResolvedReferenceLine} from '../../ReferenceLines';
+import {
+  useDualAxisScale,
+  useDualAxisTicks,
+  useDualAxisTicksWidth,
+} from '../../ComboChart/hooks';
+
+interface Props {
+  data: DataSeries[];
+  drawableHeight: number;
+  referenceBands: ReferenceBand[];
+  referenceLines: ResolvedReferenceLine[];
+  rightYAxisOptions: Required<YAxisOptions>;
+  yAxisOptions: Required<YAxisOptions>;
+}
+
+// Splits the series by `yAxisId` and lines the right axis ticks
+// up with the left ones the same way `<ComboChart />` does.
+// References always belong to the left axis.
+export function useDualYAxis({
+  data,
+  drawableHeight,
+  referenceBands,
+  referenceLines,
+  rightYAxisOptions,
+  yAxisOptions,
+}: Props) {
+  const dataGroups = useMemo<DataGroup[]>(
+    () => [
+      {
+        shape: 'Line',
+        series: data.filter(({yAxisId}) => yAxisId !== 'right'),
+        yAxisOptions,
+      },
+      {
+        shape: 'Line',
+        series: data.filter(({yAxisId}) => yAxisId === 'right'),
+        yAxisOptions: rightYAxisOptions,
+      },
+    ],
+    [data, rightYAxisOptions, yAxisOptions],
+  );
+
+  const {
+    doBothChartsContainMixedValues,
+    doesOneChartContainAllNegativeValues,
+    primaryAxis,
+    primaryMinorTicks: leftMinorTicks,
+    primaryTicks: leftTicks,
+    secondaryAxis,
+    secondaryTicks: rightTicks,
+    shouldPlaceZeroInMiddleOfChart,
+    ticksBetweenZeroAndMax,
+    unalignedSecondaryYScale,
+    yScale,
+  } = useDualAxisTicks({
+    data: dataGroups,
+    drawableHeight,
+    referenceBands,
+    referenceLines,
+  });
+
+  const {leftTickWidth, rightTickWidth} = useDualAxisTicksWidth(
+    leftTicks,
+    rightTicks,
+  );
+
+  const {primaryYScale, secondaryYScale} = useDualAxisScale({
+    doBothChartsContainMixedValues,
+    doesOneChartContainAllNegativeValues,
+    drawableHeight,
+    primaryAxis,
+    secondaryAxis,
+    shouldPlaceZeroInMiddleOfChart,
+    ticksBetweenZeroAndMax,
+    unalignedSecondaryYScale,
+    yScale,
+  });
+
+  // The axis with the most important ticks drives the other one,
+  // so it isn't always the left axis. The ticks already come back
+  // by side, only the scales follow the driving axis.
+  const isLeftAxisPrimary = primaryAxis.index === 0;
+
+  return {
+    minorTicks: leftMinorTicks,
+    rightTicks,
+    rightYAxisLabelWidth: rightTickWidth,
+    rightYScale: isLeftAxisPrimary ? secondaryYScale : primaryYScale,
+    ticks: leftTicks,
+    yAxisLabelWidth: leftTickWidth,
+    yScale: isLeftAxisPrimary ? primaryYScale : secondaryYScale,
+  };
+}
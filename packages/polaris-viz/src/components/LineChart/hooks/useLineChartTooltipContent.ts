@@ -42,18 +42,23 @@ export function useLineChartTooltipContent({
         ? data[indexForLabels].data[activeIndex].key
         : '';
 
-      data.forEach(({name, data: seriesData, color, isComparison}, index) => {
+      data.forEach((series, index) => {
+        const {name, data: seriesData, color, isComparison, metadata} = series;
+
         if (!seriesData[activeIndex]) {
           return;
         }
-        const {value} = seriesData[activeIndex];
+        const {value, lower, upper} = seriesData[activeIndex];
 
         tooltipData[0].data.push({
           key: `${seriesNameFormatter(name ?? '')}`,
           value,
           color: color!,
           isComparison,
+          isComputed: metadata?.isComputed,
           isHidden: hiddenIndexes.includes(index),
+          lower,
+          upper,
         });
       });
 
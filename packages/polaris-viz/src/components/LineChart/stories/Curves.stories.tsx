@@ -0,0 +1,30 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+
+import {DEFAULT_PROPS, Template} from './data';
+
+const INVENTORY = [
+  {key: 'Mon', value: 40},
+  {key: 'Tue', value: 40},
+  {key: 'Wed', value: 25},
+  {key: 'Thu', value: 0},
+  {key: 'Fri', value: 60},
+  {key: 'Sat', value: 55},
+  {key: 'Sun', value: 0},
+];
+
+export const Curves: Story<LineChartProps> = Template.bind({});
+
+Curves.args = {
+  ...DEFAULT_PROPS,
+  data: (
+    ['linear', 'monotoneX', 'stepAfter', 'stepBefore', 'rounded'] as const
+  ).map((curve, index) => ({
+    name: curve,
+    data: INVENTORY.map(({key, value}) => ({key, value: value + index * 10})),
+    styleOverride: {line: {curve, hasArea: false}},
+  })),
+};
@@ -0,0 +1,48 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+
+import {DEFAULT_PROPS, Template} from './data';
+
+const CONVERSION_RATE_DATA = [
+  {
+    name: 'Conversion rate',
+    data: [
+      {value: 2.1, key: '2020-04-01T12:00:00'},
+      {value: 2.4, key: '2020-04-02T12:00:00'},
+      {value: 2.2, key: '2020-04-03T12:00:00'},
+      {value: 2.9, key: '2020-04-04T12:00:00'},
+      {value: 3.3, key: '2020-04-05T12:00:00'},
+      {value: 3.1, key: '2020-04-06T12:00:00'},
+      {value: 3.6, key: '2020-04-07T12:00:00'},
+    ],
+  },
+];
+
+const labelFormatter = (value: number) => `${value}%`;
+
+export const ExcludeZero: Story<LineChartProps> = Template.bind({});
+
+ExcludeZero.args = {
+  ...DEFAULT_PROPS,
+  data: CONVERSION_RATE_DATA,
+  yAxisOptions: {includeZero: false, labelFormatter},
+};
+
+export const FixedDomain: Story<LineChartProps> = Template.bind({});
+
+FixedDomain.args = {
+  ...DEFAULT_PROPS,
+  data: CONVERSION_RATE_DATA,
+  yAxisOptions: {domain: [1, 4], labelFormatter},
+};
+
+export const MinYOverride: Story<LineChartProps> = Template.bind({});
+
+MinYOverride.args = {
+  ...DEFAULT_PROPS,
+  data: CONVERSION_RATE_DATA,
+  yAxisOptions: {minYOverride: 1.5, labelFormatter},
+};
@@ -0,0 +1,43 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+import {formatPercentageYAxisLabel} from '../../../storybook/utilities';
+
+import {Template} from './data';
+
+export const DualYAxis: Story<LineChartProps> = Template.bind({});
+
+DualYAxis.args = {
+  rightYAxisOptions: {
+    labelFormatter: formatPercentageYAxisLabel,
+  },
+  data: [
+    {
+      name: 'Sessions',
+      data: [
+        {value: 3200, key: '2020-04-01T12:00:00'},
+        {value: 4100, key: '2020-04-02T12:00:00'},
+        {value: 3800, key: '2020-04-03T12:00:00'},
+        {value: 5200, key: '2020-04-04T12:00:00'},
+        {value: 6100, key: '2020-04-05T12:00:00'},
+        {value: 5700, key: '2020-04-06T12:00:00'},
+        {value: 6900, key: '2020-04-07T12:00:00'},
+      ],
+    },
+    {
+      name: 'Conversion rate',
+      yAxisId: 'right',
+      data: [
+        {value: 0.021, key: '2020-04-01T12:00:00'},
+        {value: 0.025, key: '2020-04-02T12:00:00'},
+        {value: 0.032, key: '2020-04-03T12:00:00'},
+        {value: 0.028, key: '2020-04-04T12:00:00'},
+        {value: 0.035, key: '2020-04-05T12:00:00'},
+        {value: 0.041, key: '2020-04-06T12:00:00'},
+        {value: 0.038, key: '2020-04-07T12:00:00'},
+      ],
+    },
+  ],
+};
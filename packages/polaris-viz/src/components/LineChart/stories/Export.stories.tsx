@@ -0,0 +1,66 @@
+export {META as default} from './meta';
+
+import {LineChart} from '../LineChart';
+import {useChartExport} from '../../../hooks';
+
+import {DEFAULT_DATA, DEFAULT_PROPS} from './data';
+
+const CHART_ID = 'export-story';
+
+function download(content: Blob | string, filename: string, type: string) {
+  const blob =
+    typeof content === 'string' ? new Blob([content], {type}) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
+
+export const Export = () => {
+  const {exportSVG, exportPNG, exportCSV, exportJSON} = useChartExport(
+    CHART_ID,
+    {
+      data: DEFAULT_DATA,
+      xAxisOptions: DEFAULT_PROPS.xAxisOptions,
+      yAxisOptions: DEFAULT_PROPS.yAxisOptions,
+    },
+  );
+
+  return (
+    <div>
+      <div style={{display: 'flex', gap: 8, marginBottom: 16}}>
+        <button
+          onClick={async () =>
+            download(await exportSVG(), 'chart.svg', 'image/svg+xml')
+          }
+        >
+          Export SVG
+        </button>
+        <button
+          onClick={async () =>
+            download(await exportPNG(), 'chart.png', 'image/png')
+          }
+        >
+          Export PNG
+        </button>
+        <button onClick={() => download(exportCSV(), 'chart.csv', 'text/csv')}>
+          Export CSV
+        </button>
+        <button
+          onClick={() =>
+            download(exportJSON(), 'chart.json', 'application/json')
+          }
+        >
+          Export JSON
+        </button>
+      </div>
+      <div style={{height: 400}}>
+        <LineChart {...DEFAULT_PROPS} data={DEFAULT_DATA} id={CHART_ID} />
+      </div>
+    </div>
+  );
+};
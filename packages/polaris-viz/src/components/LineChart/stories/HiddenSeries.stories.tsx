@@ -0,0 +1,30 @@
+import type {Story} from '@storybook/react';
+import {useState} from 'react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+import {LineChart} from '../LineChart';
+
+import {DEFAULT_DATA, DEFAULT_PROPS, Template} from './data';
+
+export const HiddenSeries: Story<LineChartProps> = Template.bind({});
+
+HiddenSeries.args = {
+  ...DEFAULT_PROPS,
+  data: DEFAULT_DATA,
+  onHiddenSeriesChange: (hiddenSeries) => console.log(hiddenSeries),
+};
+
+export const ControlledHiddenSeries = () => {
+  const [hiddenSeries, setHiddenSeries] = useState<number[]>([1]);
+
+  return (
+    <LineChart
+      {...DEFAULT_PROPS}
+      data={DEFAULT_DATA}
+      hiddenSeries={hiddenSeries}
+      onHiddenSeriesChange={setHiddenSeries}
+    />
+  );
+};
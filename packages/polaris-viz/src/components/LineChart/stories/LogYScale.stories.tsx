@@ -0,0 +1,43 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+import {formatLinearYAxisLabel} from '../../../storybook/utilities';
+
+import {Template} from './data';
+
+export const LogYScale: Story<LineChartProps> = Template.bind({});
+
+LogYScale.args = {
+  yAxisOptions: {
+    scale: 'log',
+    labelFormatter: formatLinearYAxisLabel,
+  },
+  data: [
+    {
+      name: 'Sessions',
+      data: [
+        {value: 12, key: '2020-04-01T12:00:00'},
+        {value: 85, key: '2020-04-02T12:00:00'},
+        {value: 430, key: '2020-04-03T12:00:00'},
+        {value: 2900, key: '2020-04-04T12:00:00'},
+        {value: 18000, key: '2020-04-05T12:00:00'},
+        {value: 96000, key: '2020-04-06T12:00:00'},
+        {value: 410000, key: '2020-04-07T12:00:00'},
+      ],
+    },
+    {
+      name: 'Orders',
+      data: [
+        {value: 1, key: '2020-04-01T12:00:00'},
+        {value: 4, key: '2020-04-02T12:00:00'},
+        {value: 21, key: '2020-04-03T12:00:00'},
+        {value: 130, key: '2020-04-04T12:00:00'},
+        {value: 760, key: '2020-04-05T12:00:00'},
+        {value: 3400, key: '2020-04-06T12:00:00'},
+        {value: 15200, key: '2020-04-07T12:00:00'},
+      ],
+    },
+  ],
+};
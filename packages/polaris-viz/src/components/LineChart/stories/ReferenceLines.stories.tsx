@@ -0,0 +1,22 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+
+import {DEFAULT_DATA, DEFAULT_PROPS, Template} from './data';
+
+export const ReferenceLines: Story<LineChartProps> = Template.bind({});
+
+ReferenceLines.args = {
+  ...DEFAULT_PROPS,
+  data: DEFAULT_DATA,
+  referenceBands: [
+    {from: 300, to: 600, label: 'Acceptable range', color: '#2E9E6B'},
+  ],
+  referenceLines: [
+    {value: 900, label: 'Target', color: '#D4380D', strokeDasharray: 'none'},
+    {value: 'average', label: 'Average', seriesIndex: 0},
+    {value: 'median', label: 'Median', seriesIndex: 0, strokeDasharray: '1 3'},
+  ],
+};
@@ -0,0 +1,39 @@
+import {useState} from 'react';
+
+export {META as default} from './meta';
+
+import {LineChart} from '../LineChart';
+import {StackedAreaChart} from '../../StackedAreaChart';
+import {SyncGroup} from '../../SyncGroup';
+
+import {DEFAULT_DATA, DEFAULT_PROPS} from './data';
+
+const CHART_STYLE = {height: 250};
+
+export const SyncedCharts = () => {
+  return (
+    <SyncGroup>
+      <div style={CHART_STYLE}>
+        <LineChart {...DEFAULT_PROPS} data={DEFAULT_DATA} />
+      </div>
+      <div style={CHART_STYLE}>
+        <StackedAreaChart {...DEFAULT_PROPS} data={DEFAULT_DATA} />
+      </div>
+    </SyncGroup>
+  );
+};
+
+export const ControlledActiveIndex = () => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(3);
+
+  return (
+    <div style={CHART_STYLE}>
+      <LineChart
+        {...DEFAULT_PROPS}
+        activeIndex={activeIndex}
+        data={DEFAULT_DATA}
+        onActiveIndexChange={setActiveIndex}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+import {formatLinearYAxisLabel} from '../../../storybook/utilities';
+
+import {Template} from './data';
+
+export const TimeXAxis: Story<LineChartProps> = Template.bind({});
+
+TimeXAxis.args = {
+  xAxisOptions: {
+    type: 'time',
+  },
+  yAxisOptions: {labelFormatter: formatLinearYAxisLabel},
+  tooltipOptions: {
+    titleFormatter: (value) => new Date(value!).toLocaleString(),
+    valueFormatter: formatLinearYAxisLabel,
+  },
+  data: [
+    {
+      name: 'Orders',
+      data: [
+        {value: 120, key: '2020-04-01T08:00:00'},
+        {value: 180, key: '2020-04-01T09:30:00'},
+        {value: 90, key: '2020-04-01T14:00:00'},
+        {value: 310, key: '2020-04-02T10:00:00'},
+        {value: 280, key: '2020-04-04T16:00:00'},
+        {value: 410, key: '2020-04-05T11:00:00'},
+        {value: 150, key: '2020-04-09T12:00:00'},
+        {value: 220, key: '2020-04-10T09:00:00'},
+      ],
+    },
+    {
+      name: 'Returns',
+      data: [
+        {value: 12, key: '2020-04-01T09:30:00'},
+        {value: 40, key: '2020-04-02T10:00:00'},
+        {value: 25, key: '2020-04-03T18:00:00'},
+        {value: 31, key: '2020-04-05T11:00:00'},
+        {value: 8, key: '2020-04-10T09:00:00'},
+      ],
+    },
+  ],
+};
@@ -0,0 +1,18 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+
+import {DEFAULT_DATA, DEFAULT_PROPS, Template} from './data';
+
+export const Trendlines: Story<LineChartProps> = Template.bind({});
+
+Trendlines.args = {
+  ...DEFAULT_PROPS,
+  data: [DEFAULT_DATA[0]],
+  trendlines: [
+    {seriesIndex: 0, type: 'linear'},
+    {seriesIndex: 0, type: 'movingAverage', period: 3},
+  ],
+};
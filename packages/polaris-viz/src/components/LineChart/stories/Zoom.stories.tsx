@@ -0,0 +1,43 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {LineChartProps} from '../../../components';
+import {formatLinearYAxisLabel} from '../../../storybook/utilities';
+
+import {Template} from './data';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const START_DATE = new Date('2023-01-01T12:00:00').getTime();
+
+function buildSeries(name: string, offset: number) {
+  return {
+    name,
+    data: Array.from({length: 120}, (_, index) => ({
+      key: new Date(START_DATE + index * DAY_IN_MS).toISOString(),
+      value: Math.round(
+        500 + offset + Math.sin(index / 6) * 200 + (index % 7) * 25,
+      ),
+    })),
+  };
+}
+
+const DATA = [buildSeries('Sessions', 200), buildSeries('Visitors', 0)];
+
+export const Brush: Story<LineChartProps> = Template.bind({});
+
+Brush.args = {
+  data: DATA,
+  xAxisOptions: {type: 'time'},
+  yAxisOptions: {labelFormatter: formatLinearYAxisLabel},
+  zoom: {type: 'brush', onZoomChange: (range) => console.log(range)},
+};
+
+export const Overview: Story<LineChartProps> = Template.bind({});
+
+Overview.args = {
+  data: DATA,
+  xAxisOptions: {type: 'time'},
+  yAxisOptions: {labelFormatter: formatLinearYAxisLabel},
+  zoom: {type: 'overview', onZoomChange: (range) => console.log(range)},
+};
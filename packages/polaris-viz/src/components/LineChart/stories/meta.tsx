@@ -1,7 +1,11 @@
 import type {Meta} from '@storybook/react';
 
 import {
+  HIDDEN_SERIES_ARGS,
   ANNOTATIONS_ARGS,
+  REFERENCE_BANDS_ARGS,
+  REFERENCE_LINES_ARGS,
+  TRENDLINES_ARGS,
   CHART_STATE_CONTROL_ARGS,
   CONTROLS_ARGS,
   DATA_SERIES_ARGS,
@@ -35,7 +39,11 @@ export const META: Meta = {
   },
   argTypes: {
     annotations: ANNOTATIONS_ARGS,
+    referenceBands: REFERENCE_BANDS_ARGS,
+    referenceLines: REFERENCE_LINES_ARGS,
+    trendlines: TRENDLINES_ARGS,
     data: DATA_SERIES_ARGS,
+    hiddenSeries: HIDDEN_SERIES_ARGS,
     xAxisOptions: X_AXIS_OPTIONS_ARGS,
     emptyStateText: EMPTY_STATE_TEXT_ARGS,
     isAnimated: IS_ANIMATED_ARGS,
@@ -47,6 +55,10 @@ export const META: Meta = {
     },
     skipLinkText: SKIP_LINK_ARGS,
     yAxisOptions: Y_AXIS_OPTIONS_ARGS,
+    rightYAxisOptions: {
+      description:
+        'An object that defines the right yAxis, used by series with a `yAxisId` of `right`.',
+    },
     theme: THEME_CONTROL_ARGS,
     state: CHART_STATE_CONTROL_ARGS,
     showLegend: LEGEND_CONTROL_ARGS,
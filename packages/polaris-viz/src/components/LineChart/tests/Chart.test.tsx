@@ -26,7 +26,9 @@ import type {ChartProps} from '../Chart';
 import {Chart} from '../Chart';
 import {YAxis} from '../../YAxis';
 import {Annotations, YAxisAnnotations} from '../../Annotations';
-import {normalizeData} from '../../../utilities';
+import {ZoomBrush, ZoomOverview, ZoomResetButton} from '../../Zoom';
+import {ReferenceBands, ReferenceLines} from '../../ReferenceLines';
+import {getYAxisOptionsWithDefaults, normalizeData} from '../../../utilities';
 import characterWidths from '../../../data/character-widths.json';
 import characterWidthOffsets from '../../../data/character-width-offsets.json';
 
@@ -62,6 +64,7 @@ const MOCK_PROPS: ChartProps = {
   dimensions: {width: 500, height: 250, x: 0, y: 0},
   xAxisOptions,
   yAxisOptions,
+  rightYAxisOptions: yAxisOptions,
   renderTooltipContent: jest.fn(() => <p>Mock Tooltip</p>),
   showLegend: false,
   seriesNameFormatter: (value) => `${value}`,
@@ -511,6 +514,42 @@ describe('<Chart />', () => {
     });
   });
 
+  describe('references', () => {
+    it('renders <ReferenceLines /> and <ReferenceBands />', () => {
+      const referenceBands = [{from: 900, to: 1200}];
+      const referenceLines = [{value: 1100, label: 'Target'}];
+
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          referenceBands={referenceBands}
+          referenceLines={referenceLines}
+        />,
+      );
+
+      expect(chart).toContainReactComponent(ReferenceBands, {
+        bands: referenceBands,
+      });
+      expect(chart).toContainReactComponent(ReferenceLines, {
+        lines: referenceLines,
+      });
+    });
+
+    it('includes references in the y-axis domain', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          referenceLines={[{value: 5000}]}
+          yAxisOptions={{...yAxisOptions, maxYOverride: null}}
+        />,
+      );
+
+      const [, max] = chart.find(ReferenceLines)!.props.scale.domain();
+
+      expect(max).toBeGreaterThanOrEqual(5000);
+    });
+  });
+
   describe('<LegendContainer />', () => {
     it('renders <LegendContainer /> when showLegend is true', () => {
       const chart = mount(<Chart {...MOCK_PROPS} showLegend />);
@@ -550,6 +589,163 @@ describe('<Chart />', () => {
     });
   });
 
+  describe('hiddenSeries', () => {
+    const data = [
+      MOCK_DATA,
+      {
+        ...MOCK_DATA,
+        name: 'Secondary',
+        data: [
+          {key: 'Jan 1', value: 9000},
+          {key: 'Jan 2', value: 9000},
+          {key: 'Jan 3', value: 9000},
+          {key: 'Jan 4', value: 9000},
+        ],
+      },
+    ];
+
+    it('passes hidden series to <LineSeries />', () => {
+      const chart = mount(
+        <Chart {...MOCK_PROPS} data={data} hiddenSeries={[1]} />,
+      );
+
+      expect(chart).toContainReactComponent(LineSeries, {
+        hiddenIndexes: [1],
+      });
+    });
+
+    it('leaves hidden series out of the y-axis domain', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          data={data}
+          hiddenSeries={[1]}
+          referenceLines={[{value: 0}]}
+          yAxisOptions={{...yAxisOptions, maxYOverride: null}}
+        />,
+      );
+
+      const [, max] = chart.find(ReferenceLines)!.props.scale.domain();
+
+      expect(max).toBeLessThan(9000);
+    });
+
+    it('passes hiddenSeries and onToggleSeries to <LegendContainer />', () => {
+      const onToggleSeries = jest.fn();
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          data={data}
+          hiddenSeries={[1]}
+          onToggleSeries={onToggleSeries}
+          showLegend
+        />,
+      );
+
+      expect(chart).toContainReactComponent(LegendContainer, {
+        hiddenSeries: [1],
+        onToggleSeries,
+      });
+    });
+  });
+
+  describe('yAxisId', () => {
+    const data = [
+      MOCK_DATA,
+      {
+        ...MOCK_DATA,
+        name: 'Conversion rate',
+        yAxisId: 'right' as const,
+        data: [
+          {key: 'Jan 1', value: 0.2},
+          {key: 'Jan 2', value: 0.4},
+          {key: 'Jan 3', value: 0.3},
+          {key: 'Jan 4', value: 0.5},
+        ],
+      },
+    ];
+
+    const dualAxisProps = {
+      ...MOCK_PROPS,
+      data,
+      yAxisOptions: getYAxisOptionsWithDefaults(),
+      rightYAxisOptions: getYAxisOptionsWithDefaults({
+        labelFormatter: (value) => `${Number(value) * 100}%`,
+      }),
+    };
+
+    it('does not render a right <YAxis /> by default', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).not.toContainReactComponent(YAxis, {textAlign: 'left'});
+    });
+
+    it('renders a right <YAxis /> when a series uses it', () => {
+      const chart = mount(<Chart {...dualAxisProps} />);
+
+      expect(chart.findAll(YAxis)).toHaveLength(2);
+      expect(chart).toContainReactComponent(YAxis, {
+        textAlign: 'left',
+        ticks: expect.arrayContaining([
+          expect.objectContaining({formattedValue: '100%'}),
+        ]),
+      });
+    });
+
+    it('lines the right axis ticks up with the left axis ticks', () => {
+      const chart = mount(<Chart {...dualAxisProps} />);
+      const [leftAxis, rightAxis] = chart.findAll(YAxis);
+
+      expect(rightAxis.props.ticks.map(({yOffset}) => yOffset)).toStrictEqual(
+        leftAxis.props.ticks.map(({yOffset}) => yOffset),
+      );
+    });
+
+    it('plots each series against its own axis', () => {
+      const chart = mount(<Chart {...dualAxisProps} />);
+      const [leftSeries, rightSeries] = chart.findAll(LineSeries);
+
+      expect(leftSeries.props.yScale.domain()[1]).toBeGreaterThanOrEqual(1500);
+      expect(rightSeries.props.yScale.domain()[1]).toStrictEqual(1);
+    });
+
+    it('keeps each axis labels on its side when the right axis leads', () => {
+      const chart = mount(
+        <Chart
+          {...dualAxisProps}
+          data={[
+            data[0],
+            {
+              ...data[1],
+              data: [
+                {key: 'Jan 1', value: -0.2},
+                {key: 'Jan 2', value: 0.4},
+                {key: 'Jan 3', value: -0.3},
+                {key: 'Jan 4', value: 0.5},
+              ],
+            },
+          ]}
+        />,
+      );
+      const [leftAxis, rightAxis] = chart.findAll(YAxis);
+
+      expect(
+        leftAxis.props.ticks.map(({formattedValue}) => formattedValue),
+      ).not.toContainEqual(expect.stringContaining('%'));
+      expect(
+        rightAxis.props.ticks.map(({formattedValue}) => formattedValue),
+      ).toStrictEqual(expect.arrayContaining([expect.stringContaining('%')]));
+      expect(
+        rightAxis.props.ticks.map(({formattedValue}) => formattedValue),
+      ).toContainEqual(expect.stringMatching(/^-/));
+
+      const [leftSeries, rightSeries] = chart.findAll(LineSeries);
+
+      expect(leftSeries.props.yScale.domain()[1]).toBeGreaterThanOrEqual(1500);
+      expect(rightSeries.props.yScale.domain()[0]).toBeLessThan(0);
+    });
+  });
+
   describe('<TooltipWrapper />', () => {
     it('does not render <TooltipWrapper /> data series is empty', () => {
       const chart = mount(
@@ -565,4 +761,100 @@ describe('<Chart />', () => {
       expect(chart).toContainReactComponent(TooltipWrapper);
     });
   });
+
+  describe('zoom', () => {
+    it('does not render zoom controls by default', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).not.toContainReactComponent(ZoomBrush);
+      expect(chart).not.toContainReactComponent(ZoomOverview);
+    });
+
+    it('renders a <ZoomBrush /> when zoom is provided', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} zoom={{}} />);
+
+      expect(chart).toContainReactComponent(ZoomBrush);
+      expect(chart).not.toContainReactComponent(ZoomOverview);
+    });
+
+    it('renders a <ZoomOverview /> with all data when type is overview', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} zoom={{type: 'overview'}} />);
+
+      expect(chart).toContainReactComponent(ZoomOverview, {
+        data: [MOCK_DATA],
+      });
+    });
+
+    it('renders the zoomed data and a <ZoomResetButton />', () => {
+      const onZoomChange = jest.fn();
+      const chart = mount(<Chart {...MOCK_PROPS} zoom={{onZoomChange}} />);
+
+      chart.act(() => chart.find(ZoomBrush)!.props.onZoom(1, 2));
+
+      expect(chart).toContainReactComponent(ZoomResetButton);
+      expect(chart.find(LineSeries)!.props.data.data).toStrictEqual([
+        {key: 'Jan 2', value: 1000},
+        {key: 'Jan 3', value: 800},
+      ]);
+      expect(onZoomChange).toHaveBeenCalledWith({
+        startKey: 'Jan 2',
+        endKey: 'Jan 3',
+      });
+    });
+
+    describe('onPointClick', () => {
+      function click(element: Element) {
+        element.dispatchEvent(new MouseEvent('click', {bubbles: true}));
+      }
+
+      function getBrushArea(chart: ReturnType<typeof mount>) {
+        return chart.find(ZoomBrush)!.find('rect')!.domNode!;
+      }
+
+      it('calls onPointClick when the lines are clicked', () => {
+        const onPointClick = jest.fn();
+        const chart = mount(
+          <Chart {...MOCK_PROPS} onPointClick={onPointClick} zoom={{}} />,
+        );
+
+        click(getBrushArea(chart));
+
+        expect(onPointClick).toHaveBeenCalledTimes(1);
+      });
+
+      it('does not call onPointClick when the reset button is clicked', () => {
+        const onPointClick = jest.fn();
+        const chart = mount(
+          <Chart {...MOCK_PROPS} onPointClick={onPointClick} zoom={{}} />,
+        );
+
+        chart.act(() => {
+          chart
+            .find(ZoomBrush)!
+            .find('g')!
+            .trigger('onKeyDown', {key: '+', preventDefault: jest.fn()});
+        });
+
+        click(chart.find(ZoomResetButton)!.find('button')!.domNode!);
+
+        expect(onPointClick).not.toHaveBeenCalled();
+      });
+
+      it('ignores the click that ends a brush drag', () => {
+        const onPointClick = jest.fn();
+        const chart = mount(
+          <Chart {...MOCK_PROPS} onPointClick={onPointClick} zoom={{}} />,
+        );
+
+        chart.act(() => chart.find(ZoomBrush)!.props.onZoom(1, 2));
+        click(getBrushArea(chart));
+
+        expect(onPointClick).not.toHaveBeenCalled();
+
+        click(getBrushArea(chart));
+
+        expect(onPointClick).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
 });
@@ -78,4 +78,30 @@ describe('<LineChart />', () => {
       expect(yLabelSpy).toHaveBeenCalled();
     });
   });
+
+  describe('trendlines', () => {
+    it('appends a computed series for each trendline', () => {
+      const lineChart = mount(
+        <LineChart
+          data={[primarySeries]}
+          trendlines={[{seriesIndex: 0, type: 'movingAverage', period: 2}]}
+        />,
+      );
+
+      const data = lineChart.find(Chart)?.prop('data');
+
+      expect(data).toHaveLength(2);
+      expect(data?.[1]).toMatchObject({
+        name: 'Primary (2-point average)',
+        color: 'red',
+        metadata: {isComputed: true},
+        data: [
+          {key: 'Jan 1', value: null},
+          {key: 'Jan 2', value: 1250},
+          {key: 'Jan 3', value: 900},
+          {key: 'Jan 4', value: 1050},
+        ],
+      });
+    });
+  });
 });
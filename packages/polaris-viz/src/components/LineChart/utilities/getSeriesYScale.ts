@@ -0,0 +1,14 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import type {ScaleContinuousNumeric} from 'd3-scale';
+
+interface Props {
+  series: DataSeries;
+  yScale: ScaleContinuousNumeric<number, number>;
+  rightYScale?: ScaleContinuousNumeric<number, number>;
+}
+
+export function getSeriesYScale({series, yScale, rightYScale}: Props) {
+  return series.yAxisId === 'right' && rightYScale != null
+    ? rightYScale
+    : yScale;
+}
@@ -1,2 +1,3 @@
 export {yAxisMinMax} from './yAxisMinMax';
 export {getAlteredLineChartPosition} from './getAlteredLineChartPosition';
+export {getSeriesYScale} from './getSeriesYScale';
@@ -88,5 +88,22 @@ describe('yAxisMinMax', () => {
         maxY: 5,
       });
     });
+
+    it('includes lower and upper bounds', () => {
+      expect(
+        yAxisMinMax([
+          {
+            data: [
+              {key: 0, value: 5},
+              {key: 1, value: 10, lower: -2, upper: 24},
+              {key: 2, value: 8, lower: null, upper: null},
+            ],
+          },
+        ]),
+      ).toStrictEqual({
+        minY: -2,
+        maxY: 24,
+      });
+    });
   });
 });
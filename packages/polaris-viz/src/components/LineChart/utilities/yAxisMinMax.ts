@@ -11,13 +11,16 @@ export function yAxisMinMax(series: DataSeries[]) {
   let maxY = -Infinity;
 
   series.forEach(({data}) => {
-    data.forEach(({value}) => {
-      if (value == null) {
-        return;
-      }
+    data.forEach(({value, lower, upper}) => {
+      // Confidence bounds are included so shaded bands aren't clipped.
+      for (const point of [value, lower, upper]) {
+        if (point == null) {
+          continue;
+        }
 
-      minY = Math.min(minY, value);
-      maxY = Math.max(maxY, value);
+        minY = Math.min(minY, point);
+        maxY = Math.max(maxY, point);
+      }
     });
   });
 
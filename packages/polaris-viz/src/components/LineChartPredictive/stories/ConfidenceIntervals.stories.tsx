@@ -0,0 +1,15 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import {CONFIDENCE_INTERVAL_DATA, DEFAULT_PROPS, Template} from './data';
+import type {LineChartProps} from '../../LineChart/LineChart';
+
+export const ConfidenceIntervals: Story<LineChartProps> = Template.bind({});
+
+ConfidenceIntervals.args = {
+  ...DEFAULT_PROPS,
+  data: CONFIDENCE_INTERVAL_DATA,
+  isAnimated: false,
+  showLegend: true,
+};
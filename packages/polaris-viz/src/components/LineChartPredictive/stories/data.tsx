@@ -145,3 +145,56 @@ export const DEFAULT_DATA: LineChartPredictiveDataSeries[] = [
     },
   },
 ];
+
+export const CONFIDENCE_INTERVAL_DATA: LineChartPredictiveDataSeries[] = [
+  {
+    name: 'Sales',
+    data: [
+      {value: 120, key: '2020-03-01T12:00:00'},
+      {value: 180, key: '2020-03-02T12:00:00'},
+      {value: 150, key: '2020-03-03T12:00:00'},
+      {value: 210, key: '2020-03-04T12:00:00'},
+      {value: 240, key: '2020-03-05T12:00:00'},
+      {value: 225, key: '2020-03-06T12:00:00'},
+      {value: null, key: '2020-03-07T12:00:00'},
+      {value: null, key: '2020-03-08T12:00:00'},
+      {value: null, key: '2020-03-09T12:00:00'},
+      {value: null, key: '2020-03-10T12:00:00'},
+      {value: null, key: '2020-03-11T12:00:00'},
+      {value: null, key: '2020-03-12T12:00:00'},
+    ],
+    styleOverride: {
+      line: {
+        hasArea: false,
+      },
+    },
+  },
+  {
+    name: 'Forecast',
+    data: [
+      {value: null, key: '2020-03-01T12:00:00'},
+      {value: null, key: '2020-03-02T12:00:00'},
+      {value: null, key: '2020-03-03T12:00:00'},
+      {value: null, key: '2020-03-04T12:00:00'},
+      {value: null, key: '2020-03-05T12:00:00'},
+      {value: 225, lower: 225, upper: 225, key: '2020-03-06T12:00:00'},
+      {value: 250, lower: 220, upper: 280, key: '2020-03-07T12:00:00'},
+      {value: 265, lower: 220, upper: 310, key: '2020-03-08T12:00:00'},
+      {value: 280, lower: 215, upper: 345, key: '2020-03-09T12:00:00'},
+      {value: 290, lower: 205, upper: 375, key: '2020-03-10T12:00:00'},
+      {value: 310, lower: 200, upper: 420, key: '2020-03-11T12:00:00'},
+      {value: 330, lower: 190, upper: 470, key: '2020-03-12T12:00:00'},
+    ],
+    metadata: {
+      relatedIndex: 0,
+      isPredictive: true,
+      startKey: '2020-03-06T12:00:00',
+    },
+    styleOverride: {
+      line: {
+        strokeDasharray: '1 10 1',
+        hasArea: false,
+      },
+    },
+  },
+];
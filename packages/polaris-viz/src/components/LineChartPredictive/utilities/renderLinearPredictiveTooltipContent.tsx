@@ -8,7 +8,10 @@ import {
   TooltipRow,
   LinePreview,
 } from '../../';
-import type {RenderTooltipContentData} from '../../../types';
+import type {
+  RenderTooltipContentData,
+  RenderTooltipDataPoint,
+} from '../../../types';
 import {SeriesIcon} from '../components';
 
 import styles from './Styles.scss';
@@ -40,6 +43,18 @@ export function renderLinearPredictiveTooltipContent(
     );
   }
 
+  function formatValue({value, lower, upper}: RenderTooltipDataPoint) {
+    const formattedValue = formatters.valueFormatter(value ?? 0);
+
+    if (lower == null || upper == null) {
+      return formattedValue;
+    }
+
+    return `${formattedValue} (${formatters.valueFormatter(
+      lower,
+    )} – ${formatters.valueFormatter(upper)})`;
+  }
+
   function renderContent({
     activeColorVisionIndex,
   }: {
@@ -47,7 +62,8 @@ export function renderLinearPredictiveTooltipContent(
   }) {
     const item = tooltipData.data[0];
 
-    return item.data.map(({color, key, value, isComparison}, seriesIndex) => {
+    return item.data.map((dataPoint, seriesIndex) => {
+      const {color, key, value, isComparison} = dataPoint;
       const metadata = tooltipData.dataSeries[seriesIndex].metadata;
       const activeKey =
         tooltipData.dataSeries[seriesIndex].data[tooltipData.activeIndex].key;
@@ -67,7 +83,7 @@ export function renderLinearPredictiveTooltipContent(
           label={formatters.keyFormatter(key)}
           renderSeriesIcon={() => renderSeriesIcon(color, isComparison)}
           shape="Line"
-          value={formatters.valueFormatter(value ?? 0)}
+          value={formatValue(dataPoint)}
         />
       );
     });
@@ -0,0 +1,73 @@
+import {Fragment} from 'react';
+import {DEFAULT_THEME_NAME} from '@shopify/polaris-viz-core';
+
+import {mountWithProvider} from '../../../../test-utilities/mountWithProvider';
+import {TooltipRow} from '../../../TooltipContent';
+import type {RenderTooltipContentData} from '../../../../types';
+import {renderLinearPredictiveTooltipContent} from '../renderLinearPredictiveTooltipContent';
+
+const TOOLTIP_DATA: RenderTooltipContentData = {
+  activeIndex: 1,
+  dataSeries: [
+    {
+      name: 'Forecast',
+      data: [
+        {key: 'Jan', value: 10},
+        {key: 'Feb', value: 20, lower: 15, upper: 25},
+      ],
+    },
+  ],
+  theme: DEFAULT_THEME_NAME,
+  title: 'Feb',
+  data: [
+    {
+      shape: 'Line',
+      data: [{key: 'Forecast', value: 20, color: 'red', lower: 15, upper: 25}],
+    },
+  ],
+};
+
+describe('renderLinearPredictiveTooltipContent()', () => {
+  it('includes lower and upper bounds in the value', () => {
+    const content = mountWithProvider(
+      <Fragment>{renderLinearPredictiveTooltipContent(TOOLTIP_DATA)}</Fragment>,
+    );
+
+    expect(content).toContainReactComponent(TooltipRow, {
+      value: '20 (15 – 25)',
+    });
+  });
+
+  it('formats bounds with the value formatter', () => {
+    const content = mountWithProvider(
+      <Fragment>
+        {renderLinearPredictiveTooltipContent({
+          ...TOOLTIP_DATA,
+          formatters: {valueFormatter: (value) => `$${value}`},
+        })}
+      </Fragment>,
+    );
+
+    expect(content).toContainReactComponent(TooltipRow, {
+      value: '$20 ($15 – $25)',
+    });
+  });
+
+  it('renders only the value without bounds', () => {
+    const content = mountWithProvider(
+      <Fragment>
+        {renderLinearPredictiveTooltipContent({
+          ...TOOLTIP_DATA,
+          data: [
+            {
+              shape: 'Line',
+              data: [{key: 'Forecast', value: 20, color: 'red'}],
+            },
+          ],
+        })}
+      </Fragment>,
+    );
+
+    expect(content).toContainReactComponent(TooltipRow, {value: '20'});
+  });
+});
@@ -20,6 +20,7 @@ export interface PointProps {
   ariaLabelledby?: string;
   dataType?: DataType;
   onFocus?: ({index, x, y}: ActiveTooltip) => void;
+  radius?: number;
   tabIndex?: number;
   visuallyHidden?: boolean;
 }
@@ -37,6 +38,7 @@ export const Point = memo(function Point({
   ariaLabelledby,
   tabIndex = -1,
   isAnimated,
+  radius: activeRadius = DEFAULT_RADIUS,
   ariaHidden = false,
   visuallyHidden = false,
 }: PointProps) {
@@ -52,7 +54,7 @@ export const Point = memo(function Point({
     }
   };
 
-  const radius = active ? DEFAULT_RADIUS : 0;
+  const radius = active ? activeRadius : 0;
 
   const {animatedRadius} = useSpring({
     animatedRadius: radius,
@@ -40,6 +40,19 @@ describe('<Point />', () => {
       });
     });
 
+    it('renders with the given radius when active', () => {
+      const point = mount(
+        <svg>
+          <Point {...MOCK_PROPS} active radius={12} />
+        </svg>,
+      );
+
+      expect(point).toContainReactComponent('circle', {
+        // eslint-disable-next-line id-length
+        r: 12,
+      });
+    });
+
     it('renders with a radius of 0 when not active', () => {
       const point = mount(
         <svg>
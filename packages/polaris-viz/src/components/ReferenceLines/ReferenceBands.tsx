@@ -0,0 +1,81 @@
+import type {ScaleContinuousNumeric} from 'd3-scale';
+import type {Direction} from '@shopify/polaris-viz-core';
+import {FONT_SIZE, changeColorOpacity, clamp} from '@shopify/polaris-viz-core';
+
+import {useTheme} from '../../hooks';
+import type {ReferenceBand} from '../../types';
+
+import {REFERENCE_BAND_OPACITY, REFERENCE_LABEL_OFFSET} from './constants';
+
+export interface ReferenceBandsProps {
+  bands: ReferenceBand[];
+  scale: ScaleContinuousNumeric<number, number>;
+  /**
+   * The length of each band across the chart.
+   */
+  size: number;
+  /**
+   * Bands run horizontally across a vertical value axis by default.
+   */
+  direction?: Direction;
+}
+
+export function ReferenceBands({
+  bands,
+  direction = 'horizontal',
+  scale,
+  size,
+}: ReferenceBandsProps) {
+  const selectedTheme = useTheme();
+  const isHorizontal = direction === 'horizontal';
+
+  const domain = scale.domain();
+  const domainMin = Math.min(...domain);
+  const domainMax = Math.max(...domain);
+
+  return (
+    <g aria-hidden="true" pointerEvents="none">
+      {bands.map((band, index) => {
+        const from = Math.min(band.from, band.to);
+        const to = Math.max(band.from, band.to);
+
+        if (to < domainMin || from > domainMax) {
+          return null;
+        }
+
+        const start = scale(
+          clamp({amount: from, min: domainMin, max: domainMax}),
+        );
+        const end = scale(clamp({amount: to, min: domainMin, max: domainMax}));
+        const offset = Math.min(start, end);
+        const length = Math.abs(end - start);
+
+        const color = band.color ?? selectedTheme.annotations.lineColor;
+
+        return (
+          <g key={`${band.from}-${band.to}-${index}`}>
+            <rect
+              fill={changeColorOpacity(color, REFERENCE_BAND_OPACITY)}
+              stroke={band.strokeDasharray == null ? 'none' : color}
+              strokeDasharray={band.strokeDasharray}
+              {...(isHorizontal
+                ? {x: 0, y: offset, width: size, height: length}
+                : {x: offset, y: 0, width: length, height: size})}
+            />
+            {band.label == null ? null : (
+              <text
+                dominantBaseline="hanging"
+                fill={color}
+                fontSize={FONT_SIZE}
+                x={(isHorizontal ? 0 : offset) + REFERENCE_LABEL_OFFSET}
+                y={(isHorizontal ? offset : 0) + REFERENCE_LABEL_OFFSET}
+              >
+                {band.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
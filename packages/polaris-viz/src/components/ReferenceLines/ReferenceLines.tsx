@@ -0,0 +1,70 @@
+import type {ScaleContinuousNumeric} from 'd3-scale';
+import type {Direction, LabelFormatter} from '@shopify/polaris-viz-core';
+import {FONT_SIZE, isValueWithinDomain} from '@shopify/polaris-viz-core';
+
+import {useTheme} from '../../hooks';
+
+import {REFERENCE_LABEL_OFFSET, REFERENCE_LINE_DASHARRAY} from './constants';
+import type {ResolvedReferenceLine} from './utilities';
+
+export interface ReferenceLinesProps {
+  labelFormatter: LabelFormatter;
+  lines: ResolvedReferenceLine[];
+  scale: ScaleContinuousNumeric<number, number>;
+  /**
+   * The length of each line across the chart.
+   */
+  size: number;
+  /**
+   * Lines run horizontally across a vertical value axis by default.
+   */
+  direction?: Direction;
+}
+
+export function ReferenceLines({
+  direction = 'horizontal',
+  labelFormatter,
+  lines,
+  scale,
+  size,
+}: ReferenceLinesProps) {
+  const selectedTheme = useTheme();
+  const isHorizontal = direction === 'horizontal';
+
+  return (
+    <g aria-hidden="true" pointerEvents="none">
+      {lines.map((line, index) => {
+        if (!isValueWithinDomain(line.value, scale.domain())) {
+          return null;
+        }
+
+        const position = scale(line.value);
+        const color = line.color ?? selectedTheme.annotations.lineColor;
+        const label = line.label ?? labelFormatter(line.value);
+
+        return (
+          <g key={`${line.value}-${index}`}>
+            <line
+              stroke={color}
+              strokeDasharray={line.strokeDasharray ?? REFERENCE_LINE_DASHARRAY}
+              strokeWidth={1}
+              {...(isHorizontal
+                ? {x1: 0, x2: size, y1: position, y2: position}
+                : {x1: position, x2: position, y1: 0, y2: size})}
+            />
+            <text
+              dominantBaseline={isHorizontal ? 'auto' : 'hanging'}
+              fill={color}
+              fontSize={FONT_SIZE}
+              textAnchor={isHorizontal ? 'end' : 'start'}
+              x={isHorizontal ? size : position + REFERENCE_LABEL_OFFSET}
+              y={isHorizontal ? position - REFERENCE_LABEL_OFFSET : 0}
+            >
+              {label}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
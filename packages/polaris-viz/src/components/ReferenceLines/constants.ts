@@ -0,0 +1,3 @@
+export const REFERENCE_LINE_DASHARRAY = '4 4';
+export const REFERENCE_BAND_OPACITY = 0.12;
+export const REFERENCE_LABEL_OFFSET = 4;
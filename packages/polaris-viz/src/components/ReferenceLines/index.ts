@@ -0,0 +1,8 @@
+export {ReferenceBands} from './ReferenceBands';
+export {ReferenceLines} from './ReferenceLines';
+export {
+  getReferenceMinMax,
+  getReferenceValues,
+  resolveReferenceLines,
+} from './utilities';
+export type {ResolvedReferenceLine} from './utilities';
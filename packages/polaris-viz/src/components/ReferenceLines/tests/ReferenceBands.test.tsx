@@ -0,0 +1,71 @@
+import {mount} from '@shopify/react-testing';
+import {scaleLinear} from 'd3-scale';
+
+import type {ReferenceBandsProps} from '../ReferenceBands';
+import {ReferenceBands} from '../ReferenceBands';
+
+const MOCK_PROPS: ReferenceBandsProps = {
+  bands: [{from: 20, to: 40, label: 'Acceptable', color: 'green'}],
+  scale: scaleLinear().domain([0, 100]).range([200, 0]),
+  size: 400,
+};
+
+describe('<ReferenceBands />', () => {
+  it('renders a rect between the values', () => {
+    const bands = mount(
+      <svg>
+        <ReferenceBands {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    expect(bands).toContainReactComponent('rect', {
+      x: 0,
+      y: 120,
+      width: 400,
+      height: 40,
+      stroke: 'none',
+    });
+    expect(bands).toContainReactComponent('text', {
+      children: 'Acceptable',
+    });
+  });
+
+  it('outlines bands with a dash style', () => {
+    const bands = mount(
+      <svg>
+        <ReferenceBands
+          {...MOCK_PROPS}
+          bands={[{from: 20, to: 40, color: 'green', strokeDasharray: '2 2'}]}
+        />
+      </svg>,
+    );
+
+    expect(bands).toContainReactComponent('rect', {
+      stroke: 'green',
+      strokeDasharray: '2 2',
+    });
+  });
+
+  it('clamps bands to the domain', () => {
+    const bands = mount(
+      <svg>
+        <ReferenceBands {...MOCK_PROPS} bands={[{from: 80, to: 150}]} />
+      </svg>,
+    );
+
+    const rect = bands.find('rect')!;
+
+    expect(rect.props.y).toBe(0);
+    expect(rect.props.height).toBeCloseTo(40);
+  });
+
+  it('does not render bands outside of the domain', () => {
+    const bands = mount(
+      <svg>
+        <ReferenceBands {...MOCK_PROPS} bands={[{from: 120, to: 150}]} />
+      </svg>,
+    );
+
+    expect(bands).not.toContainReactComponent('rect');
+  });
+});
@@ -0,0 +1,76 @@
+import {mount} from '@shopify/react-testing';
+import {scaleLinear} from 'd3-scale';
+
+import type {ReferenceLinesProps} from '../ReferenceLines';
+import {ReferenceLines} from '../ReferenceLines';
+import {REFERENCE_LINE_DASHARRAY} from '../constants';
+
+const MOCK_PROPS: ReferenceLinesProps = {
+  labelFormatter: (value) => `$${value}`,
+  lines: [{value: 50, label: 'Target', color: 'red', strokeDasharray: '2 2'}],
+  scale: scaleLinear().domain([0, 100]).range([200, 0]),
+  size: 400,
+};
+
+describe('<ReferenceLines />', () => {
+  it('renders a horizontal line at the value', () => {
+    const lines = mount(
+      <svg>
+        <ReferenceLines {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    expect(lines).toContainReactComponent('line', {
+      stroke: 'red',
+      strokeDasharray: '2 2',
+      x1: 0,
+      x2: 400,
+      y1: 100,
+      y2: 100,
+    });
+    expect(lines).toContainReactComponent('text', {children: 'Target'});
+  });
+
+  it('labels lines with their formatted value by default', () => {
+    const lines = mount(
+      <svg>
+        <ReferenceLines {...MOCK_PROPS} lines={[{value: 25}]} />
+      </svg>,
+    );
+
+    expect(lines).toContainReactComponent('text', {children: '$25'});
+    expect(lines).toContainReactComponent('line', {
+      strokeDasharray: REFERENCE_LINE_DASHARRAY,
+    });
+  });
+
+  it('renders a vertical line when direction is vertical', () => {
+    const lines = mount(
+      <svg>
+        <ReferenceLines
+          {...MOCK_PROPS}
+          direction="vertical"
+          scale={scaleLinear().domain([0, 100]).range([0, 400])}
+          size={200}
+        />
+      </svg>,
+    );
+
+    expect(lines).toContainReactComponent('line', {
+      x1: 200,
+      x2: 200,
+      y1: 0,
+      y2: 200,
+    });
+  });
+
+  it('does not render lines outside of the domain', () => {
+    const lines = mount(
+      <svg>
+        <ReferenceLines {...MOCK_PROPS} lines={[{value: 150}]} />
+      </svg>,
+    );
+
+    expect(lines).not.toContainReactComponent('line');
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  getReferenceMinMax,
+  getReferenceValues,
+  resolveReferenceLines,
+} from '../utilities';
+
+const DATA = [
+  {
+    name: 'Online',
+    data: [
+      {key: 'Jan', value: 10},
+      {key: 'Feb', value: 20},
+      {key: 'Mar', value: 60},
+    ],
+  },
+  {
+    name: 'Retail',
+    data: [
+      {key: 'Jan', value: 30},
+      {key: 'Feb', value: null},
+      {key: 'Mar', value: 40},
+    ],
+  },
+];
+
+describe('resolveReferenceLines()', () => {
+  it('keeps fixed values', () => {
+    expect(
+      resolveReferenceLines([{value: 25, label: 'Target'}], DATA),
+    ).toStrictEqual([{value: 25, label: 'Target'}]);
+  });
+
+  it('computes averages and medians from all series', () => {
+    const [average, median] = resolveReferenceLines(
+      [{value: 'average'}, {value: 'median'}],
+      DATA,
+    );
+
+    expect(average.value).toBe(32);
+    expect(median.value).toBe(30);
+  });
+
+  it('computes values from a single series', () => {
+    const [average] = resolveReferenceLines(
+      [{value: 'average', seriesIndex: 0}],
+      DATA,
+    );
+
+    expect(average.value).toBe(30);
+  });
+
+  it('drops computed lines without data', () => {
+    expect(resolveReferenceLines([{value: 'median'}], [])).toStrictEqual([]);
+  });
+});
+
+describe('getReferenceValues()', () => {
+  it('returns line values and band edges', () => {
+    expect(
+      getReferenceValues([{value: 5}], [{from: 10, to: 20}]),
+    ).toStrictEqual([5, 10, 20]);
+  });
+});
+
+describe('getReferenceMinMax()', () => {
+  it('widens the range to include references', () => {
+    expect(
+      getReferenceMinMax({
+        min: 0,
+        max: 50,
+        referenceBands: [{from: -10, to: 10}],
+        referenceLines: [{value: 80}],
+      }),
+    ).toStrictEqual({min: -10, max: 80});
+  });
+
+  it('returns the range without references', () => {
+    expect(
+      getReferenceMinMax({
+        min: 0,
+        max: 50,
+        referenceBands: [],
+        referenceLines: [],
+      }),
+    ).toStrictEqual({min: 0, max: 50});
+  });
+});
@@ -0,0 +1,65 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import {mean, median} from 'd3-array';
+
+import type {ReferenceBand, ReferenceLine} from '../../types';
+
+export interface ResolvedReferenceLine extends ReferenceLine {
+  value: number;
+}
+
+function getComputedValue(
+  {value, seriesIndex}: ReferenceLine,
+  data: DataSeries[],
+) {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const series = seriesIndex == null ? data : [data[seriesIndex]];
+  const values = series.flatMap((singleSeries) =>
+    (singleSeries?.data ?? []).map((point) => point.value),
+  );
+
+  return value === 'average' ? mean(values) : median(values);
+}
+
+export function resolveReferenceLines<T extends ReferenceLine>(
+  referenceLines: T[],
+  data: DataSeries[],
+): (T & ResolvedReferenceLine)[] {
+  return referenceLines.flatMap((line) => {
+    const value = getComputedValue(line, data);
+
+    // Computed values can't be drawn until there is data.
+    return value == null ? [] : [{...line, value}];
+  });
+}
+
+export function getReferenceValues(
+  referenceLines: ResolvedReferenceLine[],
+  referenceBands: ReferenceBand[],
+) {
+  return [
+    ...referenceLines.map(({value}) => value),
+    ...referenceBands.flatMap(({from, to}) => [from, to]),
+  ];
+}
+
+export function getReferenceMinMax({
+  min,
+  max,
+  referenceBands,
+  referenceLines,
+}: {
+  min: number;
+  max: number;
+  referenceBands: ReferenceBand[];
+  referenceLines: ResolvedReferenceLine[];
+}) {
+  const values = getReferenceValues(referenceLines, referenceBands);
+
+  return {
+    min: Math.min(min, ...values),
+    max: Math.max(max, ...values),
+  };
+}
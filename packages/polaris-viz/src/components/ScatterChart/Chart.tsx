@@ -0,0 +1,561 @@
+import type {ReactNode} from 'react';
+import {useMemo, useState} from 'react';
+import {scaleLinear, scaleSqrt} from 'd3-scale';
+import {line} from 'd3-shape';
+import {
+  COLOR_VISION_SINGLE_ITEM,
+  DataType,
+  LINE_HEIGHT,
+  LINEAR_LABELS_INNER_PADDING,
+  LinearGradientWithStops,
+  changeColorOpacity,
+  changeGradientOpacity,
+  clamp,
+  getColorVisionStylesForActiveIndex,
+  isGradientType,
+  uniqueId,
+  useChartContext,
+  useChartPositions,
+  useYScale,
+} from '@shopify/polaris-viz-core';
+import type {
+  BoundingRect,
+  LabelFormatter,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+import {useExternalHideEvents} from '../../hooks/ExternalEvents';
+import {ChartElements} from '../ChartElements';
+import {XAxis} from '../XAxis';
+import {YAxis} from '../YAxis';
+import {HorizontalGridLines} from '../HorizontalGridLines';
+import {Point} from '../Point';
+import {LegendContainer, useLegend} from '../LegendContainer';
+import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
+import {
+  TooltipHorizontalOffset,
+  TooltipVerticalOffset,
+  TooltipWrapper,
+  TOOLTIP_POSITION_DEFAULT_RETURN,
+} from '../TooltipWrapper';
+import {eventPointNative, getLinearRegression} from '../../utilities';
+import {
+  useColorVisionEvents,
+  useTheme,
+  useWatchColorVisionEvents,
+} from '../../hooks';
+import {ChartMargin, Y_AXIS_LABEL_OFFSET} from '../../constants';
+import type {
+  RenderHiddenLegendLabel,
+  RenderLegendContent,
+  RenderTooltipContentData,
+} from '../../types';
+
+import {
+  ACTIVE_POINT_RADIUS_OFFSET,
+  MAX_BUBBLE_RADIUS,
+  MAX_X_AXIS_LABEL_WIDTH,
+  MIN_BUBBLE_RADIUS,
+  TREND_LINE_DASHARRAY,
+  TREND_LINE_SAMPLES,
+} from './constants';
+import type {
+  ScatterDataSeries,
+  ScatterTooltipLabels,
+  ScatterXAxisOptions,
+} from './types';
+import {getDataSeriesFromScatterData, getMinMax} from './utilities';
+
+const DEFAULT_POINT_RADIUS = 5;
+
+export interface ChartProps {
+  data: ScatterDataSeries[];
+  renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
+  seriesNameFormatter: LabelFormatter;
+  showLegend: boolean;
+  showTrendLine: boolean;
+  sizeFormatter: LabelFormatter;
+  tooltipLabels: Required<ScatterTooltipLabels>;
+  xAxisOptions: Required<ScatterXAxisOptions>;
+  yAxisOptions: Required<YAxisOptions>;
+  dimensions?: BoundingRect;
+  emptyStateText?: string;
+  renderHiddenLegendLabel?: RenderHiddenLegendLabel;
+  renderLegendContent?: RenderLegendContent;
+}
+
+interface PositionedPoint {
+  cx: number;
+  cy: number;
+  dataIndex: number;
+  radius: number;
+  seriesIndex: number;
+}
+
+export function Chart({
+  data,
+  dimensions,
+  emptyStateText,
+  renderHiddenLegendLabel,
+  renderLegendContent,
+  renderTooltipContent,
+  seriesNameFormatter,
+  showLegend,
+  showTrendLine,
+  sizeFormatter,
+  tooltipLabels,
+  xAxisOptions,
+  yAxisOptions,
+}: ChartProps) {
+  useColorVisionEvents({enabled: data.length > 1, dimensions});
+
+  const selectedTheme = useTheme();
+  const {shouldAnimate, theme} = useChartContext();
+
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+  const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
+  const [activeSeriesIndex, setActiveSeriesIndex] = useState(-1);
+  const [activePointIndex, setActivePointIndex] = useState<number | null>(null);
+  const gradientId = useMemo(() => uniqueId('ScatterChart'), []);
+
+  useWatchColorVisionEvents({
+    type: COLOR_VISION_SINGLE_ITEM,
+    onIndexChange: ({detail}) => setActiveSeriesIndex(detail.index),
+  });
+
+  const {hiddenIndexes} = useExternalHideEvents();
+
+  const {legend, setLegendDimensions, height, width} = useLegend({
+    data: [
+      {
+        shape: 'Bar',
+        series: getDataSeriesFromScatterData(data),
+      },
+    ],
+    dimensions,
+    showLegend,
+    seriesNameFormatter,
+  });
+
+  const visiblePoints = data
+    .filter((_, index) => !hiddenIndexes.includes(index))
+    .flatMap((series) => series.data);
+
+  const emptyState = visiblePoints.length === 0;
+
+  const xMinMax = getMinMax(visiblePoints.map(({x}) => x));
+  const yMinMax = getMinMax(visiblePoints.map(({y}) => y));
+  const sizeMinMax = getMinMax(
+    visiblePoints
+      .map(({size}) => size)
+      .filter((size): size is number => size != null),
+  );
+  const hasSizes = visiblePoints.some(({size}) => size != null);
+
+  const yScaleOptions = {
+    formatYAxisLabel: yAxisOptions.labelFormatter,
+    integersOnly: yAxisOptions.integersOnly,
+    fixedWidth: yAxisOptions.fixedWidth,
+    maxYOverride: yAxisOptions.maxYOverride,
+    minYOverride: yAxisOptions.minYOverride,
+    domain: yAxisOptions.domain,
+    includeZero: yAxisOptions.includeZero,
+    scale: yAxisOptions.scale,
+    max: yMinMax.max,
+    min: yMinMax.min,
+  };
+
+  const {yAxisLabelWidth} = useYScale({
+    ...yScaleOptions,
+    drawableHeight: height,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  const {
+    drawableWidth,
+    drawableHeight,
+    chartXPosition,
+    chartYPosition,
+    xAxisBounds,
+    yAxisBounds,
+  } = useChartPositions({
+    annotationsHeight: 0,
+    height,
+    width,
+    xAxisHeight,
+    yAxisWidth: yAxisLabelWidth,
+  });
+
+  const {ticks, minorTicks, yScale} = useYScale({
+    ...yScaleOptions,
+    drawableHeight,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  // The x-axis follows the same domain, tick and scale rules
+  // as the y-axis, laid out horizontally.
+  const {ticks: xTicks, yScale: verticalXScale} = useYScale({
+    drawableHeight: drawableWidth,
+    formatYAxisLabel: xAxisOptions.labelFormatter,
+    integersOnly: xAxisOptions.integersOnly,
+    domain: xAxisOptions.domain,
+    includeZero: xAxisOptions.includeZero,
+    scale: xAxisOptions.scale,
+    max: xMinMax.max,
+    min: xMinMax.min,
+    verticalOverflow: false,
+  });
+
+  const xScale = useMemo(
+    () => verticalXScale.copy().range([0, drawableWidth]),
+    [verticalXScale, drawableWidth],
+  );
+
+  const xAxisLabels = xTicks.map(({formattedValue}) => formattedValue);
+
+  const xAxisScale = useMemo(() => {
+    const tickPositions = xTicks.map(({value}) => xScale(value));
+
+    // d3 needs at least two stops to create a scale.
+    if (tickPositions.length === 1) {
+      tickPositions.push(tickPositions[0]);
+    }
+
+    return scaleLinear()
+      .domain(tickPositions.map((_, index) => index))
+      .range(tickPositions);
+  }, [xTicks, xScale]);
+
+  const xAxisLabelWidth = clamp({
+    amount:
+      drawableWidth / Math.max(xTicks.length, 1) - LINEAR_LABELS_INNER_PADDING,
+    min: 0,
+    max: MAX_X_AXIS_LABEL_WIDTH,
+  });
+
+  const radiusScale = useMemo(
+    () =>
+      scaleSqrt()
+        .domain([Math.min(0, sizeMinMax.min), sizeMinMax.max || 1])
+        .range([MIN_BUBBLE_RADIUS, MAX_BUBBLE_RADIUS])
+        .clamp(true),
+    [sizeMinMax.min, sizeMinMax.max],
+  );
+
+  const points: PositionedPoint[] = data.flatMap((series, seriesIndex) =>
+    series.data.map(({x, y, size}, dataIndex) => ({
+      cx: xScale(x),
+      cy: yScale(y),
+      dataIndex,
+      radius:
+        hasSizes && size != null ? radiusScale(size) : DEFAULT_POINT_RADIUS,
+      seriesIndex,
+    })),
+  );
+
+  const seriesOffsets = data.map((_, seriesIndex) =>
+    data
+      .slice(0, seriesIndex)
+      .reduce((total, series) => total + series.data.length, 0),
+  );
+
+  const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
+
+  const getTooltipMarkup = (index: number) => {
+    const point = points[index];
+
+    if (point == null) {
+      return null;
+    }
+
+    const {seriesIndex, dataIndex} = point;
+    const series = data[seriesIndex];
+    const {x, y, size, label} = series.data[dataIndex];
+    const color = series.color ?? undefined;
+
+    return renderTooltipContent({
+      data: [
+        {
+          shape: 'Bar',
+          data: [
+            {
+              key: tooltipLabels.x,
+              value: xAxisOptions.labelFormatter(x),
+              color,
+            },
+            {
+              key: tooltipLabels.y,
+              value: yAxisOptions.labelFormatter(y),
+              color,
+            },
+            ...(size == null
+              ? []
+              : [{key: tooltipLabels.size, value: sizeFormatter(size), color}]),
+          ],
+          name: seriesNameFormatter(series.name ?? ''),
+        },
+      ],
+      activeIndex: index,
+      dataSeries: getDataSeriesFromScatterData(data),
+      theme,
+      title: label ?? seriesNameFormatter(series.name ?? ''),
+    });
+  };
+
+  return (
+    <ChartElements.Div height={height} width={width}>
+      <ChartElements.Svg
+        emptyState={emptyState}
+        emptyStateText={emptyStateText}
+        height={height}
+        setRef={setSvgRef}
+        width={width}
+      >
+        {hideXAxis ? null : (
+          <XAxis
+            allowLineWrap={xAxisOptions.allowLineWrap}
+            ariaHidden
+            labels={xAxisLabels}
+            labelWidth={xAxisLabelWidth}
+            onHeightChange={setXAxisHeight}
+            x={xAxisBounds.x - xAxisLabelWidth / 2}
+            xScale={xAxisScale}
+            y={xAxisBounds.y}
+          />
+        )}
+
+        {selectedTheme.grid.showHorizontalLines ? (
+          <HorizontalGridLines
+            ticks={ticks}
+            minorTicks={minorTicks}
+            transform={{
+              x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
+              y: chartYPosition,
+            }}
+            width={
+              selectedTheme.grid.horizontalOverflow ? width : drawableWidth
+            }
+          />
+        ) : null}
+
+        <YAxis
+          ticks={ticks}
+          width={yAxisLabelWidth + Y_AXIS_LABEL_OFFSET}
+          textAlign="right"
+          ariaHidden
+          x={yAxisBounds.x}
+          y={yAxisBounds.y}
+        />
+
+        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          {data.map((series, seriesIndex) => {
+            if (hiddenIndexes.includes(seriesIndex)) {
+              return null;
+            }
+
+            const {color, name} = series;
+            const seriesGradientId = `${gradientId}-${seriesIndex}`;
+            const seriesColor = isGradientType(color!)
+              ? `url(#${seriesGradientId})`
+              : changeColorOpacity(color!);
+            const seriesName = seriesNameFormatter(name ?? '');
+
+            const regression = showTrendLine
+              ? getLinearRegression(series.data)
+              : null;
+
+            return (
+              <g
+                key={`${name}-${seriesIndex}`}
+                role="list"
+                aria-label={seriesName}
+                style={getColorVisionStylesForActiveIndex({
+                  activeIndex: activeSeriesIndex,
+                  index: seriesIndex,
+                })}
+              >
+                {isGradientType(color!) ? (
+                  <defs>
+                    <LinearGradientWithStops
+                      id={seriesGradientId}
+                      gradient={changeGradientOpacity(color)}
+                      gradientUnits="userSpaceOnUse"
+                      y1="100%"
+                      y2="0%"
+                    />
+                  </defs>
+                ) : null}
+
+                {regression == null ? null : (
+                  <path
+                    d={getTrendLinePath(regression) ?? ''}
+                    fill="none"
+                    stroke={seriesColor}
+                    strokeDasharray={TREND_LINE_DASHARRAY}
+                    strokeWidth={2}
+                    pointerEvents="none"
+                    aria-hidden="true"
+                  />
+                )}
+
+                {series.data.map(({x, y, label}, dataIndex) => {
+                  const index = seriesOffsets[seriesIndex] + dataIndex;
+                  const {cx, cy, radius} = points[index];
+                  const ariaLabel = `${label ?? seriesName}: ${
+                    tooltipLabels.x
+                  } ${xAxisOptions.labelFormatter(x)}, ${
+                    tooltipLabels.y
+                  } ${yAxisOptions.labelFormatter(y)}`;
+
+                  return (
+                    <g
+                      key={`${name}-${seriesIndex}-${dataIndex}`}
+                      role="listitem"
+                      aria-label={ariaLabel}
+                    >
+                      <Point
+                        active
+                        ariaHidden={false}
+                        color={seriesColor}
+                        cx={cx}
+                        cy={cy}
+                        dataType={DataType.Point}
+                        index={index}
+                        isAnimated={shouldAnimate}
+                        radius={
+                          activePointIndex === index
+                            ? radius + ACTIVE_POINT_RADIUS_OFFSET
+                            : radius
+                        }
+                        tabIndex={0}
+                      />
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </g>
+      </ChartElements.Svg>
+
+      {emptyState ? null : (
+        <TooltipWrapper
+          chartBounds={{
+            width,
+            height,
+            x: dimensions?.x ?? chartXPosition,
+            y: dimensions?.y ?? chartYPosition,
+          }}
+          chartDimensions={dimensions}
+          focusElementDataType={DataType.Point}
+          getMarkup={getTooltipMarkup}
+          getPosition={getTooltipPosition}
+          margin={ChartMargin}
+          onIndexChange={setActivePointIndex}
+          parentRef={svgRef}
+          usePortal
+        />
+      )}
+
+      {showLegend && (
+        <LegendContainer
+          colorVisionType={COLOR_VISION_SINGLE_ITEM}
+          data={legend}
+          dimensions={dimensions}
+          enableHideOverflow
+          onDimensionChange={setLegendDimensions}
+          renderHiddenLegendLabel={renderHiddenLegendLabel}
+          renderLegendContent={renderLegendContent}
+        />
+      )}
+    </ChartElements.Div>
+  );
+
+  function getTrendLinePath({
+    slope,
+    intercept,
+  }: {
+    slope: number;
+    intercept: number;
+  }) {
+    const [start, end] = xScale.domain();
+    const step = (end - start) / (TREND_LINE_SAMPLES - 1);
+
+    // Sampled so the line bends correctly on log scales.
+    const coordinates = Array.from({length: TREND_LINE_SAMPLES}, (_, index) => {
+      const x = start + step * index;
+
+      return [xScale(x), yScale(slope * x + intercept)] as [number, number];
+    }).filter(([, y]) => Number.isFinite(y));
+
+    return line()(coordinates);
+  }
+
+  function formatPositionForTooltip(index: number): TooltipPosition {
+    const point = points[index];
+
+    if (point == null) {
+      return TOOLTIP_POSITION_DEFAULT_RETURN;
+    }
+
+    return {
+      x: chartXPosition + point.cx + (dimensions?.x ?? 0),
+      y: chartYPosition + point.cy - point.radius + (dimensions?.y ?? 0),
+      position: {
+        horizontal: TooltipHorizontalOffset.Center,
+        vertical: TooltipVerticalOffset.Above,
+      },
+      activeIndex: index,
+    };
+  }
+
+  function getTooltipPosition({
+    event,
+    index,
+    eventType,
+  }: TooltipPositionParams): TooltipPosition {
+    if (eventType === 'mouse' && event) {
+      const point = eventPointNative(event);
+
+      if (point == null) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      const svgX = point.svgX - chartXPosition;
+      const svgY = point.svgY - chartYPosition;
+
+      if (
+        svgX < 0 ||
+        svgX > drawableWidth ||
+        svgY < 0 ||
+        svgY > drawableHeight
+      ) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      let closestIndex: number | null = null;
+      let closestDistance = Infinity;
+
+      points.forEach(({cx, cy, seriesIndex}, pointIndex) => {
+        if (hiddenIndexes.includes(seriesIndex)) {
+          return;
+        }
+
+        const distance = Math.hypot(cx - svgX, cy - svgY);
+
+        if (distance < closestDistance) {
+          closestIndex = pointIndex;
+          closestDistance = distance;
+        }
+      });
+
+      return closestIndex == null
+        ? TOOLTIP_POSITION_DEFAULT_RETURN
+        : formatPositionForTooltip(closestIndex);
+    } else if (index != null) {
+      return formatPositionForTooltip(index);
+    }
+
+    return TOOLTIP_POSITION_DEFAULT_RETURN;
+  }
+}
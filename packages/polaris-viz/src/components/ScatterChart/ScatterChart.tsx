@@ -0,0 +1,131 @@
+import {
+  ChartState,
+  DEFAULT_CHART_PROPS,
+  usePolarisVizContext,
+} from '@shopify/polaris-viz-core';
+import type {
+  ChartProps,
+  LabelFormatter,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../components/ChartContainer';
+import {ChartSkeleton} from '../../components/ChartSkeleton';
+import {getYAxisOptionsWithDefaults} from '../../utilities';
+import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRenderer';
+import {useTheme, useThemeSeriesColors} from '../../hooks';
+import type {
+  RenderHiddenLegendLabel,
+  RenderLegendContent,
+  TooltipOptions,
+} from '../../types';
+
+import {Chart} from './Chart';
+import type {
+  ScatterDataSeries,
+  ScatterTooltipLabels,
+  ScatterXAxisOptions,
+} from './types';
+import {
+  getDataSeriesFromScatterData,
+  getScatterXAxisOptionsWithDefaults,
+} from './utilities';
+
+export type ScatterChartProps = {
+  emptyStateText?: string;
+  renderHiddenLegendLabel?: RenderHiddenLegendLabel;
+  renderLegendContent?: RenderLegendContent;
+  seriesNameFormatter?: LabelFormatter;
+  showLegend?: boolean;
+  /**
+   * Draws a dashed linear regression line through each series.
+   */
+  showTrendLine?: boolean;
+  sizeFormatter?: LabelFormatter;
+  theme?: string;
+  /**
+   * Names of the measures plotted on each axis, shown next
+   * to their values in the tooltip.
+   */
+  tooltipLabels?: ScatterTooltipLabels;
+  tooltipOptions?: TooltipOptions;
+  xAxisOptions?: Partial<ScatterXAxisOptions>;
+  yAxisOptions?: Partial<YAxisOptions>;
+} & ChartProps<ScatterDataSeries[]>;
+
+export function ScatterChart(props: ScatterChartProps) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    data,
+    emptyStateText,
+    errorText,
+    id,
+    isAnimated,
+    onError,
+    renderHiddenLegendLabel,
+    renderLegendContent,
+    seriesNameFormatter = (value) => `${value}`,
+    showLegend = true,
+    showTrendLine = false,
+    sizeFormatter = (value) => `${value}`,
+    state,
+    theme = defaultTheme,
+    tooltipLabels,
+    tooltipOptions,
+    xAxisOptions,
+    yAxisOptions,
+  } = {
+    ...DEFAULT_CHART_PROPS,
+    ...props,
+  };
+
+  const dataSeries = getDataSeriesFromScatterData(data);
+
+  const selectedTheme = useTheme(theme);
+  const seriesColors = useThemeSeriesColors(dataSeries, selectedTheme);
+
+  const seriesWithDefaults = data.map((series, index) => ({
+    color: seriesColors[index],
+    ...series,
+  }));
+
+  const xAxisOptionsWithDefaults =
+    getScatterXAxisOptionsWithDefaults(xAxisOptions);
+  const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
+
+  const renderTooltip = getTooltipContentRenderer({
+    tooltipOptions,
+    theme,
+    data: dataSeries,
+  });
+
+  return (
+    <ChartContainer
+      data={dataSeries}
+      id={id}
+      isAnimated={isAnimated}
+      onError={onError}
+      theme={theme}
+    >
+      {state !== ChartState.Success ? (
+        <ChartSkeleton state={state} errorText={errorText} theme={theme} />
+      ) : (
+        <Chart
+          data={seriesWithDefaults}
+          emptyStateText={emptyStateText}
+          renderHiddenLegendLabel={renderHiddenLegendLabel}
+          renderLegendContent={renderLegendContent}
+          renderTooltipContent={renderTooltip}
+          seriesNameFormatter={seriesNameFormatter}
+          showLegend={showLegend}
+          showTrendLine={showTrendLine}
+          sizeFormatter={sizeFormatter}
+          tooltipLabels={{x: 'x', y: 'y', size: 'size', ...tooltipLabels}}
+          xAxisOptions={xAxisOptionsWithDefaults}
+          yAxisOptions={yAxisOptionsWithDefaults}
+        />
+      )}
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,6 @@
+export const MIN_BUBBLE_RADIUS = 4;
+export const MAX_BUBBLE_RADIUS = 24;
+export const ACTIVE_POINT_RADIUS_OFFSET = 2;
+export const TREND_LINE_SAMPLES = 32;
+export const TREND_LINE_DASHARRAY = '4 4';
+export const MAX_X_AXIS_LABEL_WIDTH = 90;
@@ -0,0 +1,8 @@
+export {ScatterChart} from './ScatterChart';
+export type {ScatterChartProps} from './ScatterChart';
+export type {
+  ScatterDataPoint,
+  ScatterDataSeries,
+  ScatterTooltipLabels,
+  ScatterXAxisOptions,
+} from './types';
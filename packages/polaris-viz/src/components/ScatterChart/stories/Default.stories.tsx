@@ -0,0 +1,54 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {ScatterChartProps} from '../../../components';
+
+import {DEFAULT_DATA, LOG_DATA, Template} from './data';
+
+const TOOLTIP_LABELS = {
+  x: 'Orders',
+  y: 'Average order value',
+  size: 'Sessions',
+};
+
+export const Default: Story<ScatterChartProps> = Template.bind({});
+
+Default.args = {
+  data: DEFAULT_DATA.map((series) => ({
+    ...series,
+    data: series.data.map(({size, ...point}) => point),
+  })),
+  tooltipLabels: TOOLTIP_LABELS,
+  yAxisOptions: {
+    labelFormatter: (value) => `$${value}`,
+  },
+};
+
+export const Bubble: Story<ScatterChartProps> = Template.bind({});
+
+Bubble.args = {
+  data: DEFAULT_DATA,
+  tooltipLabels: TOOLTIP_LABELS,
+  yAxisOptions: {
+    labelFormatter: (value) => `$${value}`,
+  },
+};
+
+export const TrendLine: Story<ScatterChartProps> = Template.bind({});
+
+TrendLine.args = {
+  data: DEFAULT_DATA,
+  showTrendLine: true,
+  tooltipLabels: TOOLTIP_LABELS,
+};
+
+export const LogScale: Story<ScatterChartProps> = Template.bind({});
+
+LogScale.args = {
+  data: LOG_DATA,
+  showTrendLine: true,
+  tooltipLabels: {x: 'Orders', y: 'Sales'},
+  xAxisOptions: {scale: 'log'},
+  yAxisOptions: {scale: 'log'},
+};
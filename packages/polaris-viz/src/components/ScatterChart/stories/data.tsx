@@ -0,0 +1,50 @@
+import type {Story} from '@storybook/react';
+
+import type {ScatterChartProps} from '../ScatterChart';
+import {ScatterChart} from '../ScatterChart';
+import type {ScatterDataSeries} from '../types';
+
+export const DEFAULT_DATA: ScatterDataSeries[] = [
+  {
+    name: 'Apparel',
+    data: [
+      {x: 120, y: 42, size: 3400, label: 'T-shirt'},
+      {x: 85, y: 58, size: 2100, label: 'Hoodie'},
+      {x: 230, y: 31, size: 5200, label: 'Socks'},
+      {x: 40, y: 96, size: 900, label: 'Jacket'},
+      {x: 160, y: 38, size: 4100, label: 'Cap'},
+    ],
+  },
+  {
+    name: 'Home',
+    data: [
+      {x: 30, y: 120, size: 800, label: 'Lamp'},
+      {x: 55, y: 84, size: 1300, label: 'Rug'},
+      {x: 95, y: 64, size: 2600, label: 'Mug'},
+      {x: 20, y: 150, size: 600, label: 'Chair'},
+      {x: 70, y: 72, size: 1900, label: 'Candle'},
+    ],
+  },
+];
+
+export const LOG_DATA: ScatterDataSeries[] = [
+  {
+    name: 'Stores',
+    data: [
+      {x: 12, y: 340},
+      {x: 85, y: 2100},
+      {x: 430, y: 9800},
+      {x: 2900, y: 51000},
+      {x: 14000, y: 310000},
+      {x: 61000, y: 1200000},
+    ],
+  },
+];
+
+export const Template: Story<ScatterChartProps> = (args: ScatterChartProps) => {
+  return (
+    <div style={{height: 400}}>
+      <ScatterChart {...args} />
+    </div>
+  );
+};
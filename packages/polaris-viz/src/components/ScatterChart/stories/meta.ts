@@ -0,0 +1,51 @@
+import type {Meta} from '@storybook/react';
+
+import {
+  CHART_STATE_CONTROL_ARGS,
+  CONTROLS_ARGS,
+  EMPTY_STATE_TEXT_ARGS,
+  LEGEND_CONTROL_ARGS,
+  RENDER_LEGEND_CONTENT_ARGS,
+  RENDER_TOOLTIP_DESCRIPTION,
+  THEME_CONTROL_ARGS,
+  X_AXIS_OPTIONS_ARGS,
+  Y_AXIS_OPTIONS_ARGS,
+} from '../../../storybook/constants';
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {ScatterChart} from '../ScatterChart';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/ScatterChart',
+  component: ScatterChart,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to compare two numeric measures, like average order value against order count per product. Adding a `size` to points turns it into a bubble chart.',
+      },
+    },
+  },
+  argTypes: {
+    data: {
+      description:
+        'A collection of named series of points with numeric `x` and `y` values, and an optional `size`.',
+    },
+    showTrendLine: {
+      description: 'Draws a linear regression line through each series.',
+      control: {type: 'boolean'},
+    },
+    tooltipLabels: {
+      description: 'Names of the `x`, `y` and `size` measures in the tooltip.',
+    },
+    emptyStateText: EMPTY_STATE_TEXT_ARGS,
+    renderLegendContent: RENDER_LEGEND_CONTENT_ARGS,
+    showLegend: LEGEND_CONTROL_ARGS,
+    tooltipOptions: {description: RENDER_TOOLTIP_DESCRIPTION},
+    xAxisOptions: X_AXIS_OPTIONS_ARGS,
+    yAxisOptions: Y_AXIS_OPTIONS_ARGS,
+    theme: THEME_CONTROL_ARGS,
+    state: CHART_STATE_CONTROL_ARGS,
+  },
+};
@@ -0,0 +1,209 @@
+import {mount} from '@shopify/react-testing';
+import {DataType} from '@shopify/polaris-viz-core';
+
+import type {ChartProps} from '../Chart';
+import {Chart} from '../Chart';
+import {MAX_BUBBLE_RADIUS, TREND_LINE_DASHARRAY} from '../constants';
+import {LegendContainer} from '../../LegendContainer';
+import {Point} from '../../Point';
+import {TooltipWrapper} from '../../TooltipWrapper';
+
+const MOCK_PROPS: ChartProps = {
+  data: [
+    {
+      name: 'Products',
+      color: 'red',
+      data: [
+        {x: 10, y: 10, label: 'Socks'},
+        {x: 100, y: 20},
+        {x: 1000, y: 30},
+      ],
+    },
+  ],
+  dimensions: {height: 300, width: 600, x: 0, y: 0},
+  renderTooltipContent: jest.fn(() => null),
+  seriesNameFormatter: (value) => `${value}`,
+  showLegend: true,
+  showTrendLine: false,
+  sizeFormatter: (value) => `${value}`,
+  tooltipLabels: {x: 'Orders', y: 'Average order value', size: 'Sessions'},
+  xAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    hide: false,
+    allowLineWrap: false,
+    domain: null,
+    includeZero: true,
+    integersOnly: false,
+    scale: 'linear',
+  },
+  yAxisOptions: {
+    labelFormatter: (value) => `$${value}`,
+    integersOnly: false,
+    fixedWidth: false,
+    maxYOverride: null,
+    minYOverride: null,
+    domain: null,
+    includeZero: true,
+    scale: 'linear',
+  },
+};
+
+describe('<Chart />', () => {
+  it('renders a focusable <Point /> for each data point', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const points = chart.findAll(Point);
+
+    expect(points).toHaveLength(3);
+    expect(points[2]).toHaveReactProps({
+      active: true,
+      dataType: DataType.Point,
+      index: 2,
+      tabIndex: 0,
+    });
+  });
+
+  it('spaces points by their x value', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const [first, second, third] = chart
+      .findAll(Point)
+      .map((point) => point.prop('cx') as number);
+
+    expect(third - second).toBeCloseTo((second - first) * 10);
+  });
+
+  it('spaces points evenly by powers of ten on a log x-axis', () => {
+    const chart = mount(
+      <Chart
+        {...MOCK_PROPS}
+        xAxisOptions={{...MOCK_PROPS.xAxisOptions, scale: 'log'}}
+      />,
+    );
+
+    const [first, second, third] = chart
+      .findAll(Point)
+      .map((point) => point.prop('cx') as number);
+
+    expect(third - second).toBeCloseTo(second - first);
+  });
+
+  it('labels each point for screen readers', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent('g', {
+      role: 'listitem',
+      'aria-label': 'Socks: Orders 10, Average order value $10',
+    });
+  });
+
+  describe('size', () => {
+    it('uses the default point radius without sizes', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(
+        chart.findAll(Point).map((point) => point.prop('radius')),
+      ).toStrictEqual([5, 5, 5]);
+    });
+
+    it('scales the radius of bubbles by their size', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          data={[
+            {
+              name: 'Products',
+              color: 'red',
+              data: [
+                {x: 1, y: 1, size: 25},
+                {x: 2, y: 2, size: 100},
+              ],
+            },
+          ]}
+        />,
+      );
+
+      const [small, large] = chart
+        .findAll(Point)
+        .map((point) => point.prop('radius') as number);
+
+      expect(large).toBe(MAX_BUBBLE_RADIUS);
+      expect(small).toBeLessThan(large);
+    });
+  });
+
+  describe('showTrendLine', () => {
+    it('does not render a trend line by default', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).not.toContainReactComponent('path', {
+        strokeDasharray: TREND_LINE_DASHARRAY,
+      });
+    });
+
+    it('renders a trend line for each series', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} showTrendLine />);
+
+      expect(chart).toContainReactComponent('path', {
+        strokeDasharray: TREND_LINE_DASHARRAY,
+      });
+    });
+  });
+
+  describe('tooltip', () => {
+    it('renders <TooltipWrapper /> for points', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).toContainReactComponent(TooltipWrapper, {
+        focusElementDataType: DataType.Point,
+      });
+    });
+
+    it('renders the formatted measures of a point', () => {
+      const renderTooltipContent = jest.fn(() => null);
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          data={[
+            {
+              ...MOCK_PROPS.data[0],
+              data: [{x: 10, y: 10, size: 4, label: 'Socks'}],
+            },
+          ]}
+          renderTooltipContent={renderTooltipContent}
+        />,
+      );
+
+      chart.find(TooltipWrapper)!.prop('getMarkup')(0);
+
+      expect(renderTooltipContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Socks',
+          data: [
+            {
+              shape: 'Bar',
+              name: 'Products',
+              data: [
+                {key: 'Orders', value: '10', color: 'red'},
+                {key: 'Average order value', value: '$10', color: 'red'},
+                {key: 'Sessions', value: '4', color: 'red'},
+              ],
+            },
+          ],
+        }),
+      );
+    });
+  });
+
+  it('renders <LegendContainer /> when showLegend is true', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(LegendContainer);
+  });
+
+  it('does not render <LegendContainer /> when showLegend is false', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} showLegend={false} />);
+
+    expect(chart).not.toContainReactComponent(LegendContainer);
+  });
+});
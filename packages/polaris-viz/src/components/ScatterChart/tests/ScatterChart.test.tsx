@@ -0,0 +1,63 @@
+import {mount} from '@shopify/react-testing';
+import {ChartState} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../ChartContainer';
+import {ChartSkeleton} from '../../ChartSkeleton';
+import type {ScatterChartProps} from '../ScatterChart';
+import {ScatterChart} from '../ScatterChart';
+import {Chart} from '../Chart';
+
+const MOCK_PROPS: ScatterChartProps = {
+  data: [
+    {
+      name: 'Products',
+      data: [
+        {x: 10, y: 40},
+        {x: 20, y: 25},
+      ],
+    },
+  ],
+};
+
+describe('<ScatterChart />', () => {
+  it('renders <ChartContainer /> with the points as data series', () => {
+    const chart = mount(<ScatterChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(ChartContainer, {
+      data: [
+        {
+          name: 'Products',
+          data: [
+            {key: 10, value: 40},
+            {key: 20, value: 25},
+          ],
+        },
+      ],
+    });
+  });
+
+  it('renders <Chart /> with series colors', () => {
+    const chart = mount(<ScatterChart {...MOCK_PROPS} />);
+
+    expect(chart.find(Chart)!.prop('data')[0].color).toBeDefined();
+  });
+
+  it('renders <ChartSkeleton /> while loading', () => {
+    const chart = mount(
+      <ScatterChart {...MOCK_PROPS} state={ChartState.Loading} />,
+    );
+
+    expect(chart).toContainReactComponent(ChartSkeleton);
+    expect(chart).not.toContainReactComponent(Chart);
+  });
+
+  it('fills in tooltipLabels defaults', () => {
+    const chart = mount(
+      <ScatterChart {...MOCK_PROPS} tooltipLabels={{y: 'Orders'}} />,
+    );
+
+    expect(chart).toContainReactComponent(Chart, {
+      tooltipLabels: {x: 'x', y: 'Orders', size: 'size'},
+    });
+  });
+});
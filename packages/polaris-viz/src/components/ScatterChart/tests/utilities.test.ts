@@ -0,0 +1,57 @@
+import {
+  getDataSeriesFromScatterData,
+  getMinMax,
+  getScatterXAxisOptionsWithDefaults,
+} from '../utilities';
+
+describe('getScatterXAxisOptionsWithDefaults()', () => {
+  it('fills in the x-axis and scale defaults', () => {
+    const {labelFormatter, ...options} = getScatterXAxisOptionsWithDefaults();
+
+    expect(labelFormatter(10)).toBe('10');
+    expect(options).toStrictEqual({
+      hide: false,
+      allowLineWrap: true,
+      domain: null,
+      includeZero: true,
+      integersOnly: false,
+      scale: 'linear',
+    });
+  });
+
+  it('keeps the provided options', () => {
+    const options = getScatterXAxisOptionsWithDefaults({
+      scale: 'log',
+      includeZero: false,
+      hide: true,
+    });
+
+    expect(options).toMatchObject({
+      scale: 'log',
+      includeZero: false,
+      hide: true,
+    });
+  });
+});
+
+describe('getDataSeriesFromScatterData()', () => {
+  it('uses x as the key and y as the value', () => {
+    expect(
+      getDataSeriesFromScatterData([
+        {name: 'Products', color: 'red', data: [{x: 1, y: 2, size: 3}]},
+      ]),
+    ).toStrictEqual([
+      {name: 'Products', color: 'red', data: [{key: 1, value: 2}]},
+    ]);
+  });
+});
+
+describe('getMinMax()', () => {
+  it('returns the lowest and highest values', () => {
+    expect(getMinMax([4, -2, 9])).toStrictEqual({min: -2, max: 9});
+  });
+
+  it('returns 0 for both when there are no values', () => {
+    expect(getMinMax([])).toStrictEqual({min: 0, max: 0});
+  });
+});
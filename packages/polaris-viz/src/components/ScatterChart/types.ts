@@ -0,0 +1,32 @@
+import type {
+  DataSeries,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+
+export interface ScatterDataPoint {
+  x: number;
+  y: number;
+  /**
+   * A third measure drawn as the area of the point, turning
+   * the chart into a bubble chart.
+   */
+  size?: number;
+  /**
+   * Used as the tooltip title, like the name of a product.
+   */
+  label?: string;
+}
+
+export interface ScatterDataSeries extends Omit<DataSeries, 'data'> {
+  data: ScatterDataPoint[];
+}
+
+export type ScatterXAxisOptions = Omit<XAxisOptions, 'type'> &
+  Pick<YAxisOptions, 'domain' | 'includeZero' | 'integersOnly' | 'scale'>;
+
+export interface ScatterTooltipLabels {
+  x?: string;
+  y?: string;
+  size?: string;
+}
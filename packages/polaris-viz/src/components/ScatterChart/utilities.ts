@@ -0,0 +1,46 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {
+  getXAxisOptionsWithDefaults,
+  getYAxisOptionsWithDefaults,
+} from '../../utilities';
+
+import type {ScatterDataSeries, ScatterXAxisOptions} from './types';
+
+export function getScatterXAxisOptionsWithDefaults(
+  xAxisOptions: Partial<ScatterXAxisOptions> = {},
+): Required<ScatterXAxisOptions> {
+  const {labelFormatter, hide, allowLineWrap} =
+    getXAxisOptionsWithDefaults(xAxisOptions);
+  const {domain, includeZero, integersOnly, scale} =
+    getYAxisOptionsWithDefaults(xAxisOptions);
+
+  return {
+    labelFormatter,
+    hide,
+    allowLineWrap,
+    domain,
+    includeZero,
+    integersOnly,
+    scale,
+  };
+}
+
+// Legends and containers expect `DataSeries`, so points are
+// passed along with `x` as the key and `y` as the value.
+export function getDataSeriesFromScatterData(
+  data: ScatterDataSeries[],
+): DataSeries[] {
+  return data.map((series) => ({
+    ...series,
+    data: series.data.map(({x, y}) => ({key: x, value: y})),
+  }));
+}
+
+export function getMinMax(values: number[]) {
+  if (values.length === 0) {
+    return {min: 0, max: 0};
+  }
+
+  return {min: Math.min(...values), max: Math.max(...values)};
+}
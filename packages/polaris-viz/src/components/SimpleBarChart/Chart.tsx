@@ -1,4 +1,4 @@
-import {useMemo} from 'react';
+import {useMemo, useState} from 'react';
 import {
   uniqueId,
   COLOR_VISION_SINGLE_ITEM,
@@ -25,9 +25,14 @@ import {
   useHorizontalSeriesColors,
   useHorizontalStackedValues,
   useColorVisionEvents,
+  useDataPointClickEvents,
 } from '../../hooks';
 import {getContainerAlignmentForLegend} from '../../utilities';
-import type {LegendPosition, RenderLegendContent} from '../../types';
+import type {
+  DataPointClickHandler,
+  LegendPosition,
+  RenderLegendContent,
+} from '../../types';
 
 import type {SimpleBarChartDataSeries} from './types';
 import {getLongestTrendIndicator} from './utilities';
@@ -36,10 +41,11 @@ export interface ChartProps {
   data: SimpleBarChartDataSeries[];
   seriesNameFormatter: LabelFormatter;
   showLegend: boolean;
-  type: ChartType;
+  type: Exclude<ChartType, 'stackedPercent'>;
   xAxisOptions: Required<XAxisOptions>;
   yAxisOptions: Required<YAxisOptions>;
   dimensions?: Dimensions;
+  onBarClick?: DataPointClickHandler;
   renderLegendContent?: RenderLegendContent;
   legendPosition?: LegendPosition;
 }
@@ -47,6 +53,7 @@ export interface ChartProps {
 export function Chart({
   data,
   dimensions,
+  onBarClick,
   renderLegendContent,
   legendPosition = 'bottom-right',
   seriesNameFormatter,
@@ -58,6 +65,9 @@ export function Chart({
   useColorVisionEvents({enabled: data.length > 1});
 
   const id = useMemo(() => uniqueId('SimpleBarChart'), []);
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+
+  useDataPointClickEvents({data, onClick: onBarClick, parentElement: svgRef});
 
   const {labelFormatter} = xAxisOptions;
   const isStacked = type === 'stacked';
@@ -129,7 +139,7 @@ export function Chart({
   const containerStyle = getContainerAlignmentForLegend(legendPosition, true);
   return (
     <ChartElements.Div style={containerStyle} width="auto" height="auto">
-      <ChartElements.Svg height={height} width={width}>
+      <ChartElements.Svg height={height} setRef={setSvgRef} width={width}>
         <GradientDefs
           direction="horizontal"
           gradientUnits={isStacked ? 'objectBoundingBox' : 'userSpaceOnUse'}
@@ -163,6 +173,7 @@ export function Chart({
                 groupHeight={groupHeight}
                 id={id}
                 index={index}
+                isClickable={onBarClick != null}
                 isSimple
                 isStacked={isStacked}
                 name={name}
@@ -17,7 +17,11 @@ import {
 } from '../../utilities';
 import {ChartContainer} from '../../components/ChartContainer';
 import {ChartSkeleton} from '../../components';
-import type {LegendPosition, RenderLegendContent} from '../../types';
+import type {
+  DataPointClickHandler,
+  LegendPosition,
+  RenderLegendContent,
+} from '../../types';
 
 import {Chart} from './Chart';
 import type {SimpleBarChartDataSeries} from './types';
@@ -26,9 +30,10 @@ export type SimpleBarChartProps = {
   data: SimpleBarChartDataSeries[];
   renderLegendContent?: RenderLegendContent;
   legendPosition?: LegendPosition;
+  onBarClick?: DataPointClickHandler;
   seriesNameFormatter?: LabelFormatter;
   showLegend?: boolean;
-  type?: ChartType;
+  type?: Exclude<ChartType, 'stackedPercent'>;
   xAxisOptions?: XAxisOptions;
   yAxisOptions?: YAxisOptions;
 } & ChartProps;
@@ -42,6 +47,7 @@ export function SimpleBarChart(props: SimpleBarChartProps) {
     data,
     renderLegendContent,
     legendPosition = 'bottom-right',
+    onBarClick,
     onError,
     seriesNameFormatter = (value) => `${value}`,
     showLegend = true,
@@ -76,6 +82,7 @@ export function SimpleBarChart(props: SimpleBarChartProps) {
       ) : (
         <Chart
           data={data}
+          onBarClick={onBarClick}
           renderLegendContent={renderLegendContent}
           seriesNameFormatter={seriesNameFormatter}
           legendPosition={legendPosition}
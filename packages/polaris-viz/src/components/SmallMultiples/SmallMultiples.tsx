@@ -0,0 +1,207 @@
+import type {ComponentType} from 'react';
+import {useMemo} from 'react';
+import type {
+  DataSeries,
+  LabelFormatter,
+  Shape,
+} from '@shopify/polaris-viz-core';
+import {
+  ChartContext,
+  DEFAULT_THEME_NAME,
+  FONT_FAMILY,
+  uniqueId,
+  usePolarisVizContext,
+} from '@shopify/polaris-viz-core';
+
+import characterWidths from '../../data/character-widths.json';
+import characterWidthOffsets from '../../data/character-width-offsets.json';
+import {FONT_SIZE} from '../../constants';
+import {
+  useHiddenSeries,
+  usePrefersReducedMotion,
+  useTheme,
+  useThemeSeriesColors,
+} from '../../hooks';
+import {SharedChartContext} from '../ChartContainer';
+import {SyncGroup} from '../SyncGroup';
+
+import {SharedLegend} from './components';
+import {DEFAULT_CHART_HEIGHT, DEFAULT_COLUMNS} from './constants';
+import type {
+  NoInfer,
+  SmallMultiplesChartProps,
+  SmallMultiplesFacet,
+  SmallMultiplesYDomain,
+} from './types';
+import {getSharedYDomain} from './utilities/getSharedYDomain';
+import styles from './SmallMultiples.scss';
+
+export interface SmallMultiplesProps<T> {
+  /**
+   * The chart rendered for each facet, such as `LineChart` or `BarChart`.
+   */
+  chart: ComponentType<SmallMultiplesChartProps & Partial<T>>;
+  data: SmallMultiplesFacet[];
+  chartHeight?: number;
+  /**
+   * Props passed to every chart. Stacked charts should include
+   * `type: 'stacked'` so the shared y-domain fits the stack totals.
+   */
+  chartProps?: Partial<NoInfer<T>> &
+    Partial<Omit<SmallMultiplesChartProps, 'data'>>;
+  columns?: number;
+  /**
+   * Indexes of the series hidden by toggling their legend items.
+   * Leave undefined to let the component track them itself.
+   */
+  hiddenSeries?: number[];
+  isAnimated?: boolean;
+  legendShape?: Shape;
+  onHiddenSeriesChange?: (hiddenSeries: number[]) => void;
+  seriesNameFormatter?: LabelFormatter;
+  showLegend?: boolean;
+  theme?: string;
+  /**
+   * `shared` fits every chart to the same y-domain so they can be
+   * compared. `independent` fits each chart to its own data.
+   */
+  yDomain?: SmallMultiplesYDomain;
+}
+
+export function SmallMultiples<T>(props: SmallMultiplesProps<T>) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    chart: Chart,
+    chartHeight = DEFAULT_CHART_HEIGHT,
+    columns = DEFAULT_COLUMNS,
+    data,
+    isAnimated = true,
+    legendShape = 'Line',
+    seriesNameFormatter = (value) => `${value}`,
+    showLegend = true,
+    theme = defaultTheme ?? DEFAULT_THEME_NAME,
+    yDomain = 'shared',
+  } = props;
+
+  const chartProps: NonNullable<SmallMultiplesProps<T>['chartProps']> =
+    props.chartProps ?? {};
+
+  const selectedTheme = useTheme(theme);
+  const {prefersReducedMotion} = usePrefersReducedMotion();
+  const {hiddenSeries, toggleSeries} = useHiddenSeries({
+    hiddenSeries: props.hiddenSeries,
+    onHiddenSeriesChange: props.onHiddenSeriesChange,
+  });
+
+  const chartContext = useMemo(
+    () => ({
+      id: uniqueId('smallMultiples'),
+      characterWidths,
+      characterWidthOffsets,
+      isPerformanceImpacted: false,
+      shouldAnimate: isAnimated && !prefersReducedMotion,
+      theme,
+    }),
+    [isAnimated, prefersReducedMotion, theme],
+  );
+
+  const userYAxisOptions = chartProps.yAxisOptions;
+  const chartType = chartProps.type;
+
+  const sharedDomain = useMemo(() => {
+    if (
+      yDomain === 'independent' ||
+      chartType === 'stackedPercent' ||
+      userYAxisOptions?.domain != null
+    ) {
+      return null;
+    }
+
+    return getSharedYDomain({
+      data,
+      hiddenSeries,
+      includeZero: userYAxisOptions?.includeZero ?? true,
+      isStacked: chartType === 'stacked',
+    });
+  }, [chartType, data, hiddenSeries, userYAxisOptions, yDomain]);
+
+  const chartIds = useMemo(
+    () => data.map(() => uniqueId('smallMultiplesChart')),
+    [data],
+  );
+
+  // Facets can be missing series, so the legend follows the facet
+  // with the most of them.
+  const legendSeries = useMemo(
+    () =>
+      data.reduce<DataSeries[]>(
+        (longest, {data: series}) =>
+          series.length > longest.length ? series : longest,
+        [],
+      ),
+    [data],
+  );
+
+  const seriesColors = useThemeSeriesColors(legendSeries, selectedTheme);
+
+  const legend = legendSeries.map(({name, isComparison}, index) => ({
+    name: seriesNameFormatter(name ?? ''),
+    color: seriesColors[index],
+    isComparison,
+    shape: legendShape,
+  }));
+
+  const yAxisOptions =
+    sharedDomain == null
+      ? userYAxisOptions
+      : {...userYAxisOptions, domain: sharedDomain};
+
+  return (
+    <ChartContext.Provider value={chartContext}>
+      <SharedChartContext.Provider value={chartContext}>
+        <SyncGroup>
+          <div
+            className={styles.Grid}
+            style={{gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`}}
+          >
+            {data.map(({facet, data: series}, index) => (
+              <div key={facet}>
+                <p
+                  className={styles.Title}
+                  style={{
+                    color: selectedTheme.legend.labelColor,
+                    fontFamily: FONT_FAMILY,
+                    fontSize: FONT_SIZE,
+                  }}
+                >
+                  {facet}
+                </p>
+                <div style={{height: chartHeight}}>
+                  <Chart
+                    {...chartProps}
+                    data={series}
+                    hiddenSeries={hiddenSeries}
+                    id={chartIds[index]}
+                    isAnimated={isAnimated}
+                    showLegend={false}
+                    theme={theme}
+                    yAxisOptions={yAxisOptions}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </SyncGroup>
+        {showLegend && (
+          <SharedLegend
+            chartIds={chartIds}
+            data={legend}
+            hiddenSeries={hiddenSeries}
+            onToggleSeries={toggleSeries}
+          />
+        )}
+      </SharedChartContext.Provider>
+    </ChartContext.Provider>
+  );
+}
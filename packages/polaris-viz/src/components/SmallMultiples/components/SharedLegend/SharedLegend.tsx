@@ -0,0 +1,65 @@
+import {
+  COLOR_VISION_SINGLE_ITEM,
+  useChartContext,
+} from '@shopify/polaris-viz-core';
+
+import {
+  getEventName,
+  useColorVisionEvents,
+  useWatchColorVisionEvents,
+} from '../../../../hooks/ColorVisionA11y';
+import {getChartId} from '../../../../utilities/getChartId';
+import type {LegendData} from '../../../../types';
+import {LegendContainer} from '../../../LegendContainer';
+
+export interface SharedLegendProps {
+  /**
+   * The ids of the charts the legend's color vision events
+   * are forwarded to.
+   */
+  chartIds: string[];
+  data: LegendData[];
+  hiddenSeries: number[];
+  onToggleSeries: (index: number) => void;
+}
+
+// The legend sizes itself, so it doesn't need to report its dimensions.
+const noop = () => {};
+
+export function SharedLegend({
+  chartIds,
+  data,
+  hiddenSeries,
+  onToggleSeries,
+}: SharedLegendProps) {
+  const {id} = useChartContext();
+
+  useColorVisionEvents();
+
+  // Each chart listens for events on its own id, so hovering
+  // the legend has to be repeated for every chart.
+  useWatchColorVisionEvents({
+    type: COLOR_VISION_SINGLE_ITEM,
+    onIndexChange: ({detail}) => {
+      chartIds.forEach((chartId) => {
+        window.dispatchEvent(
+          new CustomEvent(getEventName(chartId, COLOR_VISION_SINGLE_ITEM), {
+            detail,
+          }),
+        );
+      });
+    },
+  });
+
+  return (
+    <div id={getChartId(id)}>
+      <LegendContainer
+        colorVisionType={COLOR_VISION_SINGLE_ITEM}
+        data={data}
+        onDimensionChange={noop}
+        hiddenSeries={hiddenSeries}
+        onToggleSeries={onToggleSeries}
+      />
+    </div>
+  );
+}
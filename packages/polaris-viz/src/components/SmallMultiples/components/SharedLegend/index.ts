@@ -0,0 +1,2 @@
+export {SharedLegend} from './SharedLegend';
+export type {SharedLegendProps} from './SharedLegend';
@@ -0,0 +1 @@
+export {SharedLegend} from './SharedLegend';
@@ -0,0 +1,2 @@
+export const DEFAULT_CHART_HEIGHT = 200;
+export const DEFAULT_COLUMNS = 2;
@@ -0,0 +1,7 @@
+export {SmallMultiples} from './SmallMultiples';
+export type {SmallMultiplesProps} from './SmallMultiples';
+export type {
+  SmallMultiplesChartProps,
+  SmallMultiplesFacet,
+  SmallMultiplesYDomain,
+} from './types';
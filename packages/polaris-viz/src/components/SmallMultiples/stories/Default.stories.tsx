@@ -0,0 +1,49 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {
+  SmallMultiplesChartProps,
+  SmallMultiplesProps,
+} from '../../../components';
+import {BarChart, LineChart, StackedAreaChart} from '../../../components';
+
+import {DEFAULT_DATA, Template} from './data';
+
+export const Default: Story<SmallMultiplesProps<SmallMultiplesChartProps>> =
+  Template.bind({});
+
+Default.args = {
+  chart: LineChart,
+  data: DEFAULT_DATA,
+};
+
+export const IndependentYDomains: Story<
+  SmallMultiplesProps<SmallMultiplesChartProps>
+> = Template.bind({});
+
+IndependentYDomains.args = {
+  chart: LineChart,
+  data: DEFAULT_DATA,
+  yDomain: 'independent',
+};
+
+export const BarCharts: Story<SmallMultiplesProps<SmallMultiplesChartProps>> =
+  Template.bind({});
+
+BarCharts.args = {
+  chart: BarChart,
+  columns: 4,
+  data: DEFAULT_DATA,
+  legendShape: 'Bar',
+};
+
+export const StackedAreaCharts: Story<
+  SmallMultiplesProps<SmallMultiplesChartProps>
+> = Template.bind({});
+
+StackedAreaCharts.args = {
+  chart: StackedAreaChart,
+  chartProps: {type: 'stacked'},
+  data: DEFAULT_DATA,
+};
@@ -0,0 +1,52 @@
+import type {Story} from '@storybook/react';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import type {SmallMultiplesProps} from '../SmallMultiples';
+import {SmallMultiples} from '../SmallMultiples';
+import type {SmallMultiplesChartProps, SmallMultiplesFacet} from '../types';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'];
+
+function buildSeries(name: string, values: number[]): DataSeries {
+  return {
+    name,
+    data: values.map((value, index) => ({key: MONTHS[index], value})),
+  };
+}
+
+export const DEFAULT_DATA: SmallMultiplesFacet[] = [
+  {
+    facet: 'Canada',
+    data: [
+      buildSeries('Online store', [320, 410, 380, 460, 520, 610]),
+      buildSeries('Point of sale', [120, 140, 110, 150, 170, 160]),
+    ],
+  },
+  {
+    facet: 'United States',
+    data: [
+      buildSeries('Online store', [880, 940, 1020, 990, 1120, 1260]),
+      buildSeries('Point of sale', [310, 290, 330, 360, 340, 390]),
+    ],
+  },
+  {
+    facet: 'Mexico',
+    data: [
+      buildSeries('Online store', [90, 120, 150, 140, 190, 230]),
+      buildSeries('Point of sale', [60, 50, 70, 80, 75, 90]),
+    ],
+  },
+  {
+    facet: 'United Kingdom',
+    data: [
+      buildSeries('Online store', [410, 390, 450, 480, 470, 530]),
+      buildSeries('Point of sale', [150, 160, 140, 170, 190, 180]),
+    ],
+  },
+];
+
+export const Template: Story<SmallMultiplesProps<SmallMultiplesChartProps>> = (
+  args: SmallMultiplesProps<SmallMultiplesChartProps>,
+) => {
+  return <SmallMultiples {...args} />;
+};
@@ -0,0 +1,59 @@
+import type {Meta} from '@storybook/react';
+
+import {
+  CONTROLS_ARGS,
+  HIDDEN_SERIES_ARGS,
+  IS_ANIMATED_ARGS,
+  LEGEND_CONTROL_ARGS,
+  THEME_CONTROL_ARGS,
+} from '../../../storybook/constants';
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {SmallMultiples} from '../SmallMultiples';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/SmallMultiples',
+  component: SmallMultiples,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to compare the same chart across the values of a dimension, like sales by country.',
+      },
+    },
+  },
+  argTypes: {
+    chart: {
+      description:
+        'The chart rendered for each facet, such as `LineChart`, `BarChart` or `StackedAreaChart`.',
+      control: false,
+    },
+    data: {
+      description:
+        'A list of facets, each with a `facet` title and the `DataSeries[]` passed to its chart.',
+    },
+    chartProps: {
+      description:
+        "Props passed to every chart. Stacked charts should include `type: 'stacked'` so the shared y-domain fits the stack totals.",
+    },
+    columns: {
+      description: 'The number of charts in each row.',
+      control: {type: 'number'},
+    },
+    chartHeight: {
+      description: 'The height of each chart in pixels.',
+      control: {type: 'number'},
+    },
+    yDomain: {
+      description:
+        '`shared` fits every chart to the same y-domain so they can be compared. `independent` fits each chart to its own data.',
+      options: ['shared', 'independent'],
+      control: {type: 'select'},
+    },
+    hiddenSeries: HIDDEN_SERIES_ARGS,
+    isAnimated: IS_ANIMATED_ARGS,
+    showLegend: LEGEND_CONTROL_ARGS,
+    theme: THEME_CONTROL_ARGS,
+  },
+};
@@ -0,0 +1,191 @@
+import {useMemo} from 'react';
+import {mount} from '@shopify/react-testing';
+import {
+  ChartContext,
+  LineSeries,
+  useChartContext,
+} from '@shopify/polaris-viz-core';
+
+import type {LineChartProps} from '../../LineChart';
+import {LineChart} from '../../LineChart';
+import {BarChart} from '../../BarChart';
+import {LegendContainer} from '../../LegendContainer';
+import {SyncGroup} from '../../SyncGroup';
+import {SmallMultiples} from '../SmallMultiples';
+import type {SmallMultiplesFacet} from '../types';
+
+const DATA: SmallMultiplesFacet[] = [
+  {
+    facet: 'Canada',
+    data: [
+      {
+        name: 'Sales',
+        data: [
+          {key: 'Jan', value: 12},
+          {key: 'Feb', value: 38},
+        ],
+      },
+    ],
+  },
+  {
+    facet: 'Mexico',
+    data: [
+      {
+        name: 'Sales',
+        data: [
+          {key: 'Jan', value: 73},
+          {key: 'Feb', value: 21},
+        ],
+      },
+    ],
+  },
+];
+
+// `ChartContainer` is mocked in tests, so this gives each chart
+// a context with its own id the way the real container does.
+function ChartWithOwnId(props: LineChartProps) {
+  const chartContext = useChartContext();
+  const value = useMemo(
+    () => ({...chartContext, id: props.id!}),
+    [chartContext, props.id],
+  );
+
+  return (
+    <ChartContext.Provider value={value}>
+      <LineChart {...props} />
+    </ChartContext.Provider>
+  );
+}
+
+describe('<SmallMultiples />', () => {
+  it('renders a chart for each facet', () => {
+    const smallMultiples = mount(
+      <SmallMultiples chart={LineChart} data={DATA} />,
+    );
+
+    expect(smallMultiples).toContainReactComponentTimes(LineChart, 2);
+    expect(smallMultiples).toContainReactText('Canada');
+    expect(smallMultiples).toContainReactText('Mexico');
+  });
+
+  it('renders the charts inside a <SyncGroup />', () => {
+    const smallMultiples = mount(
+      <SmallMultiples chart={LineChart} data={DATA} />,
+    );
+
+    expect(smallMultiples.find(SyncGroup)).toContainReactComponentTimes(
+      LineChart,
+      2,
+    );
+  });
+
+  it('lays out the charts in the given number of columns', () => {
+    const smallMultiples = mount(
+      <SmallMultiples chart={LineChart} data={DATA} columns={3} />,
+    );
+
+    expect(smallMultiples).toContainReactComponent('div', {
+      style: {gridTemplateColumns: 'repeat(3, minmax(0, 1fr))'},
+    });
+  });
+
+  it('renders a single legend and hides the chart legends', () => {
+    const smallMultiples = mount(
+      <SmallMultiples chart={LineChart} data={DATA} />,
+    );
+
+    expect(smallMultiples).toContainReactComponentTimes(LegendContainer, 1);
+    expect(smallMultiples).toContainReactComponent(LineChart, {
+      showLegend: false,
+    });
+  });
+
+  it('does not render a legend when showLegend is false', () => {
+    const smallMultiples = mount(
+      <SmallMultiples chart={LineChart} data={DATA} showLegend={false} />,
+    );
+
+    expect(smallMultiples).not.toContainReactComponent(LegendContainer);
+  });
+
+  describe('yDomain', () => {
+    it('shares the y-domain by default', () => {
+      const smallMultiples = mount(
+        <SmallMultiples chart={LineChart} data={DATA} />,
+      );
+
+      smallMultiples.findAll(LineChart).forEach((chart) => {
+        expect(chart.prop('yAxisOptions')).toStrictEqual({domain: [0, 80]});
+      });
+    });
+
+    it('does not set a domain when independent', () => {
+      const smallMultiples = mount(
+        <SmallMultiples chart={LineChart} data={DATA} yDomain="independent" />,
+      );
+
+      expect(smallMultiples).toContainReactComponent(LineChart, {
+        yAxisOptions: undefined,
+      });
+    });
+
+    it('keeps a domain passed in chartProps', () => {
+      const smallMultiples = mount(
+        <SmallMultiples
+          chart={BarChart}
+          data={DATA}
+          chartProps={{yAxisOptions: {domain: [0, 200]}}}
+        />,
+      );
+
+      expect(smallMultiples).toContainReactComponent(BarChart, {
+        yAxisOptions: {domain: [0, 200]},
+      });
+    });
+  });
+
+  describe('hiddenSeries', () => {
+    it('hides series in all charts when toggled from the legend', () => {
+      const onHiddenSeriesChange = jest.fn();
+      const smallMultiples = mount(
+        <SmallMultiples
+          chart={LineChart}
+          data={DATA}
+          onHiddenSeriesChange={onHiddenSeriesChange}
+        />,
+      );
+
+      smallMultiples.act(() => {
+        smallMultiples.find(LegendContainer)!.trigger('onToggleSeries', 0);
+      });
+
+      expect(onHiddenSeriesChange).toHaveBeenCalledWith([0]);
+
+      smallMultiples.findAll(LineChart).forEach((chart) => {
+        expect(chart.prop('hiddenSeries')).toStrictEqual([0]);
+      });
+    });
+  });
+
+  describe('color vision', () => {
+    it('fades the other series in all charts when a legend item is hovered', () => {
+      const smallMultiples = mount(
+        <SmallMultiples chart={ChartWithOwnId} data={DATA} />,
+      );
+
+      const legendItem = smallMultiples
+        .find(LegendContainer)!
+        .domNode!.querySelector('[data-color-vision-event-watch="true"]')!;
+
+      smallMultiples.act(() => {
+        legendItem.dispatchEvent(new MouseEvent('mouseenter'));
+      });
+
+      expect(smallMultiples.findAll(LineSeries)).toHaveLength(2);
+
+      smallMultiples.findAll(LineSeries).forEach((series) => {
+        expect(series.prop('activeLineIndex')).toStrictEqual(0);
+      });
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import type {DataSeries, YAxisOptions} from '@shopify/polaris-viz-core';
+
+export interface SmallMultiplesFacet {
+  /**
+   * The value of the dimension the data is split by, shown above its chart.
+   */
+  facet: string;
+  data: DataSeries[];
+}
+
+export type SmallMultiplesYDomain = 'shared' | 'independent';
+
+export interface SmallMultiplesChartProps {
+  data: DataSeries[];
+  hiddenSeries?: number[];
+  id?: string;
+  isAnimated?: boolean;
+  showLegend?: boolean;
+  theme?: string;
+  type?: string;
+  yAxisOptions?: Partial<YAxisOptions>;
+}
+
+// Stops TypeScript from inferring a type parameter from this
+// position, so it's taken from the other props instead.
+export type NoInfer<T> = [T][T extends any ? 0 : never];
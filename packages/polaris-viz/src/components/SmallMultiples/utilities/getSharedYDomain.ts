@@ -0,0 +1,68 @@
+import {scaleLinear} from 'd3-scale';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import type {SmallMultiplesFacet} from '../types';
+
+interface Props {
+  data: SmallMultiplesFacet[];
+  hiddenSeries: number[];
+  includeZero: boolean;
+  isStacked: boolean;
+}
+
+// The domain fits every facet and is rounded out to nice
+// numbers so each y-axis ends on a tick.
+export function getSharedYDomain({
+  data,
+  hiddenSeries,
+  includeZero,
+  isStacked,
+}: Props): [number, number] | null {
+  const values = data
+    .flatMap(({data: series}) => {
+      const visibleSeries = series.filter(
+        (_, index) => !hiddenSeries.includes(index),
+      );
+
+      return isStacked
+        ? getStackTotals(visibleSeries)
+        : visibleSeries.flatMap(({data}) =>
+            data.flatMap(({value, lower, upper}) => [value, lower, upper]),
+          );
+    })
+    .filter((value): value is number => value != null);
+
+  if (values.length === 0) {
+    return null;
+  }
+
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+
+  if (includeZero) {
+    min = Math.min(0, min);
+    max = Math.max(0, max);
+  }
+
+  if (min === max) {
+    return null;
+  }
+
+  const [niceMin, niceMax] = scaleLinear().domain([min, max]).nice().domain();
+
+  return [niceMin, niceMax];
+}
+
+// Positive and negative values stack away from 0 separately.
+function getStackTotals(series: DataSeries[]) {
+  const length = Math.max(0, ...series.map(({data}) => data.length));
+
+  return Array.from({length}, (_, index) => {
+    const values = series.map(({data}) => data[index]?.value ?? 0);
+
+    return [
+      values.reduce((sum, value) => sum + Math.max(0, value), 0),
+      values.reduce((sum, value) => sum + Math.min(0, value), 0),
+    ];
+  }).flat();
+}
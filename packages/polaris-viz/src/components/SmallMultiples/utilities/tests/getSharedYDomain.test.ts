@@ -0,0 +1,100 @@
+import type {SmallMultiplesFacet} from '../../types';
+import {getSharedYDomain} from '../getSharedYDomain';
+
+const DATA: SmallMultiplesFacet[] = [
+  {
+    facet: 'Canada',
+    data: [
+      {
+        name: 'Sales',
+        data: [
+          {key: 'Jan', value: 12},
+          {key: 'Feb', value: 38},
+        ],
+      },
+      {
+        name: 'Returns',
+        data: [
+          {key: 'Jan', value: 4},
+          {key: 'Feb', value: 6},
+        ],
+      },
+    ],
+  },
+  {
+    facet: 'Mexico',
+    data: [
+      {
+        name: 'Sales',
+        data: [
+          {key: 'Jan', value: 73},
+          {key: 'Feb', value: 21},
+        ],
+      },
+      {
+        name: 'Returns',
+        data: [
+          {key: 'Jan', value: 9},
+          {key: 'Feb', value: -3},
+        ],
+      },
+    ],
+  },
+];
+
+describe('getSharedYDomain()', () => {
+  it('fits the values of all facets to nice numbers', () => {
+    expect(
+      getSharedYDomain({
+        data: DATA,
+        hiddenSeries: [],
+        includeZero: false,
+        isStacked: false,
+      }),
+    ).toStrictEqual([-10, 80]);
+  });
+
+  it('skips hidden series', () => {
+    expect(
+      getSharedYDomain({
+        data: DATA,
+        hiddenSeries: [1],
+        includeZero: false,
+        isStacked: false,
+      }),
+    ).toStrictEqual([10, 75]);
+  });
+
+  it('includes 0 when includeZero is true', () => {
+    expect(
+      getSharedYDomain({
+        data: DATA,
+        hiddenSeries: [1],
+        includeZero: true,
+        isStacked: false,
+      }),
+    ).toStrictEqual([0, 80]);
+  });
+
+  it('uses the stack totals when isStacked is true', () => {
+    expect(
+      getSharedYDomain({
+        data: DATA,
+        hiddenSeries: [],
+        includeZero: true,
+        isStacked: true,
+      }),
+    ).toStrictEqual([-10, 90]);
+  });
+
+  it('returns null without a range of values', () => {
+    expect(
+      getSharedYDomain({
+        data: [{facet: 'Canada', data: []}],
+        hiddenSeries: [],
+        includeZero: true,
+        isStacked: false,
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+import type {UIEvent} from 'react';
+import {useMemo, useState} from 'react';
+import type {
+  SparkTableCellValue,
+  SparkTableColumn,
+  SparkTableRow,
+} from '@shopify/polaris-viz-core';
+import {
+  FONT_FAMILY,
+  SparkScaleContext,
+  getSparkTableSeries,
+  usePolarisVizContext,
+  useSparkTableScales,
+} from '@shopify/polaris-viz-core';
+
+import {FONT_SIZE} from '../../constants';
+import {useTheme} from '../../hooks';
+import {FixedDimensionsContext} from '../ChartContainer';
+import {SparkBarChart} from '../SparkBarChart';
+import {SparkLineChart} from '../SparkLineChart';
+
+import {
+  CELL_VERTICAL_PADDING,
+  DEFAULT_HEIGHT,
+  DEFAULT_OVERSCAN,
+  DEFAULT_ROW_HEIGHT,
+  DEFAULT_SPARK_WIDTH,
+} from './constants';
+import {getVisibleRowRange} from './utilities/getVisibleRowRange';
+import styles from './SparkTable.scss';
+
+export interface SparkTableProps {
+  columns: SparkTableColumn[];
+  rows: SparkTableRow[];
+  /**
+   * The height of the scrolling table in pixels.
+   */
+  height?: number;
+  /**
+   * The number of rows mounted above and below the visible rows.
+   */
+  overscan?: number;
+  /**
+   * The height of each row in pixels. Rows must share a height
+   * so the table can work out which of them are visible.
+   */
+  rowHeight?: number;
+  sparkWidth?: number;
+  theme?: string;
+}
+
+export function SparkTable(props: SparkTableProps) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    columns,
+    rows,
+    height = DEFAULT_HEIGHT,
+    overscan = DEFAULT_OVERSCAN,
+    rowHeight = DEFAULT_ROW_HEIGHT,
+    sparkWidth = DEFAULT_SPARK_WIDTH,
+    theme = defaultTheme,
+  } = props;
+
+  const selectedTheme = useTheme(theme);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const sparkHeight = rowHeight - CELL_VERTICAL_PADDING * 2;
+
+  // Cells have a fixed size, so spark charts skip measuring
+  // their container.
+  const sparkDimensions = useMemo(
+    () => ({width: sparkWidth, height: sparkHeight}),
+    [sparkHeight, sparkWidth],
+  );
+
+  const columnScales = useSparkTableScales(columns, rows);
+
+  const {start, end} = getVisibleRowRange({
+    height,
+    overscan,
+    rowCount: rows.length,
+    rowHeight,
+    scrollTop,
+  });
+
+  const textStyle = {
+    color: selectedTheme.legend.labelColor,
+    fontFamily: FONT_FAMILY,
+    fontSize: FONT_SIZE,
+  };
+
+  return (
+    <div
+      className={styles.ScrollContainer}
+      onScroll={handleScroll}
+      style={{
+        height,
+        background: selectedTheme.chartContainer.backgroundColor,
+      }}
+    >
+      <table className={styles.Table} aria-rowcount={rows.length + 1}>
+        <thead>
+          <tr aria-rowindex={1}>
+            {columns.map(({key, header, type = 'text'}) => (
+              <th
+                key={key}
+                className={styles.Header}
+                scope="col"
+                style={{
+                  ...textStyle,
+                  height: rowHeight,
+                  width: type === 'text' ? undefined : sparkWidth,
+                  background: selectedTheme.chartContainer.backgroundColor,
+                }}
+              >
+                {header}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <FixedDimensionsContext.Provider value={sparkDimensions}>
+          <tbody>
+            {start > 0 && (
+              <tr aria-hidden="true" style={{height: start * rowHeight}} />
+            )}
+            {rows.slice(start, end).map(({id, cells}, index) => (
+              <tr
+                key={id}
+                aria-rowindex={start + index + 2}
+                style={{
+                  height: rowHeight,
+                  borderTop: `1px solid ${selectedTheme.grid.color}`,
+                }}
+              >
+                {columns.map((column) => (
+                  <td
+                    key={column.key}
+                    className={styles.Cell}
+                    style={textStyle}
+                  >
+                    {renderCell(column, cells[column.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {end < rows.length && (
+              <tr
+                aria-hidden="true"
+                style={{height: (rows.length - end) * rowHeight}}
+              />
+            )}
+          </tbody>
+        </FixedDimensionsContext.Provider>
+      </table>
+    </div>
+  );
+
+  function handleScroll(event: UIEvent<HTMLDivElement>) {
+    setScrollTop(event.currentTarget.scrollTop);
+  }
+
+  function renderCell(
+    {key, targetLine, type = 'text'}: SparkTableColumn,
+    value: SparkTableCellValue | undefined,
+  ) {
+    if (type === 'text') {
+      return value == null || Array.isArray(value) ? null : value;
+    }
+
+    const data = getSparkTableSeries(value);
+
+    if (data.length === 0) {
+      return null;
+    }
+
+    return (
+      <SparkScaleContext.Provider value={columnScales[key]}>
+        <div className={styles.Spark} style={{height: sparkHeight}}>
+          {type === 'line' ? (
+            <SparkLineChart data={data} theme={theme} />
+          ) : (
+            <SparkBarChart data={data} targetLine={targetLine} theme={theme} />
+          )}
+        </div>
+      </SparkScaleContext.Provider>
+    );
+  }
+}
@@ -0,0 +1,5 @@
+export const DEFAULT_HEIGHT = 400;
+export const DEFAULT_ROW_HEIGHT = 48;
+export const DEFAULT_SPARK_WIDTH = 120;
+export const DEFAULT_OVERSCAN = 5;
+export const CELL_VERTICAL_PADDING = 4;
@@ -0,0 +1,2 @@
+export {SparkTable} from './SparkTable';
+export type {SparkTableProps} from './SparkTable';
@@ -0,0 +1,21 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {SparkTableProps} from '../../../components';
+
+import {COLUMNS, ROWS, Template} from './data';
+
+export const Default: Story<SparkTableProps> = Template.bind({});
+
+Default.args = {
+  columns: COLUMNS,
+  rows: ROWS,
+};
+
+export const IndependentScales: Story<SparkTableProps> = Template.bind({});
+
+IndependentScales.args = {
+  columns: COLUMNS.map((column) => ({...column, scale: 'independent'})),
+  rows: ROWS,
+};
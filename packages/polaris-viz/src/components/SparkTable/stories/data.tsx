@@ -0,0 +1,48 @@
+import type {Story} from '@storybook/react';
+import type {SparkTableColumn, SparkTableRow} from '@shopify/polaris-viz-core';
+
+import type {SparkTableProps} from '../SparkTable';
+import {SparkTable} from '../SparkTable';
+
+const WEEKS = Array.from({length: 12}, (_, index) => `Week ${index + 1}`);
+
+export const COLUMNS: SparkTableColumn[] = [
+  {key: 'product', header: 'Product'},
+  {key: 'total', header: 'Total sales'},
+  {key: 'sales', header: 'Sales', type: 'line'},
+  {key: 'orders', header: 'Orders', type: 'bar'},
+];
+
+// Deterministic values so stories render the same every time.
+export const ROWS: SparkTableRow[] = Array.from({length: 500}, (_, row) => {
+  const sales = WEEKS.map((_, week) =>
+    Math.round(((row * 37 + week * 53) % 400) + row / 2),
+  );
+
+  return {
+    id: `product-${row}`,
+    cells: {
+      product: `Product ${row + 1}`,
+      total: `$${sales.reduce((sum, value) => sum + value, 0)}`,
+      sales: [
+        {
+          name: 'Sales',
+          data: WEEKS.map((key, week) => ({key, value: sales[week]})),
+        },
+      ],
+      orders: [
+        {
+          name: 'Orders',
+          data: WEEKS.map((key, week) => ({
+            key,
+            value: Math.round(sales[week] / 20),
+          })),
+        },
+      ],
+    },
+  };
+});
+
+export const Template: Story<SparkTableProps> = (args: SparkTableProps) => {
+  return <SparkTable {...args} />;
+};
@@ -0,0 +1,48 @@
+import type {Meta} from '@storybook/react';
+
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {CONTROLS_ARGS, THEME_CONTROL_ARGS} from '../../../storybook/constants';
+import {SparkTable} from '../SparkTable';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/SparkTable',
+  component: SparkTable,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to show a trend for every row of a report. Only the rows scrolled into view are mounted.',
+      },
+    },
+  },
+  argTypes: {
+    columns: {
+      description:
+        "Each column has a `key`, a `header` and a `type` of `text`, `line` or `bar`. Spark columns share a y-domain unless their `scale` is `'independent'`.",
+    },
+    rows: {
+      description:
+        'Each row has an `id` and its `cells`, keyed by column. Spark cells take a `DataSeries[]`.',
+    },
+    height: {
+      description: 'The height of the scrolling table in pixels.',
+      control: {type: 'number'},
+    },
+    rowHeight: {
+      description: 'The height of each row in pixels.',
+      control: {type: 'number'},
+    },
+    sparkWidth: {
+      description: 'The width of each spark chart in pixels.',
+      control: {type: 'number'},
+    },
+    overscan: {
+      description:
+        'The number of rows mounted above and below the visible rows.',
+      control: {type: 'number'},
+    },
+    theme: THEME_CONTROL_ARGS,
+  },
+};
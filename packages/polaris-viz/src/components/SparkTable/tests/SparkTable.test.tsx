@@ -0,0 +1,107 @@
+import {mount} from '@shopify/react-testing';
+import {SparkScaleContext} from '@shopify/polaris-viz-core';
+
+import {SparkBarChart} from '../../SparkBarChart';
+import {SparkLineChart} from '../../SparkLineChart';
+import {FixedDimensionsContext, StaticChartContext} from '../../ChartContainer';
+import type {SparkTableProps} from '../SparkTable';
+import {SparkTable} from '../SparkTable';
+
+const ROWS: SparkTableRow[] = Array.from({length: 100}, (_, index) => ({
+  id: `product-${index}`,
+  cells: {
+    name: `Product ${index}`,
+    sales: [
+      {
+        name: 'Sales',
+        data: [
+          {key: 'Jan', value: index},
+          {key: 'Feb', value: index * 2},
+        ],
+      },
+    ],
+    orders: [
+      {
+        name: 'Orders',
+        data: [
+          {key: 'Jan', value: 1},
+          {key: 'Feb', value: index + 1},
+        ],
+      },
+    ],
+  },
+}));
+
+const MOCK_PROPS: SparkTableProps = {
+  columns: [
+    {key: 'name', header: 'Product'},
+    {key: 'sales', header: 'Sales', type: 'line'},
+    {key: 'orders', header: 'Orders', type: 'bar', scale: 'independent'},
+  ],
+  rows: ROWS,
+  height: 200,
+  rowHeight: 40,
+  overscan: 2,
+};
+
+describe('<SparkTable />', () => {
+  it('renders a header for each column', () => {
+    const table = mount(<SparkTable {...MOCK_PROPS} />);
+
+    expect(table).toContainReactComponentTimes('th', 3);
+    expect(table.find('th')).toContainReactText('Product');
+  });
+
+  it('only mounts the visible and overscan rows', () => {
+    const table = mount(<SparkTable {...MOCK_PROPS} />);
+
+    expect(table).toContainReactComponentTimes(SparkLineChart, 7);
+    expect(table).toContainReactComponentTimes(SparkBarChart, 7);
+    expect(table).toContainReactText('Product 6');
+    expect(table).not.toContainReactText('Product 7');
+  });
+
+  it('mounts the rows scrolled into view', () => {
+    const table = mount(<SparkTable {...MOCK_PROPS} />);
+
+    table.find('div')!.trigger('onScroll', {currentTarget: {scrollTop: 2000}});
+
+    expect(table).toContainReactText('Product 50');
+    expect(table).not.toContainReactText('Product 6');
+  });
+
+  it('renders the spark charts with the size of their cell', () => {
+    const table = mount(<SparkTable {...MOCK_PROPS} sparkWidth={100} />);
+
+    expect(table).toContainReactComponent(FixedDimensionsContext.Provider, {
+      value: {width: 100, height: 32},
+    });
+  });
+
+  it('keeps the spark charts animated', () => {
+    const table = mount(<SparkTable {...MOCK_PROPS} />);
+
+    expect(table).not.toContainReactComponent(StaticChartContext.Provider);
+  });
+
+  it('shares the y-domain of a column across all rows', () => {
+    const table = mount(<SparkTable {...MOCK_PROPS} />);
+
+    expect(table).toContainReactComponent(SparkScaleContext.Provider, {
+      value: {yDomain: [0, 198]},
+    });
+  });
+
+  it('does not share the y-domain of an independent column', () => {
+    const table = mount(<SparkTable {...MOCK_PROPS} />);
+
+    const barScales = table
+      .findAll(SparkScaleContext.Provider)
+      .filter((provider) => provider.find(SparkBarChart) != null);
+
+    expect(barScales).toHaveLength(7);
+    barScales.forEach((provider) => {
+      expect(provider).toHaveReactProps({value: null});
+    });
+  });
+});
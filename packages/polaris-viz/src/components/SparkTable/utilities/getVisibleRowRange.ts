@@ -0,0 +1,25 @@
+interface Props {
+  height: number;
+  overscan: number;
+  rowCount: number;
+  rowHeight: number;
+  scrollTop: number;
+}
+
+// Returns the rows inside the scrolled viewport, plus `overscan`
+// rows on either side. `end` is exclusive.
+export function getVisibleRowRange({
+  height,
+  overscan,
+  rowCount,
+  rowHeight,
+  scrollTop,
+}: Props) {
+  const firstVisibleRow = Math.floor(scrollTop / rowHeight);
+  const lastVisibleRow = Math.ceil((scrollTop + height) / rowHeight);
+
+  return {
+    start: Math.max(0, firstVisibleRow - overscan),
+    end: Math.min(rowCount, lastVisibleRow + overscan),
+  };
+}
@@ -0,0 +1,27 @@
+import {getVisibleRowRange} from '../getVisibleRowRange';
+
+describe('getVisibleRowRange()', () => {
+  it('returns the rows in the viewport and the overscan rows', () => {
+    expect(
+      getVisibleRowRange({
+        height: 100,
+        overscan: 2,
+        rowCount: 50,
+        rowHeight: 20,
+        scrollTop: 200,
+      }),
+    ).toStrictEqual({start: 8, end: 17});
+  });
+
+  it('clamps the range to the rows', () => {
+    expect(
+      getVisibleRowRange({
+        height: 100,
+        overscan: 5,
+        rowCount: 8,
+        rowHeight: 20,
+        scrollTop: 0,
+      }),
+    ).toStrictEqual({start: 0, end: 8});
+  });
+});
@@ -7,6 +7,7 @@ import type {
   XAxisOptions,
   YAxisOptions,
   BoundingRect,
+  ChartType,
   LabelFormatter,
 } from '@shopify/polaris-viz-core';
 import {
@@ -29,10 +30,18 @@ import {
 import type {
   AnnotationLookupTable,
   GetXPosition,
+  ReferenceBand,
   RenderLegendContent,
   RenderTooltipContentData,
+  ZoomOptions,
 } from '../../types';
 import {XAxis} from '../XAxis';
+import {
+  getReferenceMinMax,
+  ReferenceBands,
+  ReferenceLines,
+} from '../ReferenceLines';
+import type {ResolvedReferenceLine} from '../ReferenceLines';
 import {LegendContainer, useLegend} from '../LegendContainer';
 import type {
   TooltipPosition,
@@ -51,13 +60,23 @@ import {
   useThemeSeriesColors,
   useColorVisionEvents,
   useLinearLabelsAndDimensions,
+  useZoom,
 } from '../../hooks';
 import {ChartMargin, ANNOTATIONS_LABELS_OFFSET} from '../../constants';
-import {eventPointNative} from '../../utilities';
+import {eventPointNative, formatPercentage} from '../../utilities';
+import {getLineChartDataWithDefaults} from '../../utilities/getLineChartDataWithDefaults';
 import {YAxis} from '../YAxis';
 import {Crosshair} from '../Crosshair';
 import {VisuallyHiddenRows} from '../VisuallyHiddenRows';
 import {HorizontalGridLines} from '../HorizontalGridLines';
+import {
+  ZoomBrush,
+  ZoomOverview,
+  ZoomResetButton,
+  ZOOM_OVERVIEW_HEIGHT,
+  ZOOM_OVERVIEW_MARGIN,
+} from '../Zoom';
+import {useActiveIndex} from '../SyncGroup';
 
 import {useStackedData} from './hooks';
 import {StackedAreas, Points} from './components';
@@ -78,32 +97,54 @@ export interface Props {
   seriesNameFormatter: LabelFormatter;
   showLegend: boolean;
   theme: string;
+  type: Exclude<ChartType, 'default'>;
   xAxisOptions: Required<XAxisOptions>;
   yAxisOptions: Required<YAxisOptions>;
+  activeIndex?: number | null;
   dimensions?: BoundingRect;
+  hiddenSeries?: number[];
+  onActiveIndexChange?: (index: number | null) => void;
+  onToggleSeries?: (index: number) => void;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ResolvedReferenceLine[];
   renderLegendContent?: RenderLegendContent;
   renderHiddenLegendLabel?: (count: number) => string;
+  zoom?: ZoomOptions;
 }
 
 export function Chart({
+  activeIndex,
   annotationsLookupTable,
   xAxisOptions,
-  data,
+  data: allData,
   dimensions,
+  hiddenSeries,
+  onActiveIndexChange,
+  onToggleSeries,
+  referenceBands = [],
+  referenceLines = [],
   renderLegendContent,
   renderTooltipContent,
   showLegend,
   theme,
+  type,
   yAxisOptions,
   renderHiddenLegendLabel,
   seriesNameFormatter,
+  zoom: zoomOptions,
 }: Props) {
+  const zoom = useZoom({
+    data: allData,
+    enabled: zoomOptions != null,
+    onZoomChange: zoomOptions?.onZoomChange,
+  });
+  const {data} = zoom;
+
   useColorVisionEvents({enabled: data.length > 1});
 
   const selectedTheme = useTheme(theme);
   const seriesColors = useThemeSeriesColors(data, selectedTheme);
 
-  const [activePointIndex, setActivePointIndex] = useState<number | null>(null);
   const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
   const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
   const [annotationsHeight, setAnnotationsHeight] = useState(0);
@@ -121,20 +162,38 @@ export function Chart({
     seriesNameFormatter,
   });
 
+  const showZoomOverview = zoomOptions?.type === 'overview';
+  const chartHeight = showZoomOverview
+    ? height - ZOOM_OVERVIEW_HEIGHT - ZOOM_OVERVIEW_MARGIN
+    : height;
+
   const tooltipId = useUniqueId('stackedAreaChart');
 
   const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
+  const isPercentStacked = type === 'stackedPercent';
 
   const {
     stackedValues,
     longestSeriesIndex,
     longestSeriesLength,
     labels: formattedLabels,
+    unformattedLabels,
   } = useStackedData({
     data,
+    isPercentStacked,
     xAxisOptions,
   });
 
+  const {
+    activeIndex: activePointIndex,
+    isControlled,
+    setActiveIndex: setActivePointIndex,
+  } = useActiveIndex({
+    activeIndex,
+    keys: data[longestSeriesIndex]?.data.map(({key}) => key) ?? [],
+    onActiveIndexChange,
+  });
+
   const zeroLineData = data.map((series) => ({
     ...series,
     data: series.data.map((point) => ({...point, value: 0})),
@@ -142,22 +201,35 @@ export function Chart({
 
   const {stackedValues: zeroLineValues} = useStackedData({
     data: zeroLineData,
+    isPercentStacked,
     xAxisOptions,
   });
 
   const {minY, maxY} = yAxisMinMax(stackedValues);
+  const {min, max} = getReferenceMinMax({
+    min: minY,
+    max: maxY,
+    referenceBands,
+    referenceLines,
+  });
 
   const yScaleOptions = {
-    formatYAxisLabel: yAxisOptions.labelFormatter,
+    formatYAxisLabel: isPercentStacked
+      ? formatPercentage
+      : yAxisOptions.labelFormatter,
     integersOnly: yAxisOptions.integersOnly,
     maxYOverride: yAxisOptions.maxYOverride,
-    max: maxY,
-    min: minY,
+    minYOverride: yAxisOptions.minYOverride,
+    domain: yAxisOptions.domain,
+    includeZero: yAxisOptions.includeZero,
+    scale: yAxisOptions.scale,
+    max,
+    min,
   };
 
   const {yAxisLabelWidth} = useYScale({
     ...yScaleOptions,
-    drawableHeight: height,
+    drawableHeight: chartHeight,
     verticalOverflow: selectedTheme.grid.verticalOverflow,
   });
 
@@ -170,21 +242,24 @@ export function Chart({
     yAxisBounds,
   } = useChartPositions({
     annotationsHeight,
-    height,
+    height: chartHeight,
     width,
     xAxisHeight,
     yAxisWidth: yAxisLabelWidth,
   });
 
-  const {xAxisDetails, xScale, labels} = useLinearLabelsAndDimensions({
-    data,
-    drawableWidth,
-    hideXAxis,
-    labels: formattedLabels,
-    longestSeriesLength,
-  });
+  const {xAxisDetails, xScale, xAxisScale, labels} =
+    useLinearLabelsAndDimensions({
+      data,
+      drawableWidth,
+      hideXAxis,
+      labels: formattedLabels,
+      longestSeriesLength,
+      labelFormatter: xAxisOptions.labelFormatter,
+      xAxisType: xAxisOptions.type,
+    });
 
-  const {ticks, yScale} = useYScale({
+  const {ticks, minorTicks, yScale} = useYScale({
     ...yScaleOptions,
     drawableHeight,
     verticalOverflow: selectedTheme.grid.verticalOverflow,
@@ -195,9 +270,11 @@ export function Chart({
 
   const getTooltipMarkup = useStackedChartTooltipContent({
     data,
+    hiddenIndexes: hiddenSeries,
     renderTooltipContent,
     seriesColors,
     seriesNameFormatter,
+    showShares: isPercentStacked,
   });
 
   const lineGenerator = useMemo(() => {
@@ -285,7 +362,7 @@ export function Chart({
             onHeightChange={setXAxisHeight}
             reducedLabelIndexes={xAxisDetails.reducedLabelIndexes}
             x={xAxisBounds.x - halfXAxisLabelWidth}
-            xScale={xScale}
+            xScale={xAxisScale}
             y={xAxisBounds.y}
           />
         )}
@@ -293,6 +370,7 @@ export function Chart({
         {selectedTheme.grid.showHorizontalLines ? (
           <HorizontalGridLines
             ticks={ticks}
+            minorTicks={minorTicks}
             transform={{
               x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
               y: chartYPosition,
@@ -314,7 +392,7 @@ export function Chart({
         <VisuallyHiddenRows
           data={data}
           formatYAxisLabel={yAxisOptions.labelFormatter}
-          xAxisLabels={labels}
+          xAxisLabels={formattedLabels}
         />
 
         <g
@@ -322,6 +400,11 @@ export function Chart({
           className={styles.Group}
           area-hidden="true"
         >
+          <ReferenceBands
+            bands={referenceBands}
+            scale={yScale}
+            size={drawableWidth}
+          />
           <StackedAreas
             stackedValues={stackedValues}
             zeroLineValues={zeroLineValues}
@@ -330,6 +413,12 @@ export function Chart({
             colors={seriesColors}
             theme={theme}
           />
+          <ReferenceLines
+            labelFormatter={yAxisOptions.labelFormatter}
+            lines={referenceLines}
+            scale={yScale}
+            size={drawableWidth}
+          />
         </g>
 
         {activePointIndex == null ? null : (
@@ -353,8 +442,49 @@ export function Chart({
             xScale={xScale}
             yScale={yScale}
           />
+
+          {zoomOptions == null ? null : (
+            <ZoomBrush
+              drawableHeight={drawableHeight}
+              drawableWidth={drawableWidth}
+              isZoomed={zoom.isZoomed}
+              onKeyDown={zoom.onKeyDown}
+              onPan={zoom.pan}
+              onZoom={(start, end) =>
+                zoom.zoomTo(zoom.start + start, zoom.start + end)
+              }
+              theme={theme}
+              xScale={xScale}
+            />
+          )}
         </g>
 
+        {showZoomOverview ? (
+          <ZoomOverview
+            data={getLineChartDataWithDefaults(allData, seriesColors)}
+            dataLength={zoom.dataLength}
+            end={zoom.end}
+            height={ZOOM_OVERVIEW_HEIGHT}
+            onKeyDown={zoom.onKeyDown}
+            onZoom={zoom.zoomTo}
+            start={zoom.start}
+            theme={theme}
+            width={drawableWidth}
+            x={chartXPosition}
+            y={height - ZOOM_OVERVIEW_HEIGHT}
+          />
+        ) : null}
+
+        {zoom.isZoomed ? (
+          <ZoomResetButton
+            label={zoomOptions?.resetLabel}
+            onClick={zoom.reset}
+            theme={theme}
+            x={chartXPosition + drawableWidth}
+            y={chartYPosition}
+          />
+        ) : null}
+
         {hasXAxisAnnotations && (
           <g transform={`translate(${chartXPosition},0)`} tabIndex={-1}>
             <Annotations
@@ -362,7 +492,7 @@ export function Chart({
               axisLabelWidth={xAxisDetails.labelWidth}
               drawableHeight={annotationsDrawableHeight}
               drawableWidth={drawableWidth}
-              labels={labels}
+              labels={unformattedLabels}
               labelFormatter={xAxisOptions.labelFormatter}
               onHeightChange={setAnnotationsHeight}
               xScale={xScale}
@@ -398,6 +528,7 @@ export function Chart({
           margin={ChartMargin}
           onIndexChange={(index) => setActivePointIndex(index)}
           parentRef={svgRef}
+          activeIndex={isControlled ? activePointIndex : undefined}
           usePortal
         />
       )}
@@ -411,6 +542,8 @@ export function Chart({
           enableHideOverflow
           dimensions={chartBounds}
           renderHiddenLegendLabel={renderHiddenLegendLabel}
+          hiddenSeries={hiddenSeries}
+          onToggleSeries={onToggleSeries}
         />
       )}
     </ChartElements.Div>
@@ -1,4 +1,4 @@
-import {Fragment, useRef} from 'react';
+import {Fragment, useMemo, useRef} from 'react';
 import {
   uniqueId,
   ChartState,
@@ -9,78 +9,129 @@ import type {
   XAxisOptions,
   YAxisOptions,
   ChartProps,
+  ChartType,
   LabelFormatter,
 } from '@shopify/polaris-viz-core';
 
 import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRenderer';
 import {fillMissingDataPoints} from '../../utilities/fillMissingDataPoints';
 import {
+  alignAnnotationsToTimeKeys,
+  getDataWithHiddenSeries,
   getXAxisOptionsWithDefaults,
   getYAxisOptionsWithDefaults,
   normalizeData,
 } from '../../utilities';
+import {useHiddenSeries} from '../../hooks';
 import {ChartContainer} from '../ChartContainer';
 import {ChartSkeleton} from '../ChartSkeleton';
 import {SkipLink} from '../SkipLink';
 import type {
   Annotation,
+  ReferenceBand,
+  ReferenceLine,
   RenderLegendContent,
   TooltipOptions,
+  ZoomOptions,
 } from '../../types';
+import {resolveReferenceLines} from '../ReferenceLines';
 
 import {Chart} from './Chart';
 
 export type StackedAreaChartProps = {
+  activeIndex?: number | null;
   annotations?: Annotation[];
   tooltipOptions?: TooltipOptions;
   state?: ChartState;
   errorText?: string;
+  /**
+   * Indexes of the series hidden by toggling their legend items.
+   * Leave undefined to let the chart track them itself.
+   */
+  hiddenSeries?: number[];
+  onHiddenSeriesChange?: (hiddenSeries: number[]) => void;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ReferenceLine[];
   renderLegendContent?: RenderLegendContent;
   showLegend?: boolean;
+  onActiveIndexChange?: (index: number | null) => void;
   skipLinkText?: string;
   theme?: string;
+  /**
+   * `stackedPercent` scales every stack to 100% of its total.
+   */
+  type?: Exclude<ChartType, 'default'>;
   xAxisOptions?: Partial<XAxisOptions>;
   yAxisOptions?: Partial<YAxisOptions>;
   renderHiddenLegendLabel?: (count: number) => string;
   seriesNameFormatter?: LabelFormatter;
   scrollContainer?: Element | null;
+  zoom?: ZoomOptions;
 } & ChartProps;
 
+// Shared defaults keep the references stable between renders.
+const NO_REFERENCE_BANDS: ReferenceBand[] = [];
+const NO_REFERENCE_LINES: ReferenceLine[] = [];
+
 export function StackedAreaChart(props: StackedAreaChartProps) {
   const {defaultTheme} = usePolarisVizContext();
 
   const {
+    activeIndex,
     annotations = [],
     xAxisOptions,
     yAxisOptions,
     data: dataSeries,
     state,
     errorText,
+    hiddenSeries: controlledHiddenSeries,
+    onActiveIndexChange,
     onError,
+    onHiddenSeriesChange,
     tooltipOptions,
     id,
     isAnimated,
+    referenceBands = NO_REFERENCE_BANDS,
+    referenceLines = NO_REFERENCE_LINES,
     renderLegendContent,
     seriesNameFormatter = (value) => `${value}`,
     showLegend = true,
     skipLinkText,
     theme = defaultTheme,
+    type = 'stacked',
     renderHiddenLegendLabel,
     scrollContainer,
+    zoom,
   } = {
     ...DEFAULT_CHART_PROPS,
     ...props,
   };
 
-  const data = fillMissingDataPoints(dataSeries, true);
+  const isTimeData = xAxisOptions?.type === 'time';
+
+  const data = useMemo(
+    () => fillMissingDataPoints(dataSeries, true, isTimeData),
+    [dataSeries, isTimeData],
+  );
 
   const skipLinkAnchorId = useRef(uniqueId('stackedAreaChart'));
+
+  const {hiddenSeries, toggleSeries} = useHiddenSeries({
+    hiddenSeries: controlledHiddenSeries,
+    onHiddenSeriesChange,
+  });
+
   const renderTooltip = getTooltipContentRenderer({
     tooltipOptions,
     theme,
     data,
   });
 
+  const resolvedReferenceLines = useMemo(
+    () => resolveReferenceLines(referenceLines, data),
+    [data, referenceLines],
+  );
+
   if (data.length === 0) {
     return null;
   }
@@ -88,7 +139,10 @@ export function StackedAreaChart(props: StackedAreaChartProps) {
   const xAxisOptionsWithDefaults = getXAxisOptionsWithDefaults(xAxisOptions);
   const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
 
-  const annotationsLookupTable = normalizeData(annotations, 'startKey');
+  const annotationsLookupTable = normalizeData(
+    isTimeData ? alignAnnotationsToTimeKeys(annotations, data) : annotations,
+    'startKey',
+  );
 
   return (
     <Fragment>
@@ -107,16 +161,24 @@ export function StackedAreaChart(props: StackedAreaChartProps) {
           <ChartSkeleton state={state} errorText={errorText} theme={theme} />
         ) : (
           <Chart
+            activeIndex={activeIndex}
             annotationsLookupTable={annotationsLookupTable}
-            data={data}
+            data={getDataWithHiddenSeries(data, hiddenSeries)}
+            hiddenSeries={hiddenSeries}
+            onActiveIndexChange={onActiveIndexChange}
+            onToggleSeries={toggleSeries}
+            referenceBands={referenceBands}
+            referenceLines={resolvedReferenceLines}
             renderLegendContent={renderLegendContent}
             renderTooltipContent={renderTooltip}
             seriesNameFormatter={seriesNameFormatter}
             showLegend={showLegend}
             theme={theme}
+            type={type}
             xAxisOptions={xAxisOptionsWithDefaults}
             yAxisOptions={yAxisOptionsWithDefaults}
             renderHiddenLegendLabel={renderHiddenLegendLabel}
+            zoom={zoom}
           />
         )}
       </ChartContainer>
@@ -11,7 +11,7 @@ import {
   changeGradientOpacity,
   useChartContext,
 } from '@shopify/polaris-viz-core';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric, ScaleLinear} from 'd3-scale';
 
 import {Point} from '../../../';
 import type {AnimatedCoordinate, GetXPosition} from '../../../../types';
@@ -31,7 +31,7 @@ interface PointsProps {
   >[];
   tooltipId: string;
   xScale: ScaleLinear<number, number>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
 }
 
 export function Points({
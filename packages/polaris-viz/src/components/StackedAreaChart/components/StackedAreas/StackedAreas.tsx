@@ -1,6 +1,6 @@
 import {Fragment, useMemo, useState} from 'react';
 import {area, line} from 'd3-shape';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric, ScaleLinear} from 'd3-scale';
 import type {Color} from '@shopify/polaris-viz-core';
 import {
   curveStepRounded,
@@ -24,7 +24,7 @@ interface Props {
   stackedValues: StackedSeries[];
   zeroLineValues: StackedSeries[];
   xScale: ScaleLinear<number, number>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   theme: string;
 }
 
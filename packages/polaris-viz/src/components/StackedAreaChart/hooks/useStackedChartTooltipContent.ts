@@ -7,6 +7,7 @@ import type {
 } from '@shopify/polaris-viz-core';
 import {useChartContext} from '@shopify/polaris-viz-core';
 
+import {getStackShares} from '../../../utilities/getStackShares';
 import type {RenderTooltipContentData} from '../../../types';
 
 export interface Props {
@@ -14,13 +15,20 @@ export interface Props {
   seriesColors: Color[];
   renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
   seriesNameFormatter: LabelFormatter;
+  hiddenIndexes?: number[];
+  /**
+   * Adds the share of the stack total to each value.
+   */
+  showShares?: boolean;
 }
 
 export function useStackedChartTooltipContent({
   data,
+  hiddenIndexes = [],
   renderTooltipContent,
   seriesColors,
   seriesNameFormatter,
+  showShares = false,
 }: Props) {
   const {theme} = useChartContext();
 
@@ -37,6 +45,8 @@ export function useStackedChartTooltipContent({
         },
       ];
 
+      const shares = showShares ? getStackShares(data, activeIndex) : [];
+
       data.forEach(({name, data: seriesData, color}, index) => {
         if (seriesData == null || seriesData[activeIndex] == null) {
           return;
@@ -48,6 +58,8 @@ export function useStackedChartTooltipContent({
           key: `${seriesNameFormatter(name ?? '')}`,
           value,
           color: color ?? seriesColors[index],
+          isHidden: hiddenIndexes.includes(index),
+          ...(showShares && {share: shares[index]}),
         });
       });
 
@@ -63,6 +75,14 @@ export function useStackedChartTooltipContent({
         theme,
       });
     },
-    [data, seriesColors, renderTooltipContent, theme, seriesNameFormatter],
+    [
+      data,
+      hiddenIndexes,
+      seriesColors,
+      renderTooltipContent,
+      theme,
+      seriesNameFormatter,
+      showShares,
+    ],
   );
 }
@@ -3,18 +3,26 @@ import type {DataSeries, XAxisOptions} from '@shopify/polaris-viz-core';
 import {stackOffsetNone, stackOrderReverse} from 'd3-shape';
 
 import {useIndexForLabels} from '../../../hooks/useIndexForLabels';
-import {getStackedValues} from '../../../utilities/getStackedValues';
+import {
+  getStackedValues,
+  stackOffsetPercent,
+} from '../../../utilities/getStackedValues';
 import {useFormattedLabels} from '../../../hooks/useFormattedLabels';
 
 interface Props {
   data: DataSeries[];
   xAxisOptions: Required<XAxisOptions>;
+  isPercentStacked?: boolean;
 }
 
-export function useStackedData({data, xAxisOptions}: Props) {
+export function useStackedData({
+  data,
+  isPercentStacked = false,
+  xAxisOptions,
+}: Props) {
   const indexForLabels = useIndexForLabels(data);
 
-  const {formattedLabels} = useFormattedLabels({
+  const {formattedLabels, unformattedLabels} = useFormattedLabels({
     data: [data[indexForLabels]],
     labelFormatter: xAxisOptions.labelFormatter,
   });
@@ -23,7 +31,7 @@ export function useStackedData({data, xAxisOptions}: Props) {
     series: data,
     labels: formattedLabels,
     order: stackOrderReverse,
-    offset: stackOffsetNone,
+    offset: isPercentStacked ? stackOffsetPercent : stackOffsetNone,
   });
 
   const longestSeriesLength = useMemo(() => {
@@ -42,6 +50,7 @@ export function useStackedData({data, xAxisOptions}: Props) {
 
   return {
     labels: formattedLabels,
+    unformattedLabels,
     longestSeriesIndex,
     longestSeriesLength,
     stackedValues,
@@ -0,0 +1,18 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {StackedAreaChartProps} from '../../../components';
+
+import {DEFAULT_DATA, DEFAULT_PROPS, Template} from './data';
+
+export const ReferenceLines: Story<StackedAreaChartProps> = Template.bind({});
+
+ReferenceLines.args = {
+  ...DEFAULT_PROPS,
+  data: DEFAULT_DATA,
+  referenceBands: [{from: 4000, to: 6000, label: 'Goal range'}],
+  referenceLines: [
+    {value: 'median', label: 'Median of first series', seriesIndex: 0},
+  ],
+};
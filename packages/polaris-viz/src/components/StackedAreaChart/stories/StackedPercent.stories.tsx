@@ -0,0 +1,14 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {StackedAreaChartProps} from '../../../components';
+
+import {DEFAULT_PROPS, Template} from './data';
+
+export const StackedPercent: Story<StackedAreaChartProps> = Template.bind({});
+
+StackedPercent.args = {
+  ...DEFAULT_PROPS,
+  type: 'stackedPercent',
+};
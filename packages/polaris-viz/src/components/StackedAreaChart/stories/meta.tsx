@@ -1,7 +1,10 @@
 import type {Meta} from '@storybook/react';
 
 import {
+  HIDDEN_SERIES_ARGS,
   ANNOTATIONS_ARGS,
+  REFERENCE_BANDS_ARGS,
+  REFERENCE_LINES_ARGS,
   CHART_STATE_CONTROL_ARGS,
   CONTROLS_ARGS,
   DATA_SERIES_ARGS,
@@ -35,7 +38,10 @@ export const META: Meta = {
   decorators: [(Story) => <div style={{height: '500px'}}>{Story()}</div>],
   argTypes: {
     annotations: ANNOTATIONS_ARGS,
+    referenceBands: REFERENCE_BANDS_ARGS,
+    referenceLines: REFERENCE_LINES_ARGS,
     data: DATA_SERIES_ARGS,
+    hiddenSeries: HIDDEN_SERIES_ARGS,
     xAxisOptions: X_AXIS_OPTIONS_ARGS,
     isAnimated: IS_ANIMATED_ARGS,
     yAxisOptions: Y_AXIS_OPTIONS_ARGS,
@@ -49,5 +55,10 @@ export const META: Meta = {
     theme: THEME_CONTROL_ARGS,
     state: CHART_STATE_CONTROL_ARGS,
     showLegend: LEGEND_CONTROL_ARGS,
+    type: {
+      description:
+        'Changes how the areas stack. If `stackedPercent` every stack is scaled to 100% of its total.',
+      options: ['stacked', 'stackedPercent'],
+    },
   },
 };
@@ -81,6 +81,7 @@ const MOCK_PROPS: Props = {
   renderTooltipContent: jest.fn(() => <p>Mock Tooltip Content</p>),
   showLegend: false,
   theme: DEFAULT_THEME_NAME,
+  type: 'stacked',
   seriesNameFormatter: (value) => `${value}`,
 };
 
@@ -145,6 +146,23 @@ describe('<Chart />', () => {
     );
   });
 
+  describe('type', () => {
+    it('scales stacks to 100 when stackedPercent', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} type="stackedPercent" />);
+      const values = chart.find(StackedAreas)!.props.stackedValues;
+
+      expect(values[0][0][1]).toBeCloseTo(100);
+      expect(values[0][1][1]).toBeCloseTo(100);
+    });
+
+    it('formats y axis ticks as percentages when stackedPercent', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} type="stackedPercent" />);
+      const {ticks} = chart.find(YAxis)!.props;
+
+      expect(ticks[ticks.length - 1].formattedValue).toStrictEqual('100%');
+    });
+  });
+
   it('does not have an active Point if there is not an active point', () => {
     const chart = mount(<Chart {...MOCK_PROPS} />);
 
@@ -0,0 +1,26 @@
+import type {ReactNode} from 'react';
+import {createContext, useMemo, useState} from 'react';
+
+export interface SyncGroupContextValues {
+  activeKey: string | number | null;
+  setActiveKey: (key: string | number | null) => void;
+}
+
+export const SyncGroupContext =
+  createContext<SyncGroupContextValues | null>(null);
+
+export interface SyncGroupProps {
+  children: ReactNode;
+}
+
+export function SyncGroup({children}: SyncGroupProps) {
+  const [activeKey, setActiveKey] = useState<string | number | null>(null);
+
+  const value = useMemo(() => ({activeKey, setActiveKey}), [activeKey]);
+
+  return (
+    <SyncGroupContext.Provider value={value}>
+      {children}
+    </SyncGroupContext.Provider>
+  );
+}
@@ -0,0 +1,94 @@
+import type {Root} from '@shopify/react-testing';
+import {mount} from '@shopify/react-testing';
+
+import {SyncGroup} from '../../SyncGroup';
+import {useActiveIndex} from '../useActiveIndex';
+
+type ActiveIndex = ReturnType<typeof useActiveIndex>;
+
+function TestComponent({
+  activeIndex,
+  keys = ['Mon', 'Tue', 'Wed'],
+  onActiveIndexChange,
+  onRender,
+}: {
+  onRender: (value: ActiveIndex) => void;
+  activeIndex?: number | null;
+  keys?: string[];
+  onActiveIndexChange?: (index: number | null) => void;
+}) {
+  const value = useActiveIndex({activeIndex, keys, onActiveIndexChange});
+
+  onRender(value);
+
+  return <span data-index={value.activeIndex ?? ''} />;
+}
+
+function getIndex(wrapper: Root<any>, nth = 0) {
+  return wrapper.findAll('span')[nth].prop('data-index');
+}
+
+describe('useActiveIndex', () => {
+  it('stores the active index when uncontrolled', () => {
+    let result: ActiveIndex | null = null;
+    const onActiveIndexChange = jest.fn();
+
+    const wrapper = mount(
+      <TestComponent
+        onActiveIndexChange={onActiveIndexChange}
+        onRender={(value) => (result = value)}
+      />,
+    );
+
+    expect(result!.isControlled).toBe(false);
+
+    wrapper.act(() => result!.setActiveIndex(2));
+
+    expect(getIndex(wrapper)).toBe(2);
+    expect(onActiveIndexChange).toHaveBeenCalledWith(2);
+  });
+
+  it('uses the activeIndex prop when controlled', () => {
+    let result: ActiveIndex | null = null;
+    const onActiveIndexChange = jest.fn();
+
+    const wrapper = mount(
+      <TestComponent
+        activeIndex={1}
+        onActiveIndexChange={onActiveIndexChange}
+        onRender={(value) => (result = value)}
+      />,
+    );
+
+    expect(result!.isControlled).toBe(true);
+
+    wrapper.act(() => result!.setActiveIndex(2));
+
+    expect(getIndex(wrapper)).toBe(1);
+    expect(onActiveIndexChange).toHaveBeenCalledWith(2);
+  });
+
+  it('syncs charts in a <SyncGroup /> by key', () => {
+    let first: ActiveIndex | null = null;
+
+    const wrapper = mount(
+      <SyncGroup>
+        <TestComponent onRender={(value) => (first = value)} />
+        <TestComponent keys={['Tue', 'Wed']} onRender={() => {}} />
+      </SyncGroup>,
+    );
+
+    wrapper.act(() => first!.setActiveIndex(2));
+
+    expect(getIndex(wrapper, 0)).toBe(2);
+    expect(getIndex(wrapper, 1)).toBe(1);
+
+    wrapper.act(() => first!.setActiveIndex(0));
+
+    expect(getIndex(wrapper, 1)).toBe('');
+
+    wrapper.act(() => first!.setActiveIndex(null));
+
+    expect(getIndex(wrapper, 0)).toBe('');
+  });
+});
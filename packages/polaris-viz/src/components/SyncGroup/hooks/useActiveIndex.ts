@@ -0,0 +1,44 @@
+import {useCallback, useContext, useState} from 'react';
+
+import {SyncGroupContext} from '../SyncGroup';
+
+interface Props {
+  keys: (string | number)[];
+  activeIndex?: number | null;
+  onActiveIndexChange?: (index: number | null) => void;
+}
+
+export function useActiveIndex({
+  activeIndex: controlledIndex,
+  keys,
+  onActiveIndexChange,
+}: Props) {
+  const syncGroup = useContext(SyncGroupContext);
+  const [internalIndex, setInternalIndex] = useState<number | null>(null);
+
+  const isControlled = controlledIndex !== undefined || syncGroup != null;
+
+  let activeIndex = internalIndex;
+
+  if (controlledIndex !== undefined) {
+    activeIndex = controlledIndex;
+  } else if (syncGroup != null) {
+    const index =
+      syncGroup.activeKey == null ? -1 : keys.indexOf(syncGroup.activeKey);
+
+    activeIndex = index === -1 ? null : index;
+  }
+
+  const setActiveKey = syncGroup?.setActiveKey;
+
+  const setActiveIndex = useCallback(
+    (index: number | null) => {
+      setInternalIndex(index);
+      onActiveIndexChange?.(index);
+      setActiveKey?.(index == null ? null : keys[index] ?? null);
+    },
+    [keys, onActiveIndexChange, setActiveKey],
+  );
+
+  return {activeIndex, isControlled, setActiveIndex};
+}
@@ -0,0 +1,3 @@
+export {SyncGroup, SyncGroupContext} from './SyncGroup';
+export type {SyncGroupProps, SyncGroupContextValues} from './SyncGroup';
+export {useActiveIndex} from './hooks/useActiveIndex';
@@ -54,7 +54,7 @@ export function TooltipContent({
                 )}
                 {series.map(
                   (
-                    {key, value, color, isComparison, isHidden},
+                    {key, value, color, isComparison, isComputed, isHidden},
                     seriesIndex,
                   ) => {
                     const indexOffset = data[dataIndex - 1]
@@ -68,6 +68,7 @@ export function TooltipContent({
                         color={color}
                         index={seriesIndex + indexOffset}
                         isComparison={isComparison}
+                        isComputed={isComputed}
                         isHidden={isHidden}
                         label={key}
                         shape={shape}
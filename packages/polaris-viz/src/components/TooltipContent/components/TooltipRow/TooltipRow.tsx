@@ -18,6 +18,7 @@ interface Props {
   value: string;
   color?: Color;
   isComparison?: boolean;
+  isComputed?: boolean;
   isHidden?: boolean;
   renderSeriesIcon?: () => React.ReactNode;
 }
@@ -27,6 +28,7 @@ export function TooltipRow({
   color,
   index,
   isComparison = false,
+  isComputed = false,
   isHidden = false,
   label,
   renderSeriesIcon,
@@ -53,6 +55,7 @@ export function TooltipRow({
             <SeriesIcon
               color={color!}
               isComparison={isComparison}
+              isComputed={isComputed}
               shape={shape}
             />
           )}
@@ -23,6 +23,7 @@ interface BaseProps {
   margin: Margin;
   parentRef: SVGSVGElement | null;
   focusElementDataType: DataType;
+  activeIndex?: number | null;
   alwaysUpdatePosition?: boolean;
   bandwidth?: number;
   getAlteredPosition?: AlteredPosition;
@@ -33,6 +34,7 @@ interface BaseProps {
 
 function TooltipWrapperRaw(props: BaseProps) {
   const {
+    activeIndex,
     alwaysUpdatePosition = false,
     bandwidth = 0,
     chartBounds,
@@ -53,6 +55,8 @@ function TooltipWrapperRaw(props: BaseProps) {
   });
 
   const activeIndexRef = useRef<number | null>(null);
+  const hasFocusRef = useRef(false);
+  const isControlled = activeIndex !== undefined;
   const focusElements = useMemo<NodeListOf<SVGPathElement> | undefined>(() => {
     return parentRef?.querySelectorAll(
       `[data-type="${focusElementDataType}"][aria-hidden="false"]`,
@@ -63,6 +67,27 @@ function TooltipWrapperRaw(props: BaseProps) {
     activeIndexRef.current = position.activeIndex;
   }, [position.activeIndex]);
 
+  useEffect(() => {
+    if (!isControlled) {
+      return;
+    }
+
+    const index = activeIndex ?? -1;
+
+    if (index === activeIndexRef.current) {
+      return;
+    }
+
+    activeIndexRef.current = index;
+
+    if (index < 0) {
+      setPosition((prevState) => ({...prevState, activeIndex: -1}));
+      return;
+    }
+
+    setPosition(getPosition({index, eventType: 'focus'}));
+  }, [activeIndex, getPosition, isControlled]);
+
   const onMouseMove = useCallback(
     (event: MouseEvent | TouchEvent) => {
       const newPosition = getPosition({event, eventType: 'mouse'});
@@ -115,6 +140,8 @@ function TooltipWrapperRaw(props: BaseProps) {
         return;
       }
 
+      hasFocusRef.current = true;
+
       const index = Number(target.dataset.index);
       const newPosition = getPosition({index, eventType: 'focus'});
 
@@ -125,10 +152,19 @@ function TooltipWrapperRaw(props: BaseProps) {
   );
 
   const onFocusIn = useCallback(() => {
-    if (!parentRef?.contains(document.activeElement)) {
-      onMouseLeave();
+    if (parentRef?.contains(document.activeElement)) {
+      return;
+    }
+
+    // Controlled tooltips can be opened by other charts, so only
+    // close them when focus moves away from this chart.
+    if (isControlled && !hasFocusRef.current) {
+      return;
     }
-  }, [parentRef, onMouseLeave]);
+
+    hasFocusRef.current = false;
+    onMouseLeave();
+  }, [isControlled, parentRef, onMouseLeave]);
 
   const setFocusListeners = useCallback(
     (attach: boolean) => {
@@ -207,6 +243,12 @@ export function TooltipWrapper({
   usePortal = false,
   ...props
 }: TooltipWrapperProps) {
+  const isServer = typeof document === 'undefined';
+
+  if (isServer) {
+    return null;
+  }
+
   if (usePortal) {
     return <TooltipWithPortal {...props} />;
   }
@@ -9,6 +9,7 @@ import {
   useChartContext,
   useChartPositions,
   LINE_HEIGHT,
+  LineSeries,
 } from '@shopify/polaris-viz-core';
 import type {
   DataSeries,
@@ -19,6 +20,7 @@ import type {
   LabelFormatter,
 } from '@shopify/polaris-viz-core';
 import {stackOffsetDiverging, stackOrderNone} from 'd3-shape';
+import {scaleLinear} from 'd3-scale';
 
 import {useIndexForLabels} from '../../hooks/useIndexForLabels';
 import {ChartElements} from '../ChartElements';
@@ -29,15 +31,22 @@ import {
 } from '../Annotations';
 import type {
   AnnotationLookupTable,
+  DataPointClickHandler,
+  ReferenceBand,
   RenderLegendContent,
   RenderTooltipContentData,
 } from '../../types';
 import {useFormattedLabels} from '../../hooks/useFormattedLabels';
 import {getVerticalBarChartTooltipPosition} from '../../utilities/getVerticalBarChartTooltipPosition';
+import {getLineChartDataWithDefaults} from '../../utilities/getLineChartDataWithDefaults';
 import {XAxis} from '../XAxis';
 import {LegendContainer, useLegend} from '../LegendContainer';
 import {GradientDefs} from '../shared';
-import {ANNOTATIONS_LABELS_OFFSET, ChartMargin} from '../../constants';
+import {
+  ANNOTATIONS_LABELS_OFFSET,
+  ChartMargin,
+  PERCENT_STACK_TOTAL,
+} from '../../constants';
 import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
 import {
   TooltipHorizontalOffset,
@@ -45,12 +54,24 @@ import {
   TooltipWrapper,
   TOOLTIP_POSITION_DEFAULT_RETURN,
 } from '../TooltipWrapper';
-import {getStackedValues, getStackedMinMax} from '../../utilities';
+import {
+  formatPercentage,
+  getStackedValues,
+  getStackedMinMax,
+  stackOffsetPercent,
+} from '../../utilities';
 import {YAxis} from '../YAxis';
 import {HorizontalGridLines} from '../HorizontalGridLines';
+import {
+  getReferenceMinMax,
+  ReferenceBands,
+  ReferenceLines,
+} from '../ReferenceLines';
+import type {ResolvedReferenceLine} from '../ReferenceLines';
 import {
   useBarChartTooltipContent,
   useColorVisionEvents,
+  useDataPointClickEvents,
   useTheme,
   useReducedLabelIndexes,
 } from '../../hooks';
@@ -69,8 +90,14 @@ export interface Props {
   annotationsLookupTable?: AnnotationLookupTable;
   dimensions?: BoundingRect;
   emptyStateText?: string;
+  hiddenSeries?: number[];
+  onBarClick?: DataPointClickHandler;
+  onToggleSeries?: (index: number) => void;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ResolvedReferenceLine[];
   renderLegendContent?: RenderLegendContent;
   renderHiddenLegendLabel?: (count: number) => string;
+  trendlineSeries?: DataSeries[];
 }
 
 export function Chart({
@@ -78,6 +105,11 @@ export function Chart({
   data,
   dimensions,
   emptyStateText,
+  hiddenSeries,
+  onBarClick,
+  onToggleSeries,
+  referenceBands = [],
+  referenceLines = [],
   renderLegendContent,
   renderTooltipContent,
   showLegend,
@@ -86,13 +118,19 @@ export function Chart({
   yAxisOptions,
   renderHiddenLegendLabel,
   seriesNameFormatter,
+  trendlineSeries = [],
 }: Props) {
-  useColorVisionEvents({enabled: data.length > 1, dimensions});
+  useColorVisionEvents({
+    enabled: data.length + trendlineSeries.length > 1,
+    dimensions,
+  });
 
   const selectedTheme = useTheme();
-  const {characterWidths} = useChartContext();
+  const {characterWidths, theme} = useChartContext();
 
   const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+
+  useDataPointClickEvents({data, onClick: onBarClick, parentElement: svgRef});
   const id = useMemo(() => uniqueId('VerticalBarChart'), []);
   const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
   const [annotationsHeight, setAnnotationsHeight] = useState(0);
@@ -103,6 +141,10 @@ export function Chart({
         shape: 'Bar',
         series: data,
       },
+      {
+        shape: 'Line',
+        series: trendlineSeries,
+      },
     ],
     dimensions,
     showLegend,
@@ -118,13 +160,14 @@ export function Chart({
     labelFormatter: xAxisOptions.labelFormatter,
   });
 
-  const isStacked = type === 'stacked';
+  const isPercentStacked = type === 'stackedPercent';
+  const isStacked = type === 'stacked' || isPercentStacked;
   const stackedValues = isStacked
     ? getStackedValues({
         series: data,
         labels: formattedLabels,
         order: stackOrderNone,
-        offset: stackOffsetDiverging,
+        offset: isPercentStacked ? stackOffsetPercent : stackOffsetDiverging,
       })
     : null;
 
@@ -132,11 +175,20 @@ export function Chart({
     dataLength: data[0] ? data[0].data.length : 0,
   });
 
-  const {min, max} = getStackedMinMax({
+  const stackedMinMax = getStackedMinMax({
     stackedValues,
     data,
     integersOnly: yAxisOptions.integersOnly,
   });
+  const trendlineValues = trendlineSeries.flatMap(({data}) =>
+    data.flatMap(({value}) => (value == null ? [] : [value])),
+  );
+  const {min, max} = getReferenceMinMax({
+    min: Math.min(stackedMinMax.min, ...trendlineValues),
+    max: Math.max(stackedMinMax.max, ...trendlineValues),
+    referenceBands,
+    referenceLines,
+  });
 
   let yScaleMax;
 
@@ -151,9 +203,15 @@ export function Chart({
   }
 
   const yScaleOptions = {
-    formatYAxisLabel: yAxisOptions.labelFormatter,
+    formatYAxisLabel: isPercentStacked
+      ? formatPercentage
+      : yAxisOptions.labelFormatter,
     integersOnly: yAxisOptions.integersOnly,
     maxYOverride: yAxisOptions.maxYOverride,
+    minYOverride: yAxisOptions.minYOverride,
+    domain: yAxisOptions.domain,
+    includeZero: yAxisOptions.includeZero,
+    scale: yAxisOptions.scale,
     max: yScaleMax,
     min,
   };
@@ -207,7 +265,7 @@ export function Chart({
     labels: formattedLabels,
   });
 
-  const {ticks, yScale} = useYScale({
+  const {ticks, minorTicks, yScale} = useYScale({
     ...yScaleOptions,
     drawableHeight,
     verticalOverflow: selectedTheme.grid.verticalOverflow,
@@ -218,8 +276,11 @@ export function Chart({
   const getTooltipMarkup = useBarChartTooltipContent({
     renderTooltipContent,
     data,
+    hiddenIndexes: hiddenSeries,
     seriesColors: barColors,
     seriesNameFormatter,
+    showShares: isPercentStacked,
+    trendlineSeries,
   });
 
   const {hasXAxisAnnotations, hasYAxisAnnotations} = checkAvailableAnnotations(
@@ -228,6 +289,21 @@ export function Chart({
 
   const xAxisLabelHalf = xScale.bandwidth() / 2;
 
+  // `LineSeries` positions points by index, so each index
+  // is mapped onto the center of its bar group.
+  const lastIndex = Math.max(0, (data[0]?.data.length ?? 0) - 1);
+  const trendlineXScale = scaleLinear()
+    .domain([0, lastIndex])
+    .range([
+      (xScale('0') ?? 0) + xAxisLabelHalf,
+      (xScale(`${lastIndex}`) ?? 0) + xAxisLabelHalf,
+    ]);
+
+  const trendlinesWithDefaults = getLineChartDataWithDefaults(
+    trendlineSeries,
+    trendlineSeries.map(({color}) => color!),
+  );
+
   return (
     <ChartElements.Div height={height} width={width}>
       <ChartElements.Svg
@@ -261,6 +337,7 @@ export function Chart({
         {selectedTheme.grid.showHorizontalLines ? (
           <HorizontalGridLines
             ticks={ticks}
+            minorTicks={minorTicks}
             transform={{
               x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
               y: chartYPosition,
@@ -280,12 +357,18 @@ export function Chart({
         />
 
         <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          <ReferenceBands
+            bands={referenceBands}
+            scale={yScale}
+            size={drawableWidth}
+          />
           <VerticalBarGroup
             colors={barColors}
             data={data}
             drawableHeight={drawableHeight}
             gapWidth={gapWidth}
             id={id}
+            isClickable={onBarClick != null}
             labels={formattedLabels}
             sortedData={sortedData}
             stackedValues={stackedValues}
@@ -294,6 +377,24 @@ export function Chart({
             yScale={yScale}
             areAllNegative={areAllNegative}
           />
+          {trendlinesWithDefaults.map((series, index) => (
+            <g aria-hidden="true" key={`trendline-${index}`}>
+              <LineSeries
+                data={series}
+                index={data.length + index}
+                svgDimensions={{height: drawableHeight, width: drawableWidth}}
+                theme={theme}
+                xScale={trendlineXScale}
+                yScale={yScale}
+              />
+            </g>
+          ))}
+          <ReferenceLines
+            labelFormatter={yAxisOptions.labelFormatter}
+            lines={referenceLines}
+            scale={yScale}
+            size={drawableWidth}
+          />
         </g>
 
         {hasXAxisAnnotations && (
@@ -353,6 +454,8 @@ export function Chart({
           enableHideOverflow
           dimensions={dimensions}
           renderHiddenLegendLabel={renderHiddenLegendLabel}
+          hiddenSeries={hiddenSeries}
+          onToggleSeries={onToggleSeries}
         />
       )}
     </ChartElements.Div>
@@ -368,10 +471,12 @@ export function Chart({
       Math.abs(num ?? 0),
     ) as number[];
 
-    const highestValuePos =
-      type === 'stacked'
-        ? sortedData[index].reduce(sumPositiveData, 0)
-        : Math.max(...sortedDataPos);
+    const stackedTotal = isPercentStacked
+      ? PERCENT_STACK_TOTAL
+      : sortedData[index].reduce(sumPositiveData, 0);
+    const highestValuePos = isStacked
+      ? stackedTotal
+      : Math.max(...sortedDataPos);
 
     const x = xPosition + chartXPosition;
     const y = yScale(highestValuePos!) + chartYPosition;
@@ -10,10 +10,15 @@ import type {ReactNode} from 'react';
 
 import type {
   AnnotationLookupTable,
+  DataPointClickHandler,
+  ReferenceBand,
   RenderLegendContent,
   RenderTooltipContentData,
+  Trendline,
 } from '../../types';
 import {useTheme, useThemeSeriesColors} from '../../hooks';
+import {getDataWithHiddenSeries, getTrendlineSeries} from '../../utilities';
+import type {ResolvedReferenceLine} from '../ReferenceLines';
 
 import {Chart} from './Chart';
 
@@ -28,7 +33,13 @@ export interface VerticalBarChartProps {
   barOptions?: {isStacked: boolean};
   dimensions?: BoundingRect;
   emptyStateText?: string;
+  hiddenSeries?: number[];
+  onBarClick?: DataPointClickHandler;
+  onToggleSeries?: (index: number) => void;
+  referenceBands?: ReferenceBand[];
+  referenceLines?: ResolvedReferenceLine[];
   renderLegendContent?: RenderLegendContent;
+  trendlines?: Trendline[];
   type?: ChartType;
   renderHiddenLegendLabel?: (count: number) => string;
 }
@@ -38,9 +49,15 @@ export function VerticalBarChart({
   data,
   dimensions,
   emptyStateText,
+  hiddenSeries = [],
+  onBarClick,
+  onToggleSeries,
+  referenceBands,
+  referenceLines,
   renderLegendContent,
   renderTooltipContent,
   showLegend,
+  trendlines = [],
   type = 'default',
   xAxisOptions,
   yAxisOptions,
@@ -55,16 +72,35 @@ export function VerticalBarChart({
     ...series,
   }));
 
+  const trendlineSeries = getTrendlineSeries({
+    colors: seriesColors,
+    data: seriesWithDefaults,
+    trendlines,
+  });
+
+  // Trendlines follow the bars in the legend, so they're hidden
+  // with the same indexes.
+  const visibleSeries = getDataWithHiddenSeries(
+    [...seriesWithDefaults, ...trendlineSeries],
+    hiddenSeries,
+  );
+
   return (
     <Chart
       dimensions={dimensions}
       annotationsLookupTable={annotationsLookupTable}
-      data={seriesWithDefaults}
+      data={visibleSeries.slice(0, seriesWithDefaults.length)}
       emptyStateText={emptyStateText}
+      hiddenSeries={hiddenSeries}
+      onBarClick={onBarClick}
+      onToggleSeries={onToggleSeries}
+      referenceBands={referenceBands}
+      referenceLines={referenceLines}
       renderLegendContent={renderLegendContent}
       renderTooltipContent={renderTooltipContent}
       seriesNameFormatter={seriesNameFormatter}
       showLegend={showLegend}
+      trendlineSeries={visibleSeries.slice(seriesWithDefaults.length)}
       type={type}
       xAxisOptions={xAxisOptions}
       yAxisOptions={yAxisOptions}
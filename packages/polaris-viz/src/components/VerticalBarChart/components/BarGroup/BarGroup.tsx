@@ -1,5 +1,5 @@
 import {Fragment, useCallback, useMemo} from 'react';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 import {
   uniqueId,
   LinearGradientWithStops,
@@ -33,7 +33,7 @@ const COLOR_VISION_MASK = 'colorVisionMask';
 export interface BarGroupProps {
   animationDelay: number;
   x: number;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   width: number;
   drawableHeight: number;
   data: (number | null)[];
@@ -44,6 +44,7 @@ export interface BarGroupProps {
   activeBarGroup: number;
   gapWidth: number;
   areAllNegative?: boolean;
+  isClickable?: boolean;
   theme?: string;
 }
 
@@ -62,6 +63,7 @@ export function BarGroup({
   gapWidth,
   theme,
   areAllNegative,
+  isClickable = false,
 }: BarGroupProps) {
   const groupAriaLabel = formatAriaLabel(accessibilityData[barGroupIndex]);
   const {id, isPerformanceImpacted} = useChartContext();
@@ -69,6 +71,10 @@ export function BarGroup({
   const selectedTheme = useTheme(theme);
 
   const maskItems = useMemo(() => {
+    if (typeof document === 'undefined') {
+      return [];
+    }
+
     const chart = document.getElementById(getChartId(id));
 
     if (chart == null) {
@@ -240,8 +246,10 @@ export function BarGroup({
                 index: index + indexOffset,
                 watch: !isPerformanceImpacted,
               })}
+              data-type={DataType.Bar}
+              data-index={index + indexOffset}
               className={styles.Bar}
-              tabIndex={-1}
+              tabIndex={isClickable ? 0 : -1}
             />
           );
         })}
@@ -1,6 +1,10 @@
 import {mount} from '@shopify/react-testing';
 import {scaleLinear} from 'd3-scale';
-import {LinearGradientWithStops, BAR_SPACING} from '@shopify/polaris-viz-core';
+import {
+  LinearGradientWithStops,
+  BAR_SPACING,
+  DataType,
+} from '@shopify/polaris-viz-core';
 
 import type {BarGroupProps} from '../BarGroup';
 import {BarGroup} from '../BarGroup';
@@ -89,6 +93,33 @@ describe('<BarGroup/>', () => {
     expect(barGroup).toContainReactComponent('rect', {x: 85});
   });
 
+  it('gives each bar its series index', () => {
+    const barGroup = mount(
+      <svg>
+        <BarGroup {...MOCK_PROPS} indexOffset={2} />
+      </svg>,
+    );
+
+    expect(barGroup).toContainReactComponent('rect', {
+      'data-type': DataType.Bar,
+      'data-index': 3,
+      tabIndex: -1,
+    } as any);
+  });
+
+  it('adds bars to the tab order when isClickable is true', () => {
+    const barGroup = mount(
+      <svg>
+        <BarGroup {...MOCK_PROPS} isClickable />
+      </svg>,
+    );
+
+    expect(barGroup).toContainReactComponent('rect', {
+      'data-type': DataType.Bar,
+      tabIndex: 0,
+    } as any);
+  });
+
   describe('colors', () => {
     describe('if uses solid colors', () => {
       it('gives <LinearGradientWithStops /> a single stop', () => {
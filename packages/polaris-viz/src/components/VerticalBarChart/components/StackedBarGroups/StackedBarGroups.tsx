@@ -1,5 +1,5 @@
 import {Fragment, useMemo} from 'react';
-import type {ScaleBand, ScaleLinear} from 'd3-scale';
+import type {ScaleBand, ScaleContinuousNumeric} from 'd3-scale';
 import type {Color} from '@shopify/polaris-viz-core';
 import {
   getColorVisionEventAttrs,
@@ -28,7 +28,8 @@ interface StackedBarGroupsProps {
   labels: string[];
   stackedValues: StackedSeries[];
   xScale: ScaleBand<string>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
+  isClickable?: boolean;
 }
 
 export function StackedBarGroups({
@@ -41,6 +42,7 @@ export function StackedBarGroups({
   stackedValues,
   xScale,
   yScale,
+  isClickable = false,
 }: StackedBarGroupsProps) {
   const width = xScale.bandwidth() - BAR_SPACING;
 
@@ -99,6 +101,7 @@ export function StackedBarGroups({
               gaps={gaps}
               groupIndex={groupIndex}
               id={id}
+              isClickable={isClickable}
               width={width}
               x={x}
               yScale={yScale}
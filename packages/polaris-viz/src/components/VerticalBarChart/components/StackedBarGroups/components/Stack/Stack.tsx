@@ -1,8 +1,9 @@
 import {useState} from 'react';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 import {
   BARS_TRANSITION_CONFIG,
   COLOR_VISION_SINGLE_ITEM,
+  DataType,
   getColorVisionEventAttrs,
   getColorVisionStylesForActiveIndex,
   getRoundedRectPath,
@@ -32,8 +33,9 @@ interface StackProps {
   groupIndex: number;
   id: string;
   width: number;
+  isClickable?: boolean;
   x: number | undefined;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
 }
 
 export function Stack({
@@ -46,6 +48,7 @@ export function Stack({
   width,
   x,
   yScale,
+  isClickable = false,
 }: StackProps) {
   const [activeBarIndex, setActiveBarIndex] = useState(-1);
   const {theme, shouldAnimate} = useChartContext();
@@ -123,7 +126,9 @@ export function Stack({
                 type: COLOR_VISION_SINGLE_ITEM,
                 index,
               })}
-              tabIndex={-1}
+              data-type={DataType.Bar}
+              data-index={index}
+              tabIndex={isClickable ? 0 : -1}
               role="listitem"
               aria-label={ariaLabel}
             />
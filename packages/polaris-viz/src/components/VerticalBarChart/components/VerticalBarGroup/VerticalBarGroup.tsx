@@ -9,7 +9,7 @@ import type {
   Color,
   DataSeries,
 } from '@shopify/polaris-viz-core';
-import type {ScaleBand, ScaleLinear} from 'd3-scale';
+import type {ScaleBand, ScaleContinuousNumeric} from 'd3-scale';
 import {Fragment, useMemo, useState} from 'react';
 
 import {getLoadAnimationDelay} from '../../../../utilities/getLoadAnimationDelay';
@@ -31,9 +31,10 @@ interface VerticalBarGroupProps {
   stackedValues: StackedValues | null;
   xScale: ScaleBand<string>;
   yAxisOptions: Required<YAxisOptions>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   indexOffset?: number;
   areAllNegative?: boolean;
+  isClickable?: boolean;
 }
 
 export function VerticalBarGroup({
@@ -50,12 +51,17 @@ export function VerticalBarGroup({
   yScale,
   yAxisOptions,
   areAllNegative,
+  isClickable = false,
 }: VerticalBarGroupProps) {
   const {id: chartId, isPerformanceImpacted} = useChartContext();
 
   const [activeBarGroup, setActiveBarGroup] = useState<number>(-1);
 
   const groupElements = useMemo(() => {
+    if (typeof document === 'undefined') {
+      return [];
+    }
+
     const chart = document.getElementById(getChartId(chartId));
 
     if (chart == null) {
@@ -108,6 +114,7 @@ export function VerticalBarGroup({
         drawableHeight={drawableHeight}
         gapWidth={gapWidth}
         id={id}
+        isClickable={isClickable}
         labels={labels}
         stackedValues={stackedValues}
         xScale={xScale}
@@ -133,6 +140,7 @@ export function VerticalBarGroup({
             gapWidth={gapWidth}
             drawableHeight={drawableHeight}
             indexOffset={indexOffset}
+            isClickable={isClickable}
             key={index}
             width={xScale.bandwidth()}
             x={xPosition == null ? 0 : xPosition}
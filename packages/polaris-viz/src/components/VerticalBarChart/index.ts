@@ -2,3 +2,5 @@ export {VerticalBarChart} from './VerticalBarChart';
 export type {VerticalBarChartProps} from './VerticalBarChart';
 export {useVerticalBarChart} from './hooks/useVerticalBarChart';
 export {VerticalBarGroup} from './components/VerticalBarGroup';
+export {useXScale} from './hooks/useXScale';
+export {VerticalBar} from './components/VerticalBar';
@@ -1,4 +1,5 @@
 import {mount} from '@shopify/react-testing';
+import {LineSeries} from '@shopify/polaris-viz-core';
 
 import {YAxis, XAxis} from '../../../components';
 import {mountWithProvider, triggerSVGMouseMove} from '../../../test-utilities';
@@ -15,6 +16,7 @@ import {LegendContainer} from '../../LegendContainer';
 import {Annotations, YAxisAnnotations} from '../../Annotations';
 import {normalizeData} from '../../../utilities';
 import {TextLine} from '../../TextLine';
+import {TRENDLINE_DASHARRAY} from '../../../constants';
 
 jest.mock('@shopify/polaris-viz-core/src/utilities', () => {
   return {
@@ -337,4 +339,57 @@ describe('Chart />', () => {
       expect(svg?.props.height).toStrictEqual(250);
     });
   });
+
+  describe('trendlineSeries', () => {
+    it('renders a dashed <LineSeries /> after the bars', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          trendlineSeries={[
+            {
+              name: 'Trend',
+              color: 'blue',
+              data: [
+                {key: 'stuff 1', value: 10},
+                {key: 'stuff 2', value: 20},
+                {key: 'stuff 3', value: 30},
+              ],
+              styleOverride: {line: {strokeDasharray: TRENDLINE_DASHARRAY}},
+            },
+          ]}
+        />,
+      );
+
+      expect(chart).toContainReactComponent(LineSeries, {
+        index: 2,
+        data: expect.objectContaining({
+          color: 'blue',
+          strokeDasharray: TRENDLINE_DASHARRAY,
+        }),
+      });
+    });
+
+    it('adds trendlines to the legend as lines', () => {
+      const chart = mount(
+        <Chart
+          {...MOCK_PROPS}
+          showLegend
+          trendlineSeries={[
+            {
+              name: 'Trend',
+              color: 'blue',
+              data: [{key: 'stuff 1', value: 10}],
+              metadata: {isComputed: true},
+            },
+          ]}
+        />,
+      );
+
+      expect(chart.find(LegendContainer)?.prop('data')[2]).toMatchObject({
+        name: 'Trend',
+        shape: 'Line',
+        isComputed: true,
+      });
+    });
+  });
 });
@@ -40,4 +40,32 @@ describe('<VerticalBarChart />', () => {
 
     expect(verticalBarChart).toContainReactComponent(Chart);
   });
+
+  it('nulls the values of hidden series', () => {
+    const verticalBarChart = mount(
+      <VerticalBarChart {...mockProps} hiddenSeries={[0]} />,
+    );
+
+    expect(
+      verticalBarChart.find(Chart)?.props.data[0].data.map(({value}) => value),
+    ).toStrictEqual([null, null, null]);
+  });
+
+  it('hides trendlines with the indexes that follow the bars', () => {
+    const verticalBarChart = mount(
+      <VerticalBarChart
+        {...mockProps}
+        hiddenSeries={[1]}
+        trendlines={[{seriesIndex: 0, type: 'linear'}]}
+      />,
+    );
+    const chart = verticalBarChart.find(Chart);
+
+    expect(chart?.props.data[0].data.map(({value}) => value)).toStrictEqual([
+      10, 20, 30,
+    ]);
+    expect(
+      chart?.props.trendlineSeries?.[0].data.map(({value}) => value),
+    ).toStrictEqual([null, null, null]);
+  });
 });
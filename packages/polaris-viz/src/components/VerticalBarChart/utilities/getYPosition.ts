@@ -1,4 +1,4 @@
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric} from 'd3-scale';
 
 import type {StackedBarGapDirections} from '../../../types';
 import {getGapForIndex} from '../../../utilities';
@@ -8,7 +8,7 @@ interface Props {
   end: number;
   groupIndex: number;
   gaps: StackedBarGapDirections;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
 }
 
 export function getYPosition({start, end, groupIndex, gaps, yScale}: Props) {
@@ -0,0 +1,486 @@
+import type {ReactNode} from 'react';
+import {useMemo, useState} from 'react';
+import {scaleBand} from 'd3-scale';
+import type {
+  BoundingRect,
+  DataSeries,
+  Direction,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+import {
+  DataType,
+  LINE_HEIGHT,
+  changeColorOpacity,
+  estimateStringWidth,
+  getAverageColor,
+  getGradientFromColor,
+  useChartContext,
+  useChartPositions,
+  useYScale,
+} from '@shopify/polaris-viz-core';
+
+import {ChartElements} from '../ChartElements';
+import {XAxis} from '../XAxis';
+import {YAxis} from '../YAxis';
+import {HorizontalGridLines} from '../HorizontalGridLines';
+import {HorizontalBarChartXAxisLabels} from '../HorizontalBarChartXAxisLabels';
+import type {TooltipPosition, TooltipPositionParams} from '../TooltipWrapper';
+import {
+  TooltipHorizontalOffset,
+  TooltipVerticalOffset,
+  TooltipWrapper,
+  TOOLTIP_POSITION_DEFAULT_RETURN,
+} from '../TooltipWrapper';
+import {
+  useHorizontalTicksAndScale,
+  useReducedLabelIndexes,
+  useTheme,
+} from '../../hooks';
+import {eventPointNative} from '../../utilities';
+import {ChartMargin} from '../../constants';
+import type {RenderTooltipContentData} from '../../types';
+
+import {WaterfallBar} from './components';
+import {
+  BAR_PADDING,
+  CONNECTOR_DASHARRAY,
+  CONNECTOR_OPACITY,
+  MAX_Y_AXIS_LABEL_WIDTH,
+  STEP_ANIMATION_DELAY,
+} from './constants';
+import type {
+  WaterfallStep,
+  WaterfallSubtotal,
+  WaterfallTooltipLabels,
+} from './types';
+import {getWaterfallSteps} from './utilities';
+
+export interface ChartProps {
+  data: DataSeries[];
+  direction: Direction;
+  renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
+  showConnectors: boolean;
+  subtotals: WaterfallSubtotal[];
+  tooltipLabels: Required<WaterfallTooltipLabels>;
+  xAxisOptions: Required<XAxisOptions>;
+  yAxisOptions: Required<YAxisOptions>;
+  dimensions?: BoundingRect;
+  emptyStateText?: string;
+}
+
+export function Chart({
+  data,
+  dimensions,
+  direction,
+  emptyStateText,
+  renderTooltipContent,
+  showConnectors,
+  subtotals,
+  tooltipLabels,
+  xAxisOptions,
+  yAxisOptions,
+}: ChartProps) {
+  const selectedTheme = useTheme();
+  const {characterWidths, theme} = useChartContext();
+
+  const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+  const [xAxisHeight, setXAxisHeight] = useState(LINE_HEIGHT);
+
+  const {width, height} = dimensions ?? {width: 0, height: 0};
+
+  const isVertical = direction === 'vertical';
+  const [series] = data;
+  const emptyState = series == null || series.data.length === 0;
+
+  // Axis options describe the physical axes, so the keys
+  // move to the y axis when the chart is horizontal.
+  const keyAxisOptions = isVertical ? xAxisOptions : yAxisOptions;
+  const valueAxisOptions = isVertical ? yAxisOptions : xAxisOptions;
+
+  const steps = useMemo(
+    () => getWaterfallSteps(series?.data ?? [], subtotals),
+    [series, subtotals],
+  );
+
+  const labels = useMemo(
+    () =>
+      steps.map(({key, isSubtotal}) =>
+        isSubtotal ? `${key}` : keyAxisOptions.labelFormatter(key),
+      ),
+    [steps, keyAxisOptions],
+  );
+
+  const allValues = steps.flatMap(({start, end}) => [start, end]);
+
+  const yScaleOptions = {
+    formatYAxisLabel: valueAxisOptions.labelFormatter,
+    integersOnly: yAxisOptions.integersOnly,
+    maxYOverride: yAxisOptions.maxYOverride,
+    minYOverride: yAxisOptions.minYOverride,
+    max: Math.max(0, ...allValues),
+    min: Math.min(0, ...allValues),
+  };
+
+  const {ticks: initialTicks} = useYScale({
+    ...yScaleOptions,
+    drawableHeight: height,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  const valueLabelWidth = Math.max(
+    0,
+    ...initialTicks.map(({formattedValue}) =>
+      estimateStringWidth(formattedValue, characterWidths),
+    ),
+  );
+
+  const keyLabelWidth = Math.min(
+    Math.max(
+      0,
+      ...labels.map((label) => estimateStringWidth(label, characterWidths)),
+    ),
+    MAX_Y_AXIS_LABEL_WIDTH,
+  );
+
+  const {
+    chartXPosition,
+    chartYPosition,
+    drawableHeight,
+    drawableWidth,
+    xAxisBounds,
+    yAxisBounds,
+  } = useChartPositions({
+    annotationsHeight: 0,
+    height,
+    width,
+    xAxisHeight,
+    yAxisWidth: isVertical ? valueLabelWidth : keyLabelWidth,
+  });
+
+  const {ticks, yScale} = useYScale({
+    ...yScaleOptions,
+    drawableHeight,
+    verticalOverflow: selectedTheme.grid.verticalOverflow,
+  });
+
+  // Leave room for the last tick label to be centered on its tick.
+  const {
+    xScale,
+    ticks: xTicks,
+    ticksFormatted: xTicksFormatted,
+  } = useHorizontalTicksAndScale({
+    allNumbers: allValues,
+    isStacked: false,
+    labelFormatter: valueAxisOptions.labelFormatter,
+    maxWidth: Math.max(drawableWidth - valueLabelWidth / 2, 0),
+    stackedMax: 0,
+    stackedMin: 0,
+  });
+
+  const valueScale = isVertical ? yScale : xScale;
+
+  const stepScale = scaleBand()
+    .range([0, isVertical ? drawableWidth : drawableHeight])
+    .paddingInner(BAR_PADDING)
+    .paddingOuter(BAR_PADDING / 2)
+    .domain(steps.map((_, index) => `${index}`));
+
+  const bandwidth = stepScale.bandwidth();
+
+  const reducedLabelIndexes = useReducedLabelIndexes({
+    dataLength: steps.length,
+  });
+
+  const hideXAxis = xAxisOptions.hide || selectedTheme.xAxis.hide;
+  const connectorColor = changeColorOpacity(
+    selectedTheme.xAxis.labelColor,
+    CONNECTOR_OPACITY,
+  );
+
+  const subtotalGradient = getGradientFromColor(
+    series?.color ?? selectedTheme.seriesColors.single,
+  );
+  const subtotalColor = getAverageColor(
+    subtotalGradient[0].color,
+    subtotalGradient[subtotalGradient.length - 1].color,
+  );
+
+  const keyTicks = labels.map((formattedValue, index) => ({
+    value: index,
+    formattedValue,
+    yOffset: (stepScale(`${index}`) ?? 0) + bandwidth / 2,
+  }));
+
+  const xTickLabelWidth = drawableWidth / Math.max(xTicks.length, 1);
+
+  const getTooltipMarkup = (index: number) => {
+    const step = steps[index];
+
+    if (step == null) {
+      return null;
+    }
+
+    const color = getStepColor(step);
+
+    return renderTooltipContent({
+      data: [
+        {
+          shape: 'Bar',
+          name: labels[index],
+          data: step.isSubtotal
+            ? [{key: tooltipLabels.total, value: step.end, color}]
+            : [
+                {key: tooltipLabels.change, value: step.value, color},
+                {key: tooltipLabels.total, value: step.end},
+              ],
+        },
+      ],
+      activeIndex: index,
+      dataSeries: data,
+      theme,
+      title: labels[index],
+    });
+  };
+
+  return (
+    <ChartElements.Div height={height} width={width}>
+      <ChartElements.Svg
+        emptyState={emptyState}
+        emptyStateText={emptyStateText}
+        height={height}
+        setRef={setSvgRef}
+        width={width}
+      >
+        {isVertical ? (
+          <g>
+            {selectedTheme.grid.showHorizontalLines ? (
+              <HorizontalGridLines
+                ticks={ticks}
+                transform={{
+                  x: selectedTheme.grid.horizontalOverflow ? 0 : chartXPosition,
+                  y: chartYPosition,
+                }}
+                width={
+                  selectedTheme.grid.horizontalOverflow ? width : drawableWidth
+                }
+              />
+            ) : null}
+
+            <YAxis
+              ticks={ticks}
+              textAlign="right"
+              width={valueLabelWidth}
+              x={yAxisBounds.x}
+              y={yAxisBounds.y}
+            />
+
+            {hideXAxis ? null : (
+              <XAxis
+                allowLineWrap={xAxisOptions.allowLineWrap}
+                labels={labels}
+                labelWidth={bandwidth}
+                onHeightChange={setXAxisHeight}
+                reducedLabelIndexes={reducedLabelIndexes}
+                x={xAxisBounds.x}
+                xScale={stepScale}
+                y={xAxisBounds.y}
+              />
+            )}
+          </g>
+        ) : (
+          <g>
+            <YAxis
+              ticks={keyTicks}
+              textAlign="right"
+              width={keyLabelWidth}
+              x={yAxisBounds.x}
+              y={yAxisBounds.y}
+            />
+
+            {hideXAxis ? null : (
+              <g aria-hidden="true">
+                <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+                  {xTicks.map((tick) => (
+                    <line
+                      key={tick}
+                      stroke={selectedTheme.grid.color}
+                      x1={xScale(tick)}
+                      x2={xScale(tick)}
+                      y2={drawableHeight}
+                    />
+                  ))}
+                </g>
+                <HorizontalBarChartXAxisLabels
+                  allowLineWrap={xAxisOptions.allowLineWrap}
+                  chartX={chartXPosition - xTickLabelWidth / 2}
+                  chartY={xAxisBounds.y}
+                  labels={xTicksFormatted}
+                  labelWidth={xTickLabelWidth}
+                  onHeightChange={setXAxisHeight}
+                  ticks={xTicks}
+                  xScale={xScale}
+                />
+              </g>
+            )}
+          </g>
+        )}
+
+        <g transform={`translate(${chartXPosition},${chartYPosition})`}>
+          {showConnectors &&
+            steps.slice(0, -1).map((step, index) => {
+              const level = valueScale(step.end);
+              const from = (stepScale(`${index}`) ?? 0) + bandwidth;
+              const to = stepScale(`${index + 1}`) ?? 0;
+
+              return (
+                <line
+                  key={`connector-${index}`}
+                  aria-hidden="true"
+                  stroke={connectorColor}
+                  strokeDasharray={CONNECTOR_DASHARRAY}
+                  x1={isVertical ? from : level}
+                  x2={isVertical ? to : level}
+                  y1={isVertical ? level : from}
+                  y2={isVertical ? level : to}
+                />
+              );
+            })}
+
+          {steps.map((step, index) => (
+            <g
+              key={`${step.key}-${index}`}
+              aria-hidden="false"
+              aria-label={getAriaLabel(step, index)}
+              data-index={index}
+              data-type={DataType.BarGroup}
+              role="listitem"
+              tabIndex={0}
+            >
+              <WaterfallBar
+                animationDelay={index * STEP_ANIMATION_DELAY}
+                bandwidth={bandwidth}
+                color={getStepColor(step)}
+                direction={direction}
+                end={valueScale(step.end)}
+                index={index}
+                start={valueScale(step.start)}
+                x={stepScale(`${index}`) ?? 0}
+              />
+            </g>
+          ))}
+        </g>
+      </ChartElements.Svg>
+
+      {steps.length > 0 && (
+        <TooltipWrapper
+          bandwidth={bandwidth}
+          chartBounds={{
+            width,
+            height,
+            x: chartXPosition,
+            y: chartYPosition,
+          }}
+          chartDimensions={dimensions}
+          focusElementDataType={DataType.BarGroup}
+          getMarkup={getTooltipMarkup}
+          getPosition={getTooltipPosition}
+          margin={{...ChartMargin, Top: chartYPosition}}
+          parentRef={svgRef}
+          usePortal
+        />
+      )}
+    </ChartElements.Div>
+  );
+
+  function getStepColor({isSubtotal, value}: WaterfallStep) {
+    if (isSubtotal) {
+      return subtotalColor;
+    }
+
+    if (value === 0) {
+      return selectedTheme.trendIndicator.neutral;
+    }
+
+    return value > 0
+      ? selectedTheme.trendIndicator.positive
+      : selectedTheme.trendIndicator.negative;
+  }
+
+  function getAriaLabel(
+    {isSubtotal, value, end}: WaterfallStep,
+    index: number,
+  ) {
+    const formattedTotal = valueAxisOptions.labelFormatter(end);
+
+    if (isSubtotal) {
+      return `${labels[index]}: ${formattedTotal}`;
+    }
+
+    const formattedChange = valueAxisOptions.labelFormatter(value);
+
+    return `${labels[index]}: ${tooltipLabels.change} ${formattedChange}, ${tooltipLabels.total} ${formattedTotal}`;
+  }
+
+  function formatPositionForTooltip(index: number): TooltipPosition {
+    const step = steps[index];
+    const stepPosition = (stepScale(`${index}`) ?? 0) + bandwidth / 2;
+
+    if (isVertical) {
+      return {
+        x: chartXPosition + stepPosition + (dimensions?.x ?? 0),
+        y:
+          chartYPosition +
+          Math.min(yScale(step.start), yScale(step.end)) +
+          (dimensions?.y ?? 0),
+        position: {
+          horizontal: TooltipHorizontalOffset.Center,
+          vertical: TooltipVerticalOffset.Above,
+        },
+        activeIndex: index,
+      };
+    }
+
+    return {
+      x:
+        chartXPosition +
+        Math.max(xScale(step.start), xScale(step.end)) +
+        (dimensions?.x ?? 0),
+      y: chartYPosition + stepPosition + (dimensions?.y ?? 0),
+      position: {
+        horizontal: TooltipHorizontalOffset.Right,
+        vertical: TooltipVerticalOffset.Center,
+      },
+      activeIndex: index,
+    };
+  }
+
+  function getTooltipPosition({
+    event,
+    index,
+    eventType,
+  }: TooltipPositionParams): TooltipPosition {
+    if (eventType === 'mouse' && event) {
+      const point = eventPointNative(event);
+
+      if (point == null) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      const position = isVertical
+        ? point.svgX - chartXPosition
+        : point.svgY - chartYPosition;
+      const stepIndex = Math.floor(position / stepScale.step());
+
+      if (stepIndex < 0 || stepIndex >= steps.length) {
+        return TOOLTIP_POSITION_DEFAULT_RETURN;
+      }
+
+      return formatPositionForTooltip(stepIndex);
+    } else if (index != null) {
+      return formatPositionForTooltip(index);
+    }
+
+    return TOOLTIP_POSITION_DEFAULT_RETURN;
+  }
+}
@@ -0,0 +1,123 @@
+import type {
+  ChartProps,
+  Direction,
+  XAxisOptions,
+  YAxisOptions,
+} from '@shopify/polaris-viz-core';
+import {
+  ChartState,
+  DEFAULT_CHART_PROPS,
+  InternalChartType,
+  usePolarisVizContext,
+  useTheme,
+  useThemeSeriesColors,
+} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../ChartContainer';
+import {ChartSkeleton} from '../ChartSkeleton';
+import {
+  getXAxisOptionsWithDefaults,
+  getYAxisOptionsWithDefaults,
+} from '../../utilities';
+import {getTooltipContentRenderer} from '../../utilities/getTooltipContentRenderer';
+import type {TooltipOptions} from '../../types';
+
+import {Chart} from './Chart';
+import type {WaterfallSubtotal, WaterfallTooltipLabels} from './types';
+
+export type WaterfallChartProps = {
+  direction?: Direction;
+  emptyStateText?: string;
+  /**
+   * Draws dashed lines joining the running total between bars.
+   */
+  showConnectors?: boolean;
+  subtotals?: WaterfallSubtotal[];
+  /**
+   * Names of the change and running total rows shown in the tooltip.
+   */
+  tooltipLabels?: WaterfallTooltipLabels;
+  tooltipOptions?: TooltipOptions;
+  xAxisOptions?: Partial<XAxisOptions>;
+  yAxisOptions?: Partial<YAxisOptions>;
+} & ChartProps;
+
+const DEFAULT_TOOLTIP_LABELS: Required<WaterfallTooltipLabels> = {
+  change: 'Change',
+  total: 'Total',
+};
+
+export function WaterfallChart(props: WaterfallChartProps) {
+  const {defaultTheme} = usePolarisVizContext();
+
+  const {
+    data,
+    direction = 'vertical',
+    emptyStateText,
+    errorText,
+    id,
+    isAnimated,
+    onError,
+    showConnectors = true,
+    state,
+    subtotals = [],
+    theme = defaultTheme,
+    tooltipLabels,
+    tooltipOptions,
+    xAxisOptions,
+    yAxisOptions,
+  } = {
+    ...DEFAULT_CHART_PROPS,
+    ...props,
+  };
+
+  const selectedTheme = useTheme(theme);
+  const seriesColors = useThemeSeriesColors(data, selectedTheme);
+
+  const seriesWithDefaults = data.map((series, index) => ({
+    color: seriesColors[index],
+    ...series,
+  }));
+
+  const xAxisOptionsWithDefaults = getXAxisOptionsWithDefaults(xAxisOptions);
+  const yAxisOptionsWithDefaults = getYAxisOptionsWithDefaults(yAxisOptions);
+
+  const renderTooltip = getTooltipContentRenderer({
+    tooltipOptions: {
+      valueFormatter:
+        direction === 'vertical'
+          ? yAxisOptionsWithDefaults.labelFormatter
+          : xAxisOptionsWithDefaults.labelFormatter,
+      ...tooltipOptions,
+    },
+    theme,
+    data,
+  });
+
+  return (
+    <ChartContainer
+      data={data}
+      id={id}
+      isAnimated={isAnimated}
+      onError={onError}
+      theme={theme}
+      type={InternalChartType.Bar}
+    >
+      {state !== ChartState.Success ? (
+        <ChartSkeleton state={state} errorText={errorText} theme={theme} />
+      ) : (
+        <Chart
+          data={seriesWithDefaults}
+          direction={direction}
+          emptyStateText={emptyStateText}
+          renderTooltipContent={renderTooltip}
+          showConnectors={showConnectors}
+          subtotals={subtotals}
+          tooltipLabels={{...DEFAULT_TOOLTIP_LABELS, ...tooltipLabels}}
+          xAxisOptions={xAxisOptionsWithDefaults}
+          yAxisOptions={yAxisOptionsWithDefaults}
+        />
+      )}
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,62 @@
+import type {Direction} from '@shopify/polaris-viz-core';
+
+import {Bar} from '../../../shared';
+
+export interface WaterfallBarProps {
+  bandwidth: number;
+  color: string;
+  direction: Direction;
+  /**
+   * Pixel positions of the running total before and after the step.
+   */
+  end: number;
+  start: number;
+  x: number;
+  animationDelay?: number;
+  index?: number;
+}
+
+export function WaterfallBar({
+  animationDelay,
+  bandwidth,
+  color,
+  direction,
+  end,
+  index,
+  start,
+  x,
+}: WaterfallBarProps) {
+  const length = Math.abs(end - start);
+
+  // `Bar` grows to the right from its origin, so it is rotated
+  // or mirrored to grow from `start` towards `end`.
+  if (direction === 'vertical') {
+    const isIncreasing = end < start;
+
+    return (
+      <Bar
+        animationDelay={animationDelay}
+        color={color}
+        height={bandwidth}
+        index={index}
+        transform={isIncreasing ? 'rotate(-90deg)' : 'rotate(90deg) scaleY(-1)'}
+        width={length}
+        x={x}
+        y={start}
+      />
+    );
+  }
+
+  return (
+    <Bar
+      animationDelay={animationDelay}
+      color={color}
+      height={bandwidth}
+      index={index}
+      transform={end < start ? 'scaleX(-1)' : undefined}
+      width={length}
+      x={start}
+      y={x}
+    />
+  );
+}
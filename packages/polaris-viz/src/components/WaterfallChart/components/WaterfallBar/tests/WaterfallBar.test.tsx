@@ -0,0 +1,83 @@
+import {mount} from '@shopify/react-testing';
+
+import {Bar} from '../../../../shared';
+import type {WaterfallBarProps} from '../WaterfallBar';
+import {WaterfallBar} from '../WaterfallBar';
+
+const MOCK_PROPS: WaterfallBarProps = {
+  bandwidth: 20,
+  color: 'red',
+  direction: 'vertical',
+  end: 40,
+  start: 100,
+  x: 10,
+};
+
+describe('<WaterfallBar />', () => {
+  describe('vertical', () => {
+    it('grows upwards from the start when increasing', () => {
+      const bar = mount(
+        <svg>
+          <WaterfallBar {...MOCK_PROPS} />
+        </svg>,
+      );
+
+      expect(bar).toContainReactComponent(Bar, {
+        height: 20,
+        width: 60,
+        x: 10,
+        y: 100,
+        transform: 'rotate(-90deg)',
+      });
+    });
+
+    it('grows downwards from the start when decreasing', () => {
+      const bar = mount(
+        <svg>
+          <WaterfallBar {...MOCK_PROPS} start={40} end={100} />
+        </svg>,
+      );
+
+      expect(bar).toContainReactComponent(Bar, {
+        width: 60,
+        y: 40,
+        transform: 'rotate(90deg) scaleY(-1)',
+      });
+    });
+  });
+
+  describe('horizontal', () => {
+    it('grows to the right from the start when increasing', () => {
+      const bar = mount(
+        <svg>
+          <WaterfallBar
+            {...MOCK_PROPS}
+            direction="horizontal"
+            start={40}
+            end={100}
+          />
+        </svg>,
+      );
+
+      expect(bar).toContainReactComponent(Bar, {
+        width: 60,
+        x: 40,
+        y: 10,
+        transform: undefined,
+      });
+    });
+
+    it('is mirrored when decreasing', () => {
+      const bar = mount(
+        <svg>
+          <WaterfallBar {...MOCK_PROPS} direction="horizontal" />
+        </svg>,
+      );
+
+      expect(bar).toContainReactComponent(Bar, {
+        x: 100,
+        transform: 'scaleX(-1)',
+      });
+    });
+  });
+});
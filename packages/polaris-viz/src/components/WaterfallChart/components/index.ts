@@ -0,0 +1,2 @@
+export {WaterfallBar} from './WaterfallBar';
+export type {WaterfallBarProps} from './WaterfallBar';
@@ -0,0 +1,5 @@
+export const BAR_PADDING = 0.3;
+export const CONNECTOR_DASHARRAY = '3 3';
+export const CONNECTOR_OPACITY = 0.5;
+export const MAX_Y_AXIS_LABEL_WIDTH = 160;
+export const STEP_ANIMATION_DELAY = 60;
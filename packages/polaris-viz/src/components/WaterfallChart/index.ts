@@ -0,0 +1,3 @@
+export {WaterfallChart} from './WaterfallChart';
+export type {WaterfallChartProps} from './WaterfallChart';
+export type {WaterfallSubtotal, WaterfallTooltipLabels} from './types';
@@ -0,0 +1,31 @@
+import type {Story} from '@storybook/react';
+
+export {META as default} from './meta';
+
+import type {WaterfallChartProps} from '../../../components';
+
+import {DEFAULT_DATA, SUBTOTALS, Template, formatCurrency} from './data';
+
+export const Default: Story<WaterfallChartProps> = Template.bind({});
+
+Default.args = {
+  data: DEFAULT_DATA,
+  yAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const Subtotals: Story<WaterfallChartProps> = Template.bind({});
+
+Subtotals.args = {
+  data: DEFAULT_DATA,
+  subtotals: SUBTOTALS,
+  yAxisOptions: {labelFormatter: formatCurrency},
+};
+
+export const Horizontal: Story<WaterfallChartProps> = Template.bind({});
+
+Horizontal.args = {
+  data: DEFAULT_DATA,
+  direction: 'horizontal',
+  subtotals: SUBTOTALS,
+  xAxisOptions: {labelFormatter: formatCurrency},
+};
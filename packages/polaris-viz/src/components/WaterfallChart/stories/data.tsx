@@ -0,0 +1,37 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+import type {Story} from '@storybook/react';
+
+import type {WaterfallChartProps} from '../WaterfallChart';
+import {WaterfallChart} from '../WaterfallChart';
+
+export const DEFAULT_DATA: DataSeries[] = [
+  {
+    name: 'Sales',
+    data: [
+      {key: 'Gross sales', value: 48_200},
+      {key: 'Discounts', value: -6_100},
+      {key: 'Returns', value: -3_400},
+      {key: 'Shipping', value: 2_750},
+      {key: 'Taxes', value: 3_900},
+    ],
+  },
+];
+
+export const SUBTOTALS = [
+  {afterKey: 'Returns', label: 'Net sales'},
+  {afterKey: 'Taxes', label: 'Total sales'},
+];
+
+export function formatCurrency(value: number | string | null) {
+  return `$${Number(value).toLocaleString()}`;
+}
+
+export const Template: Story<WaterfallChartProps> = (
+  args: WaterfallChartProps,
+) => {
+  return (
+    <div style={{height: 400}}>
+      <WaterfallChart {...args} />
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import type {Meta} from '@storybook/react';
+
+import {
+  CHART_STATE_CONTROL_ARGS,
+  CONTROLS_ARGS,
+  DIRECTION_CONTROL_ARGS,
+  EMPTY_STATE_TEXT_ARGS,
+  THEME_CONTROL_ARGS,
+  X_AXIS_OPTIONS_ARGS,
+  Y_AXIS_OPTIONS_ARGS,
+} from '../../../storybook/constants';
+import {PageWithSizingInfo} from '../../Docs/stories';
+import {WaterfallChart} from '../WaterfallChart';
+
+export const META: Meta = {
+  title: 'polaris-viz/Charts/WaterfallChart',
+  component: WaterfallChart,
+  parameters: {
+    controls: CONTROLS_ARGS,
+    docs: {
+      page: PageWithSizingInfo,
+      description: {
+        component:
+          'Used to show how positive and negative changes add up to a total, like gross sales to net sales.',
+      },
+    },
+  },
+  argTypes: {
+    data: {
+      description:
+        'The first series is drawn. Each data point is a change from the running total.',
+    },
+    subtotals: {
+      description:
+        'Columns showing the running total, drawn after the data point with the matching `afterKey`.',
+    },
+    showConnectors: {
+      description: 'Draws dashed lines joining the running total between bars.',
+      control: {type: 'boolean'},
+    },
+    tooltipLabels: {
+      description: 'Names of the change and running total tooltip rows.',
+    },
+    direction: DIRECTION_CONTROL_ARGS,
+    emptyStateText: EMPTY_STATE_TEXT_ARGS,
+    xAxisOptions: X_AXIS_OPTIONS_ARGS,
+    yAxisOptions: Y_AXIS_OPTIONS_ARGS,
+    theme: THEME_CONTROL_ARGS,
+    state: CHART_STATE_CONTROL_ARGS,
+  },
+};
@@ -0,0 +1,164 @@
+import {mount} from '@shopify/react-testing';
+import {DEFAULT_THEME_NAME, LIGHT_THEME} from '@shopify/polaris-viz-core';
+
+import type {ChartProps} from '../Chart';
+import {Chart} from '../Chart';
+import {WaterfallBar} from '../components';
+import {XAxis} from '../../XAxis';
+import {YAxis} from '../../YAxis';
+import {HorizontalBarChartXAxisLabels} from '../../HorizontalBarChartXAxisLabels';
+import {TooltipWrapper} from '../../TooltipWrapper';
+
+const MOCK_PROPS: ChartProps = {
+  data: [
+    {
+      name: 'Sales',
+      color: 'blue',
+      data: [
+        {key: 'Gross sales', value: 1000},
+        {key: 'Discounts', value: -150},
+        {key: 'Returns', value: 0},
+      ],
+    },
+  ],
+  dimensions: {height: 300, width: 600, x: 0, y: 0},
+  direction: 'vertical',
+  renderTooltipContent: jest.fn(() => null),
+  showConnectors: true,
+  subtotals: [],
+  tooltipLabels: {change: 'Change', total: 'Total'},
+  xAxisOptions: {
+    labelFormatter: (value) => `${value}`,
+    hide: false,
+    allowLineWrap: false,
+  },
+  yAxisOptions: {
+    labelFormatter: (value) => `$${value}`,
+    integersOnly: false,
+    fixedWidth: false,
+    maxYOverride: null,
+    minYOverride: null,
+  },
+};
+
+const {trendIndicator} = LIGHT_THEME;
+
+describe('<Chart />', () => {
+  it('renders a <WaterfallBar /> for each step', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponentTimes(WaterfallBar, 3);
+  });
+
+  it('colours steps with the trend indicator theme', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const [gross, discounts, returns] = chart.findAll(WaterfallBar);
+
+    expect(gross).toHaveReactProps({color: trendIndicator.positive});
+    expect(discounts).toHaveReactProps({color: trendIndicator.negative});
+    expect(returns).toHaveReactProps({color: trendIndicator.neutral});
+  });
+
+  it('floats bars from the running total', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    const [gross, discounts] = chart.findAll(WaterfallBar);
+
+    expect(discounts.props.start).toBe(gross.props.end);
+    expect(discounts.props.end).toBeGreaterThan(discounts.props.start);
+  });
+
+  it('renders subtotals in the series colour', () => {
+    const chart = mount(
+      <Chart
+        {...MOCK_PROPS}
+        subtotals={[{afterKey: 'Returns', label: 'Net sales'}]}
+      />,
+    );
+
+    expect(chart).toContainReactComponentTimes(WaterfallBar, 4);
+    expect(chart.findAll(WaterfallBar)[3]).toHaveReactProps({
+      color: 'blue',
+    });
+    expect(chart).toContainReactComponent('g', {
+      'aria-label': 'Net sales: $850',
+    });
+  });
+
+  it('labels steps with their change and running total', () => {
+    const chart = mount(<Chart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent('g', {
+      'aria-label': 'Discounts: Change $-150, Total $850',
+    });
+  });
+
+  describe('showConnectors', () => {
+    it('renders a connector between each bar', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart.findAll('line', {strokeDasharray: '3 3'})).toHaveLength(2);
+    });
+
+    it('does not render connectors when false', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} showConnectors={false} />);
+
+      expect(chart).not.toContainReactComponent('line', {
+        strokeDasharray: '3 3',
+      });
+    });
+  });
+
+  describe('direction', () => {
+    it('renders step labels on the <XAxis /> when vertical', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} />);
+
+      expect(chart).toContainReactComponent(XAxis, {
+        labels: ['Gross sales', 'Discounts', 'Returns'],
+      });
+      expect(chart).not.toContainReactComponent(HorizontalBarChartXAxisLabels);
+    });
+
+    it('renders step labels on the <YAxis /> with its formatter when horizontal', () => {
+      const chart = mount(<Chart {...MOCK_PROPS} direction="horizontal" />);
+
+      expect(chart).not.toContainReactComponent(XAxis);
+      expect(chart).toContainReactComponent(HorizontalBarChartXAxisLabels);
+      expect(chart.find(YAxis)!.props.ticks[0]).toMatchObject({
+        formattedValue: '$Gross sales',
+      });
+      expect(chart.find(WaterfallBar)).toHaveReactProps({
+        direction: 'horizontal',
+      });
+    });
+  });
+
+  describe('tooltip', () => {
+    it('renders the change and running total', () => {
+      const renderTooltipContent = jest.fn(() => null);
+      const chart = mount(
+        <Chart {...MOCK_PROPS} renderTooltipContent={renderTooltipContent} />,
+      );
+
+      chart.find(TooltipWrapper)!.props.getMarkup(1);
+
+      expect(renderTooltipContent).toHaveBeenCalledWith({
+        data: [
+          {
+            shape: 'Bar',
+            name: 'Discounts',
+            data: [
+              {key: 'Change', value: -150, color: trendIndicator.negative},
+              {key: 'Total', value: 850},
+            ],
+          },
+        ],
+        activeIndex: 1,
+        dataSeries: MOCK_PROPS.data,
+        theme: DEFAULT_THEME_NAME,
+        title: 'Discounts',
+      });
+    });
+  });
+});
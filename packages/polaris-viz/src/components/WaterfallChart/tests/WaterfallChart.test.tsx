@@ -0,0 +1,58 @@
+import {mount} from '@shopify/react-testing';
+import {ChartState} from '@shopify/polaris-viz-core';
+
+import {ChartContainer} from '../../ChartContainer';
+import {ChartSkeleton} from '../../ChartSkeleton';
+import type {WaterfallChartProps} from '../WaterfallChart';
+import {WaterfallChart} from '../WaterfallChart';
+import {Chart} from '../Chart';
+
+const MOCK_PROPS: WaterfallChartProps = {
+  data: [
+    {
+      name: 'Sales',
+      data: [
+        {key: 'Gross sales', value: 1000},
+        {key: 'Discounts', value: -150},
+      ],
+    },
+  ],
+};
+
+describe('<WaterfallChart />', () => {
+  it('renders <ChartContainer />', () => {
+    const chart = mount(<WaterfallChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(ChartContainer);
+  });
+
+  it('renders <Chart /> with defaults', () => {
+    const chart = mount(<WaterfallChart {...MOCK_PROPS} />);
+
+    expect(chart).toContainReactComponent(Chart, {
+      direction: 'vertical',
+      showConnectors: true,
+      subtotals: [],
+      tooltipLabels: {change: 'Change', total: 'Total'},
+    });
+  });
+
+  it('merges custom tooltip labels', () => {
+    const chart = mount(
+      <WaterfallChart {...MOCK_PROPS} tooltipLabels={{total: 'Net'}} />,
+    );
+
+    expect(chart).toContainReactComponent(Chart, {
+      tooltipLabels: {change: 'Change', total: 'Net'},
+    });
+  });
+
+  it('renders <ChartSkeleton /> while loading', () => {
+    const chart = mount(
+      <WaterfallChart {...MOCK_PROPS} state={ChartState.Loading} />,
+    );
+
+    expect(chart).toContainReactComponent(ChartSkeleton);
+    expect(chart).not.toContainReactComponent(Chart);
+  });
+});
@@ -0,0 +1,46 @@
+import {getWaterfallSteps} from '../utilities';
+
+const DATA = [
+  {key: 'Gross sales', value: 1000},
+  {key: 'Discounts', value: -150},
+  {key: 'Returns', value: -50},
+];
+
+describe('getWaterfallSteps()', () => {
+  it('floats each step from the running total', () => {
+    expect(getWaterfallSteps(DATA)).toStrictEqual([
+      {key: 'Gross sales', value: 1000, start: 0, end: 1000, isSubtotal: false},
+      {key: 'Discounts', value: -150, start: 1000, end: 850, isSubtotal: false},
+      {key: 'Returns', value: -50, start: 850, end: 800, isSubtotal: false},
+    ]);
+  });
+
+  it('inserts subtotals after their key', () => {
+    const steps = getWaterfallSteps(DATA, [
+      {afterKey: 'Discounts', label: 'After discounts'},
+      {afterKey: 'Returns', label: 'Net sales'},
+    ]);
+
+    expect(steps.map(({key}) => key)).toStrictEqual([
+      'Gross sales',
+      'Discounts',
+      'After discounts',
+      'Returns',
+      'Net sales',
+    ]);
+    expect(steps[2]).toStrictEqual({
+      key: 'After discounts',
+      value: 850,
+      start: 0,
+      end: 850,
+      isSubtotal: true,
+    });
+    expect(steps[3]).toMatchObject({start: 850, end: 800});
+  });
+
+  it('treats null values as no change', () => {
+    expect(getWaterfallSteps([{key: 'Shipping', value: null}])).toStrictEqual([
+      {key: 'Shipping', value: 0, start: 0, end: 0, isSubtotal: false},
+    ]);
+  });
+});
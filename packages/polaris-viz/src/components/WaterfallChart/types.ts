@@ -0,0 +1,23 @@
+export interface WaterfallSubtotal {
+  /**
+   * Key of the data point the subtotal column is drawn after.
+   */
+  afterKey: string | number;
+  label: string;
+}
+
+export interface WaterfallTooltipLabels {
+  change?: string;
+  total?: string;
+}
+
+export interface WaterfallStep {
+  key: string | number;
+  /**
+   * The change for a step, or the running total for a subtotal.
+   */
+  value: number;
+  start: number;
+  end: number;
+  isSubtotal: boolean;
+}
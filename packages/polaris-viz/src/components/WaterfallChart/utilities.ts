@@ -0,0 +1,37 @@
+import type {DataPoint} from '@shopify/polaris-viz-core';
+
+import type {WaterfallStep, WaterfallSubtotal} from './types';
+
+export function getWaterfallSteps(
+  data: DataPoint[],
+  subtotals: WaterfallSubtotal[] = [],
+): WaterfallStep[] {
+  let runningTotal = 0;
+
+  return data.flatMap(({key, value}) => {
+    const change = value ?? 0;
+    const start = runningTotal;
+
+    runningTotal += change;
+
+    const step: WaterfallStep = {
+      key,
+      value: change,
+      start,
+      end: runningTotal,
+      isSubtotal: false,
+    };
+
+    const subtotalSteps = subtotals
+      .filter(({afterKey}) => afterKey === key)
+      .map(({label}) => ({
+        key: label,
+        value: runningTotal,
+        start: 0,
+        end: runningTotal,
+        isSubtotal: true,
+      }));
+
+    return [step, ...subtotalSteps];
+  });
+}
@@ -0,0 +1,98 @@
+import {mount} from '@shopify/react-testing';
+import {scaleLinear} from 'd3-scale';
+
+import type {ZoomBrushProps} from './ZoomBrush';
+import {ZoomBrush} from './ZoomBrush';
+
+const MOCK_PROPS: ZoomBrushProps = {
+  drawableHeight: 100,
+  drawableWidth: 400,
+  isZoomed: false,
+  onKeyDown: jest.fn(),
+  onPan: jest.fn(),
+  onZoom: jest.fn(),
+  theme: 'Light',
+  xScale: scaleLinear().domain([0, 4]).range([0, 400]),
+};
+
+function pointerEvent(clientX: number, shiftKey = false) {
+  return {
+    clientX,
+    pointerId: 1,
+    shiftKey,
+    currentTarget: {getBoundingClientRect: () => ({left: 0})},
+  };
+}
+
+describe('<ZoomBrush />', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders a selection while dragging', () => {
+    const brush = mount(
+      <svg>
+        <ZoomBrush {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    brush.find('rect')!.trigger('onPointerDown', pointerEvent(100));
+    brush.find('rect')!.trigger('onPointerMove', pointerEvent(50));
+
+    expect(brush).toContainReactComponent('rect', {x: 50, width: 50});
+  });
+
+  it('calls onZoom with the selected indexes', () => {
+    const brush = mount(
+      <svg>
+        <ZoomBrush {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    brush.find('rect')!.trigger('onPointerDown', pointerEvent(100));
+    brush.find('rect')!.trigger('onPointerMove', pointerEvent(300));
+    brush.find('rect')!.trigger('onPointerUp');
+
+    expect(MOCK_PROPS.onZoom).toHaveBeenCalledWith(1, 3);
+  });
+
+  it('does not call onZoom when the selection is too small', () => {
+    const brush = mount(
+      <svg>
+        <ZoomBrush {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    brush.find('rect')!.trigger('onPointerDown', pointerEvent(100));
+    brush.find('rect')!.trigger('onPointerMove', pointerEvent(102));
+    brush.find('rect')!.trigger('onPointerUp');
+
+    expect(MOCK_PROPS.onZoom).not.toHaveBeenCalled();
+  });
+
+  it('pans when dragging with shift while zoomed', () => {
+    const brush = mount(
+      <svg>
+        <ZoomBrush {...MOCK_PROPS} isZoomed />
+      </svg>,
+    );
+
+    brush.find('rect')!.trigger('onPointerDown', pointerEvent(300, true));
+    brush.find('rect')!.trigger('onPointerMove', pointerEvent(100));
+
+    expect(MOCK_PROPS.onPan).toHaveBeenCalledWith(2);
+    expect(MOCK_PROPS.onZoom).not.toHaveBeenCalled();
+  });
+
+  it('passes key presses to onKeyDown', () => {
+    const brush = mount(
+      <svg>
+        <ZoomBrush {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    brush.find('g')!.trigger('onKeyDown', {key: '+'});
+
+    expect(MOCK_PROPS.onKeyDown).toHaveBeenCalledWith({key: '+'});
+  });
+});
@@ -0,0 +1,122 @@
+import type {KeyboardEvent, PointerEvent} from 'react';
+import {useRef, useState} from 'react';
+import type {ScaleLinear} from 'd3-scale';
+import {clamp, useTheme} from '@shopify/polaris-viz-core';
+
+import {BRUSH_OPACITY, MIN_BRUSH_WIDTH} from '../../constants';
+
+import styles from './ZoomBrush.scss';
+
+export interface ZoomBrushProps {
+  drawableHeight: number;
+  drawableWidth: number;
+  isZoomed: boolean;
+  onKeyDown: (event: KeyboardEvent) => void;
+  onPan: (offset: number) => void;
+  onZoom: (start: number, end: number) => void;
+  theme: string;
+  xScale: ScaleLinear<number, number>;
+  label?: string;
+}
+
+interface Selection {
+  start: number;
+  end: number;
+}
+
+export function ZoomBrush({
+  drawableHeight,
+  drawableWidth,
+  isZoomed,
+  label = 'Drag to zoom in. Use the arrow keys to pan, + and - to zoom and Escape to reset.',
+  onKeyDown,
+  onPan,
+  onZoom,
+  theme,
+  xScale,
+}: ZoomBrushProps) {
+  const selectedTheme = useTheme(theme);
+
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const panStart = useRef<{x: number; offset: number} | null>(null);
+
+  function getX(event: PointerEvent<SVGRectElement>) {
+    const {left} = event.currentTarget.getBoundingClientRect();
+
+    return clamp({amount: event.clientX - left, min: 0, max: drawableWidth});
+  }
+
+  function handlePointerDown(event: PointerEvent<SVGRectElement>) {
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+
+    const x = getX(event);
+
+    if (isZoomed && event.shiftKey) {
+      panStart.current = {x, offset: 0};
+      return;
+    }
+
+    setSelection({start: x, end: x});
+  }
+
+  function handlePointerMove(event: PointerEvent<SVGRectElement>) {
+    const x = getX(event);
+
+    if (panStart.current != null) {
+      const stepWidth = xScale(1) - xScale(0);
+      const offset = Math.round((panStart.current.x - x) / stepWidth);
+
+      if (offset !== panStart.current.offset) {
+        onPan(offset - panStart.current.offset);
+        panStart.current.offset = offset;
+      }
+
+      return;
+    }
+
+    if (selection != null) {
+      setSelection({...selection, end: x});
+    }
+  }
+
+  function handlePointerUp() {
+    panStart.current = null;
+
+    if (selection == null) {
+      return;
+    }
+
+    setSelection(null);
+
+    if (Math.abs(selection.end - selection.start) < MIN_BRUSH_WIDTH) {
+      return;
+    }
+
+    onZoom(xScale.invert(selection.start), xScale.invert(selection.end));
+  }
+
+  return (
+    <g aria-label={label} onKeyDown={onKeyDown} role="group" tabIndex={0}>
+      <rect
+        className={isZoomed ? styles.Pannable : styles.Selectable}
+        fill="transparent"
+        height={drawableHeight}
+        onPointerCancel={handlePointerUp}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        width={drawableWidth}
+      />
+      {selection == null ? null : (
+        <rect
+          fill={selectedTheme.crossHair.color}
+          fillOpacity={BRUSH_OPACITY}
+          height={drawableHeight}
+          pointerEvents="none"
+          width={Math.abs(selection.end - selection.start)}
+          x={Math.min(selection.start, selection.end)}
+        />
+      )}
+    </g>
+  );
+}
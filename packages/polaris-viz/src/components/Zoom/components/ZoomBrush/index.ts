@@ -0,0 +1 @@
+export {ZoomBrush} from './ZoomBrush';
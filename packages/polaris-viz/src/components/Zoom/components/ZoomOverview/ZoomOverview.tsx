@@ -0,0 +1,218 @@
+import type {KeyboardEvent, PointerEvent} from 'react';
+import {useMemo, useRef, useState} from 'react';
+import {scaleLinear} from 'd3-scale';
+import {max, min} from 'd3-array';
+import {clamp, LineSeries, useTheme} from '@shopify/polaris-viz-core';
+import type {LineChartDataSeriesWithDefaults} from '@shopify/polaris-viz-core';
+
+import {
+  BRUSH_OPACITY,
+  MIN_BRUSH_WIDTH,
+  OVERVIEW_MASK_OPACITY,
+} from '../../constants';
+
+import styles from './ZoomOverview.scss';
+
+export interface ZoomOverviewProps {
+  data: LineChartDataSeriesWithDefaults[];
+  dataLength: number;
+  end: number;
+  height: number;
+  onKeyDown: (event: KeyboardEvent) => void;
+  onZoom: (start: number, end: number) => void;
+  start: number;
+  width: number;
+  x: number;
+  y: number;
+  theme: string;
+  label?: string;
+}
+
+interface Selection {
+  start: number;
+  end: number;
+}
+
+export function ZoomOverview({
+  data,
+  dataLength,
+  end,
+  height,
+  label = 'Zoom overview. Drag the highlighted range to pan. Use the arrow keys to pan, + and - to zoom and Escape to reset.',
+  onKeyDown,
+  onZoom,
+  start,
+  theme,
+  width,
+  x,
+  y,
+}: ZoomOverviewProps) {
+  const selectedTheme = useTheme(theme);
+
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const panStart = useRef<{x: number; start: number} | null>(null);
+
+  const {xScale, yScale} = useMemo(() => {
+    const values = data.flatMap((series) =>
+      series.data.map(({value}) => value ?? 0),
+    );
+    const minValue = Math.min(0, min(values) ?? 0);
+    const maxValue = Math.max(0, max(values) ?? 0);
+
+    return {
+      xScale: scaleLinear()
+        .domain([0, Math.max(dataLength - 1, 1)])
+        .range([0, width]),
+      yScale: scaleLinear()
+        .domain([minValue, maxValue === minValue ? 1 : maxValue])
+        .range([height, 0]),
+    };
+  }, [data, dataLength, height, width]);
+
+  const windowStart = xScale(start);
+  const windowEnd = xScale(end);
+  const windowSize = end - start;
+  const isZoomed = windowSize < dataLength - 1;
+
+  function getX(event: PointerEvent<SVGRectElement>) {
+    const {left} = event.currentTarget.getBoundingClientRect();
+
+    return clamp({amount: event.clientX - left, min: 0, max: width});
+  }
+
+  function handlePointerDown(event: PointerEvent<SVGRectElement>) {
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+
+    const pointerX = getX(event);
+
+    if (isZoomed && pointerX >= windowStart && pointerX <= windowEnd) {
+      panStart.current = {x: pointerX, start};
+      return;
+    }
+
+    setSelection({start: pointerX, end: pointerX});
+  }
+
+  function handlePointerMove(event: PointerEvent<SVGRectElement>) {
+    const pointerX = getX(event);
+
+    if (panStart.current != null) {
+      const offset = Math.round(
+        xScale.invert(pointerX) - xScale.invert(panStart.current.x),
+      );
+      const newStart = clamp({
+        amount: panStart.current.start + offset,
+        min: 0,
+        max: dataLength - 1 - windowSize,
+      });
+
+      if (newStart !== start) {
+        onZoom(newStart, newStart + windowSize);
+      }
+
+      return;
+    }
+
+    if (selection != null) {
+      setSelection({...selection, end: pointerX});
+    }
+  }
+
+  function handlePointerUp() {
+    panStart.current = null;
+
+    if (selection == null) {
+      return;
+    }
+
+    setSelection(null);
+
+    if (Math.abs(selection.end - selection.start) < MIN_BRUSH_WIDTH) {
+      if (!isZoomed) {
+        return;
+      }
+
+      const center = Math.round(xScale.invert(selection.end));
+      const newStart = clamp({
+        amount: center - Math.round(windowSize / 2),
+        min: 0,
+        max: dataLength - 1 - windowSize,
+      });
+
+      onZoom(newStart, newStart + windowSize);
+      return;
+    }
+
+    onZoom(xScale.invert(selection.start), xScale.invert(selection.end));
+  }
+
+  return (
+    <g
+      aria-label={label}
+      onKeyDown={onKeyDown}
+      role="group"
+      tabIndex={0}
+      transform={`translate(${x},${y})`}
+    >
+      <rect
+        fill="none"
+        height={height}
+        stroke={selectedTheme.grid.color}
+        width={width}
+      />
+      <g pointerEvents="none" aria-hidden="true">
+        {data.map((series, index) => (
+          <LineSeries
+            data={series}
+            index={index}
+            key={`${series.name}-${index}`}
+            svgDimensions={{height, width}}
+            theme={theme}
+            type="spark"
+            xScale={xScale}
+            yScale={yScale}
+          />
+        ))}
+        <rect
+          fill={selectedTheme.chartContainer.backgroundColor}
+          fillOpacity={OVERVIEW_MASK_OPACITY}
+          height={height}
+          width={windowStart}
+        />
+        <rect
+          fill={selectedTheme.chartContainer.backgroundColor}
+          fillOpacity={OVERVIEW_MASK_OPACITY}
+          height={height}
+          width={width - windowEnd}
+          x={windowEnd}
+        />
+        <rect
+          fill="none"
+          height={height}
+          stroke={selectedTheme.crossHair.color}
+          width={windowEnd - windowStart}
+          x={windowStart}
+        />
+        {selection == null ? null : (
+          <rect
+            fill={selectedTheme.crossHair.color}
+            fillOpacity={BRUSH_OPACITY}
+            height={height}
+            width={Math.abs(selection.end - selection.start)}
+            x={Math.min(selection.start, selection.end)}
+          />
+        )}
+      </g>
+      <rect
+        className={styles.Overlay}
+        fill="transparent"
+        height={height}
+        onPointerCancel={handlePointerUp}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        width={width}
+      />
+    </g>
+  );
+}
@@ -0,0 +1 @@
+export {ZoomOverview} from './ZoomOverview';
@@ -0,0 +1,52 @@
+import {mount} from '@shopify/react-testing';
+
+import type {ZoomResetButtonProps} from './ZoomResetButton';
+import {ZoomResetButton} from './ZoomResetButton';
+
+jest.mock('@shopify/polaris-viz-core/src/utilities', () => ({
+  ...jest.requireActual('@shopify/polaris-viz-core/src/utilities'),
+  estimateStringWidth: jest.fn(() => 100),
+}));
+
+const MOCK_PROPS: ZoomResetButtonProps = {
+  onClick: jest.fn(),
+  theme: 'Light',
+  x: 400,
+  y: 10,
+};
+
+describe('<ZoomResetButton />', () => {
+  it('renders a button with the label', () => {
+    const button = mount(
+      <svg>
+        <ZoomResetButton {...MOCK_PROPS} label="Show all" />
+      </svg>,
+    );
+
+    expect(button.find('button')).toContainReactText('Show all');
+  });
+
+  it('responds to a click', () => {
+    const button = mount(
+      <svg>
+        <ZoomResetButton {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    button.find('button')!.trigger('onClick');
+
+    expect(MOCK_PROPS.onClick).toHaveBeenCalled();
+  });
+
+  it('aligns its right edge to x', () => {
+    const button = mount(
+      <svg>
+        <ZoomResetButton {...MOCK_PROPS} />
+      </svg>,
+    );
+
+    expect(button).toContainReactComponent('g', {
+      transform: 'translate(280,10)',
+    });
+  });
+});
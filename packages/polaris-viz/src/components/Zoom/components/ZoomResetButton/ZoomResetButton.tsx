@@ -0,0 +1,67 @@
+import {
+  estimateStringWidth,
+  LINE_HEIGHT,
+  useChartContext,
+  useTheme,
+} from '@shopify/polaris-viz-core';
+
+import {SingleTextLine} from '../../../Labels';
+import {RESET_BUTTON_HEIGHT, RESET_BUTTON_PADDING} from '../../constants';
+
+import styles from './ZoomResetButton.scss';
+
+export interface ZoomResetButtonProps {
+  onClick: () => void;
+  theme: string;
+  x: number;
+  y: number;
+  label?: string;
+}
+
+export function ZoomResetButton({
+  label = 'Reset zoom',
+  onClick,
+  theme,
+  x,
+  y,
+}: ZoomResetButtonProps) {
+  const {characterWidths} = useChartContext();
+  const selectedTheme = useTheme(theme);
+
+  const textWidth = estimateStringWidth(label, characterWidths);
+  const width = textWidth + RESET_BUTTON_PADDING * 2;
+
+  return (
+    <g transform={`translate(${x - width},${y})`}>
+      <rect
+        fill={selectedTheme.annotations.backgroundColor}
+        height={RESET_BUTTON_HEIGHT}
+        ry={RESET_BUTTON_HEIGHT / 2}
+        width={width}
+      />
+
+      <SingleTextLine
+        ariaHidden
+        color={selectedTheme.annotations.textColor}
+        targetWidth={textWidth}
+        text={label}
+        x={RESET_BUTTON_PADDING}
+        y={RESET_BUTTON_HEIGHT - LINE_HEIGHT}
+      />
+
+      <foreignObject
+        height={RESET_BUTTON_HEIGHT}
+        style={{overflow: 'visible'}}
+        width={width}
+      >
+        <button
+          className={styles.Button}
+          onClick={onClick}
+          style={{borderRadius: RESET_BUTTON_HEIGHT / 2}}
+        >
+          {label}
+        </button>
+      </foreignObject>
+    </g>
+  );
+}
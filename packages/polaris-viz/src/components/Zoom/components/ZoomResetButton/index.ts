@@ -0,0 +1 @@
+export {ZoomResetButton} from './ZoomResetButton';
@@ -0,0 +1,3 @@
+export {ZoomBrush} from './ZoomBrush';
+export {ZoomOverview} from './ZoomOverview';
+export {ZoomResetButton} from './ZoomResetButton';
@@ -0,0 +1,7 @@
+export const ZOOM_OVERVIEW_HEIGHT = 40;
+export const ZOOM_OVERVIEW_MARGIN = 16;
+export const MIN_BRUSH_WIDTH = 5;
+export const BRUSH_OPACITY = 0.2;
+export const OVERVIEW_MASK_OPACITY = 0.7;
+export const RESET_BUTTON_HEIGHT = 20;
+export const RESET_BUTTON_PADDING = 10;
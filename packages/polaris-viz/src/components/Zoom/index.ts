@@ -0,0 +1,4 @@
+export {ZoomBrush} from './components/ZoomBrush';
+export {ZoomOverview} from './components/ZoomOverview';
+export {ZoomResetButton} from './components/ZoomResetButton';
+export {ZOOM_OVERVIEW_HEIGHT, ZOOM_OVERVIEW_MARGIN} from './constants';
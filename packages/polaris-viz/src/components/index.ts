@@ -16,10 +16,53 @@ export {StackedAreaChart} from './StackedAreaChart';
 export type {StackedAreaChartProps} from './StackedAreaChart';
 export {BarChart} from './BarChart';
 export {DonutChart} from './DonutChart';
-export type {DonutChartProps} from './DonutChart';
+export type {
+  DonutChartProps,
+  DonutSliceClickEvent,
+  DonutSliceClickHandler,
+} from './DonutChart';
 export type {BarChartProps} from './BarChart';
-export {FunnelChart} from './FunnelChart';
-export type {FunnelChartProps} from './FunnelChart';
+export {FunnelChart, getFunnelConversions} from './FunnelChart';
+export type {
+  FunnelChartProps,
+  FunnelConversion,
+  FunnelConversionLabels,
+} from './FunnelChart';
+export {GaugeChart} from './GaugeChart';
+export {WaterfallChart} from './WaterfallChart';
+export {BoxPlotChart, getBoxPlotSummary} from './BoxPlotChart';
+export type {
+  BoxPlotChartProps,
+  BoxPlotDataPoint,
+  BoxPlotDataSeries,
+  BoxPlotSummary,
+  BoxPlotTooltipLabels,
+} from './BoxPlotChart';
+export {HistogramChart} from './HistogramChart';
+export type {
+  HistogramBins,
+  HistogramChartProps,
+  HistogramDataSeries,
+  HistogramTooltipLabels,
+} from './HistogramChart';
+export type {
+  WaterfallChartProps,
+  WaterfallSubtotal,
+  WaterfallTooltipLabels,
+} from './WaterfallChart';
+export type {
+  GaugeChartProps,
+  GaugeTargetIndicator,
+  GaugeThreshold,
+} from './GaugeChart';
+export {HeatmapChart} from './HeatmapChart';
+export type {HeatmapChartProps} from './HeatmapChart';
+export {ScatterChart} from './ScatterChart';
+export type {
+  ScatterChartProps,
+  ScatterDataPoint,
+  ScatterDataSeries,
+} from './ScatterChart';
 export {SkipLink} from './SkipLink';
 export {VisuallyHiddenRows} from './VisuallyHiddenRows';
 export {LinePreview} from './LinePreview';
@@ -34,6 +77,18 @@ export type {SimpleBarChartProps} from './SimpleBarChart';
 export {Legend} from './Legend';
 export type {LegendProps} from './Legend';
 export {PolarisVizProvider} from './PolarisVizProvider';
+export {StaticChartContext} from './ChartContainer';
+export {SyncGroup} from './SyncGroup';
+export type {SyncGroupProps} from './SyncGroup';
+export {SmallMultiples} from './SmallMultiples';
+export type {
+  SmallMultiplesChartProps,
+  SmallMultiplesFacet,
+  SmallMultiplesProps,
+  SmallMultiplesYDomain,
+} from './SmallMultiples';
+export {SparkTable} from './SparkTable';
+export type {SparkTableProps} from './SparkTable';
 export {
   TooltipContent,
   TooltipContentContainer,
@@ -7,6 +7,7 @@ import {
   COLOR_VISION_SINGLE_ITEM,
   useChartContext,
   clamp,
+  DataType,
 } from '@shopify/polaris-viz-core';
 
 import {getTrendIndicatorData} from '../../../utilities/getTrendIndicatorData';
@@ -41,6 +42,7 @@ export interface HorizontalBarsProps {
   containerWidth: number;
   animationDelay?: number;
   areAllNegative?: boolean;
+  isClickable?: boolean;
 }
 
 export function HorizontalBars({
@@ -57,6 +59,7 @@ export function HorizontalBars({
   zeroPosition,
   containerWidth,
   areAllNegative,
+  isClickable = false,
 }: HorizontalBarsProps) {
   const selectedTheme = useTheme();
   const {characterWidths, theme} = useChartContext();
@@ -196,7 +199,9 @@ export function HorizontalBars({
                 type: COLOR_VISION_SINGLE_ITEM,
                 index: seriesIndex,
               })}
-              tabIndex={-1}
+              data-type={DataType.Bar}
+              data-index={seriesIndex}
+              tabIndex={isClickable ? 0 : -1}
               role="img"
               aria-label={ariaLabel}
             />
@@ -35,6 +35,7 @@ export interface HorizontalGroupProps {
   id: string;
   index: number;
   isSimple: boolean;
+  isClickable?: boolean;
   isStacked: boolean;
   name: string;
   stackedValues: FormattedStackedSeries[];
@@ -54,6 +55,7 @@ export function HorizontalGroup({
   id,
   index,
   isSimple,
+  isClickable = false,
   isStacked,
   name,
   stackedValues,
@@ -128,6 +130,7 @@ export function HorizontalGroup({
           dataKeys={dataKeys}
           groupIndex={index}
           id={id}
+          isClickable={isClickable}
           name={name}
           stackedValues={stackedValues}
           xScale={xScale}
@@ -143,6 +146,7 @@ export function HorizontalGroup({
           data={data}
           groupIndex={index}
           id={id}
+          isClickable={isClickable}
           isSimple={isSimple}
           labelFormatter={xAxisOptions.labelFormatter}
           name={name}
@@ -39,6 +39,7 @@ export interface HorizontalStackedBarsProps {
   labelFormatter: LabelFormatter;
   isSimple: boolean;
   areAllNegative?: boolean;
+  isClickable?: boolean;
 }
 
 function getBorderRadius({
@@ -74,6 +75,7 @@ export function HorizontalStackedBars({
   areAllNegative,
   isSimple,
   labelFormatter,
+  isClickable = false,
 }: HorizontalStackedBarsProps) {
   const selectedTheme = useTheme();
   const {theme, characterWidths} = useChartContext();
@@ -175,6 +177,7 @@ export function HorizontalStackedBars({
                 borderRadius={borderRadius}
                 color={getGradientDefId(theme, seriesIndex, id)}
                 height={barHeight}
+                isClickable={isClickable}
                 key={`${name}${barId}`}
                 seriesIndex={seriesIndex}
                 setActiveBarIndex={setActiveBarIndex}
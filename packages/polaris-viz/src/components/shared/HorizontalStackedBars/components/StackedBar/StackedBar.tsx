@@ -4,6 +4,7 @@ import {
   getColorVisionEventAttrs,
   STACKED_BAR_GAP,
   COLOR_VISION_SINGLE_ITEM,
+  DataType,
   getColorVisionStylesForActiveIndex,
   getRoundedRectPath,
 } from '@shopify/polaris-viz-core';
@@ -22,6 +23,7 @@ export interface StackedBarProps {
   ariaLabel: string;
   animationDelay: number;
   activeBarIndex: number;
+  isClickable?: boolean;
 }
 
 export function StackedBar({
@@ -31,6 +33,7 @@ export function StackedBar({
   borderRadius,
   color,
   height,
+  isClickable = false,
   seriesIndex,
   setActiveBarIndex,
   width,
@@ -77,9 +80,11 @@ export function StackedBar({
           type: COLOR_VISION_SINGLE_ITEM,
           index: seriesIndex,
         })}
+        data-type={DataType.Bar}
+        data-index={seriesIndex}
         aria-label={ariaLabel}
         role="img"
-        tabIndex={-1}
+        tabIndex={isClickable ? 0 : -1}
         onMouseOver={() => setActiveBarIndex(seriesIndex)}
         onMouseLeave={() => setActiveBarIndex(-1)}
       />
@@ -3,6 +3,7 @@ import {mount} from '@shopify/react-testing';
 import {SeriesIcon} from '../SeriesIcon';
 import {SquareColorPreview} from '../../SquareColorPreview';
 import {LinePreview} from '../../LinePreview';
+import {TRENDLINE_DASHARRAY} from '../../../constants';
 
 describe('<SeriesIcon />', () => {
   it('renders a <SquareColorPreview />', () => {
@@ -53,3 +54,15 @@ describe('isComparison', () => {
     });
   });
 });
+
+describe('isComputed', () => {
+  it('renders a dashed line when true', () => {
+    const component = mount(<SeriesIcon shape="Line" color="red" isComputed />);
+
+    expect(component.find(LinePreview)).toHaveReactProps({
+      color: 'red',
+      lineStyle: 'solid',
+      strokeDasharray: TRENDLINE_DASHARRAY,
+    });
+  });
+});
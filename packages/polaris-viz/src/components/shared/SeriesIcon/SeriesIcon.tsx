@@ -1,18 +1,21 @@
 import type {Shape, Color} from '@shopify/polaris-viz-core';
 import {useTheme} from '@shopify/polaris-viz-core';
 
+import {TRENDLINE_DASHARRAY} from '../../../constants';
 import {LinePreview} from '../../LinePreview';
 import {SquareColorPreview} from '../../SquareColorPreview';
 
 interface Props {
   color: Color;
   isComparison?: boolean;
+  isComputed?: boolean;
   shape?: Shape;
 }
 
 export function SeriesIcon({
   color,
   isComparison = false,
+  isComputed = false,
   shape = 'Bar',
 }: Props) {
   const selectedTheme = useTheme();
@@ -24,7 +27,13 @@ export function SeriesIcon({
         ? selectedTheme.seriesColors.comparison
         : color;
 
-      return <LinePreview color={lineColor} lineStyle={style} />;
+      return (
+        <LinePreview
+          color={lineColor}
+          lineStyle={style}
+          strokeDasharray={isComputed ? TRENDLINE_DASHARRAY : undefined}
+        />
+      );
     }
     case 'Bar':
     default:
@@ -59,4 +59,8 @@ export const IS_TEST = process.env.NODE_ENV === 'test';
 export const WARN_FOR_DEVELOPMENT = IS_DEVELOPMENT && !IS_TEST;
 export const HOVER_TARGET_ZONE = 48;
 export const CROSSHAIR_ID = 'Crosshair';
+export const EXTERNAL_EVENTS_SET_EXPORTING = 'setExporting';
 export const DEFAULT_ANIMATION_DELAY = 100;
+export const TRENDLINE_DASHARRAY = '6 4';
+export const DEFAULT_MOVING_AVERAGE_PERIOD = 7;
+export const PERCENT_STACK_TOTAL = 100;
@@ -1,6 +1,7 @@
 export {usePrefersReducedMotion} from './usePrefersReducedMotion';
 export {useReducedLabelIndexes} from './useReducedLabelIndexes';
 export {useLinearXScale} from './useLinearXScale';
+export {useTimeXScale} from './useTimeXScale';
 export {useResizeObserver} from './useResizeObserver';
 export {useLinearChartAnimations} from './useLinearChartAnimations';
 export {usePrintResizing} from './usePrintResizing';
@@ -20,6 +21,12 @@ export {
 } from './ColorVisionA11y';
 export {useCallbackRef} from './useCallbackRef';
 export {useLinearLabelsAndDimensions} from './useLinearLabelsAndDimensions';
+export {useZoom} from './useZoom';
+export {useHiddenSeries} from './useHiddenSeries';
+export {useDataPointClickEvents} from './useDataPointClickEvents';
+export {useChartExport} from './useChartExport';
+export {useIsomorphicLayoutEffect} from './useIsomorphicLayoutEffect';
+export type {ChartExportOptions} from './useChartExport';
 
 export {
   useTheme,
@@ -60,16 +60,19 @@ describe('useBarChartTooltipContent()', () => {
         data: [
           {
             color: 'red',
+            isHidden: false,
             key: 'Name: Breakfast',
             value: 3,
           },
           {
             color: 'green',
+            isHidden: false,
             key: 'Name: Lunch',
             value: 4,
           },
           {
             color: 'blue',
+            isHidden: false,
             key: 'Name: Dinner',
             value: 7,
           },
@@ -80,4 +83,66 @@ describe('useBarChartTooltipContent()', () => {
     expect(data.title).toStrictEqual('Monday');
     expect(data.dataSeries).toStrictEqual(DATA);
   });
+
+  it('adds computed trendline rows as a line group', () => {
+    function TestComponent() {
+      const props: Props = {
+        data: DATA,
+        renderTooltipContent: (value) => value,
+        seriesColors: ['red', 'green', 'blue'],
+        seriesNameFormatter: (value) => `${value}`,
+        trendlineSeries: [
+          {
+            name: 'Breakfast trend',
+            color: 'red',
+            data: [
+              {key: 'Monday', value: 2},
+              {key: 'Tuesday', value: 1},
+              {key: 'Wednesday', value: 0},
+            ],
+          },
+        ],
+      };
+
+      const data = useBarChartTooltipContent(props);
+
+      return <span data-data={`${JSON.stringify(data(1))}`} />;
+    }
+
+    const result = mount(<TestComponent />);
+
+    expect(parseData(result).data[1]).toStrictEqual({
+      shape: 'Line',
+      data: [
+        {
+          color: 'red',
+          isComputed: true,
+          key: 'Breakfast trend',
+          value: 1,
+        },
+      ],
+    });
+  });
+
+  it('adds the share of the stack total when showShares is true', () => {
+    function TestComponent() {
+      const props: Props = {
+        data: DATA,
+        renderTooltipContent: (value) => value,
+        seriesColors: ['red', 'green', 'blue'],
+        seriesNameFormatter: (value) => `${value}`,
+        showShares: true,
+      };
+
+      const data = useBarChartTooltipContent(props);
+
+      return <span data-data={`${JSON.stringify(data(0))}`} />;
+    }
+
+    const result = mount(<TestComponent />);
+
+    expect(
+      parseData(result).data[0].data.map(({share}) => share),
+    ).toStrictEqual([(3 / 14) * 100, (4 / 14) * 100, 50]);
+  });
 });
@@ -0,0 +1,148 @@
+import {mount} from '@shopify/react-testing';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {useChartExport} from '../useChartExport';
+import {getEventName} from '../ColorVisionA11y';
+import {EXTERNAL_EVENTS_SET_EXPORTING} from '../../constants';
+
+const DATA: DataSeries[] = [
+  {
+    name: 'Breakfast',
+    data: [
+      {key: 'Monday', value: 3},
+      {key: 'Tuesday', value: 7},
+    ],
+  },
+];
+
+type ChartExport = ReturnType<typeof useChartExport>;
+
+function mountChartExport({withChart = true} = {}) {
+  let result: ChartExport | null = null;
+
+  function TestComponent() {
+    result = useChartExport('export-test', {
+      data: DATA,
+      yAxisOptions: {labelFormatter: (value) => `$${value}`},
+    });
+
+    if (!withChart) {
+      return null;
+    }
+
+    return (
+      <div id="chart_export-test" style={{background: 'white'}}>
+        <svg viewBox="0 0 100 50">
+          <foreignObject />
+          <text className="Label" style={{fontFamily: 'Inter, sans-serif'}}>
+            Monday
+          </text>
+        </svg>
+      </div>
+    );
+  }
+
+  mount(<TestComponent />);
+
+  return result!;
+}
+
+describe('useChartExport', () => {
+  beforeEach(() => {
+    jest
+      .spyOn(window, 'requestAnimationFrame')
+      .mockImplementation((onFrame) => {
+        onFrame(0);
+        return 0;
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('exports the data as CSV using the axis formatters', () => {
+    const {exportCSV} = mountChartExport();
+
+    expect(exportCSV()).toStrictEqual(
+      ['Key,Breakfast', 'Monday,$3', 'Tuesday,$7'].join('\n'),
+    );
+  });
+
+  it('exports the data as JSON', () => {
+    const {exportJSON} = mountChartExport();
+
+    expect(JSON.parse(exportJSON())[0].data[0]).toStrictEqual({
+      key: 'Monday',
+      value: 3,
+      formattedKey: 'Monday',
+      formattedValue: '$3',
+    });
+  });
+
+  it('exports a standalone SVG', async () => {
+    const {exportSVG} = mountChartExport();
+
+    const svg = await exportSVG();
+
+    expect(svg).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toContain('Monday');
+    expect(svg).not.toContain('foreignObject');
+    expect(svg).not.toContain('class=');
+  });
+
+  it('embeds the font faces used by the chart', async () => {
+    const style = document.createElement('style');
+    const fetch = jest.fn(() =>
+      Promise.resolve({blob: () => Promise.resolve(new Blob(['font']))}),
+    );
+
+    style.textContent = [
+      `@font-face {font-family: 'Inter'; src: url('/fonts/inter.woff2');}`,
+      `@font-face {font-family: 'Unused'; src: url('/fonts/unused.woff2');}`,
+    ].join('\n');
+    document.head.appendChild(style);
+    Object.assign(window, {fetch});
+
+    const {exportSVG} = mountChartExport();
+
+    const svg = await exportSVG();
+
+    style.remove();
+    Reflect.deleteProperty(window, 'fetch');
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith('http://localhost/fonts/inter.woff2');
+    expect(svg).toContain('<style>@font-face');
+    expect(svg).toContain('data:application/octet-stream;base64,Zm9udA==');
+    expect(svg).not.toContain('Unused');
+  });
+
+  it('switches the chart to the print theme while exporting', async () => {
+    const listener = jest.fn();
+    const eventName = getEventName(
+      'export-test',
+      EXTERNAL_EVENTS_SET_EXPORTING,
+    );
+
+    window.addEventListener(eventName, listener);
+
+    const {exportSVG} = mountChartExport();
+
+    await exportSVG();
+
+    window.removeEventListener(eventName, listener);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[0][0].detail.isExporting).toBe(true);
+    expect(listener.mock.calls[1][0].detail.isExporting).toBe(false);
+  });
+
+  it('rejects when the chart is not rendered', async () => {
+    const {exportSVG} = mountChartExport({withChart: false});
+
+    await expect(exportSVG()).rejects.toThrow(
+      'Unable to find a rendered chart with the id "export-test".',
+    );
+  });
+});
@@ -0,0 +1,160 @@
+import {useState} from 'react';
+import {mount} from '@shopify/react-testing';
+import {DataType} from '@shopify/polaris-viz-core';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {useDataPointClickEvents} from '../useDataPointClickEvents';
+import type {DataPointIndexes} from '../../utilities/getDataPointIndexesFromElement';
+
+const DATA: DataSeries[] = [
+  {
+    name: 'Breakfast',
+    data: [
+      {key: 'Monday', value: 3},
+      {key: 'Tuesday', value: 7},
+    ],
+  },
+  {
+    name: 'Lunch',
+    data: [
+      {key: 'Monday', value: 4},
+      {key: 'Tuesday', value: null},
+    ],
+  },
+];
+
+function mountClickEvents({
+  dataIndexOffset,
+  getIndexesFromElement,
+  getIndexesFromEvent,
+  onClick = jest.fn(),
+}: {
+  dataIndexOffset?: number;
+  getIndexesFromElement?: (element: Element) => DataPointIndexes | null;
+  getIndexesFromEvent?: (event: MouseEvent) => DataPointIndexes | null;
+  onClick?: jest.Mock | null;
+} = {}) {
+  function TestComponent() {
+    const [svgRef, setSvgRef] = useState<SVGSVGElement | null>(null);
+
+    useDataPointClickEvents({
+      data: DATA,
+      dataIndexOffset,
+      getIndexesFromElement,
+      getIndexesFromEvent,
+      onClick: onClick ?? undefined,
+      parentElement: svgRef,
+    });
+
+    return (
+      <svg ref={setSvgRef}>
+        <g data-type={DataType.BarGroup} data-index={0}>
+          <rect id="bar" data-type={DataType.Bar} data-index={1} />
+        </g>
+        <rect id="background" />
+      </svg>
+    );
+  }
+
+  const result = mount(<TestComponent />);
+  const svg = result.domNode as SVGSVGElement;
+
+  return {
+    onClick,
+    bar: svg.querySelector('#bar')!,
+    background: svg.querySelector('#background')!,
+  };
+}
+
+function click(element: Element) {
+  element.dispatchEvent(new MouseEvent('click', {bubbles: true}));
+}
+
+function pressKey(element: Element, key: string) {
+  const event = new KeyboardEvent('keydown', {
+    bubbles: true,
+    cancelable: true,
+    key,
+  });
+
+  element.dispatchEvent(event);
+
+  return event;
+}
+
+describe('useDataPointClickEvents', () => {
+  it('calls onClick with the clicked data point', () => {
+    const {bar, onClick} = mountClickEvents();
+
+    click(bar);
+
+    expect(onClick).toHaveBeenCalledWith({
+      seriesIndex: 1,
+      dataIndex: 0,
+      key: 'Monday',
+      value: 4,
+      series: DATA[1],
+    });
+  });
+
+  it.each(['Enter', ' '])('calls onClick when pressing %p', (key) => {
+    const {bar, onClick} = mountClickEvents();
+
+    const event = pressKey(bar, key);
+
+    expect(onClick).toHaveBeenCalledWith(
+      expect.objectContaining({seriesIndex: 1, dataIndex: 0}),
+    );
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it('ignores other keys', () => {
+    const {bar, onClick} = mountClickEvents();
+
+    pressKey(bar, 'a');
+
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it('does not call onClick outside of a data point', () => {
+    const {background, onClick} = mountClickEvents();
+
+    click(background);
+
+    expect(onClick).not.toHaveBeenCalled();
+  });
+
+  it('uses getIndexesFromElement to find the focused data point', () => {
+    const {bar, onClick} = mountClickEvents({
+      getIndexesFromElement: () => ({seriesIndex: 0, dataIndex: 1}),
+    });
+
+    pressKey(bar, 'Enter');
+
+    expect(onClick).toHaveBeenCalledWith(
+      expect.objectContaining({key: 'Tuesday', value: 7}),
+    );
+  });
+
+  it('uses getIndexesFromEvent to find the clicked data point', () => {
+    const {background, onClick} = mountClickEvents({
+      getIndexesFromEvent: () => ({seriesIndex: 0, dataIndex: 1}),
+    });
+
+    click(background);
+
+    expect(onClick).toHaveBeenCalledWith(
+      expect.objectContaining({key: 'Tuesday', value: 7}),
+    );
+  });
+
+  it('offsets the data index by dataIndexOffset', () => {
+    const {bar, onClick} = mountClickEvents({dataIndexOffset: 1});
+
+    click(bar);
+
+    expect(onClick).toHaveBeenCalledWith(
+      expect.objectContaining({dataIndex: 1, key: 'Tuesday', value: null}),
+    );
+  });
+});
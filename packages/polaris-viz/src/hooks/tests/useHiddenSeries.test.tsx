@@ -0,0 +1,65 @@
+import {mount} from '@shopify/react-testing';
+
+import {useHiddenSeries} from '../useHiddenSeries';
+
+type HiddenSeries = ReturnType<typeof useHiddenSeries>;
+
+function mountHiddenSeries({
+  hiddenSeries,
+  onHiddenSeriesChange = jest.fn(),
+}: {
+  hiddenSeries?: number[];
+  onHiddenSeriesChange?: jest.Mock;
+} = {}) {
+  const state: {current: HiddenSeries | null} = {current: null};
+
+  function TestComponent() {
+    state.current = useHiddenSeries({hiddenSeries, onHiddenSeriesChange});
+
+    return null;
+  }
+
+  const result = mount(<TestComponent />);
+
+  return {result, state, onHiddenSeriesChange};
+}
+
+describe('useHiddenSeries', () => {
+  it('starts with no hidden series', () => {
+    const {state} = mountHiddenSeries();
+
+    expect(state.current?.hiddenSeries).toStrictEqual([]);
+  });
+
+  it('hides and shows series when uncontrolled', () => {
+    const {result, state} = mountHiddenSeries();
+
+    result.act(() => state.current?.toggleSeries(2));
+    result.act(() => state.current?.toggleSeries(0));
+
+    expect(state.current?.hiddenSeries).toStrictEqual([0, 2]);
+
+    result.act(() => state.current?.toggleSeries(2));
+
+    expect(state.current?.hiddenSeries).toStrictEqual([0]);
+  });
+
+  it('calls onHiddenSeriesChange with the new hidden series', () => {
+    const {result, state, onHiddenSeriesChange} = mountHiddenSeries();
+
+    result.act(() => state.current?.toggleSeries(1));
+
+    expect(onHiddenSeriesChange).toHaveBeenCalledWith([1]);
+  });
+
+  it('uses hiddenSeries when controlled', () => {
+    const {result, state, onHiddenSeriesChange} = mountHiddenSeries({
+      hiddenSeries: [1],
+    });
+
+    result.act(() => state.current?.toggleSeries(1));
+
+    expect(onHiddenSeriesChange).toHaveBeenCalledWith([]);
+    expect(state.current?.hiddenSeries).toStrictEqual([1]);
+  });
+});
@@ -116,4 +116,27 @@ describe('useHorizontalStackedValues()', () => {
       });
     });
   });
+
+  describe('isPercentStacked', () => {
+    it('scales stacks to 100', () => {
+      function TestComponent() {
+        const data = useHorizontalStackedValues({
+          data: DATA.slice(0, 2),
+          isStacked: true,
+          isPercentStacked: true,
+        });
+
+        return <span data-data={`${JSON.stringify(data)}`} />;
+      }
+
+      const result = mount(<TestComponent />);
+
+      const {stackedValues} = parseData(result);
+
+      expect(stackedValues[0]).toStrictEqual([
+        [0, (3 / 7) * 100],
+        [(3 / 7) * 100, 100],
+      ]);
+    });
+  });
 });
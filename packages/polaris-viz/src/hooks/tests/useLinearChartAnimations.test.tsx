@@ -102,6 +102,22 @@ describe('useLinearChartAnimations', () => {
     expect(lineGeneratorMock).toHaveBeenCalledTimes(2);
   });
 
+  it('passes the series index to the line generator', () => {
+    function TestComponent() {
+      useLinearChartAnimations({
+        ...mockProps,
+        data: [...data, {...data[0], name: 'Secondary'}],
+      });
+
+      return null;
+    }
+
+    mount(<TestComponent />);
+
+    expect(lineGeneratorMock).toHaveBeenCalledWith(expect.any(Array), 0);
+    expect(lineGeneratorMock).toHaveBeenCalledWith(expect.any(Array), 1);
+  });
+
   it('does not call lineGenerator if isAnimated is false', () => {
     function TestComponent() {
       useLinearChartAnimations({
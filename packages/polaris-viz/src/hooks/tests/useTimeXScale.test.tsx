@@ -0,0 +1,97 @@
+import type {Root} from '@shopify/react-testing';
+import {mount} from '@shopify/react-testing';
+
+import {useTimeXScale} from '../useTimeXScale';
+
+const DATA = [
+  {
+    name: 'Orders',
+    data: [
+      {key: '2020-04-01T00:00:00Z', value: 1},
+      {key: '2020-04-02T00:00:00Z', value: 2},
+      {key: '2020-04-05T00:00:00Z', value: 3},
+    ],
+  },
+];
+
+function parseData(result: Root<any>) {
+  return JSON.parse(result.domNode?.dataset.data ?? '');
+}
+
+describe('useTimeXScale', () => {
+  it('positions each index by the time of its key', () => {
+    function TestComponent() {
+      const {xScale} = useTimeXScale({
+        data: DATA,
+        drawableWidth: 400,
+        enabled: true,
+      });
+
+      const positions = [0, 1, 2].map((index) => xScale?.(index));
+
+      return <span data-data={`${JSON.stringify(positions)}`} />;
+    }
+
+    const result = mount(<TestComponent />);
+
+    expect(parseData(result)).toStrictEqual([0, 100, 400]);
+  });
+
+  it('inverts positions to the closest index', () => {
+    function TestComponent() {
+      const {xScale} = useTimeXScale({
+        data: DATA,
+        drawableWidth: 400,
+        enabled: true,
+      });
+
+      const index = Math.round(xScale?.invert(300) ?? -1);
+
+      return <span data-data={`${JSON.stringify(index)}`} />;
+    }
+
+    const result = mount(<TestComponent />);
+
+    expect(parseData(result)).toStrictEqual(2);
+  });
+
+  it('returns null scales when not enabled', () => {
+    function TestComponent() {
+      const {xScale, timeScale} = useTimeXScale({
+        data: DATA,
+        drawableWidth: 400,
+        enabled: false,
+      });
+
+      return <span data-data={`${JSON.stringify([xScale, timeScale])}`} />;
+    }
+
+    const result = mount(<TestComponent />);
+
+    expect(parseData(result)).toStrictEqual([null, null]);
+  });
+
+  it('returns null scales when keys are not dates', () => {
+    function TestComponent() {
+      const {xScale} = useTimeXScale({
+        data: [
+          {
+            name: 'Pets',
+            data: [
+              {key: 'Dogs', value: 1},
+              {key: 'Cats', value: 2},
+            ],
+          },
+        ],
+        drawableWidth: 400,
+        enabled: true,
+      });
+
+      return <span data-data={`${JSON.stringify(xScale)}`} />;
+    }
+
+    const result = mount(<TestComponent />);
+
+    expect(parseData(result)).toBeNull();
+  });
+});
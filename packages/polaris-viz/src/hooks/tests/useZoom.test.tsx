@@ -0,0 +1,171 @@
+import type {Root} from '@shopify/react-testing';
+import {mount} from '@shopify/react-testing';
+
+import {useZoom} from '../useZoom';
+
+const DATA = [
+  {
+    name: 'Sales',
+    data: [
+      {key: 'Mon', value: 1},
+      {key: 'Tue', value: 2},
+      {key: 'Wed', value: 3},
+      {key: 'Thu', value: 4},
+      {key: 'Fri', value: 5},
+      {key: 'Sat', value: 6},
+    ],
+  },
+];
+
+type Zoom = ReturnType<typeof useZoom>;
+
+function parseData(result: Root<any>) {
+  return JSON.parse(result.domNode?.dataset.data ?? '');
+}
+
+function mountZoom({
+  enabled = true,
+  onZoomChange = jest.fn(),
+}: {
+  enabled?: boolean;
+  onZoomChange?: jest.Mock;
+} = {}) {
+  const zoom: {current: Zoom | null} = {current: null};
+
+  function TestComponent() {
+    zoom.current = useZoom({data: DATA, enabled, onZoomChange});
+
+    const {data, isZoomed, start, end} = zoom.current;
+
+    return (
+      <span
+        data-data={JSON.stringify({
+          keys: data[0].data.map(({key}) => key),
+          isZoomed,
+          start,
+          end,
+        })}
+      />
+    );
+  }
+
+  const result = mount(<TestComponent />);
+
+  return {result, zoom, onZoomChange};
+}
+
+describe('useZoom', () => {
+  it('returns all data when not zoomed', () => {
+    const {result} = mountZoom();
+
+    expect(parseData(result)).toStrictEqual({
+      keys: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+      isZoomed: false,
+      start: 0,
+      end: 5,
+    });
+  });
+
+  it('returns the data within the zoomed range', () => {
+    const {result, zoom, onZoomChange} = mountZoom();
+
+    result.act(() => zoom.current!.zoomTo(3.4, 1.2));
+
+    expect(parseData(result)).toStrictEqual({
+      keys: ['Tue', 'Wed', 'Thu'],
+      isZoomed: true,
+      start: 1,
+      end: 3,
+    });
+    expect(onZoomChange).toHaveBeenCalledWith({startKey: 'Tue', endKey: 'Thu'});
+  });
+
+  it('keeps at least two points visible', () => {
+    const {result, zoom} = mountZoom();
+
+    result.act(() => zoom.current!.zoomTo(5, 5));
+
+    expect(parseData(result).keys).toStrictEqual(['Fri', 'Sat']);
+  });
+
+  it('pans without changing the size of the range', () => {
+    const {result, zoom} = mountZoom();
+
+    result.act(() => zoom.current!.zoomTo(0, 2));
+    result.act(() => zoom.current!.pan(10));
+
+    expect(parseData(result).keys).toStrictEqual(['Thu', 'Fri', 'Sat']);
+  });
+
+  it('resets to the full range', () => {
+    const {result, zoom, onZoomChange} = mountZoom();
+
+    result.act(() => zoom.current!.zoomTo(1, 2));
+    result.act(() => zoom.current!.reset());
+
+    expect(parseData(result).isZoomed).toBe(false);
+    expect(onZoomChange).toHaveBeenLastCalledWith({
+      startKey: 'Mon',
+      endKey: 'Sat',
+    });
+  });
+
+  it('ignores the zoomed range when disabled', () => {
+    const {result, zoom} = mountZoom({enabled: false});
+
+    result.act(() => zoom.current!.zoomTo(1, 2));
+
+    expect(parseData(result).keys).toHaveLength(6);
+  });
+
+  describe('onKeyDown', () => {
+    function keyDown(key: string, shiftKey = false) {
+      return {key, shiftKey, preventDefault: jest.fn()} as any;
+    }
+
+    it('zooms in and out with + and -', () => {
+      const {result, zoom} = mountZoom();
+
+      result.act(() => zoom.current!.onKeyDown(keyDown('+')));
+
+      expect(parseData(result)).toMatchObject({start: 1, end: 4});
+
+      result.act(() => zoom.current!.onKeyDown(keyDown('-')));
+
+      expect(parseData(result)).toMatchObject({start: 0, end: 5});
+    });
+
+    it('pans with the arrow keys', () => {
+      const {result, zoom} = mountZoom();
+
+      result.act(() => zoom.current!.zoomTo(0, 1));
+      result.act(() => zoom.current!.onKeyDown(keyDown('ArrowRight')));
+
+      expect(parseData(result)).toMatchObject({start: 1, end: 2});
+
+      result.act(() => zoom.current!.onKeyDown(keyDown('ArrowRight', true)));
+
+      expect(parseData(result)).toMatchObject({start: 2, end: 3});
+    });
+
+    it('resets with Escape', () => {
+      const {result, zoom} = mountZoom();
+      const event = keyDown('Escape');
+
+      result.act(() => zoom.current!.zoomTo(0, 1));
+      result.act(() => zoom.current!.onKeyDown(event));
+
+      expect(parseData(result).isZoomed).toBe(false);
+      expect(event.preventDefault).toHaveBeenCalled();
+    });
+
+    it('does not handle Escape when not zoomed', () => {
+      const {result, zoom} = mountZoom();
+      const event = keyDown('Escape');
+
+      result.act(() => zoom.current!.onKeyDown(event));
+
+      expect(event.preventDefault).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,6 +7,7 @@ import type {
 } from '@shopify/polaris-viz-core';
 import {useChartContext} from '@shopify/polaris-viz-core';
 
+import {getStackShares} from '../utilities/getStackShares';
 import type {RenderTooltipContentData} from '../types';
 
 export interface Props {
@@ -14,13 +15,22 @@ export interface Props {
   seriesColors: Color[];
   renderTooltipContent: (data: RenderTooltipContentData) => ReactNode;
   seriesNameFormatter: LabelFormatter;
+  hiddenIndexes?: number[];
+  /**
+   * Adds the share of the stack total to each value.
+   */
+  showShares?: boolean;
+  trendlineSeries?: DataSeries[];
 }
 
 export function useBarChartTooltipContent({
   data,
+  hiddenIndexes = [],
   renderTooltipContent,
   seriesColors,
   seriesNameFormatter,
+  showShares = false,
+  trendlineSeries = [],
 }: Props) {
   const {theme} = useChartContext();
 
@@ -37,6 +47,8 @@ export function useBarChartTooltipContent({
         },
       ];
 
+      const shares = showShares ? getStackShares(data, activeIndex) : [];
+
       data.forEach(({name, data: seriesData, color}, index) => {
         const {value} = seriesData[activeIndex];
 
@@ -44,9 +56,23 @@ export function useBarChartTooltipContent({
           key: `${seriesNameFormatter(name ?? '')}`,
           value,
           color: color ?? seriesColors[index],
+          isHidden: hiddenIndexes.includes(index),
+          ...(showShares && {share: shares[index]}),
         });
       });
 
+      if (trendlineSeries.length > 0) {
+        tooltipData.push({
+          shape: 'Line',
+          data: trendlineSeries.map(({name, data: seriesData, color}) => ({
+            key: `${seriesNameFormatter(name ?? '')}`,
+            value: seriesData[activeIndex]?.value ?? null,
+            color,
+            isComputed: true,
+          })),
+        });
+      }
+
       return renderTooltipContent({
         data: tooltipData,
         activeIndex,
@@ -55,6 +81,15 @@ export function useBarChartTooltipContent({
         theme,
       });
     },
-    [data, seriesColors, theme, renderTooltipContent, seriesNameFormatter],
+    [
+      data,
+      hiddenIndexes,
+      seriesColors,
+      theme,
+      renderTooltipContent,
+      seriesNameFormatter,
+      showShares,
+      trendlineSeries,
+    ],
   );
 }
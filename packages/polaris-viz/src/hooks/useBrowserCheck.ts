@@ -1,7 +1,7 @@
 import {useMemo} from 'react';
 
 export function useBrowserCheck() {
-  const userAgent = navigator?.userAgent;
+  const userAgent = typeof navigator === 'undefined' ? '' : navigator.userAgent;
 
   return useMemo(() => {
     const isFirefox = userAgent.includes('Firefox');
@@ -0,0 +1,113 @@
+import {useMemo} from 'react';
+import type {
+  DataGroup,
+  DataSeries,
+  LabelFormatter,
+} from '@shopify/polaris-viz-core';
+
+import {EXTERNAL_EVENTS_SET_EXPORTING} from '../constants';
+import {getChartId} from '../utilities/getChartId';
+import {
+  formatDataForCSV,
+  formatDataForJSON,
+} from '../utilities/formatDataForExport';
+import {getFontFaceCss} from '../utilities/getFontFaceCss';
+import {rasterizeSvg} from '../utilities/rasterizeSvg';
+import type {RasterizeOptions} from '../utilities/rasterizeSvg';
+import {serializeSvg} from '../utilities/serializeSvg';
+
+import {getEventName} from './ColorVisionA11y';
+
+export interface ChartExportOptions {
+  data: DataSeries[] | DataGroup[];
+  xAxisOptions?: {labelFormatter?: LabelFormatter};
+  yAxisOptions?: {labelFormatter?: LabelFormatter};
+}
+
+function setExporting(id: string, isExporting: boolean) {
+  window.dispatchEvent(
+    new CustomEvent(getEventName(id, EXTERNAL_EVENTS_SET_EXPORTING), {
+      detail: {isExporting},
+    }),
+  );
+}
+
+function waitForRender() {
+  return new Promise<void>((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
+  });
+}
+
+function getChartElements(id: string) {
+  const container = document.getElementById(getChartId(id));
+  const svg = container?.querySelector('svg');
+
+  if (container == null || svg == null) {
+    throw new Error(`Unable to find a rendered chart with the id "${id}".`);
+  }
+
+  return {container, svg};
+}
+
+async function renderWithPrintTheme<T>(
+  id: string,
+  callback: (elements: ReturnType<typeof getChartElements>) => T,
+) {
+  setExporting(id, true);
+
+  try {
+    await waitForRender();
+
+    return callback(getChartElements(id));
+  } finally {
+    setExporting(id, false);
+  }
+}
+
+export function useChartExport(
+  chartId: string,
+  {data, xAxisOptions, yAxisOptions}: ChartExportOptions,
+) {
+  return useMemo(() => {
+    const formatters = {
+      keyFormatter: xAxisOptions?.labelFormatter,
+      valueFormatter: yAxisOptions?.labelFormatter,
+    };
+
+    // Fonts are fetched before switching to the print theme,
+    // so the chart isn't left in it while they load.
+    async function serialize() {
+      const fontFaceCss = await getFontFaceCss(getChartElements(chartId).svg);
+
+      return renderWithPrintTheme(chartId, ({container, svg}) => {
+        const {backgroundColor} = window.getComputedStyle(container);
+        const {width, height} = svg.getBoundingClientRect();
+
+        return {
+          svg: serializeSvg(svg, {backgroundColor, fontFaceCss}),
+          dimensions: {width, height},
+        };
+      });
+    }
+
+    return {
+      exportSVG: async () => {
+        const {svg} = await serialize();
+
+        return svg;
+      },
+      exportPNG: async (options?: RasterizeOptions) => {
+        const {svg, dimensions} = await serialize();
+
+        return rasterizeSvg(svg, dimensions, options);
+      },
+      exportCSV: () => formatDataForCSV(data, formatters),
+      exportJSON: () => formatDataForJSON(data, formatters),
+    };
+  }, [
+    chartId,
+    data,
+    xAxisOptions?.labelFormatter,
+    yAxisOptions?.labelFormatter,
+  ]);
+}
@@ -0,0 +1,104 @@
+import {useEffect} from 'react';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import type {DataPointClickHandler} from '../types';
+import {getDataPointIndexesFromElement} from '../utilities/getDataPointIndexesFromElement';
+import type {DataPointIndexes} from '../utilities/getDataPointIndexesFromElement';
+
+import {useCallbackRef} from './useCallbackRef';
+
+const ACTIVATION_KEYS = ['Enter', ' '];
+
+interface Props<T extends DataSeries> {
+  data: T[];
+  parentElement: SVGSVGElement | null;
+  dataIndexOffset?: number;
+  getIndexesFromElement?: (element: Element) => DataPointIndexes | null;
+  getIndexesFromEvent?: (event: MouseEvent) => DataPointIndexes | null;
+  onClick?: DataPointClickHandler<T>;
+}
+
+export function useDataPointClickEvents<T extends DataSeries>({
+  data,
+  dataIndexOffset = 0,
+  getIndexesFromElement = getDataPointIndexesFromElement,
+  getIndexesFromEvent,
+  onClick,
+  parentElement,
+}: Props<T>) {
+  const enabled = onClick != null;
+
+  const dispatchClick = useCallbackRef(
+    ({seriesIndex, dataIndex: visibleIndex}: DataPointIndexes) => {
+      const series = data[seriesIndex];
+      const dataIndex = visibleIndex + dataIndexOffset;
+      const dataPoint = series?.data[dataIndex];
+
+      if (dataPoint == null) {
+        return;
+      }
+
+      onClick?.({
+        seriesIndex,
+        dataIndex,
+        key: dataPoint.key,
+        value: dataPoint.value,
+        series,
+      });
+    },
+  );
+
+  const getClickedIndexes = useCallbackRef((event: MouseEvent) => {
+    return (
+      getIndexesFromEvent?.(event) ??
+      getIndexesFromElement(event.target as Element)
+    );
+  });
+
+  const getFocusedIndexes = useCallbackRef((event: KeyboardEvent) => {
+    return getIndexesFromElement(event.target as Element);
+  });
+
+  useEffect(() => {
+    if (!enabled || parentElement == null) {
+      return;
+    }
+
+    function handleClick(event: MouseEvent) {
+      const indexes = getClickedIndexes(event);
+
+      if (indexes != null) {
+        dispatchClick(indexes);
+      }
+    }
+
+    function handleKeyDown(event: KeyboardEvent) {
+      if (!ACTIVATION_KEYS.includes(event.key)) {
+        return;
+      }
+
+      const indexes = getFocusedIndexes(event);
+
+      if (indexes == null) {
+        return;
+      }
+
+      event.preventDefault();
+      dispatchClick(indexes);
+    }
+
+    parentElement.addEventListener('click', handleClick);
+    parentElement.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      parentElement.removeEventListener('click', handleClick);
+      parentElement.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [
+    dispatchClick,
+    enabled,
+    getClickedIndexes,
+    getFocusedIndexes,
+    parentElement,
+  ]);
+}
@@ -0,0 +1,31 @@
+import {useCallback, useState} from 'react';
+
+interface Props {
+  hiddenSeries?: number[];
+  onHiddenSeriesChange?: (hiddenSeries: number[]) => void;
+}
+
+export function useHiddenSeries({
+  hiddenSeries: controlledHiddenSeries,
+  onHiddenSeriesChange,
+}: Props) {
+  const [internalHiddenSeries, setInternalHiddenSeries] = useState<number[]>(
+    [],
+  );
+
+  const hiddenSeries = controlledHiddenSeries ?? internalHiddenSeries;
+
+  const toggleSeries = useCallback(
+    (index: number) => {
+      const newHiddenSeries = hiddenSeries.includes(index)
+        ? hiddenSeries.filter((hiddenIndex) => hiddenIndex !== index)
+        : [...hiddenSeries, index].sort((first, second) => first - second);
+
+      setInternalHiddenSeries(newHiddenSeries);
+      onHiddenSeriesChange?.(newHiddenSeries);
+    },
+    [hiddenSeries, onHiddenSeriesChange],
+  );
+
+  return {hiddenSeries, toggleSeries};
+}
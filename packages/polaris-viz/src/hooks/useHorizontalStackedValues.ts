@@ -2,14 +2,23 @@ import {useMemo} from 'react';
 import type {DataSeries} from '@shopify/polaris-viz-core';
 import {stackOffsetDiverging, stackOrderNone} from 'd3-shape';
 
-import {getStackedMinMax, getStackedValues} from '../utilities';
+import {
+  getStackedMinMax,
+  getStackedValues,
+  stackOffsetPercent,
+} from '../utilities';
 
 interface Props {
   data: DataSeries[];
   isStacked: boolean;
+  isPercentStacked?: boolean;
 }
 
-export function useHorizontalStackedValues({data, isStacked}: Props) {
+export function useHorizontalStackedValues({
+  data,
+  isStacked,
+  isPercentStacked = false,
+}: Props) {
   const {stackedValues, stackedMin, stackedMax} = useMemo(() => {
     if (!isStacked || data.length === 0) {
       return {stackedMin: 0, stackedMax: 0, labels: [], stackedValues: []};
@@ -27,7 +36,7 @@ export function useHorizontalStackedValues({data, isStacked}: Props) {
       series: data,
       labels,
       order: stackOrderNone,
-      offset: stackOffsetDiverging,
+      offset: isPercentStacked ? stackOffsetPercent : stackOffsetDiverging,
     });
 
     const {min, max} = getStackedMinMax({
@@ -48,7 +57,7 @@ export function useHorizontalStackedValues({data, isStacked}: Props) {
       labels,
       stackedValues: formattedStackedValues,
     };
-  }, [isStacked, data]);
+  }, [isStacked, isPercentStacked, data]);
 
   return {stackedValues, stackedMin, stackedMax};
 }
@@ -10,6 +10,9 @@ interface Props {
   maxWidth: number;
   stackedMax: number;
   stackedMin: number;
+  domain?: [number, number] | null;
+  includeZero?: boolean;
+  minOverride?: number | null;
 }
 
 export function useHorizontalTicksAndScale({
@@ -19,21 +22,37 @@ export function useHorizontalTicksAndScale({
   isStacked,
   stackedMin,
   stackedMax,
+  domain,
+  includeZero = true,
+  minOverride,
 }: Props) {
+  if (domain != null && domain[0] >= domain[1]) {
+    throw new Error('domain must be an ascending [min, max] pair.');
+  }
+
+  const fixedMin = domain?.[0] ?? minOverride ?? null;
+  const fixedMax = domain?.[1] ?? null;
+
   const xScale = useMemo(() => {
     const areAllZero = !allNumbers.some((num) => num != null && num !== 0);
 
-    const domainValues = [0, ...allNumbers];
+    const domainValues = includeZero ? [0, ...allNumbers] : [...allNumbers];
 
     if (areAllZero) {
-      domainValues.push(1);
+      domainValues.push(0, 1);
     }
 
-    return scaleLinear()
-      .range([0, maxWidth])
-      .domain(extent(domainValues, (num) => num) as [number, number])
-      .nice();
-  }, [maxWidth, allNumbers]);
+    const [min, max] = extent(domainValues, (num) => num) as [number, number];
+
+    return getLinearScale({
+      fixedMax,
+      fixedMin,
+      includeZero,
+      max,
+      maxWidth,
+      min,
+    });
+  }, [maxWidth, allNumbers, fixedMin, fixedMax, includeZero]);
 
   const ticks = useMemo(() => {
     return xScale.ticks();
@@ -44,13 +63,23 @@ export function useHorizontalTicksAndScale({
       return null;
     }
 
-    const xScale = scaleLinear()
-      .range([0, maxWidth])
-      .domain([stackedMin, stackedMax])
-      .nice();
-
-    return xScale;
-  }, [isStacked, maxWidth, stackedMin, stackedMax]);
+    return getLinearScale({
+      fixedMax,
+      fixedMin,
+      includeZero,
+      max: stackedMax,
+      maxWidth,
+      min: stackedMin,
+    });
+  }, [
+    isStacked,
+    maxWidth,
+    stackedMin,
+    stackedMax,
+    fixedMin,
+    fixedMax,
+    includeZero,
+  ]);
 
   const ticksStacked = useMemo(() => {
     if (!isStacked || !xScaleStacked) {
@@ -68,3 +97,46 @@ export function useHorizontalTicksAndScale({
     ticksFormatted: finalTicks.map((tick) => `${labelFormatter(tick)}`),
   };
 }
+
+function getLinearScale({
+  fixedMax,
+  fixedMin,
+  includeZero,
+  max,
+  maxWidth,
+  min,
+}: {
+  fixedMax: number | null;
+  fixedMin: number | null;
+  includeZero: boolean;
+  max: number;
+  maxWidth: number;
+  min: number;
+}) {
+  let lower = fixedMin ?? min;
+  let upper = fixedMax ?? max;
+
+  if (lower >= upper) {
+    lower = Math.min(0, min);
+    upper = Math.max(0, max);
+  }
+
+  const xScale = scaleLinear()
+    .range([0, maxWidth])
+    .domain([lower, upper])
+    .nice();
+
+  if (fixedMin != null || fixedMax != null) {
+    const [niceMin, niceMax] = xScale.domain();
+
+    xScale.domain([fixedMin ?? niceMin, fixedMax ?? niceMax]);
+  }
+
+  // When 0 is outside of the domain, bars start from the
+  // edge of the chart instead of outside of it.
+  if (!includeZero || fixedMin != null || fixedMax != null) {
+    xScale.clamp(true);
+  }
+
+  return xScale;
+}
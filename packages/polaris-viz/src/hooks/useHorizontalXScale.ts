@@ -10,6 +10,9 @@ interface Props {
   stackedMin: number;
   labelFormatter: LabelFormatter;
   longestLabel: {positive: number; negative: number};
+  domain?: [number, number] | null;
+  includeZero?: boolean;
+  minOverride?: number | null;
 }
 
 export function useHorizontalXScale({
@@ -20,6 +23,9 @@ export function useHorizontalXScale({
   stackedMax = 0,
   stackedMin = 0,
   longestLabel,
+  domain,
+  includeZero,
+  minOverride,
 }: Props) {
   let drawableWidth = maxWidth;
   let chartXPosition = 0;
@@ -36,6 +42,9 @@ export function useHorizontalXScale({
     isStacked,
     stackedMin,
     stackedMax,
+    domain,
+    includeZero,
+    minOverride,
   });
 
   return {
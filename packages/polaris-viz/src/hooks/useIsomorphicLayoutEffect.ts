@@ -0,0 +1,6 @@
+import {useEffect, useLayoutEffect} from 'react';
+
+// Layout effects never run when rendering on a server and
+// React warns about them, so fall back to regular effects.
+export const useIsomorphicLayoutEffect =
+  typeof window === 'undefined' ? useEffect : useLayoutEffect;
@@ -1,5 +1,4 @@
 import {useCallback, useMemo} from 'react';
-import type {Line} from 'd3-shape';
 import {useSprings} from '@react-spring/web';
 import type {DataSeries, DataPoint} from '@shopify/polaris-viz-core';
 import {useChartContext} from '@shopify/polaris-viz-core';
@@ -19,7 +18,7 @@ export function useLinearChartAnimations({
   data,
 }: {
   activeIndex: number | null;
-  lineGenerator: Line<DataPoint>;
+  lineGenerator: (data: DataPoint[], seriesIndex: number) => string | null;
   data: DataSeries[];
 }) {
   const {shouldAnimate} = useChartContext();
@@ -29,13 +28,13 @@ export function useLinearChartAnimations({
 
   // Create off screen paths used for sub path and total path length calculations
   const createOffScreenPath = useCallback(
-    (data) => {
+    (data: DataPoint[], seriesIndex: number) => {
       const offscreenPath = document.createElementNS(
         'http://www.w3.org/2000/svg',
         'path',
       );
 
-      offscreenPath.setAttribute('d', lineGenerator(data) || '');
+      offscreenPath.setAttribute('d', lineGenerator(data, seriesIndex) || '');
       return offscreenPath;
     },
     [lineGenerator],
@@ -45,8 +44,8 @@ export function useLinearChartAnimations({
   const totalPaths = useMemo(() => {
     if (immediate) return null;
 
-    return data.map(({data}) => {
-      const offscreenPath = createOffScreenPath(data);
+    return data.map(({data}, seriesIndex) => {
+      const offscreenPath = createOffScreenPath(data, seriesIndex);
       return {
         element: offscreenPath,
         length: getPathLength(offscreenPath),
@@ -58,8 +57,11 @@ export function useLinearChartAnimations({
   const subPaths = useMemo(() => {
     if (immediate) return null;
 
-    return data.map(({data}) => {
-      const path = createOffScreenPath(data.slice(0, currentIndex + 1));
+    return data.map(({data}, seriesIndex) => {
+      const path = createOffScreenPath(
+        data.slice(0, currentIndex + 1),
+        seriesIndex,
+      );
 
       return {
         element: path,
@@ -1,5 +1,10 @@
 import {useMemo} from 'react';
-import type {DataSeries} from '@shopify/polaris-viz-core';
+import {scaleLinear} from 'd3-scale';
+import type {
+  DataSeries,
+  LabelFormatter,
+  XAxisType,
+} from '@shopify/polaris-viz-core';
 import {
   LINEAR_LABELS_INNER_PADDING,
   estimateStringWidth,
@@ -10,6 +15,7 @@ import {
 import {HORIZONTAL_LABEL_MIN_WIDTH} from '../constants';
 
 import {useLinearXScale} from './useLinearXScale';
+import {useTimeXScale} from './useTimeXScale';
 import {useReducedLabelIndexes} from './useReducedLabelIndexes';
 
 const MAX_LINEAR_LABEL_WIDTH = 90;
@@ -20,17 +26,48 @@ interface Props {
   hideXAxis: boolean;
   labels: string[];
   longestSeriesLength: number;
+  labelFormatter?: LabelFormatter;
+  xAxisType?: XAxisType;
 }
 
 export function useLinearLabelsAndDimensions({
   data,
   drawableWidth: initialDrawableWidth,
   hideXAxis,
-  labels,
+  labels: dataLabels,
   longestSeriesLength,
+  labelFormatter = (value) => `${value}`,
+  xAxisType = 'linear',
 }: Props) {
   const {characterWidths} = useChartContext();
 
+  const {timeScale, xScale: timeXScale} = useTimeXScale({
+    data,
+    drawableWidth: initialDrawableWidth,
+    enabled: xAxisType === 'time',
+  });
+
+  const timeTicks = useMemo(() => {
+    if (timeScale == null) {
+      return null;
+    }
+
+    const maxTickCount = Math.max(
+      1,
+      Math.floor(initialDrawableWidth / MAX_LINEAR_LABEL_WIDTH),
+    );
+
+    return timeScale.ticks(maxTickCount);
+  }, [timeScale, initialDrawableWidth]);
+
+  const labels = useMemo(() => {
+    if (timeTicks == null) {
+      return dataLabels;
+    }
+
+    return timeTicks.map((tick) => labelFormatter(tick.getTime()));
+  }, [dataLabels, timeTicks, labelFormatter]);
+
   const longestSeriesLastIndex = useMemo(
     () =>
       data.reduce(
@@ -65,7 +102,7 @@ export function useLinearLabelsAndDimensions({
   const skipEveryNthLabel = Math.ceil(labels.length / numberOfLabelsThatFit);
 
   const reducedLabelIndexes = useReducedLabelIndexes({
-    dataLength: longestSeriesLastIndex,
+    dataLength: timeTicks == null ? longestSeriesLastIndex : timeTicks.length,
     skipEveryNthLabel,
   });
 
@@ -89,14 +126,36 @@ export function useLinearLabelsAndDimensions({
 
   const drawableWidth = initialDrawableWidth;
 
-  const {xScale} = useLinearXScale({
+  const {xScale: linearXScale} = useLinearXScale({
     drawableWidth,
     longestSeriesLength,
   });
 
+  const xScale = timeXScale ?? linearXScale;
+
+  // Time axis labels are placed on their ticks instead of
+  // on the data indexes.
+  const xAxisScale = useMemo(() => {
+    if (timeScale == null || timeTicks == null) {
+      return xScale;
+    }
+
+    const tickPositions = timeTicks.map((tick) => timeScale(tick));
+
+    // d3 needs at least two stops to create a scale.
+    if (tickPositions.length === 1) {
+      tickPositions.push(tickPositions[0]);
+    }
+
+    return scaleLinear()
+      .domain(tickPositions.map((_, index) => index))
+      .range(tickPositions);
+  }, [timeScale, timeTicks, xScale]);
+
   return {
     labels,
     xScale,
+    xAxisScale,
     xAxisDetails: {
       labelWidth,
       reducedLabelIndexes,
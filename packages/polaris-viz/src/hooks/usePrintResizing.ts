@@ -1,8 +1,9 @@
 import type {Dispatch} from 'react';
-import {useLayoutEffect, useState} from 'react';
+import {useState} from 'react';
 import type {Dimensions} from '@shopify/polaris-viz-core';
 
 import {useBrowserCheck} from './useBrowserCheck';
+import {useIsomorphicLayoutEffect} from './useIsomorphicLayoutEffect';
 
 interface Props {
   ref: HTMLElement | null;
@@ -18,7 +19,7 @@ export function usePrintResizing({
   const [isPrinting, setIsPrinting] = useState(false);
   const {isFirefox, isSafari} = useBrowserCheck();
 
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     const isServer = typeof window === 'undefined';
 
     function handlePrint() {
@@ -1,7 +1,9 @@
-import {useLayoutEffect, useState} from 'react';
+import {useState} from 'react';
 import type {ResizeObserverEntry} from '@juggle/resize-observer';
 import {ResizeObserver as Polyfill} from '@juggle/resize-observer';
 
+import {useIsomorphicLayoutEffect} from './useIsomorphicLayoutEffect';
+
 // This default value is used in our tests so that consumers of Polaris Viz don't need to mock or fire a ResizeObserver event
 const defaultEntry =
   process.env.NODE_ENV === 'test'
@@ -26,7 +28,7 @@ export const useResizeObserver = <T extends HTMLElement>(): {
   const [ref, setRef] = useState<T | null>(null);
   const [entry, setEntry] = useState<ResizeObserverEntry | null>(defaultEntry);
 
-  useLayoutEffect(() => {
+  useIsomorphicLayoutEffect(() => {
     if (!ref) {
       return;
     }
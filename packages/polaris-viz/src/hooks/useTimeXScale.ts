@@ -0,0 +1,57 @@
+import {useMemo} from 'react';
+import {scaleLinear, scaleTime} from 'd3-scale';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {getDateFromKey} from '../utilities/getDateFromKey';
+
+interface Props {
+  data: DataSeries[];
+  drawableWidth: number;
+  enabled: boolean;
+}
+
+export function useTimeXScale({data, drawableWidth, enabled}: Props) {
+  const dates = useMemo(() => {
+    if (!enabled) {
+      return null;
+    }
+
+    const longestSeries = data.reduce<DataSeries | null>(
+      (longest, series) =>
+        longest == null || series.data.length > longest.data.length
+          ? series
+          : longest,
+      null,
+    );
+
+    if (longestSeries == null || longestSeries.data.length < 2) {
+      return null;
+    }
+
+    const dates = longestSeries.data.map(({key}) => getDateFromKey(key));
+
+    if (dates.some((date) => date == null)) {
+      return null;
+    }
+
+    return dates as Date[];
+  }, [data, enabled]);
+
+  return useMemo(() => {
+    if (dates == null) {
+      return {timeScale: null, xScale: null};
+    }
+
+    const timeScale = scaleTime()
+      .range([0, drawableWidth])
+      .domain([dates[0], dates[dates.length - 1]]);
+
+    // The rest of the chart works with data indexes, so we build
+    // a piecewise scale that maps each index to its time position.
+    const xScale = scaleLinear()
+      .domain(dates.map((_, index) => index))
+      .range(dates.map((date) => timeScale(date)));
+
+    return {timeScale, xScale};
+  }, [dates, drawableWidth]);
+}
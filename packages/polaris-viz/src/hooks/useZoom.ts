@@ -0,0 +1,171 @@
+import type {KeyboardEvent} from 'react';
+import {useCallback, useMemo, useState} from 'react';
+import {clamp} from '@shopify/polaris-viz-core';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import type {ZoomRange} from '../types';
+
+const MIN_VISIBLE_POINTS = 2;
+const ZOOM_STEP_RATIO = 0.1;
+
+interface Props<T extends DataSeries> {
+  data: T[];
+  enabled: boolean;
+  onZoomChange?: (range: ZoomRange) => void;
+}
+
+export function useZoom<T extends DataSeries>({
+  data,
+  enabled,
+  onZoomChange,
+}: Props<T>) {
+  const [zoomedRange, setZoomedRange] = useState<[number, number] | null>(null);
+
+  const keys = useMemo(() => {
+    const longestSeries = data.reduce<T | null>(
+      (longest, series) =>
+        longest == null || series.data.length > longest.data.length
+          ? series
+          : longest,
+      null,
+    );
+
+    return longestSeries == null ? [] : longestSeries.data.map(({key}) => key);
+  }, [data]);
+
+  const lastIndex = keys.length - 1;
+
+  // The data can shrink while zoomed in, so ranges that
+  // no longer fit are treated as not being zoomed.
+  const range =
+    enabled && zoomedRange != null && zoomedRange[1] <= lastIndex
+      ? zoomedRange
+      : null;
+
+  const start = range?.[0] ?? 0;
+  const end = range?.[1] ?? Math.max(lastIndex, 0);
+
+  const zoomTo = useCallback(
+    (newStart: number, newEnd: number) => {
+      if (lastIndex < MIN_VISIBLE_POINTS - 1) {
+        return;
+      }
+
+      let lower = clamp({
+        amount: Math.round(Math.min(newStart, newEnd)),
+        min: 0,
+        max: lastIndex,
+      });
+      let upper = clamp({
+        amount: Math.round(Math.max(newStart, newEnd)),
+        min: 0,
+        max: lastIndex,
+      });
+
+      if (upper - lower < MIN_VISIBLE_POINTS - 1) {
+        upper = Math.min(lower + MIN_VISIBLE_POINTS - 1, lastIndex);
+        lower = upper - (MIN_VISIBLE_POINTS - 1);
+      }
+
+      setZoomedRange(
+        lower === 0 && upper === lastIndex ? null : [lower, upper],
+      );
+
+      onZoomChange?.({startKey: keys[lower], endKey: keys[upper]});
+    },
+    [keys, lastIndex, onZoomChange],
+  );
+
+  const pan = useCallback(
+    (offset: number) => {
+      if (range == null) {
+        return;
+      }
+
+      const size = end - start;
+      const newStart = clamp({
+        amount: start + offset,
+        min: 0,
+        max: lastIndex - size,
+      });
+
+      zoomTo(newStart, newStart + size);
+    },
+    [end, lastIndex, range, start, zoomTo],
+  );
+
+  const zoomBy = useCallback(
+    (direction: 1 | -1) => {
+      if (direction === -1 && range == null) {
+        return;
+      }
+
+      const step = Math.max(1, Math.round((end - start) * ZOOM_STEP_RATIO));
+
+      zoomTo(start + step * direction, end - step * direction);
+    },
+    [end, range, start, zoomTo],
+  );
+
+  const reset = useCallback(() => {
+    zoomTo(0, lastIndex);
+  }, [lastIndex, zoomTo]);
+
+  const onKeyDown = useCallback(
+    (event: KeyboardEvent) => {
+      switch (event.key) {
+        case 'ArrowLeft':
+          pan(event.shiftKey ? start - end : -1);
+          break;
+        case 'ArrowRight':
+          pan(event.shiftKey ? end - start : 1);
+          break;
+        case '+':
+        case '=':
+          zoomBy(1);
+          break;
+        case '-':
+        case '_':
+          zoomBy(-1);
+          break;
+        case 'Escape':
+        case '0':
+          if (range == null) {
+            return;
+          }
+
+          reset();
+          break;
+        default:
+          return;
+      }
+
+      event.preventDefault();
+    },
+    [end, pan, range, reset, start, zoomBy],
+  );
+
+  const visibleData = useMemo(() => {
+    if (range == null) {
+      return data;
+    }
+
+    return data.map((series) => ({
+      ...series,
+      data: series.data.slice(range[0], range[1] + 1),
+    }));
+  }, [data, range]);
+
+  return {
+    data: visibleData,
+    dataLength: keys.length,
+    end,
+    isZoomed: range != null,
+    onKeyDown,
+    pan,
+    reset,
+    start,
+    zoomBy,
+    zoomTo,
+  };
+}
@@ -19,8 +19,18 @@ export {
   LineChartRelational,
   LineChartPredictive,
   MissingDataArea,
+  HeatmapChart,
+  ScatterChart,
+  GaugeChart,
+  WaterfallChart,
+  BoxPlotChart,
+  HistogramChart,
+  SmallMultiples,
+  SparkTable,
 } from './components';
 
+export {SyncGroup, getBoxPlotSummary, getFunnelConversions} from './components';
+
 export type {
   SparkLineChartProps,
   SimpleNormalizedChartProps,
@@ -33,8 +43,38 @@ export type {
   LineChartPredictiveProps,
   TrendIndicatorProps,
   DonutChartProps,
+  DonutSliceClickEvent,
+  DonutSliceClickHandler,
   ComparisonMetricProps,
   LineChartRelationalProps,
+  SyncGroupProps,
+  HeatmapChartProps,
+  ScatterChartProps,
+  ScatterDataPoint,
+  ScatterDataSeries,
+  FunnelChartProps,
+  FunnelConversion,
+  FunnelConversionLabels,
+  GaugeChartProps,
+  GaugeTargetIndicator,
+  GaugeThreshold,
+  WaterfallChartProps,
+  WaterfallSubtotal,
+  WaterfallTooltipLabels,
+  BoxPlotChartProps,
+  BoxPlotDataPoint,
+  BoxPlotDataSeries,
+  BoxPlotSummary,
+  BoxPlotTooltipLabels,
+  HistogramBins,
+  HistogramChartProps,
+  HistogramDataSeries,
+  HistogramTooltipLabels,
+  SmallMultiplesChartProps,
+  SmallMultiplesFacet,
+  SmallMultiplesProps,
+  SmallMultiplesYDomain,
+  SparkTableProps,
 } from './components';
 
 export {
@@ -55,7 +95,18 @@ export type {
   TooltipOptions,
   ColorVisionEventReturn,
   Annotation,
+  ComboReferenceBand,
+  ComboReferenceLine,
+  ReferenceBand,
+  ReferenceLine,
+  ReferenceLineValue,
+  Trendline,
+  TrendlineType,
   LineChartSlotProps,
+  ZoomOptions,
+  ZoomRange,
+  DataPointClickEvent,
+  DataPointClickHandler,
 } from './types';
 
 export {
@@ -74,6 +125,8 @@ export {
   paddingStringToObject,
   removeFalsyValues,
   ColorScale,
+  Hue,
+  SparkScaleProvider,
 } from '@shopify/polaris-viz-core';
 
 export type {
@@ -85,6 +138,11 @@ export type {
   GradientStop,
   DataPoint,
   ChartState,
+  SparkScaleProviderProps,
+  SparkTableCellValue,
+  SparkTableColumn,
+  SparkTableColumnType,
+  SparkTableRow,
 } from '@shopify/polaris-viz-core';
 
 export {
@@ -94,9 +152,13 @@ export {
 } from './utilities';
 
 export {getTooltipContentRenderer} from './utilities/getTooltipContentRenderer';
+export {renderChartToStaticSVG} from './utilities/renderChartToStaticSVG';
+export type {StaticSVGOptions} from './utilities/renderChartToStaticSVG';
 
 export {
   useWatchActiveSeries,
   setActiveSeriesListener,
   setHiddenItems,
+  useChartExport,
 } from './hooks';
+export type {ChartExportOptions} from './hooks';
@@ -84,6 +84,26 @@ export const ANNOTATIONS_ARGS = {
   description: 'An array of annotations to show on the chart.',
 };
 
+export const REFERENCE_LINES_ARGS = {
+  description:
+    "Horizontal lines at a fixed value, or at the `'average'` or `'median'` of the data, each with an optional `label`, `color` and `strokeDasharray`.",
+};
+
+export const REFERENCE_BANDS_ARGS = {
+  description:
+    'Shaded ranges between `from` and `to`, each with an optional `label`, `color` and `strokeDasharray`.',
+};
+
+export const TRENDLINES_ARGS = {
+  description:
+    "Dashed series computed from the series at `seriesIndex`, either a `'linear'` regression or a `'movingAverage'` over `period` points. Trendlines get legend and tooltip entries marked as computed.",
+};
+
+export const HIDDEN_SERIES_ARGS = {
+  description:
+    'Indexes of the series hidden by clicking their legend items. Leave undefined to let the chart track them, or pair with `onHiddenSeriesChange` to control them.',
+};
+
 export const LEGEND_POSITION_ARGS = {
   description: 'Determines the position of the legend.',
   options: [
@@ -7,7 +7,7 @@ import type {
   LabelFormatter,
 } from '@shopify/polaris-viz-core';
 import type {Series, SeriesPoint} from 'd3-shape';
-import type {ScaleLinear} from 'd3-scale';
+import type {ScaleContinuousNumeric, ScaleLinear} from 'd3-scale';
 import type {TrendIndicatorProps} from 'components/TrendIndicator';
 
 export interface YAxisTick {
@@ -73,7 +73,14 @@ export interface RenderTooltipDataPoint {
   isComparison?: boolean;
   key: number | string;
   value: number | string | null;
+  isComputed?: boolean;
   isHidden?: boolean;
+  lower?: number | null;
+  upper?: number | null;
+  /**
+   * Percentage of the stack total, set by `stackedPercent` charts.
+   */
+  share?: number;
 }
 
 export interface TooltipFormatters {
@@ -102,6 +109,7 @@ export interface TooltipData {
     value: string;
     color?: Color;
     isComparison?: boolean;
+    isComputed?: boolean;
     isHidden?: boolean;
   }[];
   name?: string;
@@ -111,6 +119,33 @@ export interface TooltipOptions extends TooltipFormatters {
   renderTooltipContent?: (data: RenderTooltipContentData) => React.ReactNode;
 }
 
+export interface ZoomRange {
+  startKey: string | number;
+  endKey: string | number;
+}
+
+export interface ZoomOptions {
+  /**
+   * `brush` lets users drag over the chart to zoom in, `overview`
+   * adds a strip under the chart showing the full range of data.
+   */
+  type?: 'brush' | 'overview';
+  onZoomChange?: (range: ZoomRange) => void;
+  resetLabel?: string;
+}
+
+export interface DataPointClickEvent<T extends DataSeries = DataSeries> {
+  seriesIndex: number;
+  dataIndex: number;
+  key: string | number;
+  value: number | null;
+  series: T;
+}
+
+export type DataPointClickHandler<T extends DataSeries = DataSeries> = (
+  event: DataPointClickEvent<T>,
+) => void;
+
 export interface PreparedLabels {
   text: string;
   words: {word: string; wordWidth: number}[];
@@ -135,6 +170,7 @@ export interface LegendData {
   name: string;
   color: Color;
   isComparison?: boolean;
+  isComputed?: boolean;
   shape?: Shape;
   value?: string;
   trend?: MetaDataTrendIndicator;
@@ -159,6 +195,55 @@ export interface ComboAnnotation extends Omit<Annotation, 'axis'> {
   axis: 'x' | 'y1' | 'y2';
 }
 
+export type ReferenceLineValue = number | 'average' | 'median';
+
+export interface ReferenceLine {
+  value: ReferenceLineValue;
+  label?: string;
+  color?: string;
+  strokeDasharray?: string;
+  /**
+   * The series used to compute `average` and `median` values.
+   * Defaults to every series.
+   */
+  seriesIndex?: number;
+}
+
+export interface ReferenceBand {
+  from: number;
+  to: number;
+  label?: string;
+  color?: string;
+  strokeDasharray?: string;
+}
+
+export interface ComboReferenceLine extends ReferenceLine {
+  axis?: 'y1' | 'y2';
+}
+
+export interface ComboReferenceBand extends ReferenceBand {
+  axis?: 'y1' | 'y2';
+}
+
+export type TrendlineType = 'linear' | 'movingAverage';
+
+export interface Trendline {
+  /**
+   * Index of the series in `data` the trendline is computed from.
+   */
+  seriesIndex: number;
+  type: TrendlineType;
+  color?: Color;
+  /**
+   * Defaults to the source series name followed by the trendline type.
+   */
+  name?: string;
+  /**
+   * Number of points averaged by `movingAverage`. Defaults to `7`.
+   */
+  period?: number;
+}
+
 export interface AnnotationLookupTable {
   [key: number]: Annotation;
 }
@@ -222,6 +307,10 @@ export interface InnerValueContents {
     width: number;
     height: number;
   };
+  /**
+   * Name of the series a nested DonutChart is zoomed into.
+   */
+  focusedSeriesName?: string;
 }
 
 export type RenderInnerValueContent = (values: InnerValueContents) => ReactNode;
@@ -241,10 +330,16 @@ export interface ExternalEventReturn extends CustomEvent {
   };
 }
 
+export interface ExportingEventReturn extends CustomEvent {
+  detail: {
+    isExporting: boolean;
+  };
+}
+
 export interface LineChartSlotProps {
   drawableHeight: number;
   drawableWidth: number;
   xScale: ScaleLinear<number, number>;
-  yScale: ScaleLinear<number, number>;
+  yScale: ScaleContinuousNumeric<number, number>;
   theme: string;
 }
@@ -0,0 +1,78 @@
+import type {DataPoint, DataSeries} from '@shopify/polaris-viz-core';
+import {bisector} from 'd3-array';
+
+import type {Annotation} from '../types';
+
+import {getDateFromKey} from './getDateFromKey';
+
+interface TimeKey {
+  key: DataPoint['key'];
+  time: number;
+}
+
+const timeBisector = bisector(({time}: TimeKey) => time);
+
+// Annotation keys don't need to match the data keys exactly when
+// using a time axis, so we snap them to the closest data point.
+export function alignAnnotationsToTimeKeys(
+  annotations: Annotation[],
+  data: DataSeries[],
+): Annotation[] {
+  const longestSeries = data.reduce<DataSeries | null>(
+    (longest, series) =>
+      longest == null || series.data.length > longest.data.length
+        ? series
+        : longest,
+    null,
+  );
+
+  if (longestSeries == null) {
+    return annotations;
+  }
+
+  const timeKeys = longestSeries.data
+    .map(({key}) => ({key, time: getDateFromKey(key)?.getTime()}))
+    .filter((timeKey): timeKey is TimeKey => timeKey.time != null);
+
+  if (timeKeys.length === 0) {
+    return annotations;
+  }
+
+  const first = timeKeys[0].time;
+  const last = timeKeys[timeKeys.length - 1].time;
+
+  function getClosestKey(key?: DataPoint['key']) {
+    const time = getDateFromKey(key)?.getTime();
+
+    if (time == null || time < first || time > last) {
+      return null;
+    }
+
+    const index = timeBisector.center(timeKeys, time);
+
+    return timeKeys[index].key;
+  }
+
+  return annotations.reduce<Annotation[]>((aligned, annotation) => {
+    if (annotation.axis !== 'x') {
+      aligned.push(annotation);
+      return aligned;
+    }
+
+    const startKey = getClosestKey(annotation.startKey);
+
+    if (startKey == null) {
+      return aligned;
+    }
+
+    const endKey = getClosestKey(annotation.endKey);
+
+    aligned.push({
+      ...annotation,
+      startKey,
+      ...(endKey == null ? {} : {endKey}),
+    });
+
+    return aligned;
+  }, []);
+}
@@ -1,8 +1,11 @@
-import type {DataSeries} from '@shopify/polaris-viz-core';
+import type {DataPoint, DataSeries} from '@shopify/polaris-viz-core';
+
+import {getDateFromKey} from './getDateFromKey';
 
 export function fillMissingDataPoints(
   dataSeries: DataSeries[],
   isLinearData: boolean,
+  isTimeData = false,
 ) {
   if (isLinearData) {
     const areAnyComparison = dataSeries.some(
@@ -15,29 +18,59 @@ export function fillMissingDataPoints(
   }
 
   const allKeys = new Set<string>();
-  const dataValueMap: {[key: number]: {[key: string]: number | null}} = {};
+  const originalKeys: {[key: string]: DataPoint['key']} = {};
+  const dataValueMap: {[key: number]: {[key: string]: DataPoint}} = {};
   for (const [index, {data}] of dataSeries.entries()) {
-    for (const {key, value} of data) {
-      allKeys.add(`${key}`);
+    for (const dataPoint of data) {
+      const {key} = dataPoint;
+      const keyId = getKeyId(key, isTimeData);
+
+      if (keyId == null) {
+        continue;
+      }
+
+      allKeys.add(keyId);
+
+      if (originalKeys[keyId] == null) {
+        originalKeys[keyId] = key;
+      }
 
       if (dataValueMap[index] == null) {
         dataValueMap[index] = {};
       }
 
-      dataValueMap[index][key] = value;
+      dataValueMap[index][keyId] = dataPoint;
     }
   }
 
+  // Time keys are stored as timestamps so points from every
+  // series can be ordered chronologically.
+  const sortedKeys = isTimeData
+    ? [...allKeys].sort((first, second) => Number(first) - Number(second))
+    : [...allKeys];
+
   return dataSeries.map((series, index) => {
-    const newData = [...allKeys].map((key) => {
+    const newData = sortedKeys.map((key) => {
       const dataValue = dataValueMap[index];
+      const dataPoint = dataValue?.[key];
       const fillValue =
         series.fillValue !== undefined ? series.fillValue : null;
       return {
-        key,
-        value: dataValue == null ? null : dataValue[key] ?? fillValue,
+        ...dataPoint,
+        key: isTimeData ? originalKeys[key] : key,
+        value: dataValue == null ? null : dataPoint?.value ?? fillValue,
       };
     });
     return {...series, data: newData};
   });
 }
+
+function getKeyId(key: DataPoint['key'], isTimeData: boolean) {
+  if (!isTimeData) {
+    return `${key}`;
+  }
+
+  const date = getDateFromKey(key);
+
+  return date == null ? null : `${date.getTime()}`;
+}
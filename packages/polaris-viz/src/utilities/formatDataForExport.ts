@@ -0,0 +1,103 @@
+import {isDataGroupArray} from '@shopify/polaris-viz-core';
+import type {
+  DataGroup,
+  DataSeries,
+  LabelFormatter,
+} from '@shopify/polaris-viz-core';
+
+export interface ExportFormatters {
+  keyFormatter?: LabelFormatter;
+  valueFormatter?: LabelFormatter;
+}
+
+interface ExportSeries {
+  name: string;
+  series: DataSeries;
+  valueFormatter: LabelFormatter;
+}
+
+const DEFAULT_FORMATTER: LabelFormatter = (value) => `${value}`;
+
+function getExportSeries(
+  data: DataSeries[] | DataGroup[],
+  valueFormatter: LabelFormatter,
+): ExportSeries[] {
+  if (isDataGroupArray(data)) {
+    return data.flatMap((group) =>
+      group.series.map((series) => ({
+        name: series.name ?? '',
+        series,
+        valueFormatter: group.yAxisOptions?.labelFormatter ?? valueFormatter,
+      })),
+    );
+  }
+
+  return data.map((series) => ({
+    name: series.name ?? '',
+    series,
+    valueFormatter,
+  }));
+}
+
+function escapeCSVValue(value: string) {
+  if (/[",\n\r]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+
+  return value;
+}
+
+export function formatDataForCSV(
+  data: DataSeries[] | DataGroup[],
+  {
+    keyFormatter = DEFAULT_FORMATTER,
+    valueFormatter = DEFAULT_FORMATTER,
+  }: ExportFormatters = {},
+) {
+  const exportSeries = getExportSeries(data, valueFormatter);
+
+  const keys = [
+    ...new Set(
+      exportSeries.flatMap(({series}) => series.data.map(({key}) => key)),
+    ),
+  ];
+
+  const header = ['Key', ...exportSeries.map(({name}) => name)];
+
+  const rows = keys.map((key) => [
+    keyFormatter(key),
+    ...exportSeries.map(({series, valueFormatter}) => {
+      const value = series.data.find((point) => point.key === key)?.value;
+
+      return value == null ? '' : valueFormatter(value);
+    }),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCSVValue).join(','))
+    .join('\n');
+}
+
+export function formatDataForJSON(
+  data: DataSeries[] | DataGroup[],
+  {
+    keyFormatter = DEFAULT_FORMATTER,
+    valueFormatter = DEFAULT_FORMATTER,
+  }: ExportFormatters = {},
+) {
+  const exportSeries = getExportSeries(data, valueFormatter);
+
+  return JSON.stringify(
+    exportSeries.map(({name, series, valueFormatter}) => ({
+      name,
+      data: series.data.map(({key, value}) => ({
+        key,
+        value,
+        formattedKey: keyFormatter(key),
+        formattedValue: value == null ? null : valueFormatter(value),
+      })),
+    })),
+    null,
+    2,
+  );
+}
@@ -4,6 +4,8 @@ import type {
   TooltipOptions,
 } from '../types';
 
+import {formatPercentage} from './formatPercentage';
+
 interface Props {
   data: RenderTooltipContentData;
   tooltipOptions: TooltipOptions;
@@ -27,11 +29,14 @@ export function formatDataForTooltip({data, tooltipOptions}: Props): {
     });
     return {
       shape,
-      data: noNullData.map((values) => {
+      data: noNullData.map(({share, ...values}) => {
+        const value = valueFormatter(values.value);
+
         return {
           ...values,
           key: keyFormatter(values.key),
-          value: valueFormatter(values.value),
+          value:
+            share == null ? value : `${formatPercentage(share)} (${value})`,
         };
       }),
     };
@@ -0,0 +1,10 @@
+export function formatPercentage(value: number | string | null) {
+  const percentage = Number(value);
+
+  // Shares under 1% keep a decimal so they don't read as 0%.
+  if (percentage !== 0 && Math.abs(percentage) < 1) {
+    return `${percentage.toFixed(1)}%`;
+  }
+
+  return `${Math.round(percentage)}%`;
+}
@@ -0,0 +1,15 @@
+import {scaleTime} from 'd3-scale';
+
+import {getDateFromKey} from './getDateFromKey';
+
+export function formatTimeLabel(value: string | number | null) {
+  const date = getDateFromKey(value);
+
+  if (date == null) {
+    return `${value}`;
+  }
+
+  // Without a specifier, d3 picks a calendar-aware format
+  // for each date (e.g. "January", "Tue 05", "03 PM").
+  return scaleTime().tickFormat()(date);
+}
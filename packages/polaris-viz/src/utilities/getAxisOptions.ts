@@ -1,6 +1,8 @@
 import {removeFalsyValues} from '@shopify/polaris-viz-core';
 import type {XAxisOptions, YAxisOptions} from '@shopify/polaris-viz-core';
 
+import {formatTimeLabel} from './formatTimeLabel';
+
 export function getYAxisOptionsWithDefaults(
   yAxisOptions: Partial<YAxisOptions> = {},
 ): Required<YAxisOptions> {
@@ -11,6 +13,10 @@ export function getYAxisOptionsWithDefaults(
     integersOnly: false,
     fixedWidth: false,
     maxYOverride: null,
+    minYOverride: null,
+    domain: null,
+    includeZero: true,
+    scale: 'linear',
     ...yAxisOptionsFiltered,
   };
 }
@@ -21,9 +27,13 @@ export function getXAxisOptionsWithDefaults(
   const xAxisOptionsFiltered = removeFalsyValues(xAxisOptions);
 
   return {
-    labelFormatter: (value: number) => `${value}`,
+    labelFormatter:
+      xAxisOptions.type === 'time'
+        ? formatTimeLabel
+        : (value: number) => `${value}`,
     hide: false,
     allowLineWrap: true,
+    type: 'linear',
     ...xAxisOptionsFiltered,
   };
 }
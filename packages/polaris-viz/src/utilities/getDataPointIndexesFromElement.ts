@@ -0,0 +1,33 @@
+import {DataType} from '@shopify/polaris-viz-core';
+
+export interface DataPointIndexes {
+  seriesIndex: number;
+  dataIndex: number;
+}
+
+/**
+ * Bars use `data-index` for their series and sit inside a
+ * bar group whose `data-index` is the index of the data point.
+ * Elements without a group, like donut slices, use the first
+ * data point of their series.
+ */
+export function getDataPointIndexesFromElement(
+  element: Element | null,
+): DataPointIndexes | null {
+  const bar = element?.closest<HTMLElement | SVGElement>(
+    `[data-type="${DataType.Bar}"]`,
+  );
+
+  if (bar == null) {
+    return null;
+  }
+
+  const group = bar.parentElement?.closest<HTMLElement | SVGElement>(
+    `[data-type="${DataType.BarGroup}"]`,
+  );
+
+  return {
+    seriesIndex: Number(bar.dataset.index),
+    dataIndex: Number(group?.dataset.index ?? 0),
+  };
+}
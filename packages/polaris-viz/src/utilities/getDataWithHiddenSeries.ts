@@ -0,0 +1,24 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+// Hidden series keep their place so colors and legend entries
+// don't shift, but their values are nulled out so they drop out
+// of domains, stacks and tooltips and shapes animate to zero.
+export function getDataWithHiddenSeries<T extends DataSeries>(
+  data: T[],
+  hiddenSeries: number[],
+): T[] {
+  if (hiddenSeries.length === 0) {
+    return data;
+  }
+
+  return data.map((series, index) => {
+    if (!hiddenSeries.includes(index)) {
+      return series;
+    }
+
+    return {
+      ...series,
+      data: series.data.map(({key}) => ({key, value: null})),
+    };
+  });
+}
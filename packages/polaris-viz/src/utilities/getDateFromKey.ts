@@ -0,0 +1,22 @@
+import type {DataPoint} from '@shopify/polaris-viz-core';
+
+const NUMERIC_KEY_REGEX = /^-?\d+$/;
+
+export function getDateFromKey(key: DataPoint['key'] | null | undefined) {
+  if (key == null || key === '') {
+    return null;
+  }
+
+  // Keys are stringified when formatting labels, so timestamps
+  // can come through as numeric strings.
+  const value =
+    typeof key === 'string' && NUMERIC_KEY_REGEX.test(key) ? Number(key) : key;
+
+  const date = new Date(value);
+
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date;
+}
@@ -0,0 +1,92 @@
+const URL_PATTERN = /url\((['"]?)([^'")]+)\1\)/g;
+
+function getFontFamilies(element: Element) {
+  const families = new Set<string>();
+
+  [element, ...Array.from(element.querySelectorAll('*'))].forEach((child) => {
+    window
+      .getComputedStyle(child)
+      .getPropertyValue('font-family')
+      .split(',')
+      .forEach((family) => families.add(normalizeFamily(family)));
+  });
+
+  return families;
+}
+
+function normalizeFamily(family: string) {
+  return family.trim().replace(/^['"]|['"]$/g, '');
+}
+
+function getFontFaceRules() {
+  return Array.from(document.styleSheets).flatMap((sheet) => {
+    try {
+      return Array.from(sheet.cssRules)
+        .filter(
+          (rule): rule is CSSFontFaceRule =>
+            rule.type === CSSRule.FONT_FACE_RULE,
+        )
+        .map((rule) => ({rule, baseUrl: sheet.href ?? document.baseURI}));
+    } catch {
+      // Rules of cross-origin stylesheets can't be read.
+      return [];
+    }
+  });
+}
+
+function readAsDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function embedUrls(cssText: string, baseUrl: string) {
+  const urls = Array.from(cssText.matchAll(URL_PATTERN), ([match, , url]) => ({
+    match,
+    url,
+  }));
+
+  let embedded = cssText;
+
+  for (const {match, url} of urls) {
+    if (url.startsWith('data:')) {
+      continue;
+    }
+
+    try {
+      // Font URLs are relative to the stylesheet that declares them.
+      // eslint-disable-next-line node/no-unsupported-features/node-builtins
+      const response = await fetch(new URL(url, baseUrl).href);
+      const dataUrl = await readAsDataUrl(await response.blob());
+
+      embedded = embedded.replace(match, `url("${dataUrl}")`);
+    } catch {
+      // Fonts that can't be fetched are left to the fallback families.
+    }
+  }
+
+  return embedded;
+}
+
+/**
+ * Returns the `@font-face` rules for the fonts used by
+ * `element`, with their files inlined as data URLs so they
+ * still load once the SVG is drawn to a canvas.
+ */
+export async function getFontFaceCss(element: Element) {
+  const families = getFontFamilies(element);
+
+  const rules = getFontFaceRules().filter(({rule}) =>
+    families.has(normalizeFamily(rule.style.getPropertyValue('font-family'))),
+  );
+
+  const cssTexts = await Promise.all(
+    rules.map(({rule, baseUrl}) => embedUrls(rule.cssText, baseUrl)),
+  );
+
+  return cssTexts.join('\n');
+}
@@ -0,0 +1,40 @@
+interface Coordinate {
+  x: number;
+  y: number;
+}
+
+export interface LinearRegression {
+  slope: number;
+  intercept: number;
+}
+
+// Least squares fit of `y = slope * x + intercept`. Returns `null`
+// when there are fewer than two distinct x values to fit a line to.
+export function getLinearRegression(
+  coordinates: Coordinate[],
+): LinearRegression | null {
+  const count = coordinates.length;
+
+  if (count < 2) {
+    return null;
+  }
+
+  const meanX = coordinates.reduce((sum, {x}) => sum + x, 0) / count;
+  const meanY = coordinates.reduce((sum, {y}) => sum + y, 0) / count;
+
+  let covariance = 0;
+  let variance = 0;
+
+  coordinates.forEach(({x, y}) => {
+    covariance += (x - meanX) * (y - meanY);
+    variance += (x - meanX) ** 2;
+  });
+
+  if (variance === 0) {
+    return null;
+  }
+
+  const slope = covariance / variance;
+
+  return {slope, intercept: meanY - slope * meanX};
+}
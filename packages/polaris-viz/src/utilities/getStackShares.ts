@@ -0,0 +1,13 @@
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {PERCENT_STACK_TOTAL} from '../constants';
+
+// Percentage of the stack total each series makes up at `index`.
+export function getStackShares(data: DataSeries[], index: number) {
+  const values = data.map(({data}) => data[index]?.value ?? 0);
+  const total = values.reduce((sum, value) => sum + value, 0);
+
+  return values.map((value) =>
+    total === 0 ? 0 : (value / total) * PERCENT_STACK_TOTAL,
+  );
+}
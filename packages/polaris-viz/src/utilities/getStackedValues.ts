@@ -1,6 +1,9 @@
+import type {Series} from 'd3-shape';
 import {stack} from 'd3-shape';
 import type {DataSeries} from '@shopify/polaris-viz-core';
 
+import {PERCENT_STACK_TOTAL} from '../constants';
+
 function getKey(index: number, name?: string) {
   return `${name ?? 'stack'}-${index}`;
 }
@@ -31,3 +34,31 @@ export function getStackedValues({series, labels, order, offset}: Options) {
 
   return stackedValues(formattedData);
 }
+
+// Same as `stackOffsetExpand`, but scaled to 100 instead of 1 so
+// percentage stacks share the tick logic of regular stacks.
+export function stackOffsetPercent(
+  series: Series<{[key: string]: number}, string>[],
+  order: Iterable<number>,
+) {
+  const orderedIndexes = Array.from(order);
+
+  series[0]?.forEach((_, pointIndex) => {
+    const total = series.reduce(
+      (sum, points) => sum + (points[pointIndex][1] || 0),
+      0,
+    );
+
+    let baseline = 0;
+
+    orderedIndexes.forEach((seriesIndex) => {
+      const point = series[seriesIndex][pointIndex];
+      const share =
+        total === 0 ? 0 : ((point[1] || 0) / total) * PERCENT_STACK_TOTAL;
+
+      point[0] = baseline;
+      point[1] = baseline + share;
+      baseline = point[1];
+    });
+  });
+}
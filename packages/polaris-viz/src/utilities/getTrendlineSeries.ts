@@ -0,0 +1,102 @@
+import type {Color, DataPoint, DataSeries} from '@shopify/polaris-viz-core';
+
+import {DEFAULT_MOVING_AVERAGE_PERIOD, TRENDLINE_DASHARRAY} from '../constants';
+import type {Trendline} from '../types';
+
+import {getLinearRegression} from './getLinearRegression';
+
+interface GetTrendlineSeriesProps {
+  data: DataSeries[];
+  trendlines: Trendline[];
+  colors?: Color[];
+}
+
+export function getTrendlineSeries({
+  colors = [],
+  data,
+  trendlines,
+}: GetTrendlineSeriesProps): DataSeries[] {
+  return trendlines.reduce<DataSeries[]>((allSeries, trendline) => {
+    const {
+      seriesIndex,
+      type,
+      period = DEFAULT_MOVING_AVERAGE_PERIOD,
+    } = trendline;
+    const series = data[seriesIndex];
+
+    if (series == null) {
+      return allSeries;
+    }
+
+    const values =
+      type === 'linear'
+        ? getLinearTrendValues(series.data)
+        : getMovingAverageValues(series.data, period);
+
+    allSeries.push({
+      name: trendline.name ?? getTrendlineName(series, trendline),
+      color: trendline.color ?? series.color ?? colors[seriesIndex],
+      data: series.data.map(({key}, index) => ({key, value: values[index]})),
+      metadata: {isComputed: true, trendline},
+      styleOverride: {
+        line: {hasArea: false, strokeDasharray: TRENDLINE_DASHARRAY},
+        tooltip: {shape: 'Line'},
+      },
+      ...(series.yAxisId != null && {yAxisId: series.yAxisId}),
+    });
+
+    return allSeries;
+  }, []);
+}
+
+// The fitted line spans the range of non-null points so it
+// doesn't extend past where the source series has data.
+export function getLinearTrendValues(data: DataPoint[]) {
+  const coordinates = data.flatMap(({value}, index) =>
+    value == null ? [] : [{x: index, y: value}],
+  );
+  const regression = getLinearRegression(coordinates);
+
+  if (regression == null) {
+    return data.map(() => null);
+  }
+
+  const firstIndex = coordinates[0].x;
+  const lastIndex = coordinates[coordinates.length - 1].x;
+
+  return data.map((_, index) =>
+    index < firstIndex || index > lastIndex
+      ? null
+      : regression.slope * index + regression.intercept,
+  );
+}
+
+// Trailing average of the last `period` points. Nulls inside the
+// window are skipped, and the first `period - 1` points have no value.
+export function getMovingAverageValues(data: DataPoint[], period: number) {
+  const size = Math.max(1, Math.round(period));
+
+  return data.map((_, index) => {
+    if (index < size - 1) {
+      return null;
+    }
+
+    const values = data
+      .slice(index - size + 1, index + 1)
+      .flatMap(({value}) => (value == null ? [] : [value]));
+
+    if (values.length === 0) {
+      return null;
+    }
+
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  });
+}
+
+function getTrendlineName({name = ''}: DataSeries, {type, period}: Trendline) {
+  if (type === 'linear') {
+    return `${name} (linear trend)`;
+  }
+
+  return `${name} (${period ?? DEFAULT_MOVING_AVERAGE_PERIOD}-point average)`;
+}
@@ -9,8 +9,13 @@ export {getBarId} from './getBarId';
 export {formatDataIntoGroups} from './formatDataIntoGroups';
 export {formatDataForTooltip} from './formatDataForTooltip';
 export {fillMissingDataPoints} from './fillMissingDataPoints';
+export {getDateFromKey} from './getDateFromKey';
+export {formatTimeLabel} from './formatTimeLabel';
+export {formatPercentage} from './formatPercentage';
+export {alignAnnotationsToTimeKeys} from './alignAnnotationsToTimeKeys';
 export {getStackedMinMax} from './getStackedMinMax';
-export {getStackedValues} from './getStackedValues';
+export {getStackedValues, stackOffsetPercent} from './getStackedValues';
+export {getStackShares} from './getStackShares';
 export {pushGapToArray} from './pushGapToArray';
 export {getGapForIndex} from './getGapForIndex';
 export {
@@ -22,3 +27,14 @@ export {getContainerAlignmentForLegend} from './getContainerAlignmentForLegend';
 export {estimateStringWidthWithOffset} from './estimateStringWidthWithOffset';
 export {setSingleSeriesActive} from './setSingleSeriesActive';
 export {renderLinearTooltipContent} from './renderLinearTooltipContent';
+export {getDataPointIndexesFromElement} from './getDataPointIndexesFromElement';
+export type {DataPointIndexes} from './getDataPointIndexesFromElement';
+export {formatDataForCSV, formatDataForJSON} from './formatDataForExport';
+export type {ExportFormatters} from './formatDataForExport';
+export {rasterizeSvg} from './rasterizeSvg';
+export type {RasterizeOptions} from './rasterizeSvg';
+export {serializeSvg} from './serializeSvg';
+export {getLinearRegression} from './getLinearRegression';
+export type {LinearRegression} from './getLinearRegression';
+export {getTrendlineSeries} from './getTrendlineSeries';
+export {getDataWithHiddenSeries} from './getDataWithHiddenSeries';
@@ -0,0 +1,47 @@
+export interface RasterizeOptions {
+  scale?: number;
+}
+
+function loadImage(source: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Unable to load the chart SVG.'));
+    image.src = source;
+  });
+}
+
+export async function rasterizeSvg(
+  svg: string,
+  {width, height}: {width: number; height: number},
+  {scale = 2}: RasterizeOptions = {},
+) {
+  const image = await loadImage(
+    `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+  );
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+
+  const context = canvas.getContext('2d');
+
+  if (context == null) {
+    throw new Error('Unable to create a canvas to draw the chart.');
+  }
+
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, width, height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob == null) {
+        reject(new Error('Unable to convert the chart to PNG.'));
+        return;
+      }
+
+      resolve(blob);
+    }, 'image/png');
+  });
+}
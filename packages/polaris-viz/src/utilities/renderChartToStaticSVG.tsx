@@ -0,0 +1,142 @@
+import type {ComponentType, ReactNode} from 'react';
+import {useMemo} from 'react';
+import {renderToStaticMarkup} from 'react-dom/server';
+import {
+  createThemes,
+  DARK_THEME,
+  DEFAULT_THEME_NAME,
+  LIGHT_THEME,
+  PRINT_THEME,
+  XMLNS,
+} from '@shopify/polaris-viz-core';
+import type {PartialTheme} from '@shopify/polaris-viz-core';
+
+import {PolarisVizProvider, StaticChartContext} from '../components';
+
+export interface StaticSVGOptions {
+  width: number;
+  height: number;
+  theme?: string;
+  themes?: {[key: string]: PartialTheme};
+}
+
+interface StaticChartProps {
+  theme?: string;
+  isAnimated?: boolean;
+  showLegend?: boolean;
+}
+
+function StaticChart({
+  children,
+  height,
+  width,
+}: {
+  children: ReactNode;
+  height: number;
+  width: number;
+}) {
+  const value = useMemo(() => ({dimensions: {height, width}}), [height, width]);
+
+  return (
+    <StaticChartContext.Provider value={value}>
+      {children}
+    </StaticChartContext.Provider>
+  );
+}
+
+const SVG_TAG = /<(\/?)svg\b[^>]*>/g;
+const VIEW_BOX_ORIGIN = /viewBox="(-?[\d.]+) (-?[\d.]+)/;
+
+// Charts are wrapped in HTML containers and can render HTML
+// legends next to the chart, so only the first top level
+// <svg /> is returned.
+function getOuterSvg(markup: string) {
+  let depth = 0;
+  let start: number | null = null;
+
+  for (const match of markup.matchAll(SVG_TAG)) {
+    const [tag, closing] = match;
+    const index = match.index ?? 0;
+
+    if (closing) {
+      depth--;
+
+      if (depth === 0 && start != null) {
+        return markup.slice(start, index + tag.length);
+      }
+    } else {
+      if (depth === 0) {
+        start = index;
+      }
+
+      depth++;
+    }
+  }
+
+  return null;
+}
+
+// Renders a chart without a browser, for emails and reports generated on a
+// server. The chart is drawn at the given dimensions without animations and
+// text is measured with the bundled character widths.
+//
+// Legends are rendered as HTML, so they're hidden unless `showLegend` is set,
+// in which case the chart still leaves room for them.
+export function renderChartToStaticSVG<P extends StaticChartProps>(
+  Component: ComponentType<P>,
+  props: P,
+  {width, height, theme, themes}: StaticSVGOptions,
+) {
+  const themeName = theme ?? props.theme ?? DEFAULT_THEME_NAME;
+
+  const markup = renderToStaticMarkup(
+    <PolarisVizProvider themes={themes}>
+      <StaticChart height={height} width={width}>
+        <Component
+          showLegend={false}
+          {...props}
+          isAnimated={false}
+          theme={themeName}
+        />
+      </StaticChart>
+    </PolarisVizProvider>,
+  );
+
+  const svg = getOuterSvg(markup);
+
+  if (svg == null) {
+    throw new Error('The chart did not render an <svg /> element.');
+  }
+
+  const allThemes = createThemes({
+    Dark: DARK_THEME,
+    Light: LIGHT_THEME,
+    Print: PRINT_THEME,
+    ...themes,
+  });
+
+  // Charts fall back to the default theme when the theme
+  // isn't found, so the background does too.
+  const {chartContainer} = Object.prototype.hasOwnProperty.call(
+    allThemes,
+    themeName,
+  )
+    ? allThemes[themeName]
+    : allThemes[DEFAULT_THEME_NAME];
+
+  const openingTag = svg.slice(0, svg.indexOf('>') + 1);
+  const [, minX = '0', minY = '0'] = VIEW_BOX_ORIGIN.exec(openingTag) ?? [];
+
+  const attributes = [
+    openingTag.includes('xmlns=') ? '' : ` xmlns="${XMLNS}"`,
+    openingTag.includes(' width=') ? '' : ` width="${width}"`,
+    openingTag.includes(' height=') ? '' : ` height="${height}"`,
+  ].join('');
+
+  const background = `<rect x="${minX}" y="${minY}" width="100%" height="100%" fill="${chartContainer.backgroundColor}"></rect>`;
+
+  return `${openingTag.replace(
+    /^<svg/,
+    `<svg${attributes}`,
+  )}${background}${svg.slice(openingTag.length)}`;
+}
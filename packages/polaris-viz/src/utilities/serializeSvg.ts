@@ -0,0 +1,103 @@
+import {XMLNS} from '@shopify/polaris-viz-core';
+
+// Presentation properties that can be set from stylesheets
+// and would be lost once the SVG leaves the page.
+const INLINED_STYLE_PROPERTIES = [
+  'color',
+  'display',
+  'fill',
+  'fill-opacity',
+  'font-family',
+  'font-size',
+  'font-style',
+  'font-weight',
+  'letter-spacing',
+  'opacity',
+  'stroke',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'stroke-opacity',
+  'stroke-width',
+  'text-anchor',
+  'dominant-baseline',
+  'visibility',
+];
+
+interface Options {
+  backgroundColor?: string;
+  /**
+   * `@font-face` rules embedded in the SVG, see `getFontFaceCss()`.
+   */
+  fontFaceCss?: string;
+}
+
+function inlineStyles(source: Element, target: Element) {
+  const computed = window.getComputedStyle(source);
+
+  const style = INLINED_STYLE_PROPERTIES.reduce((styles, property) => {
+    const value = computed.getPropertyValue(property);
+
+    return value ? `${styles}${property}:${value};` : styles;
+  }, '');
+
+  const existingStyle = target.getAttribute('style') ?? '';
+
+  if (style || existingStyle) {
+    target.setAttribute('style', `${style}${existingStyle}`);
+  }
+
+  target.removeAttribute('class');
+
+  for (let index = 0; index < source.children.length; index++) {
+    inlineStyles(source.children[index], target.children[index]);
+  }
+}
+
+/**
+ * Serializes `svg` with its computed styles inlined. Content inside
+ * `<foreignObject />`, like HTML labels, is left out of the result.
+ */
+export function serializeSvg(
+  svg: SVGSVGElement,
+  {backgroundColor, fontFaceCss}: Options,
+) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+
+  inlineStyles(svg, clone);
+
+  // HTML inside <foreignObject /> isn't rendered
+  // when the SVG is drawn to a canvas.
+  clone
+    .querySelectorAll('foreignObject')
+    .forEach((element) => element.remove());
+
+  const {width, height} = svg.getBoundingClientRect();
+
+  clone.setAttribute('xmlns', XMLNS);
+  clone.setAttribute('width', `${width}`);
+  clone.setAttribute('height', `${height}`);
+
+  if (backgroundColor) {
+    const {x, y} = svg.viewBox?.baseVal ?? {x: 0, y: 0};
+    const background = document.createElementNS(XMLNS, 'rect');
+
+    background.setAttribute('x', `${x}`);
+    background.setAttribute('y', `${y}`);
+    background.setAttribute('width', '100%');
+    background.setAttribute('height', '100%');
+    background.setAttribute('fill', backgroundColor);
+
+    clone.insertBefore(background, clone.firstChild);
+  }
+
+  if (fontFaceCss) {
+    const style = document.createElementNS(XMLNS, 'style');
+
+    style.textContent = fontFaceCss;
+
+    clone.insertBefore(style, clone.firstChild);
+  }
+
+  return new XMLSerializer().serializeToString(clone);
+}
@@ -0,0 +1,72 @@
+import type {Annotation} from '../../types';
+import {alignAnnotationsToTimeKeys} from '../alignAnnotationsToTimeKeys';
+
+const DATA = [
+  {
+    name: 'Orders',
+    data: [
+      {key: '2020-04-01T00:00:00Z', value: 1},
+      {key: '2020-04-03T00:00:00Z', value: 2},
+      {key: '2020-04-10T00:00:00Z', value: 3},
+    ],
+  },
+];
+
+const ANNOTATION: Annotation = {
+  axis: 'x',
+  label: 'Sale',
+  startKey: '2020-04-03T00:00:00Z',
+};
+
+describe('alignAnnotationsToTimeKeys', () => {
+  it('uses the data key with the same time', () => {
+    const result = alignAnnotationsToTimeKeys(
+      [{...ANNOTATION, startKey: Date.UTC(2020, 3, 3)}],
+      DATA,
+    );
+
+    expect(result).toStrictEqual([ANNOTATION]);
+  });
+
+  it('snaps startKey and endKey to the closest data key', () => {
+    const result = alignAnnotationsToTimeKeys(
+      [
+        {
+          ...ANNOTATION,
+          startKey: '2020-04-02T13:00:00Z',
+          endKey: '2020-04-08T00:00:00Z',
+        },
+      ],
+      DATA,
+    );
+
+    expect(result).toStrictEqual([
+      {
+        ...ANNOTATION,
+        startKey: '2020-04-03T00:00:00Z',
+        endKey: '2020-04-10T00:00:00Z',
+      },
+    ]);
+  });
+
+  it('removes x axis annotations outside of the data range', () => {
+    const result = alignAnnotationsToTimeKeys(
+      [{...ANNOTATION, startKey: '2020-05-01T00:00:00Z'}],
+      DATA,
+    );
+
+    expect(result).toStrictEqual([]);
+  });
+
+  it('leaves y axis annotations untouched', () => {
+    const yAxisAnnotation: Annotation = {
+      axis: 'y',
+      label: 'Goal',
+      startKey: 2,
+    };
+
+    const result = alignAnnotationsToTimeKeys([yAxisAnnotation], DATA);
+
+    expect(result).toStrictEqual([yAxisAnnotation]);
+  });
+});
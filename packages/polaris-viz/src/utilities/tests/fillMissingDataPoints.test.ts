@@ -137,6 +137,26 @@ describe('fillMissingDataPoints', () => {
     );
   });
 
+  it('keeps lower and upper bounds on existing data points', () => {
+    const mockData = [
+      {
+        name: 'Forecast',
+        data: [{key: 'Mice', value: 10, lower: 8, upper: 12}],
+      },
+      {
+        name: 'Actual',
+        data: [{key: 'Dogs', value: 4}],
+      },
+    ];
+
+    const [forecast] = fillMissingDataPoints(mockData, false);
+
+    expect(forecast.data).toStrictEqual([
+      {key: 'Mice', value: 10, lower: 8, upper: 12},
+      {key: 'Dogs', value: null},
+    ]);
+  });
+
   it('fills data with provided fill value when defined on series', () => {
     const mockData = [
       {
@@ -525,4 +545,81 @@ describe('fillMissingDataPoints', () => {
       ]);
     });
   });
+
+  describe('isTimeData', () => {
+    it('orders keys from all series chronologically', () => {
+      const mockData = [
+        {
+          name: 'Orders',
+          data: [
+            {key: '2020-04-01T00:00:00Z', value: 1},
+            {key: '2020-04-05T00:00:00Z', value: 5},
+          ],
+        },
+        {
+          name: 'Returns',
+          data: [
+            {key: '2020-04-03T00:00:00Z', value: 3},
+            {key: '2020-04-01T00:00:00Z', value: 2},
+          ],
+        },
+      ];
+
+      const result = fillMissingDataPoints(mockData, true, true);
+
+      expect(result).toStrictEqual([
+        {
+          name: 'Orders',
+          data: [
+            {key: '2020-04-01T00:00:00Z', value: 1},
+            {key: '2020-04-03T00:00:00Z', value: null},
+            {key: '2020-04-05T00:00:00Z', value: 5},
+          ],
+        },
+        {
+          name: 'Returns',
+          data: [
+            {key: '2020-04-01T00:00:00Z', value: 2},
+            {key: '2020-04-03T00:00:00Z', value: 3},
+            {key: '2020-04-05T00:00:00Z', value: null},
+          ],
+        },
+      ]);
+    });
+
+    it('matches keys that represent the same time', () => {
+      const time = Date.UTC(2020, 3, 1);
+
+      const mockData = [
+        {name: 'Orders', data: [{key: time, value: 1}]},
+        {
+          name: 'Returns',
+          data: [{key: new Date(time).toISOString(), value: 2}],
+        },
+      ];
+
+      const result = fillMissingDataPoints(mockData, true, true);
+
+      expect(result[0].data).toStrictEqual([{key: time, value: 1}]);
+      expect(result[1].data).toStrictEqual([{key: time, value: 2}]);
+    });
+
+    it('ignores keys that are not dates', () => {
+      const mockData = [
+        {
+          name: 'Orders',
+          data: [
+            {key: 'Not a date', value: 1},
+            {key: '2020-04-01T00:00:00Z', value: 2},
+          ],
+        },
+      ];
+
+      const result = fillMissingDataPoints(mockData, true, true);
+
+      expect(result[0].data).toStrictEqual([
+        {key: '2020-04-01T00:00:00Z', value: 2},
+      ]);
+    });
+  });
 });
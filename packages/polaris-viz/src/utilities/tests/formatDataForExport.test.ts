@@ -0,0 +1,104 @@
+import type {DataGroup, DataSeries} from '@shopify/polaris-viz-core';
+
+import {formatDataForCSV, formatDataForJSON} from '../formatDataForExport';
+
+const DATA: DataSeries[] = [
+  {
+    name: 'Breakfast',
+    data: [
+      {key: 'Monday', value: 3},
+      {key: 'Tuesday', value: 7},
+    ],
+  },
+  {
+    name: 'Lunch, dinner',
+    data: [
+      {key: 'Monday', value: 4},
+      {key: 'Tuesday', value: null},
+      {key: 'Wednesday', value: 1},
+    ],
+  },
+];
+
+const FORMATTERS = {
+  keyFormatter: (value) => `${value}`.slice(0, 3),
+  valueFormatter: (value) => `$${value}`,
+};
+
+describe('formatDataForExport', () => {
+  describe('formatDataForCSV()', () => {
+    it('returns a row for each key and a column for each series', () => {
+      expect(formatDataForCSV(DATA)).toStrictEqual(
+        [
+          'Key,Breakfast,"Lunch, dinner"',
+          'Monday,3,4',
+          'Tuesday,7,',
+          'Wednesday,,1',
+        ].join('\n'),
+      );
+    });
+
+    it('formats keys and values', () => {
+      expect(formatDataForCSV(DATA, FORMATTERS)).toStrictEqual(
+        [
+          'Key,Breakfast,"Lunch, dinner"',
+          'Mon,$3,$4',
+          'Tue,$7,',
+          'Wed,,$1',
+        ].join('\n'),
+      );
+    });
+
+    it('uses the formatter of each data group', () => {
+      const groups: DataGroup[] = [
+        {shape: 'Bar', series: [DATA[0]]},
+        {
+          shape: 'Line',
+          series: [{name: 'Rate', data: [{key: 'Monday', value: 0.5}]}],
+          yAxisOptions: {labelFormatter: (value) => `${Number(value) * 100}%`},
+        },
+      ];
+
+      expect(formatDataForCSV(groups, FORMATTERS)).toStrictEqual(
+        ['Key,Breakfast,Rate', 'Mon,$3,50%', 'Tue,$7,'].join('\n'),
+      );
+    });
+  });
+
+  describe('formatDataForJSON()', () => {
+    it('returns raw and formatted values for each series', () => {
+      expect(
+        JSON.parse(formatDataForJSON([DATA[0]], FORMATTERS)),
+      ).toStrictEqual([
+        {
+          name: 'Breakfast',
+          data: [
+            {
+              key: 'Monday',
+              value: 3,
+              formattedKey: 'Mon',
+              formattedValue: '$3',
+            },
+            {
+              key: 'Tuesday',
+              value: 7,
+              formattedKey: 'Tue',
+              formattedValue: '$7',
+            },
+          ],
+        },
+      ]);
+    });
+
+    it('keeps null values', () => {
+      const [, lunch] = JSON.parse(formatDataForJSON(DATA));
+
+      expect(lunch.data[1]).toStrictEqual({
+        key: 'Tuesday',
+        value: null,
+        formattedKey: 'Tuesday',
+        formattedValue: null,
+      });
+    });
+  });
+});
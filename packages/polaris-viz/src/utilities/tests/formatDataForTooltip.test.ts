@@ -50,4 +50,27 @@ describe('get-axis-options', () => {
       title: undefined,
     });
   });
+
+  it('shows the share next to the value when provided', () => {
+    const {formattedData} = formatDataForTooltip({
+      data: {
+        ...DATA,
+        data: [
+          {
+            shape: 'Bar',
+            data: [
+              {key: 'one', value: 1200, share: 40.4},
+              {key: 'two', value: 1800},
+            ],
+          },
+        ],
+      },
+      tooltipOptions: {valueFormatter: (value) => `$${value}`},
+    });
+
+    expect(formattedData[0].data).toStrictEqual([
+      {key: 'one', value: '40% ($1200)'},
+      {key: 'two', value: '$1800'},
+    ]);
+  });
 });
@@ -0,0 +1,16 @@
+import {formatPercentage} from '../formatPercentage';
+
+describe('formatPercentage()', () => {
+  it('rounds to whole percents', () => {
+    expect(formatPercentage(40.4)).toStrictEqual('40%');
+    expect(formatPercentage('12.6')).toStrictEqual('13%');
+  });
+
+  it('keeps a decimal for shares under 1%', () => {
+    expect(formatPercentage(0.4)).toStrictEqual('0.4%');
+  });
+
+  it('formats zero without a decimal', () => {
+    expect(formatPercentage(0)).toStrictEqual('0%');
+  });
+});
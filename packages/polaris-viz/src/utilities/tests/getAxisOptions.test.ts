@@ -50,6 +50,20 @@ describe('get-axis-options', () => {
 
       expect(yAxisOptions.maxYOverride).toBe(maxYOverridden);
     });
+
+    it('defaults scale to linear', () => {
+      const yAxisOptions = getYAxisOptionsWithDefaults();
+
+      expect(yAxisOptions.scale).toStrictEqual('linear');
+    });
+
+    it('includes zero without a custom domain by default', () => {
+      const yAxisOptions = getYAxisOptionsWithDefaults();
+
+      expect(yAxisOptions.includeZero).toStrictEqual(true);
+      expect(yAxisOptions.minYOverride).toBeNull();
+      expect(yAxisOptions.domain).toBeNull();
+    });
   });
 
   describe('getXAxisOptionsWithDefaults()', () => {
@@ -86,5 +100,28 @@ describe('get-axis-options', () => {
       expect(xAxisOptions.hide).toStrictEqual(true);
       expect(xAxisOptions.labelFormatter('foo')).toBe('foo bar');
     });
+
+    it('defaults type to linear', () => {
+      const xAxisOptions = getXAxisOptionsWithDefaults();
+
+      expect(xAxisOptions.type).toStrictEqual('linear');
+    });
+
+    it('uses a date formatter by default when type is time', () => {
+      const xAxisOptions = getXAxisOptionsWithDefaults({type: 'time'});
+
+      expect(xAxisOptions.labelFormatter(new Date(2020, 3, 1).getTime())).toBe(
+        'April',
+      );
+    });
+
+    it('keeps the provided labelFormatter when type is time', () => {
+      const xAxisOptions = getXAxisOptionsWithDefaults({
+        type: 'time',
+        labelFormatter: (value) => `${value} bar`,
+      });
+
+      expect(xAxisOptions.labelFormatter('foo')).toBe('foo bar');
+    });
   });
 });
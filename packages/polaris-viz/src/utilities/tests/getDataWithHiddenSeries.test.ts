@@ -0,0 +1,50 @@
+import {getDataWithHiddenSeries} from '../getDataWithHiddenSeries';
+
+const DATA = [
+  {
+    name: 'Sales',
+    color: 'red',
+    data: [
+      {key: 'Mon', value: 1},
+      {key: 'Tue', value: 2},
+    ],
+  },
+  {
+    name: 'Returns',
+    color: 'blue',
+    data: [
+      {key: 'Mon', value: 3},
+      {key: 'Tue', value: 4},
+    ],
+  },
+];
+
+describe('getDataWithHiddenSeries()', () => {
+  it('returns the data untouched when nothing is hidden', () => {
+    expect(getDataWithHiddenSeries(DATA, [])).toBe(DATA);
+  });
+
+  it('nulls the values of hidden series', () => {
+    const result = getDataWithHiddenSeries(DATA, [1]);
+
+    expect(result[1]).toStrictEqual({
+      name: 'Returns',
+      color: 'blue',
+      data: [
+        {key: 'Mon', value: null},
+        {key: 'Tue', value: null},
+      ],
+    });
+  });
+
+  it('keeps visible series in place', () => {
+    const result = getDataWithHiddenSeries(DATA, [1]);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toBe(DATA[0]);
+  });
+
+  it('ignores indexes outside of the data', () => {
+    expect(getDataWithHiddenSeries(DATA, [-1, 5])).toStrictEqual(DATA);
+  });
+});
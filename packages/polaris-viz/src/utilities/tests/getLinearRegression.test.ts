@@ -0,0 +1,38 @@
+import {getLinearRegression} from '../getLinearRegression';
+
+describe('getLinearRegression()', () => {
+  it('returns the slope and intercept of the line of best fit', () => {
+    expect(
+      getLinearRegression([
+        {x: 1, y: 3},
+        {x: 2, y: 5},
+        {x: 3, y: 7},
+      ]),
+    ).toStrictEqual({slope: 2, intercept: 1});
+  });
+
+  it('fits a line through scattered points', () => {
+    const regression = getLinearRegression([
+      {x: 0, y: 1},
+      {x: 1, y: 3},
+      {x: 2, y: 2},
+      {x: 3, y: 5},
+    ]);
+
+    expect(regression!.slope).toBeCloseTo(1.1);
+    expect(regression!.intercept).toBeCloseTo(1.1);
+  });
+
+  it('returns null with fewer than two points', () => {
+    expect(getLinearRegression([{x: 1, y: 1}])).toBeNull();
+  });
+
+  it('returns null when all points share the same x value', () => {
+    expect(
+      getLinearRegression([
+        {x: 2, y: 1},
+        {x: 2, y: 4},
+      ]),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,28 @@
+import {getStackShares} from '../getStackShares';
+
+const DATA = [
+  {
+    name: 'Online',
+    data: [
+      {key: 'Jan', value: 30},
+      {key: 'Feb', value: 0},
+    ],
+  },
+  {
+    name: 'Retail',
+    data: [
+      {key: 'Jan', value: 10},
+      {key: 'Feb', value: null},
+    ],
+  },
+];
+
+describe('getStackShares()', () => {
+  it('returns the percentage of the stack total for each series', () => {
+    expect(getStackShares(DATA, 0)).toStrictEqual([75, 25]);
+  });
+
+  it('returns zero shares when the stack total is zero', () => {
+    expect(getStackShares(DATA, 1)).toStrictEqual([0, 0]);
+  });
+});
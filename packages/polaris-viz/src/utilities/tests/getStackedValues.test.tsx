@@ -1,7 +1,8 @@
+import type {Series} from 'd3-shape';
 import {stack, stackOffsetNone, stackOrderReverse} from 'd3-shape';
 import type {DataSeries} from '@shopify/polaris-viz-core';
 
-import {getStackedValues} from '../getStackedValues';
+import {getStackedValues, stackOffsetPercent} from '../getStackedValues';
 
 const mockData: DataSeries[] = [
   {
@@ -109,3 +110,31 @@ describe('get-stacked-values', () => {
     expect(keySpy).toHaveBeenCalledTimes(1);
   });
 });
+
+describe('stackOffsetPercent()', () => {
+  function getSeries(values: number[]) {
+    return values.map((value) => [0, value]) as unknown as Series<
+      {[key: string]: number},
+      string
+    >;
+  }
+
+  it('stacks each point as a share of 100 in the given order', () => {
+    const series = [getSeries([30, 0]), getSeries([10, 0])];
+
+    stackOffsetPercent(series, [1, 0]);
+
+    expect(
+      series.map((points) => points.map(([y0, y1]) => [y0, y1])),
+    ).toStrictEqual([
+      [
+        [25, 100],
+        [0, 0],
+      ],
+      [
+        [0, 25],
+        [0, 0],
+      ],
+    ]);
+  });
+});
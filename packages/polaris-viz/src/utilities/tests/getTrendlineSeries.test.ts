@@ -0,0 +1,134 @@
+import {TRENDLINE_DASHARRAY} from '../../constants';
+import {
+  getLinearTrendValues,
+  getMovingAverageValues,
+  getTrendlineSeries,
+} from '../getTrendlineSeries';
+
+const DATA = [
+  {
+    name: 'Sales',
+    color: 'red',
+    data: [
+      {key: 'Mon', value: 1},
+      {key: 'Tue', value: 3},
+      {key: 'Wed', value: 5},
+      {key: 'Thu', value: 7},
+    ],
+  },
+];
+
+describe('getLinearTrendValues()', () => {
+  it('returns the fitted value at each index', () => {
+    expect(getLinearTrendValues(DATA[0].data)).toStrictEqual([1, 3, 5, 7]);
+  });
+
+  it('returns null outside of the range of non-null points', () => {
+    expect(
+      getLinearTrendValues([
+        {key: 0, value: null},
+        {key: 1, value: 2},
+        {key: 2, value: 4},
+        {key: 3, value: null},
+      ]),
+    ).toStrictEqual([null, 2, 4, null]);
+  });
+
+  it('returns nulls when a line cannot be fitted', () => {
+    expect(getLinearTrendValues([{key: 0, value: 2}])).toStrictEqual([null]);
+  });
+});
+
+describe('getMovingAverageValues()', () => {
+  it('averages the trailing period', () => {
+    expect(getMovingAverageValues(DATA[0].data, 2)).toStrictEqual([
+      null,
+      2,
+      4,
+      6,
+    ]);
+  });
+
+  it('skips nulls inside the window', () => {
+    expect(
+      getMovingAverageValues(
+        [
+          {key: 0, value: 2},
+          {key: 1, value: null},
+          {key: 2, value: 4},
+        ],
+        2,
+      ),
+    ).toStrictEqual([null, 2, 4]);
+  });
+});
+
+describe('getTrendlineSeries()', () => {
+  it('returns a dashed computed series for each trendline', () => {
+    const [series] = getTrendlineSeries({
+      data: DATA,
+      trendlines: [{seriesIndex: 0, type: 'movingAverage', period: 2}],
+    });
+
+    expect(series).toStrictEqual({
+      name: 'Sales (2-point average)',
+      color: 'red',
+      data: [
+        {key: 'Mon', value: null},
+        {key: 'Tue', value: 2},
+        {key: 'Wed', value: 4},
+        {key: 'Thu', value: 6},
+      ],
+      metadata: {
+        isComputed: true,
+        trendline: {seriesIndex: 0, type: 'movingAverage', period: 2},
+      },
+      styleOverride: {
+        line: {hasArea: false, strokeDasharray: TRENDLINE_DASHARRAY},
+        tooltip: {shape: 'Line'},
+      },
+    });
+  });
+
+  it('uses the provided name and color', () => {
+    const [series] = getTrendlineSeries({
+      data: DATA,
+      trendlines: [
+        {seriesIndex: 0, type: 'linear', name: 'Trend', color: 'blue'},
+      ],
+    });
+
+    expect(series).toMatchObject({name: 'Trend', color: 'blue'});
+  });
+
+  it('falls back to the color of the source series index', () => {
+    const [series] = getTrendlineSeries({
+      colors: ['green'],
+      data: [{name: 'Sales', data: DATA[0].data}],
+      trendlines: [{seriesIndex: 0, type: 'linear'}],
+    });
+
+    expect(series).toMatchObject({
+      name: 'Sales (linear trend)',
+      color: 'green',
+    });
+  });
+
+  it('plots trendlines against the axis of their source series', () => {
+    const [series] = getTrendlineSeries({
+      data: [{name: 'Sales', data: DATA[0].data, yAxisId: 'right'}],
+      trendlines: [{seriesIndex: 0, type: 'linear'}],
+    });
+
+    expect(series.yAxisId).toStrictEqual('right');
+  });
+
+  it('skips trendlines for series that do not exist', () => {
+    expect(
+      getTrendlineSeries({
+        data: DATA,
+        trendlines: [{seriesIndex: 3, type: 'linear'}],
+      }),
+    ).toStrictEqual([]);
+  });
+});
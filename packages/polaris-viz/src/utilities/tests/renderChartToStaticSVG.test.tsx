@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import {DARK_THEME, LIGHT_THEME} from '@shopify/polaris-viz-core';
+import type {DataSeries} from '@shopify/polaris-viz-core';
+
+import {renderChartToStaticSVG} from '../renderChartToStaticSVG';
+import {BarChart, DonutChart, LineChart} from '../../components';
+
+jest.unmock('../../components/ChartContainer');
+
+const DATA: DataSeries[] = [
+  {
+    name: 'Breakfast',
+    data: [
+      {key: 'Monday', value: 3},
+      {key: 'Tuesday', value: 7},
+    ],
+  },
+];
+
+const OPTIONS = {width: 400, height: 300};
+
+describe('renderChartToStaticSVG()', () => {
+  it('renders a chart without a browser', () => {
+    expect(typeof document).toBe('undefined');
+
+    const svg = renderChartToStaticSVG(LineChart, {data: DATA}, OPTIONS);
+
+    expect(svg).toMatch(/^<svg[^>]* width="400" height="300"/);
+    expect(svg).toContain('xmlns="http://www.w3.org/2000/svg"');
+    expect(svg).toContain('Monday');
+    expect(svg).toMatch(/<\/svg>$/);
+  });
+
+  it('does not include the HTML around the chart', () => {
+    const svg = renderChartToStaticSVG(BarChart, {data: DATA}, OPTIONS);
+
+    expect(svg).not.toContain('<div');
+  });
+
+  it('adds a background using the theme', () => {
+    const svg = renderChartToStaticSVG(
+      BarChart,
+      {data: DATA},
+      {
+        ...OPTIONS,
+        theme: 'Dark',
+      },
+    );
+
+    expect(svg).toContain(
+      `<rect x="0" y="0" width="100%" height="100%" fill="${DARK_THEME.chartContainer.backgroundColor}">`,
+    );
+  });
+
+  it('uses custom themes', () => {
+    const svg = renderChartToStaticSVG(
+      BarChart,
+      {data: DATA},
+      {
+        ...OPTIONS,
+        theme: 'Report',
+        themes: {Report: {chartContainer: {backgroundColor: 'tomato'}}},
+      },
+    );
+
+    expect(svg).toContain('fill="tomato"');
+  });
+
+  it('falls back to the default theme when the theme is not found', () => {
+    const svg = renderChartToStaticSVG(
+      BarChart,
+      {data: DATA},
+      {
+        ...OPTIONS,
+        theme: 'Missing',
+      },
+    );
+
+    expect(svg).toContain(
+      `fill="${LIGHT_THEME.chartContainer.backgroundColor}"`,
+    );
+  });
+
+  it('places the background at the origin of the viewBox', () => {
+    const svg = renderChartToStaticSVG(
+      DonutChart,
+      {
+        data: [
+          {name: 'Breakfast', data: [{key: 'Monday', value: 3}]},
+          {name: 'Lunch', data: [{key: 'Monday', value: 7}]},
+        ],
+      },
+      OPTIONS,
+    );
+
+    expect(svg).toContain('<rect x="-40" y="-40"');
+  });
+
+  it('throws when nothing is rendered', () => {
+    expect(() => renderChartToStaticSVG(() => null, {}, OPTIONS)).toThrow(
+      'The chart did not render an <svg /> element.',
+    );
+  });
+});
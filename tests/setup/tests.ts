@@ -16,6 +16,15 @@ jest.mock('../../packages/polaris-viz/src/components/ChartContainer', () => {
           height: 400,
         },
       }),
+    SharedChartContext: jest.requireActual(
+      '../../packages/polaris-viz/src/components/ChartContainer/SharedChartContext',
+    ).SharedChartContext,
+    StaticChartContext: jest.requireActual(
+      '../../packages/polaris-viz/src/components/ChartContainer/StaticChartContext',
+    ).StaticChartContext,
+    FixedDimensionsContext: jest.requireActual(
+      '../../packages/polaris-viz/src/components/ChartContainer/FixedDimensionsContext',
+    ).FixedDimensionsContext,
   };
 });
 